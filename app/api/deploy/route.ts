@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Octokit } from '@octokit/rest';
 import { createClient } from '@supabase/supabase-js';
+import { getBaseFiles } from '@/lib/code-generation';
 
 // Inizializza Supabase client
 function getSupabaseClient() {
@@ -32,181 +33,6 @@ function getGitHubClient() {
   });
 }
 
-// Crea file base necessari per Next.js
-function getBaseFiles() {
-  return {
-    'package.json': JSON.stringify({
-      name: 'erp-generated-app',
-      version: '0.1.0',
-      private: true,
-      scripts: {
-        dev: 'next dev',
-        build: 'next build',
-        start: 'next start',
-        lint: 'eslint',
-      },
-      dependencies: {
-        next: '16.1.1',
-        react: '19.2.3',
-        'react-dom': '19.2.3',
-        '@supabase/supabase-js': '^2.89.0',
-        'framer-motion': '^12.23.26',
-      },
-      devDependencies: {
-        '@tailwindcss/postcss': '^4',
-        '@types/node': '^20',
-        '@types/react': '^19',
-        '@types/react-dom': '^19',
-        'eslint': '^9',
-        'eslint-config-next': '16.1.1',
-        'tailwindcss': '^4',
-        'typescript': '^5',
-      },
-    }, null, 2),
-    'tsconfig.json': JSON.stringify({
-      compilerOptions: {
-        target: 'ES2017',
-        lib: ['dom', 'dom.iterable', 'esnext'],
-        allowJs: true,
-        skipLibCheck: true,
-        strict: true,
-        noEmit: true,
-        esModuleInterop: true,
-        module: 'esnext',
-        moduleResolution: 'bundler',
-        resolveJsonModule: true,
-        isolatedModules: true,
-        jsx: 'react-jsx',
-        incremental: true,
-        plugins: [{ name: 'next' }],
-        paths: {
-          '@/*': ['./*'],
-        },
-      },
-      include: ['next-env.d.ts', '**/*.ts', '**/*.tsx', '.next/types/**/*.ts'],
-      exclude: ['node_modules'],
-    }, null, 2),
-    'next.config.ts': `import type { NextConfig } from "next";
-
-const nextConfig: NextConfig = {
-  /* config options here */
-};
-
-export default nextConfig;`,
-    'tailwind.config.ts': `import type { Config } from "tailwindcss";
-
-const config: Config = {
-  content: [
-    "./pages/**/*.{js,ts,jsx,tsx,mdx}",
-    "./components/**/*.{js,ts,jsx,tsx,mdx}",
-    "./app/**/*.{js,ts,jsx,tsx,mdx}",
-  ],
-  theme: {
-    extend: {},
-  },
-  plugins: [],
-};
-export default config;`,
-    'postcss.config.mjs': `/** @type {import('postcss-load-config').Config} */
-const config = {
-  plugins: {
-    tailwindcss: {},
-  },
-};
-
-export default config;`,
-    '.gitignore': `# See https://help.github.com/articles/ignoring-files/ for more about ignoring files.
-
-# dependencies
-/node_modules
-/.pnp
-.pnp.*
-
-# testing
-/coverage
-
-# next.js
-/.next/
-/out/
-
-# production
-/build
-
-# misc
-.DS_Store
-*.pem
-
-# debug
-npm-debug.log*
-yarn-debug.log*
-yarn-error.log*
-
-# env files
-.env*
-.env.local
-.env.development.local
-.env.test.local
-.env.production.local
-
-# vercel
-.vercel
-
-# typescript
-*.tsbuildinfo
-next-env.d.ts`,
-    'README.md': `# ERP Generated App
-
-This application was generated using ERP Builder AI.
-
-## Getting Started
-
-\`\`\`bash
-npm install
-npm run dev
-\`\`\`
-
-Open [http://localhost:3000](http://localhost:3000) with your browser to see the result.`,
-    'app/globals.css': `@tailwind base;
-@tailwind components;
-@tailwind utilities;`,
-    'app/layout.tsx': `import type { Metadata } from "next";
-import { Geist, Geist_Mono } from "next/font/google";
-import "./globals.css";
-
-const geistSans = Geist({
-  variable: "--font-geist-sans",
-  subsets: ["latin"],
-});
-
-const geistMono = Geist_Mono({
-  variable: "--font-geist-mono",
-  subsets: ["latin"],
-});
-
-export const metadata: Metadata = {
-  title: "ERP Generated App",
-  description: "Generated by ERP Builder AI",
-};
-
-export default function RootLayout({
-  children,
-}: Readonly<{
-  children: React.ReactNode;
-}>) {
-  return (
-    <html lang="it">
-      <body
-        className={\`\${geistSans.variable} \${geistMono.variable} antialiased\`}
-      >
-        {children}
-      </body>
-    </html>
-  );
-}`,
-  };
-}
-
-
 export async function POST(request: NextRequest) {
   try {
     console.log('[DEPLOY] Inizio richiesta deploy');
@@ -294,7 +120,7 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Prepara tutti i file (base + generati)
+    // Prepara tutti i file (base dal profilo di stack di default + generati)
     console.log('[DEPLOY] Preparazione file...');
     const baseFiles = getBaseFiles();
     const allFiles = { ...baseFiles, ...appData.files };
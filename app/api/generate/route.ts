@@ -1,9 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
 import { createClient } from '@supabase/supabase-js';
 import { randomUUID } from 'crypto';
-import { parseClaudeResponse, validateAndFixCode, getBaseFiles, getSafeTemplate } from '@/lib/code-generation';
+import { validateAndFixCode, getBaseFiles, getSafeTemplate } from '@/lib/code-generation';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, getCatalogPath, getI18nContextFiles, getI18nPromptInstructions, isSupportedLocale, withI18nFiles } from '@/lib/locale';
+import { FORCE_TOOL_USE, GENERATION_TOOLS, parseStructuredResponse } from '@/lib/structured-output';
+import { applyDependencyUpdate, getDependencyPromptInstructions } from '@/lib/dependency-policy';
 import { createAndPushGitHubRepo, createVercelDeployment, getGitHubClient, withRetry } from '@/lib/github-deploy';
+import { getLlmProvider, type LlmProvider } from '@/lib/llm-provider';
+import { describeBlockingFindings, formatSecurityFinding, getBlockingFindings, scanGeneratedCode } from '@/lib/security-scan';
+import {
+  createOutputProgressReporter,
+  createProgressStream,
+  noopProgress,
+  wantsEventStream,
+  type ProgressReporter,
+} from '@/lib/generation-progress';
 
 // Inizializza Supabase client
 function getSupabaseClient() {
@@ -73,32 +84,43 @@ async function ensureTableExists(supabase: any) {
 }
 
 // validateSyntax è importata da lib/code-generation.ts e usata tramite validateAndFixCode
-// Le funzioni template (getOrdersTemplate, getInventoryTemplate, getCustomersTemplate, selectTemplateByPrompt)
-// sono importate da lib/code-generation.ts e usate tramite getSafeTemplate
+// I template di fallback sono nel registry (lib/template-registry.ts, cartella templates/)
+// e vengono scelti per punteggio sul prompt tramite getSafeTemplate
 
 // NOTA: getSafeTemplate, validateAndFixCode, parseClaudeResponse, getBaseFiles sono importate da lib/code-generation.ts
 // NOTA: createVercelDeployment, createAndPushGitHubRepo, getGitHubClient, withRetry sono importate da lib/github-deploy.ts
 
+// POST - Genera app. Con ?stream=1 (o Accept: text/event-stream) invia l'avanzamento come SSE
 export async function POST(request: NextRequest) {
+  if (wantsEventStream(request)) {
+    return createProgressStream(report => generateApp(request, report));
+  }
+  return generateApp(request);
+}
+
+async function generateApp(request: NextRequest, onProgress: ProgressReporter = noopProgress) {
   try {
     console.log('[GENERATE] Inizio richiesta generazione');
     
-    // Verifica API key Anthropic
-    console.log('[GENERATE] Verifica API key Anthropic...');
-    const anthropicApiKey = process.env.ANTHROPIC_API_KEY;
-    if (!anthropicApiKey) {
-      console.error('[GENERATE] ANTHROPIC_API_KEY non configurata');
+    // Inizializza il provider LLM (verifica anche la configurazione, es: ANTHROPIC_API_KEY)
+    console.log('[GENERATE] Inizializzazione provider LLM...');
+    let llm: LlmProvider;
+    try {
+      llm = getLlmProvider();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Provider LLM non configurato';
+      console.error('[GENERATE]', errorMessage);
       return NextResponse.json(
-        { success: false, error: 'ANTHROPIC_API_KEY non configurata' },
+        { success: false, error: errorMessage },
         { status: 500 }
       );
     }
-    console.log('[GENERATE] API key Anthropic verificata');
+    console.log(`[GENERATE] Provider LLM: ${llm.name} (${llm.model})`);
 
     // Leggi il body della richiesta
     console.log('[GENERATE] Lettura body richiesta...');
     const body = await request.json();
-    const { prompt } = body;
+    const { prompt, locale = DEFAULT_LOCALE, securityOverride } = body;
     console.log('[GENERATE] Body letto, prompt length:', prompt?.length || 0);
 
     if (!prompt || typeof prompt !== 'string' || prompt.trim().length === 0) {
@@ -109,12 +131,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Inizializza Anthropic client
-    console.log('[GENERATE] Inizializzazione Anthropic client...');
-    const anthropic = new Anthropic({
-      apiKey: anthropicApiKey,
-    });
-    console.log('[GENERATE] Anthropic client inizializzato');
+    if (!isSupportedLocale(locale)) {
+      return NextResponse.json(
+        { success: false, error: `locale non supportato (ammessi: ${SUPPORTED_LOCALES.join(', ')})` },
+        { status: 400 }
+      );
+    }
 
     // Costruisci il prompt per Claude
     console.log('[GENERATE] Costruzione prompt per Claude...');
@@ -136,16 +158,23 @@ If you're unsure, prefer SIMPLE working code over complex broken code.
 
 Genera un'applicazione Next.js 15 semplice per: ${prompt}
 
-Crea SOLO questi 2 file:
+Crea SOLO questi file:
 - app/page.tsx (pagina principale con lista semplice)
 - components/Form.tsx (form base per creazione/modifica)
+- ${getCatalogPath(locale)} (catalogo dei testi)
+
+Usa Tailwind per UI.
 
-Usa Tailwind per UI, tutto in italiano.
-Restituisci SOLO codice, separato da === FILENAME: path/file.tsx ===`;
+${getI18nPromptInstructions(locale)}
+
+${getDependencyPromptInstructions()}
+
+Usa lo strumento write_file per ogni file (un file per chiamata, contenuto completo).`;
     console.log('[GENERATE] Prompt costruito, length:', claudePrompt.length);
 
     // Chiama Claude API con timeout di 2 minuti
     console.log('[GENERATE] Chiamata a Claude API (timeout 2 minuti)...');
+    onProgress({ phase: 'prompting', message: `Generazione codice con ${llm.model}...` });
     const startTime = Date.now();
     
     // Crea una promise per il timeout
@@ -157,15 +186,18 @@ Restituisci SOLO codice, separato da === FILENAME: path/file.tsx ===`;
 
     // Chiamata a Claude con race contro timeout
     const message = await Promise.race([
-      anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 2000,
+      llm.createMessage({
+        callType: 'generate',
+        maxTokens: 2000,
+        tools: GENERATION_TOOLS,
+        toolChoice: FORCE_TOOL_USE,
         messages: [
           {
             role: 'user',
             content: claudePrompt,
           },
         ],
+        onOutputProgress: createOutputProgressReporter(onProgress),
       }),
       timeoutPromise,
     ]);
@@ -173,27 +205,17 @@ Restituisci SOLO codice, separato da === FILENAME: path/file.tsx ===`;
     const elapsedTime = Date.now() - startTime;
     console.log('[GENERATE] Risposta Claude ricevuta in', elapsedTime, 'ms');
 
-    // Estrai il contenuto della risposta
-    console.log('[GENERATE] Estrazione contenuto risposta...');
-    const responseText = message.content
-      .map((block) => {
-        if (block.type === 'text') {
-          return block.text;
-        }
-        return '';
-      })
-      .join('\n');
-    console.log('[GENERATE] Contenuto estratto, length:', responseText.length);
-
-    // Parsea i file dalla risposta (usa funzione condivisa)
+    // Estrai i file dalla risposta strutturata (fallback al parser testuale per risposte legacy)
     console.log('[GENERATE] Parsing file dalla risposta...');
-    const claudeFiles = parseClaudeResponse(responseText);
-    console.log('[GENERATE] File parsati da Claude:', Object.keys(claudeFiles).length, 'file:', Object.keys(claudeFiles));
+    onProgress({ phase: 'parsing', message: 'Lettura dei file generati...' });
+    const structured = parseStructuredResponse(message);
+    const claudeFiles = structured.files;
+    console.log('[GENERATE] File parsati da Claude:', Object.keys(claudeFiles).length, 'file:', Object.keys(claudeFiles), 'formato:', structured.source);
 
     if (Object.keys(claudeFiles).length === 0) {
       console.error('[GENERATE] Nessun file trovato nella risposta');
       return NextResponse.json(
-        { success: false, error: 'Nessun file trovato nella risposta di Claude', rawResponse: responseText.substring(0, 500) },
+        { success: false, error: 'Nessun file trovato nella risposta di Claude', issues: structured.issues },
         { status: 500 }
       );
     }
@@ -201,7 +223,7 @@ Restituisci SOLO codice, separato da === FILENAME: path/file.tsx ===`;
     // VALIDAZIONE E AUTO-FIX: Valida e fixa il codice PRIMA di salvare
     console.log('[GENERATE] Inizio validazione e auto-fix del codice...');
     const validationStartTime = Date.now();
-    const validated = await validateAndFixCode(claudeFiles, prompt, anthropic, 1, validationStartTime);
+    const validated = await validateAndFixCode(claudeFiles, prompt, llm, 1, validationStartTime, getI18nContextFiles(locale), onProgress);
     
     if (!validated.success) {
       if (validated.useFallback) {
@@ -222,11 +244,21 @@ Restituisci SOLO codice, separato da === FILENAME: path/file.tsx ===`;
 
     // Aggiungi file base necessari per Next.js (usa funzione condivisa)
     console.log('[GENERATE] Aggiunta file base standard...');
-    const baseFiles = getBaseFiles();
-    // Combina file base + file generati (i file generati hanno priorità se ci sono conflitti)
-    const files = { ...baseFiles, ...validatedFiles };
+    const baseFiles = getBaseFiles(locale);
+    // Combina file base + file generati (i file generati hanno priorità se ci sono conflitti);
+    // le dipendenze proposte dal modello, se ammesse, entrano nel package.json (non col template di fallback)
+    const dependencyUpdate = validated.useFallback ? undefined : structured.dependencyUpdate;
+    const files = withI18nFiles(applyDependencyUpdate({ ...baseFiles, ...validatedFiles }, dependencyUpdate).files, locale);
     console.log('[GENERATE] File totali (base + generati):', Object.keys(files).length);
 
+    // Analisi di sicurezza: con problemi gravi l'app viene salvata ma non pubblicata, salvo securityOverride
+    onProgress({ phase: 'security', message: 'Analisi di sicurezza del codice generato...' });
+    const securityFindings = scanGeneratedCode(files);
+    if (securityFindings.length > 0) {
+      console.warn('[GENERATE] Risultati analisi di sicurezza:', securityFindings.map(formatSecurityFinding));
+    }
+    const deployBlocked = getBlockingFindings(securityFindings).length > 0 && securityOverride !== true;
+
     // Inizializza Supabase
     console.log('[GENERATE] Inizializzazione Supabase client...');
     const supabase = getSupabaseClient();
@@ -249,6 +281,7 @@ Restituisci SOLO codice, separato da === FILENAME: path/file.tsx ===`;
 
     // Salva in Supabase
     console.log('[GENERATE] Salvataggio in Supabase...');
+    onProgress({ phase: 'saving', message: 'Salvataggio app nel database...' });
     const { data, error: supabaseError } = await supabase
       .from('generated_apps')
       .insert({
@@ -278,59 +311,65 @@ Restituisci SOLO codice, separato da === FILENAME: path/file.tsx ===`;
     // Crea repo GitHub e pusha file (usa funzioni condivise)
     let repoUrl: string | undefined;
     let deployUrl: string | undefined;
-    
-    try {
-      console.log('[GENERATE] Creazione repo GitHub...');
-      const githubResult = await createAndPushGitHubRepo(appId, files, prompt);
-      repoUrl = githubResult.repoUrl;
-      const repoName = `erp-app-${appId.substring(0, 8)}`;
-      console.log('[GENERATE] Repo GitHub creato:', repoUrl);
-      
-      // Crea deployment su Vercel usando l'API (usa funzione condivisa)
+
+    if (deployBlocked) {
+      console.warn('[GENERATE] Deploy bloccato dall\'analisi di sicurezza');
+    } else {
       try {
-        console.log('[GENERATE] Creazione deployment Vercel...');
-        const vercelDeployUrl = await createVercelDeployment(repoName, repoUrl, appId);
-        deployUrl = vercelDeployUrl;
-        console.log('[GENERATE] ✅ Deployment Vercel creato:', deployUrl);
-      } catch (vercelError) {
-        console.error('[GENERATE] ⚠️  Errore durante creazione deployment Vercel:', vercelError);
-        // Fallback al deployUrl generico se Vercel API fallisce
-        deployUrl = githubResult.deployUrl;
-        console.log('[GENERATE] ⚠️  Usando deployUrl generico come fallback:', deployUrl);
-        // Non blocchiamo il flusso se Vercel fallisce
-      }
+        console.log('[GENERATE] Creazione repo GitHub...');
+        onProgress({ phase: 'github', message: 'Creazione repository e push su GitHub...' });
+        const githubResult = await createAndPushGitHubRepo(appId, files, prompt);
+        repoUrl = githubResult.repoUrl;
+        const repoName = `erp-app-${appId.substring(0, 8)}`;
+        console.log('[GENERATE] Repo GitHub creato:', repoUrl);
+        onProgress({ phase: 'github', message: `Repository pronto: ${repoUrl}` });
       
-      // Salva repoUrl e deployUrl nel database se disponibili
-      if (repoUrl || deployUrl) {
-        console.log('[GENERATE] Salvataggio repoUrl e deployUrl nel database...');
-        const updateData: { repoUrl?: string; deployUrl?: string } = {};
-        if (repoUrl) updateData.repoUrl = repoUrl;
-        if (deployUrl) updateData.deployUrl = deployUrl;
+        // Crea deployment su Vercel usando l'API (usa funzione condivisa)
+        try {
+          console.log('[GENERATE] Creazione deployment Vercel...');
+          const vercelDeployUrl = await createVercelDeployment(repoName, repoUrl, appId, { onProgress });
+          deployUrl = vercelDeployUrl;
+          console.log('[GENERATE] ✅ Deployment Vercel creato:', deployUrl);
+        } catch (vercelError) {
+          console.error('[GENERATE] ⚠️  Errore durante creazione deployment Vercel:', vercelError);
+          // Fallback al deployUrl generico se Vercel API fallisce
+          deployUrl = githubResult.deployUrl;
+          console.log('[GENERATE] ⚠️  Usando deployUrl generico come fallback:', deployUrl);
+          // Non blocchiamo il flusso se Vercel fallisce
+        }
+      
+        // Salva repoUrl e deployUrl nel database se disponibili
+        if (repoUrl || deployUrl) {
+          console.log('[GENERATE] Salvataggio repoUrl e deployUrl nel database...');
+          const updateData: { repoUrl?: string; deployUrl?: string } = {};
+          if (repoUrl) updateData.repoUrl = repoUrl;
+          if (deployUrl) updateData.deployUrl = deployUrl;
         
-        const { error: updateError } = await supabase
-          .from('generated_apps')
-          .update(updateData)
-          .eq('id', appId);
+          const { error: updateError } = await supabase
+            .from('generated_apps')
+            .update(updateData)
+            .eq('id', appId);
         
-        if (updateError) {
-          console.warn('[GENERATE] Impossibile salvare repoUrl/deployUrl:', updateError);
-          console.warn('[GENERATE] Errore code:', updateError.code, 'message:', updateError.message);
-          // Se la colonna non esiste, suggeriamo di aggiungerla manualmente
-          if (updateError.code === 'PGRST204' || updateError.message?.includes('column')) {
-            console.warn('[GENERATE] ⚠️  Le colonne repoUrl/deployUrl non esistono nella tabella.');
-            console.warn('[GENERATE] ⚠️  Esegui questo SQL in Supabase:');
-            console.warn('[GENERATE] ⚠️  ALTER TABLE generated_apps ADD COLUMN IF NOT EXISTS "repoUrl" TEXT;');
-            console.warn('[GENERATE] ⚠️  ALTER TABLE generated_apps ADD COLUMN IF NOT EXISTS "deployUrl" TEXT;');
+          if (updateError) {
+            console.warn('[GENERATE] Impossibile salvare repoUrl/deployUrl:', updateError);
+            console.warn('[GENERATE] Errore code:', updateError.code, 'message:', updateError.message);
+            // Se la colonna non esiste, suggeriamo di aggiungerla manualmente
+            if (updateError.code === 'PGRST204' || updateError.message?.includes('column')) {
+              console.warn('[GENERATE] ⚠️  Le colonne repoUrl/deployUrl non esistono nella tabella.');
+              console.warn('[GENERATE] ⚠️  Esegui questo SQL in Supabase:');
+              console.warn('[GENERATE] ⚠️  ALTER TABLE generated_apps ADD COLUMN IF NOT EXISTS "repoUrl" TEXT;');
+              console.warn('[GENERATE] ⚠️  ALTER TABLE generated_apps ADD COLUMN IF NOT EXISTS "deployUrl" TEXT;');
+            }
+            // Non blocchiamo se il deployUrl non può essere salvato (colonna potrebbe non esistere)
+          } else {
+            console.log('[GENERATE] ✅ repoUrl e deployUrl salvati nel database');
           }
-          // Non blocchiamo se il deployUrl non può essere salvato (colonna potrebbe non esistere)
-        } else {
-          console.log('[GENERATE] ✅ repoUrl e deployUrl salvati nel database');
         }
+      } catch (error) {
+        console.error('[GENERATE] Errore durante creazione repo GitHub:', error);
+        // Non blocchiamo la risposta se GitHub fallisce, ma loggiamo l'errore
+        // L'app è comunque salvata in DB
       }
-    } catch (error) {
-      console.error('[GENERATE] Errore durante creazione repo GitHub:', error);
-      // Non blocchiamo la risposta se GitHub fallisce, ma loggiamo l'errore
-      // L'app è comunque salvata in DB
     }
 
     // Restituisci successo
@@ -344,6 +383,8 @@ Restituisci SOLO codice, separato da === FILENAME: path/file.tsx ===`;
       files: files,
       repoUrl: repoUrl,
       deployUrl: deployUrl,
+      securityFindings,
+      ...(deployBlocked && { deployBlocked, warning: describeBlockingFindings(securityFindings) }),
     });
   } catch (error) {
     console.error('[GENERATE] Errore durante la generazione:', error);
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { wantsEventStream } from '@/lib/generation-progress';
+import { createJobProgressStream, getJob, getJobResponse } from '@/lib/jobs';
+
+function getSupabaseClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase credentials not configured');
+  }
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+// GET - Stato di un job (coda, tentativi, avanzamento e risultato).
+// Con ?stream=1 (o Accept: text/event-stream) invia l'avanzamento come SSE fino al risultato
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = getSupabaseClient();
+
+    const job = await getJob(supabase, id);
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job non trovato' },
+        { status: 404 }
+      );
+    }
+
+    if (wantsEventStream(request)) {
+      return createJobProgressStream(supabase, job.id);
+    }
+
+    // Il risultato ha lo stesso formato della vecchia risposta sincrona della route (vuoto finché il job non termina)
+    const finished = job.status === 'succeeded' || job.status === 'failed';
+    return NextResponse.json({
+      success: true,
+      job: {
+        id: job.id,
+        type: job.type,
+        moduleId: job.module_id || null,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.max_attempts,
+        progress: job.progress || [],
+        error: job.error || null,
+        result: finished ? getJobResponse(job).body : null,
+        resultStatus: finished ? getJobResponse(job).status : null,
+        runAt: job.run_at,
+        createdAt: job.created_at,
+        startedAt: job.started_at || null,
+        finishedAt: job.finished_at || null,
+      },
+    });
+  } catch (error) {
+    console.error('[JOBS] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
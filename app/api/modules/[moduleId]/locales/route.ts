@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { wantsEventStream } from '@/lib/generation-progress';
+import { createJobProgressStream, enqueueJob } from '@/lib/jobs';
+import { SUPPORTED_LOCALES, getCatalogLocales, getI18nDefaultLocale, isSupportedLocale } from '@/lib/locale';
+
+function getSupabaseClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase credentials not configured');
+  }
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+// Traduzione del catalogo, nuova versione e deploy su DEV sono in @/lib/module-locale (eseguiti dal worker)
+
+// GET - Lingue della versione DEV: lingua di default e lingue con un catalogo messages/<locale>.json
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ moduleId: string }> }
+) {
+  try {
+    const { moduleId } = await params;
+    const supabase = getSupabaseClient();
+
+    const { data: module, error: moduleError } = await supabase
+      .from('modules')
+      .select('id, dev_version_id')
+      .eq('id', moduleId)
+      .single();
+
+    if (moduleError || !module) {
+      return NextResponse.json(
+        { success: false, error: 'Modulo non trovato' },
+        { status: 404 }
+      );
+    }
+
+    let files: Record<string, string> = {};
+    if (module.dev_version_id) {
+      const { data: version } = await supabase
+        .from('module_versions')
+        .select('files')
+        .eq('id', module.dev_version_id)
+        .single();
+      files = version?.files || {};
+    }
+
+    return NextResponse.json({
+      success: true,
+      // null: modulo generato prima dei cataloghi, non traducibile senza rigenerarlo
+      defaultLocale: getI18nDefaultLocale(files),
+      locales: getCatalogLocales(files),
+      supportedLocales: SUPPORTED_LOCALES,
+    });
+  } catch (error) {
+    console.error('[LOCALES] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Aggiungi una lingua al modulo: accoda il job 'module.translate' e risponde subito con l'id del job (202).
+// Con ?stream=1 (o Accept: text/event-stream) invia l'avanzamento del job come SSE fino al risultato
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ moduleId: string }> }
+) {
+  try {
+    const { moduleId } = await params;
+    const body = await request.json();
+    const { locale } = body;
+
+    if (!isSupportedLocale(locale)) {
+      return NextResponse.json(
+        { success: false, error: `locale non supportato (ammessi: ${SUPPORTED_LOCALES.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseClient();
+
+    const { data: module, error: moduleError } = await supabase
+      .from('modules')
+      .select('id, dev_version_id')
+      .eq('id', moduleId)
+      .single();
+
+    if (moduleError || !module) {
+      return NextResponse.json(
+        { success: false, error: 'Modulo non trovato' },
+        { status: 404 }
+      );
+    }
+
+    if (!module.dev_version_id) {
+      return NextResponse.json(
+        { success: false, error: 'Nessuna versione DEV da tradurre' },
+        { status: 400 }
+      );
+    }
+
+    const job = await enqueueJob(supabase, 'module.translate', { moduleId, locale }, { moduleId });
+
+    if (wantsEventStream(request)) {
+      return createJobProgressStream(supabase, job.id);
+    }
+
+    return NextResponse.json(
+      { success: true, jobId: job.id, status: job.status },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('[LOCALES] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import {
+  getMigrationHistory,
+  getModuleDatabaseUrl,
+  isMigrationEnvironment,
+  MIGRATION_ENVIRONMENTS,
+  rollbackModuleMigrations,
+  type MigrationEnvironment,
+} from '@/lib/migration-runner';
+import { applyVersionMigrations, getPendingMigrationRisk, planVersionMigrations } from '@/lib/module-migrations';
+import { describeMigrationRisk, requiresMigrationConfirmation } from '@/lib/migration-risk';
+
+function getSupabaseClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase credentials not configured');
+  }
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+const VERSION_FIELDS: Record<MigrationEnvironment, 'dev_version_id' | 'staging_version_id' | 'prod_version_id'> = {
+  dev: 'dev_version_id',
+  staging: 'staging_version_id',
+  production: 'prod_version_id',
+};
+
+// GET - Stato delle migration per ambiente (?environment=dev|staging|production, default tutti):
+// storico della tabella module_migrations, migration in sospeso per la versione attiva ed errori
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ moduleId: string }> }
+) {
+  try {
+    const { moduleId } = await params;
+    const requested = request.nextUrl.searchParams.get('environment');
+    if (requested && !isMigrationEnvironment(requested)) {
+      return NextResponse.json(
+        { success: false, error: `Ambiente non valido (${MIGRATION_ENVIRONMENTS.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseClient();
+    const { data: moduleData, error: moduleError } = await supabase
+      .from('modules')
+      .select('id, dev_version_id, staging_version_id, prod_version_id')
+      .eq('id', moduleId)
+      .single();
+
+    if (moduleError || !moduleData) {
+      return NextResponse.json(
+        { success: false, error: 'Modulo non trovato' },
+        { status: 404 }
+      );
+    }
+
+    const environments = [];
+    for (const environment of requested ? [requested as MigrationEnvironment] : MIGRATION_ENVIRONMENTS) {
+      const versionId: string | null = moduleData[VERSION_FIELDS[environment]];
+      const databaseUrl = getModuleDatabaseUrl(environment);
+      if (!databaseUrl) {
+        environments.push({ environment, versionId, configured: false });
+        continue;
+      }
+      const plan = versionId ? await planVersionMigrations(supabase, { id: versionId, module_id: moduleId }, environment) : null;
+      environments.push({
+        environment,
+        versionId,
+        configured: true,
+        history: await getMigrationHistory(databaseUrl, moduleId, environment),
+        pending: plan?.pending.map(migration => ({ name: migration.name, versionId: migration.versionId, sql: migration.upSql })) || [],
+        errors: plan?.errors || [],
+      });
+    }
+
+    return NextResponse.json({ success: true, environments });
+  } catch (error) {
+    console.error('[MIGRATIONS] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - { environment, action: 'apply' | 'dry-run' | 'rollback', steps?, migrationRiskConfirmed?, backupTables? }
+// apply: migration in sospeso della versione attiva nell'ambiente; dry-run: le stesse provate su uno schema
+// temporaneo (up e down) senza modificare il database; rollback: annulla le ultime `steps` migration (default 1).
+// In staging/production l'apply di migration a rischio (lib/migration-risk.ts) richiede migrationRiskConfirmed:
+// senza risponde 422 con migrationRisk; backupTables copia prima le tabelle coinvolte
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ moduleId: string }> }
+) {
+  try {
+    const { moduleId } = await params;
+    const body = await request.json();
+    const { environment, action = 'apply', steps = 1, migrationRiskConfirmed, backupTables } = body;
+
+    if (!isMigrationEnvironment(environment)) {
+      return NextResponse.json(
+        { success: false, error: `Ambiente non valido (${MIGRATION_ENVIRONMENTS.join(', ')})` },
+        { status: 400 }
+      );
+    }
+    if (!['apply', 'dry-run', 'rollback'].includes(action)) {
+      return NextResponse.json(
+        { success: false, error: 'Azione non valida (apply, dry-run, rollback)' },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(steps) || steps < 1) {
+      return NextResponse.json(
+        { success: false, error: 'steps deve essere un intero positivo' },
+        { status: 400 }
+      );
+    }
+
+    const databaseUrl = getModuleDatabaseUrl(environment);
+    if (!databaseUrl) {
+      return NextResponse.json(
+        { success: false, error: `Database ${environment} non configurato (MODULE_DATABASE_URL)` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseClient();
+    const { data: moduleData, error: moduleError } = await supabase
+      .from('modules')
+      .select('id, dev_version_id, staging_version_id, prod_version_id')
+      .eq('id', moduleId)
+      .single();
+
+    if (moduleError || !moduleData) {
+      return NextResponse.json(
+        { success: false, error: 'Modulo non trovato' },
+        { status: 404 }
+      );
+    }
+
+    let result;
+    if (action === 'rollback') {
+      console.log(`[MIGRATIONS] Rollback di ${steps} migration in ${environment}...`);
+      result = await rollbackModuleMigrations(databaseUrl, moduleId, environment, steps);
+    } else {
+      const versionId: string | null = moduleData[VERSION_FIELDS[environment]];
+      if (!versionId) {
+        return NextResponse.json(
+          { success: false, error: `Nessuna versione in ${environment}` },
+          { status: 400 }
+        );
+      }
+      const version = { id: versionId, module_id: moduleId };
+      const migrationRisk = action === 'apply' && environment !== 'dev'
+        ? await getPendingMigrationRisk(supabase, version, environment, null)
+        : null;
+      if (requiresMigrationConfirmation(migrationRisk) && migrationRiskConfirmed !== true) {
+        return NextResponse.json(
+          { success: false, error: describeMigrationRisk(migrationRisk!), migrationRisk, confirmationRequired: true },
+          { status: 422 }
+        );
+      }
+      result = await applyVersionMigrations(supabase, version, environment, {
+        dryRun: action === 'dry-run',
+        backupTables: migrationRisk && backupTables === true ? migrationRisk.tables : [],
+      });
+    }
+
+    if (!result?.success) {
+      return NextResponse.json(
+        { success: false, error: result?.error || 'Migration non eseguita', result },
+        { status: 422 }
+      );
+    }
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error('[MIGRATIONS] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { SUPPORTED_LOCALES, isSupportedLocale } from '@/lib/locale';
+import { STACK_PROFILE_IDS, isStackProfileId } from '@/lib/stack-profiles';
 
 function getSupabaseClient() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -50,7 +52,7 @@ export async function GET(
   }
 }
 
-// PATCH - Aggiorna modulo (es: nome)
+// PATCH - Aggiorna modulo (es: nome, o locale / stack_profile: null per usare quelli del workspace)
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ moduleId: string }> }
@@ -58,6 +60,21 @@ export async function PATCH(
   try {
     const { moduleId } = await params;
     const body = await request.json();
+
+    if (body.locale !== undefined && body.locale !== null && !isSupportedLocale(body.locale)) {
+      return NextResponse.json(
+        { success: false, error: `locale non supportato (ammessi: ${SUPPORTED_LOCALES.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    if (body.stack_profile !== undefined && body.stack_profile !== null && !isStackProfileId(body.stack_profile)) {
+      return NextResponse.json(
+        { success: false, error: `stack_profile non supportato (ammessi: ${STACK_PROFILE_IDS.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
     const supabase = getSupabaseClient();
 
     const { data: module, error } = await supabase
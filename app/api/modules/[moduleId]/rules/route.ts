@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { wantsEventStream } from '@/lib/generation-progress';
+import { createJobProgressStream, enqueueJob } from '@/lib/jobs';
+import { getVersionBusinessRules, normalizeBusinessRules, renderBusinessRulesSql } from '@/lib/business-rules';
+
+function getSupabaseClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase credentials not configured');
+  }
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+// Nuova versione con lib/rules.ts rigenerato e deploy su DEV sono in @/lib/module-rules (eseguiti dal worker)
+
+async function loadDevVersion(supabase: ReturnType<typeof getSupabaseClient>, moduleId: string) {
+  const { data: moduleData, error: moduleError } = await supabase
+    .from('modules')
+    .select('id, dev_version_id')
+    .eq('id', moduleId)
+    .single();
+
+  if (moduleError || !moduleData) {
+    return { error: 'Modulo non trovato', status: 404 };
+  }
+  if (!moduleData.dev_version_id) {
+    return { error: 'Nessuna versione DEV', status: 400 };
+  }
+
+  const { data: version } = await supabase
+    .from('module_versions')
+    .select('id, database_schema, business_rules')
+    .eq('id', moduleData.dev_version_id)
+    .single();
+
+  if (!version) {
+    return { error: 'Versione DEV non trovata', status: 404 };
+  }
+  return { version };
+}
+
+// GET - Regole di business della versione DEV e relativi vincoli SQL
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ moduleId: string }> }
+) {
+  try {
+    const { moduleId } = await params;
+    const supabase = getSupabaseClient();
+
+    const { version, error, status } = await loadDevVersion(supabase, moduleId);
+    if (!version) {
+      return NextResponse.json({ success: false, error }, { status });
+    }
+
+    const rules = getVersionBusinessRules(version);
+    return NextResponse.json({
+      success: true,
+      versionId: version.id,
+      rules,
+      sql: renderBusinessRulesSql(rules),
+    });
+  } catch (error) {
+    console.error('[RULES] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Sostituisce le regole del modulo ({ rules: [...] }, elenco completo): le regole sono validate
+// sullo schema della versione DEV (400 con gli errori) e applicate dal job 'module.rules' senza nuovo prompt.
+// Risponde 202 con l'id del job; con ?stream=1 (o Accept: text/event-stream) invia l'avanzamento come SSE
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ moduleId: string }> }
+) {
+  try {
+    const { moduleId } = await params;
+    const body = await request.json();
+    const supabase = getSupabaseClient();
+
+    const { version, error, status } = await loadDevVersion(supabase, moduleId);
+    if (!version) {
+      return NextResponse.json({ success: false, error }, { status });
+    }
+
+    const normalized = normalizeBusinessRules(body.rules, version.database_schema);
+    if (!normalized.rules) {
+      return NextResponse.json(
+        { success: false, error: 'Regole non valide', errors: normalized.errors },
+        { status: 400 }
+      );
+    }
+
+    const job = await enqueueJob(supabase, 'module.rules', { moduleId, rules: normalized.rules }, { moduleId });
+
+    if (wantsEventStream(request)) {
+      return createJobProgressStream(supabase, job.id);
+    }
+
+    return NextResponse.json(
+      { success: true, jobId: job.id, status: job.status, rules: normalized.rules },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('[RULES] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { describeSchemaDiff, diffSchemas, getSchemaDiffWarnings, renderSchemaDiffSql } from '@/lib/schema-diff';
+
+function getSupabaseClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase credentials not configured');
+  }
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+const ENVIRONMENT_FIELDS: Record<string, 'dev_version_id' | 'staging_version_id' | 'prod_version_id'> = {
+  dev: 'dev_version_id',
+  staging: 'staging_version_id',
+  prod: 'prod_version_id',
+  production: 'prod_version_id',
+};
+
+// Versione indicata come id, numero (3 o v3) o ambiente (dev, staging, prod)
+async function loadVersion(supabase: ReturnType<typeof getSupabaseClient>, moduleId: string, reference: string) {
+  let query = supabase
+    .from('module_versions')
+    .select('id, version_number, database_schema')
+    .eq('module_id', moduleId);
+
+  const environmentField = Object.hasOwn(ENVIRONMENT_FIELDS, reference) ? ENVIRONMENT_FIELDS[reference] : null;
+  if (environmentField) {
+    const { data: moduleData } = await supabase
+      .from('modules')
+      .select(environmentField)
+      .eq('id', moduleId)
+      .single();
+    const versionId = (moduleData as Record<string, string | null> | null)?.[environmentField];
+    if (!versionId) {
+      return null;
+    }
+    query = query.eq('id', versionId);
+  } else if (/^v?\d+$/.test(reference)) {
+    query = query.eq('version_number', parseInt(reference.replace('v', ''), 10));
+  } else {
+    query = query.eq('id', reference);
+  }
+
+  const { data: version } = await query.maybeSingle();
+  return version;
+}
+
+// GET - Differenze di database_schema fra due versioni (?from=&to=: id, numero o ambiente):
+// diff strutturato, riepilogo leggibile e SQL per andare da `from` a `to` (forwardSql) e ritorno (reverseSql)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ moduleId: string }> }
+) {
+  try {
+    const { moduleId } = await params;
+    const from = request.nextUrl.searchParams.get('from');
+    const to = request.nextUrl.searchParams.get('to');
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { success: false, error: 'Parametri from e to obbligatori (id, numero di versione o dev/staging/prod)' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseClient();
+    const [fromVersion, toVersion] = await Promise.all([
+      loadVersion(supabase, moduleId, from),
+      loadVersion(supabase, moduleId, to),
+    ]);
+
+    if (!fromVersion || !toVersion) {
+      return NextResponse.json(
+        { success: false, error: `Versione ${!fromVersion ? from : to} non trovata` },
+        { status: 404 }
+      );
+    }
+
+    const diff = diffSchemas(fromVersion.database_schema, toVersion.database_schema);
+    return NextResponse.json({
+      success: true,
+      from: { versionId: fromVersion.id, versionNumber: fromVersion.version_number },
+      to: { versionId: toVersion.id, versionNumber: toVersion.version_number },
+      diff,
+      summary: describeSchemaDiff(diff),
+      warnings: getSchemaDiffWarnings(diff),
+      forwardSql: renderSchemaDiffSql(fromVersion.database_schema, toVersion.database_schema),
+      reverseSql: renderSchemaDiffSql(toVersion.database_schema, fromVersion.database_schema),
+    });
+  } catch (error) {
+    console.error('[SCHEMA-DIFF] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
 import { createClient } from '@supabase/supabase-js';
+import { getLlmProvider, type LlmProvider } from '@/lib/llm-provider';
 
 function getSupabaseClient() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -111,7 +111,7 @@ export async function POST(request: NextRequest) {
     if (type === 'foreign_key' && config) {
       console.log('[CONNECT] Rigenerazione moduli con foreign keys...');
       
-      const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+      const llm = getLlmProvider();
       
       // Rigenera fromModule
       await regenerateModuleWithForeignKeys(
@@ -120,7 +120,7 @@ export async function POST(request: NextRequest) {
         config,
         'from',
         supabase,
-        anthropic
+        llm
       );
 
       // Rigenera toModule (se necessario)
@@ -131,7 +131,7 @@ export async function POST(request: NextRequest) {
           config,
           'to',
           supabase,
-          anthropic
+          llm
         );
       }
     }
@@ -160,7 +160,7 @@ async function regenerateModuleWithForeignKeys(
   config: any,
   direction: 'from' | 'to',
   supabase: ReturnType<typeof getSupabaseClient>,
-  anthropic: Anthropic
+  llm: LlmProvider
 ) {
   try {
     // Carica modulo e versione corrente
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
 import { createClient } from '@supabase/supabase-js';
-import { parseClaudeResponse, validateAndFixCode, getBaseFiles } from '@/lib/code-generation';
-import { createAndPushGitHubRepo, createVercelDeployment, getGitHubClient } from '@/lib/github-deploy';
+import { wantsEventStream } from '@/lib/generation-progress';
+import { createJobProgressStream, enqueueJob } from '@/lib/jobs';
+import { describeModuleSpec, normalizeModuleSpec, type ModuleSpec } from '@/lib/entity-spec';
+import { SUPPORTED_LOCALES, isSupportedLocale } from '@/lib/locale';
+import { STACK_PROFILE_IDS, isStackProfileId } from '@/lib/stack-profiles';
+import { GENERATION_MODES, isGenerationMode } from '@/lib/module-create';
 
 function getSupabaseClient() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -13,11 +16,57 @@ function getSupabaseClient() {
   return createClient(supabaseUrl, supabaseKey);
 }
 
-// POST - Crea nuovo modulo
+// POST - Crea nuovo modulo e accoda la generazione. Risponde subito con l'id del job (202);
+// con ?stream=1 (o Accept: text/event-stream) invia l'avanzamento del job come SSE fino al risultato.
+// Accetta `locale` (it, en, de) per la lingua dell'app e `stack_profile` (lib/stack-profiles.ts),
+// altrimenti eredita quelli del workspace.
+// In alternativa al prompt accetta `spec` (entità e campi, vedi lib/entity-spec.ts): il codice CRUD
+// viene generato in modo deterministico, senza AI. Con `spec` e `mode` la generazione è AI ma usa
+// la spec ricevuta al posto di una proposta dal modello.
+// Con il prompt, `mode: 'multi-page'` pianifica le route (lista, nuovo, dettaglio, modifica per entità,
+// layout con navigazione) e genera un file alla volta; il default 'single-page' genera una sola pagina.
+// Con `securityOverride: true` il deploy avviene anche se l'analisi di sicurezza trova problemi gravi
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { workspaceId, name, prompt, type } = body;
+    const { workspaceId, type, locale, stack_profile, mode, securityOverride } = body;
+    let { name, prompt } = body;
+
+    // Lingua del modulo: se assente si usa quella del workspace
+    if (locale !== undefined && locale !== null && !isSupportedLocale(locale)) {
+      return NextResponse.json(
+        { success: false, error: `locale non supportato (ammessi: ${SUPPORTED_LOCALES.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    if (stack_profile !== undefined && stack_profile !== null && !isStackProfileId(stack_profile)) {
+      return NextResponse.json(
+        { success: false, error: `stack_profile non supportato (ammessi: ${STACK_PROFILE_IDS.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    if (mode !== undefined && mode !== null && !isGenerationMode(mode)) {
+      return NextResponse.json(
+        { success: false, error: `mode non supportato (ammessi: ${GENERATION_MODES.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    let spec: ModuleSpec | undefined;
+    if (body.spec !== undefined) {
+      const normalized = normalizeModuleSpec(body.spec);
+      if (!normalized.spec) {
+        return NextResponse.json(
+          { success: false, error: 'Spec non valida', errors: normalized.errors },
+          { status: 400 }
+        );
+      }
+      spec = normalized.spec;
+      name = name || spec.name;
+      prompt = prompt || describeModuleSpec(spec);
+    }
 
     const supabase = getSupabaseClient();
 
@@ -54,17 +103,15 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Se name non è fornito, estrailo dal prompt
-    const finalName = name || prompt.substring(0, 50) || 'Nuovo Modulo';
-
     if (!prompt) {
       return NextResponse.json(
-        { success: false, error: 'prompt richiesto' },
+        { success: false, error: 'prompt o spec richiesto' },
         { status: 400 }
       );
     }
 
-    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    // Se name non è fornito, estrailo dal prompt
+    const finalName = name || prompt.substring(0, 50) || 'Nuovo Modulo';
 
     // Genera slug unico (gestisce duplicati)
     let baseSlug = finalName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
@@ -106,6 +153,8 @@ export async function POST(request: NextRequest) {
         slug,
         type: type || null,
         description: prompt.substring(0, 200),
+        locale: locale || null,
+        stack_profile: stack_profile || null,
       })
       .select()
       .single();
@@ -118,245 +167,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Genera codice con AI
-    console.log('[CREATE] Generazione codice con AI...');
-    const systemPrompt = `Sei un esperto sviluppatore Next.js e TypeScript. 
-Genera codice COMPLETO, COMPILABILE e FUNZIONANTE.
-NON lasciare codice incompleto o placeholder.
-Tutti i tipi devono essere completi.
-Tutti i tag JSX devono essere chiusi.
-Tutte le funzioni devono essere implementate completamente.`;
-
-    const userPrompt = `Crea un nuovo modulo "${name}" con questa descrizione: ${prompt}
-
-Genera un'applicazione Next.js completa e funzionante.
-Crea SOLO questi file:
-- app/page.tsx (pagina principale)
-- components/Form.tsx (form base)
-
-Usa Tailwind per UI, tutto in italiano.
-Restituisci SOLO codice, separato da === FILENAME: path/file.tsx ===`;
-
-    const message = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 16000,
-      system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }],
-    });
-
-    const responseText = message.content
-      .map((block) => (block.type === 'text' ? block.text : ''))
-      .join('\n');
-
-    let files = parseClaudeResponse(responseText);
-
-    // Aggiungi file base
-    const baseFiles = getBaseFiles();
-    const allFiles = { ...baseFiles, ...files };
-
-    // Valida e fix
-    const validated = await validateAndFixCode(allFiles, prompt, anthropic, 1);
-    if (!validated.success && validated.errors && validated.errors.length > 0) {
-      console.warn('[CREATE] Errori di sintassi dopo validazione:', validated.errors);
-      // Continua comunque
-    }
-    files = validated.files;
-
-    // Deploy
-    console.log('[CREATE] Deploy su GitHub e Vercel...');
-    let repoUrl: string | undefined;
-    let deployUrl: string | undefined;
-    let deployError: string | undefined;
-    let deployStatus: 'deployed_dev' | 'failed' = 'deployed_dev';
-    let autoFixApplied = false;
-
-    try {
-      const githubResult = await createAndPushGitHubRepo(module.id, files, finalName);
-      repoUrl = githubResult.repoUrl;
-      // Estrai il nome del repository dall'URL (es: https://github.com/user/repo -> repo)
-      const repoNameFromUrl = repoUrl.split('/').pop()?.replace('.git', '') || `erp-app-${module.id.substring(0, 8)}`;
-      const repoName = repoNameFromUrl;
-      
-      try {
-        // Deploy con auto-fix abilitato
-        deployUrl = await createVercelDeployment(repoName, repoUrl, module.id, {
-          enableAutoFix: true,
-          currentFiles: files,
-          originalPrompt: prompt,
-          anthropic: anthropic,
-          onAutoFix: async (fixedFiles: Record<string, string>) => {
-            console.log('[CREATE] [AUTO-FIX] Applicazione fix su GitHub...');
-            autoFixApplied = true;
-            
-            // Push fix su GitHub
-            const octokit = getGitHubClient();
-            const { data: userData } = await octokit.users.getAuthenticated();
-            const username = userData.login;
-            
-            // Ottieni branch SHA (prova prima main, poi master)
-            let refData;
-            try {
-              refData = (await octokit.git.getRef({
-                owner: username,
-                repo: repoName,
-                ref: 'heads/main',
-              })).data;
-            } catch (error: any) {
-              if (error.status === 404) {
-                // Prova con master
-                refData = (await octokit.git.getRef({
-                  owner: username,
-                  repo: repoName,
-                  ref: 'heads/master',
-                })).data;
-              } else {
-                throw error;
-              }
-            }
-
-            const { data: commitData } = await octokit.git.getCommit({
-              owner: username,
-              repo: repoName,
-              commit_sha: refData.object.sha,
-            });
-
-            // Crea blobs per i file fixati
-            const baseFiles = getBaseFiles();
-            const allFixedFiles = { ...baseFiles, ...fixedFiles };
-            const blobShas: Record<string, string> = {};
-            
-            for (const [path, content] of Object.entries(allFixedFiles)) {
-              const { data: blobData } = await octokit.git.createBlob({
-                owner: username,
-                repo: repoName,
-                content: Buffer.from(content).toString('base64'),
-                encoding: 'base64',
-              });
-              blobShas[path] = blobData.sha;
-            }
-
-            // Crea tree
-            const { data: treeData } = await octokit.git.createTree({
-              owner: username,
-              repo: repoName,
-              base_tree: commitData.tree.sha,
-              tree: Object.entries(allFixedFiles).map(([path]) => ({
-                path,
-                mode: '100644' as const,
-                type: 'blob' as const,
-                sha: blobShas[path],
-              })),
-            });
-
-            // Crea commit
-            const { data: commitResponse } = await octokit.git.createCommit({
-              owner: username,
-              repo: repoName,
-              message: 'Auto-fix: correzione errori di build',
-              tree: treeData.sha,
-              parents: [refData.object.sha],
-            });
-
-            // Aggiorna reference (usa lo stesso branch trovato prima)
-            const branchName = refData.ref.replace('refs/heads/', '');
-            await octokit.git.updateRef({
-              owner: username,
-              repo: repoName,
-              ref: `heads/${branchName}`,
-              sha: commitResponse.sha,
-            });
-
-            console.log('[CREATE] [AUTO-FIX] ✅ Fix pushato su GitHub, Vercel auto-deployerà...');
-            
-            // Aggiorna files nel database (aggiorna l'ultima versione)
-            const { data: latestVersion } = await supabase
-              .from('module_versions')
-              .select('id')
-              .eq('module_id', module.id)
-              .order('version_number', { ascending: false })
-              .limit(1)
-              .single();
-            
-            if (latestVersion) {
-              await supabase
-                .from('module_versions')
-                .update({ files: fixedFiles })
-                .eq('id', latestVersion.id);
-            }
-          },
-        });
-        console.log('[CREATE] ✅ Deployment Vercel completato:', deployUrl);
-      } catch (vercelError) {
-        console.error('[CREATE] ⚠️  Errore deployment Vercel:', vercelError);
-        deployError = vercelError instanceof Error ? vercelError.message : 'Errore sconosciuto durante deployment Vercel';
-        deployStatus = 'failed';
-        // Continua comunque - il modulo è creato e il repo GitHub è pushato
-        // L'utente può riprovare il deploy in seguito
-      }
-    } catch (error) {
-      console.error('[CREATE] ⚠️  Errore durante deploy:', error);
-      deployError = error instanceof Error ? error.message : 'Errore sconosciuto durante deploy';
-      deployStatus = 'failed';
-      // Continua comunque - il modulo è creato anche se il deploy fallisce
-    }
-
-    // Crea versione v1
-    const versionData: any = {
-      module_id: module.id,
-      version_number: 1,
-      prompt,
-      files,
-      github_repo_url: repoUrl,
-      status: deployStatus,
-      created_by: 'Creazione nuovo modulo',
-    };
-
-    if (deployUrl) {
-      versionData.dev_deploy_url = deployUrl;
-    }
-
-    if (deployError) {
-      versionData.build_log = `Deployment error: ${deployError}`;
-    }
-
-    const { data: version, error: versionError } = await supabase
-      .from('module_versions')
-      .insert(versionData)
-      .select()
-      .single();
+    // Generazione, validazione e deploy avvengono nel worker (job 'module.create')
+    const job = await enqueueJob(
+      supabase,
+      'module.create',
+      { moduleId: module.id, prompt, name: finalName, ...(spec && { spec }), ...(mode && { mode }), securityOverride: securityOverride === true },
+      { moduleId: module.id }
+    );
 
-    if (versionError || !version) {
-      console.error('[CREATE] Errore creazione versione:', versionError);
-      return NextResponse.json(
-        { success: false, error: versionError?.message || 'Errore creazione versione' },
-        { status: 500 }
-      );
+    if (wantsEventStream(request)) {
+      return createJobProgressStream(supabase, job.id);
     }
 
-    // Aggiorna modulo con dev_version_id
-    await supabase
-      .from('modules')
-      .update({
-        dev_version_id: version.id,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', module.id);
-
-    return NextResponse.json({
-      success: true,
-      moduleId: module.id,
-      versionId: version.id,
-      devUrl: deployUrl || undefined,
-      repoUrl: repoUrl || undefined,
-      deployStatus: deployStatus,
-      autoFixApplied: autoFixApplied,
-      ...(deployError && { 
-        deployError, 
-        warning: autoFixApplied 
-          ? 'Deployment fallito, ma auto-fix applicato. Vercel sta deployando la versione corretta...'
-          : 'Deployment Vercel fallito, ma modulo creato con successo. Puoi riprovare il deploy in seguito.' 
-      }),
-    });
+    return NextResponse.json(
+      { success: true, jobId: job.id, moduleId: module.id, status: job.status },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('[CREATE] Errore:', error);
     return NextResponse.json(
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLlmProvider } from '@/lib/llm-provider';
+import { proposeModuleSpec } from '@/lib/spec-proposal';
+
+// POST - Propone la spec strutturata di un modulo a partire dal prompt (prima fase, facoltativa, della creazione).
+// La spec rivista dall'utente va poi inviata a POST /api/modules/create insieme al prompt
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { prompt, name } = body;
+
+    if (!prompt || typeof prompt !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'prompt richiesto' },
+        { status: 400 }
+      );
+    }
+
+    const proposal = await proposeModuleSpec(prompt, getLlmProvider(), { name: typeof name === 'string' ? name : undefined });
+    if (!proposal.spec) {
+      return NextResponse.json(
+        { success: false, error: 'Il modello non ha proposto una spec valida', errors: proposal.errors },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({ success: true, spec: proposal.spec });
+  } catch (error) {
+    console.error('[SPEC] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
+
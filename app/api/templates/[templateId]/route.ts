@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { listTemplates, toTemplateMetadata } from '@/lib/template-registry';
+
+function getSupabaseClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase credentials not configured');
+  }
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+// GET - Anteprima di un template: metadata e sorgenti (?workspaceId= per i template del workspace)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+    const { searchParams } = new URL(request.url);
+    const workspaceId = searchParams.get('workspaceId');
+
+    const templates = await listTemplates(workspaceId ? getSupabaseClient() : undefined, workspaceId || undefined);
+    const template = templates.find(candidate => candidate.id === templateId);
+
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: 'Template non trovato' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      template: {
+        ...toTemplateMetadata(template),
+        files: template.files,
+      },
+    });
+  } catch (error) {
+    console.error('[TEMPLATES] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { listTemplates, matchTemplates, toTemplateMetadata } from '@/lib/template-registry';
+
+function getSupabaseClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase credentials not configured');
+  }
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+const TEMPLATE_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// GET - Lista template (built-in + workspace con ?workspaceId=). Con ?prompt= li ordina per punteggio
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const workspaceId = searchParams.get('workspaceId');
+    const prompt = searchParams.get('prompt');
+
+    const templates = await listTemplates(workspaceId ? getSupabaseClient() : undefined, workspaceId || undefined);
+
+    if (prompt) {
+      return NextResponse.json({
+        success: true,
+        templates: matchTemplates(prompt, templates).map(match => ({
+          ...toTemplateMetadata(match.template),
+          fileCount: Object.keys(match.template.files).length,
+          score: match.score,
+          matchedKeywords: match.matchedKeywords,
+        })),
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      templates: templates.map(template => ({
+        ...toTemplateMetadata(template),
+        fileCount: Object.keys(template.files).length,
+      })),
+    });
+  } catch (error) {
+    console.error('[TEMPLATES] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Aggiunge (o aggiorna) un template del workspace
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { workspaceId, id, name, description, moduleType, icon, keywords, defaultSchema, files } = body;
+
+    if (!workspaceId || !id || !name) {
+      return NextResponse.json(
+        { success: false, error: 'workspaceId, id e name richiesti' },
+        { status: 400 }
+      );
+    }
+
+    if (!TEMPLATE_ID_PATTERN.test(id)) {
+      return NextResponse.json(
+        { success: false, error: 'id deve contenere solo lettere minuscole, numeri e trattini (es: suppliers)' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(keywords) || keywords.length === 0 || !keywords.every(keyword => typeof keyword === 'string' && keyword.trim())) {
+      return NextResponse.json(
+        { success: false, error: 'keywords deve essere una lista non vuota di stringhe' },
+        { status: 400 }
+      );
+    }
+
+    // Il template sostituisce l'intera app generata: serve almeno la pagina principale
+    const fileEntries = files && typeof files === 'object' ? Object.entries(files) : [];
+    if (!fileEntries.every(([, content]) => typeof content === 'string') || !files['app/page.tsx']) {
+      return NextResponse.json(
+        { success: false, error: 'files deve mappare percorsi a contenuti e includere app/page.tsx' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseClient();
+
+    const { data: workspace } = await supabase
+      .from('workspaces')
+      .select('id')
+      .eq('id', workspaceId)
+      .single();
+
+    if (!workspace) {
+      return NextResponse.json(
+        { success: false, error: 'Workspace non trovato' },
+        { status: 404 }
+      );
+    }
+
+    const { data: row, error } = await supabase
+      .from('module_templates')
+      .upsert({
+        workspace_id: workspaceId,
+        slug: id,
+        name,
+        description: description || null,
+        module_type: moduleType || null,
+        icon: icon || null,
+        keywords: keywords.map((keyword: string) => keyword.trim()),
+        default_schema: defaultSchema || null,
+        files,
+      }, { onConflict: 'workspace_id,slug' })
+      .select('id')
+      .single();
+
+    if (error || !row) {
+      console.error('[TEMPLATES] Errore salvataggio template:', error);
+      return NextResponse.json(
+        { success: false, error: error?.message || 'Errore salvataggio template' },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[TEMPLATES] Template ${id} salvato per il workspace ${workspaceId}`);
+    return NextResponse.json({ success: true, id, workspaceId });
+  } catch (error) {
+    console.error('[TEMPLATES] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
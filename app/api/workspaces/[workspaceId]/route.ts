@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { SUPPORTED_LOCALES, isSupportedLocale } from '@/lib/locale';
+import { STACK_PROFILE_IDS, isStackProfileId } from '@/lib/stack-profiles';
+
+function getSupabaseClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase credentials not configured');
+  }
+
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+// PATCH - Aggiorna workspace (nome, descrizione, lingua e profilo di stack di default dei nuovi moduli)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const { workspaceId } = await params;
+    const body = await request.json();
+    const { name, description, locale, stack_profile } = body;
+
+    if (locale !== undefined && !isSupportedLocale(locale)) {
+      return NextResponse.json(
+        { success: false, error: `locale non supportato (ammessi: ${SUPPORTED_LOCALES.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    if (stack_profile !== undefined && !isStackProfileId(stack_profile)) {
+      return NextResponse.json(
+        { success: false, error: `stack_profile non supportato (ammessi: ${STACK_PROFILE_IDS.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseClient();
+
+    const { data: workspace, error } = await supabase
+      .from('workspaces')
+      .update({
+        ...(name !== undefined && { name }),
+        ...(description !== undefined && { description }),
+        ...(locale !== undefined && { locale }),
+        ...(stack_profile !== undefined && { stack_profile }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', workspaceId)
+      .select()
+      .single();
+
+    if (error || !workspace) {
+      console.error('[WORKSPACES] Errore aggiornamento:', error);
+      return NextResponse.json(
+        { success: false, error: error?.message || 'Workspace non trovato' },
+        { status: error ? 500 : 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      workspace,
+    });
+  } catch (error) {
+    console.error('[WORKSPACES] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
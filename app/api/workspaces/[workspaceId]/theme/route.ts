@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { enqueueJob } from '@/lib/jobs';
+import { DEFAULT_THEME, normalizeTheme, resolveTheme } from '@/lib/theme';
+
+function getSupabaseClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase credentials not configured');
+  }
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+// Nuova versione con i file del tema e deploy su DEV sono in @/lib/theme-redeploy (eseguiti dal worker)
+
+// GET - Tema del workspace (completo dei valori di default) e tema di default
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const { workspaceId } = await params;
+    const supabase = getSupabaseClient();
+
+    const { data: workspace, error } = await supabase
+      .from('workspaces')
+      .select('id, theme')
+      .eq('id', workspaceId)
+      .single();
+
+    if (error || !workspace) {
+      return NextResponse.json(
+        { success: false, error: 'Workspace non trovato' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      theme: resolveTheme(workspace.theme),
+      defaultTheme: DEFAULT_THEME,
+    });
+  } catch (error) {
+    console.error('[THEME] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Salva il tema (palette, fontSans, fontMono, radius, density, logoUrl; i campi assenti prendono
+// il valore di default) e accoda un job 'module.theme' per ogni modulo del workspace con una versione DEV:
+// i moduli vengono ridistribuiti con il nuovo tema senza chiamate LLM. Con `redeploy: false` il tema
+// vale solo per i moduli generati da ora in poi. Risponde 202 con gli id dei job
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const { workspaceId } = await params;
+    const body = await request.json();
+    const { redeploy } = body;
+
+    const normalized = normalizeTheme(body.theme);
+    if (!normalized.theme) {
+      return NextResponse.json(
+        { success: false, error: 'Tema non valido', errors: normalized.errors },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseClient();
+
+    const { data: workspace, error } = await supabase
+      .from('workspaces')
+      .update({
+        theme: normalized.theme,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', workspaceId)
+      .select('id, theme')
+      .single();
+
+    if (error || !workspace) {
+      console.error('[THEME] Errore aggiornamento:', error);
+      return NextResponse.json(
+        { success: false, error: error?.message || 'Workspace non trovato' },
+        { status: error ? 500 : 404 }
+      );
+    }
+
+    const jobs: Array<{ moduleId: string; jobId: string }> = [];
+    if (redeploy !== false) {
+      const { data: modules, error: modulesError } = await supabase
+        .from('modules')
+        .select('id')
+        .eq('workspace_id', workspaceId)
+        .not('dev_version_id', 'is', null);
+
+      if (modulesError) {
+        console.error('[THEME] Errore caricamento moduli:', modulesError);
+        return NextResponse.json(
+          { success: false, error: modulesError.message },
+          { status: 500 }
+        );
+      }
+
+      for (const { id: moduleId } of modules || []) {
+        const job = await enqueueJob(supabase, 'module.theme', { moduleId }, { moduleId });
+        jobs.push({ moduleId, jobId: job.id });
+      }
+      console.log(`[THEME] Tema aggiornato, ${jobs.length} moduli da ridistribuire`);
+    }
+
+    return NextResponse.json(
+      { success: true, theme: normalized.theme, jobs },
+      { status: jobs.length > 0 ? 202 : 200 }
+    );
+  } catch (error) {
+    console.error('[THEME] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { summarizeUsage } from '@/lib/llm-usage';
+import type { LlmUsageRecord } from '@/lib/supabase/schema';
+
+function getSupabaseClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase credentials not configured');
+  }
+
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+// GET - Token e costi LLM del workspace negli ultimi ?days= giorni (default 30):
+// totale, per giorno, per modulo e per tipo di chiamata. Con ?moduleId= solo quel modulo
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const { workspaceId } = await params;
+    const { searchParams } = new URL(request.url);
+    const days = Number(searchParams.get('days') || DEFAULT_DAYS);
+    const moduleId = searchParams.get('moduleId');
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `days deve essere un intero tra 1 e ${MAX_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseClient();
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    let query = supabase
+      .from('llm_usage')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .gte('created_at', since)
+      .order('created_at', { ascending: true });
+    if (moduleId) {
+      query = query.eq('module_id', moduleId);
+    }
+    const { data: records, error } = await query;
+
+    if (error) {
+      console.error('[USAGE] Errore:', error);
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 500 }
+      );
+    }
+
+    const { data: modules } = await supabase
+      .from('modules')
+      .select('id, name')
+      .eq('workspace_id', workspaceId);
+    const moduleNames = Object.fromEntries((modules || []).map(module => [module.id, module.name]));
+
+    return NextResponse.json({
+      success: true,
+      since,
+      days,
+      ...summarizeUsage((records || []) as LlmUsageRecord[], moduleNames),
+    });
+  } catch (error) {
+    console.error('[USAGE] Errore:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore sconosciuto',
+      },
+      { status: 500 }
+    );
+  }
+}
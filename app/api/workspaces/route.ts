@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, isSupportedLocale } from '@/lib/locale';
+import { DEFAULT_STACK_PROFILE, STACK_PROFILE_IDS, isStackProfileId } from '@/lib/stack-profiles';
 
 function getSupabaseClient() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -49,11 +51,12 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - Crea nuovo workspace
+// POST - Crea nuovo workspace (locale: lingua di default dei moduli, 'it' se assente;
+// stack_profile: profilo di stack di default dei moduli, vedi lib/stack-profiles.ts)
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { user_id, name } = body;
+    const { user_id, name, locale = DEFAULT_LOCALE, stack_profile = DEFAULT_STACK_PROFILE } = body;
 
     if (!user_id || !name) {
       return NextResponse.json(
@@ -62,6 +65,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!isSupportedLocale(locale)) {
+      return NextResponse.json(
+        { success: false, error: `locale non supportato (ammessi: ${SUPPORTED_LOCALES.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    if (!isStackProfileId(stack_profile)) {
+      return NextResponse.json(
+        { success: false, error: `stack_profile non supportato (ammessi: ${STACK_PROFILE_IDS.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
     const supabase = getSupabaseClient();
 
     const { data: workspace, error } = await supabase
@@ -69,6 +86,8 @@ export async function POST(request: NextRequest) {
       .insert({
         user_id,
         name,
+        locale,
+        stack_profile,
       })
       .select()
       .single();
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
+import UsageSummary from '@/components/UsageSummary';
 import type { Workspace, Module } from '@/lib/supabase/schema';
 
 export default function DashboardPage() {
@@ -105,6 +106,12 @@ export default function DashboardPage() {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-6 py-8">
+        {workspace && (
+          <div className="mb-8">
+            <UsageSummary workspaceId={workspace.id} />
+          </div>
+        )}
+
         <div className="flex justify-between items-center mb-6">
           <div>
             <h2 className="text-xl font-semibold text-gray-800">I Tuoi Moduli</h2>
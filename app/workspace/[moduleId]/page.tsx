@@ -4,6 +4,8 @@ import { useEffect, useState, useRef } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import type { Module, ModuleVersion } from '@/lib/supabase/schema';
+import { readProgressStream } from '@/lib/generation-progress';
+import { formatMigrationRisk, requiresMigrationConfirmation, type MigrationRiskReport } from '@/lib/migration-risk';
 
 interface ChatMessage {
   id: string;
@@ -12,6 +14,15 @@ interface ChatMessage {
   timestamp: Date;
 }
 
+interface DeployResult {
+  success: boolean;
+  deployUrl?: string;
+  error?: string;
+  // Migration distruttive o da preparare con un backfill: il deploy va ripetuto con la conferma
+  migrationRisk?: MigrationRiskReport;
+  confirmationRequired?: boolean;
+}
+
 export default function WorkspacePage() {
   const params = useParams();
   const moduleId = params.moduleId as string;
@@ -101,13 +112,19 @@ export default function WorkspacePage() {
     setMessages(prev => [...prev, loadingMessage]);
 
     try {
-      const response = await fetch(`/api/modules/${moduleId}/modify`, {
+      // La modifica gira come job nel worker: lo stream SSE riporta l'avanzamento fino al risultato
+      const response = await fetch(`/api/modules/${moduleId}/modify?stream=1`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
         body: JSON.stringify({ prompt: currentInput }),
       });
 
-      const data = await response.json();
+      const { data } = await readProgressStream<{ success: boolean; explanation?: string; error?: string; migrationRisk?: MigrationRiskReport }>(
+        response,
+        (event) => setMessages(prev => prev.map(m =>
+          m.id === loadingMessage.id ? { ...m, content: `⏳ ${event.message}` } : m
+        ))
+      );
 
       if (data.success) {
         // Rimuovi loading message
@@ -122,6 +139,20 @@ export default function WorkspacePage() {
         };
         setMessages(prev => [...prev, aiMessage]);
 
+        // Classificazione degli statement della migration generata
+        if (data.migrationRisk && data.migrationRisk.statements.length > 0) {
+          const riskLines = formatMigrationRisk(data.migrationRisk);
+          if (requiresMigrationConfirmation(data.migrationRisk)) {
+            riskLines.push('Il deploy in Staging e Production richiederà una conferma esplicita.');
+          }
+          setMessages(prev => [...prev, {
+            id: (Date.now() + 4).toString(),
+            role: 'system',
+            content: `🗄️ ${riskLines.join('\n')}`,
+            timestamp: new Date(),
+          }]);
+        }
+
         // Aggiorna preview
         await loadModule();
       } else {
@@ -142,17 +173,42 @@ export default function WorkspacePage() {
     }
   }
 
+  // Deploy in un ambiente; con migration a rischio chiede conferma (ed eventuale backup delle tabelle) e lo ripete
+  async function requestDeploy(environment: 'staging' | 'production'): Promise<DeployResult> {
+    const runDeploy = async (options: { migrationRiskConfirmed?: boolean; backupTables?: boolean } = {}) => {
+      const response = await fetch(`/api/modules/${moduleId}/deploy?stream=1`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+        body: JSON.stringify({ environment, ...options }),
+      });
+      const { data } = await readProgressStream<DeployResult>(response, () => {});
+      return data;
+    };
+
+    const data = await runDeploy();
+    if (data.success || !data.confirmationRequired || !data.migrationRisk) {
+      return data;
+    }
+    const riskLines = formatMigrationRisk(data.migrationRisk);
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      role: 'system',
+      content: `🗄️ ${riskLines.join('\n')}`,
+      timestamp: new Date(),
+    }]);
+    if (!confirm(`La migration per ${environment === 'production' ? 'Production' : 'Staging'} contiene modifiche a rischio:\n\n${riskLines.join('\n')}\n\nProcedere con il deploy?`)) {
+      return { success: false, error: 'Deploy annullato: migration a rischio non confermata' };
+    }
+    const backupTables = data.migrationRisk.tables.length > 0 &&
+      confirm(`Salvare prima una copia delle tabelle ${data.migrationRisk.tables.join(', ')}?`);
+    return runDeploy({ migrationRiskConfirmed: true, backupTables });
+  }
+
   async function handleDeployStaging() {
     if (!module) return;
     
     try {
-      const response = await fetch(`/api/modules/${module.id}/deploy`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ environment: 'staging' }),
-      });
-
-      const data = await response.json();
+      const data = await requestDeploy('staging');
       if (data.success) {
         setMessages(prev => [...prev, {
           id: Date.now().toString(),
@@ -173,13 +229,7 @@ export default function WorkspacePage() {
     if (!module) return;
     
     try {
-      const response = await fetch(`/api/modules/${module.id}/deploy`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ environment: 'production' }),
-      });
-
-      const data = await response.json();
+      const data = await requestDeploy('production');
       if (data.success) {
         setMessages(prev => [...prev, {
           id: Date.now().toString(),
@@ -362,6 +412,23 @@ export default function WorkspacePage() {
             </div>
           )}
 
+          {deploymentStatus === 'blocked' && (
+            <div className="bg-orange-50 border-b border-orange-200 px-6 py-3">
+              <p className="text-sm text-orange-800 font-medium">
+                🛡️ Deploy bloccato dall&apos;analisi di sicurezza
+              </p>
+              <ul className="mt-1 text-xs text-orange-700 space-y-0.5">
+                {(devVersion?.security_findings || [])
+                  .filter((finding) => finding.severity === 'high')
+                  .map((finding, index) => (
+                    <li key={index}>
+                      {finding.file}:{finding.line} — {finding.message}
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          )}
+
           {/* Preview Iframe */}
           <div className="flex-1 relative">
             {previewUrl ? (
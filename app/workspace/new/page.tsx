@@ -3,12 +3,29 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import GenerationTimeline from '@/components/GenerationTimeline';
+import ModuleSpecEditor from '@/components/ModuleSpecEditor';
+import { readProgressStream, type ProgressEvent } from '@/lib/generation-progress';
+import { normalizeModuleSpec, type ModuleSpec } from '@/lib/entity-spec';
+import { SUPPORTED_LOCALES, getLanguageName, type Locale } from '@/lib/locale';
+import { listStackProfiles, type StackProfileId } from '@/lib/stack-profiles';
 
 export default function NewModulePage() {
   const router = useRouter();
   const [prompt, setPrompt] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [progressEvents, setProgressEvents] = useState<ProgressEvent[]>([]);
+  // Spec proposta dal modello, in revisione prima della generazione
+  const [spec, setSpec] = useState<ModuleSpec | null>(null);
+  const [specErrors, setSpecErrors] = useState<string[]>([]);
+  const [proposing, setProposing] = useState(false);
+  // Lingua dell'app generata ('' = lingua del workspace)
+  const [locale, setLocale] = useState<Locale | ''>('');
+  // Profilo di stack dell'app generata ('' = profilo del workspace)
+  const [stackProfile, setStackProfile] = useState<StackProfileId | ''>('');
+  // Generazione AI multi-pagina: route di lista, dettaglio e modifica per ogni entità
+  const [multiPage, setMultiPage] = useState(false);
 
   const examplePrompts = [
     "Gestione ordini con cliente, data, importo, stato",
@@ -16,25 +33,81 @@ export default function NewModulePage() {
     "Magazzino prodotti con giacenza e prezzo",
   ];
 
-  async function handleCreate() {
+  // Prima fase facoltativa: il modello propone entità, campi e schermate da rivedere
+  async function handleProposeSpec() {
     if (!prompt.trim()) {
       setError('Inserisci una descrizione del modulo');
       return;
     }
 
-    setLoading(true);
+    setProposing(true);
     setError(null);
+    setSpecErrors([]);
 
     try {
-      const response = await fetch('/api/modules/create', {
+      const response = await fetch('/api/modules/spec', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ prompt }),
       });
-
       const data = await response.json();
 
       if (!data.success) {
+        setSpecErrors(data.errors || []);
+        throw new Error(data.error || 'Errore durante la proposta della spec');
+      }
+      setSpec(data.spec);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore sconosciuto');
+    } finally {
+      setProposing(false);
+    }
+  }
+
+  async function handleCreate() {
+    if (!prompt.trim()) {
+      setError('Inserisci una descrizione del modulo');
+      return;
+    }
+
+    // La spec modificata viene validata prima di avviare la generazione
+    let confirmedSpec: ModuleSpec | null = null;
+    if (spec) {
+      const normalized = normalizeModuleSpec(spec);
+      if (!normalized.spec) {
+        setSpecErrors(normalized.errors);
+        return;
+      }
+      confirmedSpec = normalized.spec;
+    }
+
+    setLoading(true);
+    setError(null);
+    setSpecErrors([]);
+    setProgressEvents([]);
+
+    try {
+      // Avanzamento reale via Server-Sent Events
+      const response = await fetch('/api/modules/create?stream=1', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+        body: JSON.stringify({
+          prompt,
+          ...(confirmedSpec && { spec: confirmedSpec }),
+          ...(locale && { locale }),
+          ...(stackProfile && { stack_profile: stackProfile }),
+          // Con una spec confermata il CRUD è già multi-pagina (generazione deterministica)
+          ...(multiPage && !confirmedSpec && { mode: 'multi-page' }),
+        }),
+      });
+
+      const { data } = await readProgressStream<{ success: boolean; moduleId?: string; error?: string; errors?: string[] }>(
+        response,
+        (event) => setProgressEvents((prev) => [...prev, event])
+      );
+
+      if (!data.success) {
+        setSpecErrors(data.errors || []);
         throw new Error(data.error || 'Errore durante la creazione');
       }
 
@@ -82,50 +155,117 @@ export default function NewModulePage() {
             className="w-full px-4 py-3 border rounded-lg resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-4"
             rows={6}
             placeholder="Es: Gestione ordini con cliente, prodotto, quantità, prezzo e stato. Deve permettere di creare, modificare ed eliminare ordini..."
-            disabled={loading}
+            disabled={loading || proposing || spec !== null}
           />
 
+          {spec && (
+            <div className="mb-6 p-4 bg-gray-50 rounded-lg">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h2 className="text-xl font-semibold">Rivedi la spec del modulo</h2>
+                  <p className="text-sm text-gray-600">Correggi entità, campi e schermate: il codice viene generato solo dopo la conferma</p>
+                </div>
+                <button
+                  onClick={() => { setSpec(null); setSpecErrors([]); }}
+                  disabled={loading}
+                  className="text-sm text-gray-600 hover:underline disabled:text-gray-300"
+                >
+                  Scarta spec
+                </button>
+              </div>
+              <ModuleSpecEditor spec={spec} onChange={setSpec} disabled={loading} />
+            </div>
+          )}
+
           <div className="flex justify-between items-center">
-            <span className="text-sm text-gray-500">
-              {prompt.length} caratteri
-            </span>
+            <div className="flex items-center gap-4 text-sm text-gray-500">
+              <span>{prompt.length} caratteri</span>
+              <label className="flex items-center gap-2">
+                Lingua app
+                <select
+                  value={locale}
+                  onChange={(e) => setLocale(e.target.value as Locale | '')}
+                  disabled={loading}
+                  className="px-2 py-1 border rounded text-sm"
+                >
+                  <option value="">Lingua del workspace</option>
+                  {SUPPORTED_LOCALES.map((option) => (
+                    <option key={option} value={option}>{getLanguageName(option)}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Stack
+                <select
+                  value={stackProfile}
+                  onChange={(e) => setStackProfile(e.target.value as StackProfileId | '')}
+                  disabled={loading}
+                  className="px-2 py-1 border rounded text-sm"
+                >
+                  <option value="">Stack del workspace</option>
+                  {listStackProfiles().map((profile) => (
+                    <option key={profile.id} value={profile.id}>{profile.label}</option>
+                  ))}
+                </select>
+              </label>
+              {!spec && (
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={multiPage}
+                    onChange={(e) => setMultiPage(e.target.checked)}
+                    disabled={loading}
+                  />
+                  Multi-pagina
+                </label>
+              )}
+            </div>
             
-            <button
-              onClick={handleCreate}
-              disabled={loading || !prompt.trim()}
-              className="px-8 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed font-medium text-lg"
-            >
-              {loading ? (
-                <span className="flex items-center gap-2">
-                  <span className="animate-spin">⏳</span>
-                  Generando... (2-3 min)
-                </span>
-              ) : (
-                '🚀 Crea Modulo'
+            <div className="flex gap-3">
+              {!spec && (
+                <button
+                  onClick={handleProposeSpec}
+                  disabled={loading || proposing || !prompt.trim()}
+                  className="px-6 py-3 bg-white border border-blue-600 text-blue-700 rounded-lg hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400 disabled:cursor-not-allowed font-medium text-lg"
+                >
+                  {proposing ? 'Analisi in corso...' : '📝 Proponi spec'}
+                </button>
               )}
-            </button>
+              <button
+                onClick={handleCreate}
+                disabled={loading || proposing || !prompt.trim()}
+                className="px-8 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed font-medium text-lg"
+              >
+                {loading ? (
+                  <span className="flex items-center gap-2">
+                    <span className="animate-spin">⏳</span>
+                    Generando... (2-3 min)
+                  </span>
+                ) : spec ? (
+                  '✅ Conferma e genera'
+                ) : (
+                  '🚀 Crea Modulo'
+                )}
+              </button>
+            </div>
           </div>
 
-          {error && (
+          {(error || specErrors.length > 0) && (
             <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
-              {error}
+              {error || 'La spec contiene errori:'}
+              {specErrors.length > 0 && (
+                <ul className="mt-2 list-disc list-inside">
+                  {specErrors.map((specError) => (
+                    <li key={specError}>{specError}</li>
+                  ))}
+                </ul>
+              )}
             </div>
           )}
 
-          {loading && (
-            <div className="mt-6 space-y-2">
-              <div className="flex items-center gap-2 text-sm text-gray-600">
-                <div className="w-2 h-2 bg-blue-600 rounded-full animate-pulse"></div>
-                Generando codice con AI...
-              </div>
-              <div className="flex items-center gap-2 text-sm text-gray-600">
-                <div className="w-2 h-2 bg-blue-600 rounded-full animate-pulse"></div>
-                Validando sintassi...
-              </div>
-              <div className="flex items-center gap-2 text-sm text-gray-600">
-                <div className="w-2 h-2 bg-blue-600 rounded-full animate-pulse"></div>
-                Deployando su GitHub...
-              </div>
+          {(loading || progressEvents.length > 0) && (
+            <div className="mt-6">
+              <GenerationTimeline events={progressEvents} active={loading} />
             </div>
           )}
         </div>
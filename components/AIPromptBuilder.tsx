@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import GenerationTimeline from './GenerationTimeline';
+import { estimateProgress, readProgressStream, type ProgressEvent } from '@/lib/generation-progress';
 
 const examplePrompts = [
   {
@@ -28,6 +30,12 @@ interface GenerateResult {
   deployUrl?: string;
 }
 
+// Body JSON di /api/generate (evento finale dello stream)
+interface GenerateResponse extends GenerateResult {
+  error?: string;
+  result?: string;
+}
+
 interface DeployResult {
   success: boolean;
   repoUrl?: string;
@@ -40,6 +48,7 @@ export default function AIPromptBuilder() {
   const [prompt, setPrompt] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [progressEvents, setProgressEvents] = useState<ProgressEvent[]>([]);
   const [result, setResult] = useState<GenerateResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<string>('');
@@ -230,38 +239,35 @@ export default function AIPromptBuilder() {
 
     setIsLoading(true);
     setProgress(0);
+    setProgressEvents([]);
     setResult(null); // Nascondi risultati precedenti durante la generazione
     setError(null);
     setDeployResult(null); // Nascondi anche i risultati di deploy precedenti
 
-    // Simula progresso
-    const progressInterval = setInterval(() => {
-      setProgress((prev) => {
-        if (prev >= 90) {
-          clearInterval(progressInterval);
-          return 90;
-        }
-        return prev + 10;
-      });
-    }, 300);
-
     try {
-      const response = await fetch('/api/generate', {
+      // Avanzamento reale via Server-Sent Events
+      const response = await fetch('/api/generate?stream=1', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
         },
         body: JSON.stringify({ prompt }),
       });
 
-      clearInterval(progressInterval);
-
       if (!response.ok) {
         throw new Error(`Errore: ${response.statusText}`);
       }
 
-      const data = await response.json();
+      const { data } = await readProgressStream<GenerateResponse>(response, (event) => {
+        setProgressEvents((prev) => [...prev, event]);
+        setProgress((prev) => Math.max(prev, estimateProgress(event)));
+      });
       setProgress(100);
+
+      if (!data.success && data.error) {
+        throw new Error(data.error);
+      }
       
       if (data.success && data.files) {
         setResult({
@@ -290,7 +296,6 @@ export default function AIPromptBuilder() {
         });
       }
     } catch (err) {
-      clearInterval(progressInterval);
       setError(err instanceof Error ? err.message : 'Errore durante la generazione');
       setProgress(0);
     } finally {
@@ -389,6 +394,9 @@ export default function AIPromptBuilder() {
                 className="h-full bg-gradient-to-r from-blue-500 via-indigo-500 to-purple-500 rounded-full"
               />
             </div>
+            <div className="mt-4">
+              <GenerationTimeline events={progressEvents} active={isLoading} />
+            </div>
           </motion.div>
         )}
       </AnimatePresence>
@@ -0,0 +1,92 @@
+'use client';
+
+import { motion, AnimatePresence } from 'framer-motion';
+import type { ProgressEvent, ProgressPhase } from '@/lib/generation-progress';
+
+interface GenerationTimelineProps {
+  events: ProgressEvent[];
+  // true finché la generazione è in corso (l'ultimo evento è mostrato come attivo)
+  active: boolean;
+}
+
+const phaseIcons: Record<ProgressPhase, string> = {
+  prompting: '🧠',
+  tokens: '✍️',
+  parsing: '📄',
+  validation: '🔍',
+  fix: '🛠️',
+  security: '🛡️',
+  saving: '💾',
+  migration: '🗄️',
+  github: '🐙',
+  vercel: '▲',
+  'auto-fix': '🩹',
+};
+
+// Gli eventi 'tokens' consecutivi vengono compressi in una sola riga aggiornata
+function collapseEvents(events: ProgressEvent[]): ProgressEvent[] {
+  const collapsed: ProgressEvent[] = [];
+  for (const event of events) {
+    const last = collapsed[collapsed.length - 1];
+    if (last && last.phase === 'tokens' && event.phase === 'tokens') {
+      collapsed[collapsed.length - 1] = event;
+    } else {
+      collapsed.push(event);
+    }
+  }
+  return collapsed;
+}
+
+function formatElapsed(start: number, timestamp: number): string {
+  const seconds = Math.max(0, Math.round((timestamp - start) / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export default function GenerationTimeline({ events, active }: GenerationTimelineProps) {
+  const entries = collapseEvents(events);
+  const startTime = events[0]?.timestamp ?? 0;
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <div className="w-2 h-2 bg-blue-600 rounded-full animate-pulse"></div>
+        In attesa del server...
+      </div>
+    );
+  }
+
+  return (
+    <ol className="space-y-2">
+      <AnimatePresence initial={false}>
+        {entries.map((event, index) => {
+          const isCurrent = active && index === entries.length - 1;
+          return (
+            <motion.li
+              key={`${event.phase}-${event.timestamp}-${index}`}
+              initial={{ opacity: 0, x: -10 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="flex items-center gap-3 text-sm"
+            >
+              <span className="w-6 text-center">{phaseIcons[event.phase]}</span>
+              <span className={isCurrent ? 'text-gray-900 font-medium' : 'text-gray-500'}>
+                {event.message}
+              </span>
+              {isCurrent ? (
+                <motion.span
+                  animate={{ rotate: 360 }}
+                  transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+                  className="w-3 h-3 border-2 border-blue-600 border-t-transparent rounded-full"
+                />
+              ) : (
+                <span className="text-green-600">✓</span>
+              )}
+              <span className="ml-auto text-xs text-gray-400 tabular-nums">
+                {formatElapsed(startTime, event.timestamp)}
+              </span>
+            </motion.li>
+          );
+        })}
+      </AnimatePresence>
+    </ol>
+  );
+}
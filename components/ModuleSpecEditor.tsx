@@ -0,0 +1,298 @@
+'use client';
+
+import { FIELD_TYPES, type EntitySpec, type FieldSpec, type FieldType, type ModuleSpec, type ScreenSpec } from '@/lib/entity-spec';
+
+interface ModuleSpecEditorProps {
+  spec: ModuleSpec;
+  onChange: (spec: ModuleSpec) => void;
+  disabled?: boolean;
+}
+
+const inputClass = 'w-full px-2 py-1 border rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50';
+
+// Tipi con limiti min/max (valore per i numeri, lunghezza per i testi)
+const boundedTypes: FieldType[] = ['number', 'integer', 'string', 'text', 'email'];
+
+function parseBound(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+// Editor della spec proposta dal modello: l'utente corregge entità, campi e schermate prima della generazione
+export default function ModuleSpecEditor({ spec, onChange, disabled }: ModuleSpecEditorProps) {
+  const updateEntity = (index: number, entity: EntitySpec) => {
+    onChange({ ...spec, entities: spec.entities.map((current, i) => (i === index ? entity : current)) });
+  };
+
+  const updateField = (entityIndex: number, fieldIndex: number, changes: Partial<FieldSpec>) => {
+    const entity = spec.entities[entityIndex];
+    updateEntity(entityIndex, {
+      ...entity,
+      fields: entity.fields.map((field, i) => (i === fieldIndex ? { ...field, ...changes } : field)),
+    });
+  };
+
+  const changeFieldType = (entityIndex: number, fieldIndex: number, type: FieldType) => {
+    const field = spec.entities[entityIndex].fields[fieldIndex];
+    updateField(entityIndex, fieldIndex, {
+      type,
+      values: type === 'enum' ? field.values || [] : undefined,
+      target: type === 'relation' ? field.target || spec.entities[0]?.name : undefined,
+      min: boundedTypes.includes(type) ? field.min : undefined,
+      max: boundedTypes.includes(type) ? field.max : undefined,
+    });
+  };
+
+  const removeField = (entityIndex: number, fieldIndex: number) => {
+    const entity = spec.entities[entityIndex];
+    updateEntity(entityIndex, { ...entity, fields: entity.fields.filter((_, i) => i !== fieldIndex) });
+  };
+
+  const addField = (entityIndex: number) => {
+    const entity = spec.entities[entityIndex];
+    updateEntity(entityIndex, { ...entity, fields: [...entity.fields, { name: '', type: 'string' }] });
+  };
+
+  const addEntity = () => {
+    onChange({ ...spec, entities: [...spec.entities, { name: '', fields: [{ name: 'nome', type: 'string', required: true }] }] });
+  };
+
+  const removeEntity = (index: number) => {
+    onChange({ ...spec, entities: spec.entities.filter((_, i) => i !== index) });
+  };
+
+  const screens = spec.screens || [];
+  const updateScreen = (index: number, changes: Partial<ScreenSpec>) => {
+    onChange({ ...spec, screens: screens.map((screen, i) => (i === index ? { ...screen, ...changes } : screen)) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="text-sm text-gray-600">
+          Nome modulo
+          <input
+            value={spec.name}
+            onChange={(e) => onChange({ ...spec, name: e.target.value })}
+            className={inputClass}
+            disabled={disabled}
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          Descrizione
+          <input
+            value={spec.description || ''}
+            onChange={(e) => onChange({ ...spec, description: e.target.value || undefined })}
+            className={inputClass}
+            disabled={disabled}
+          />
+        </label>
+      </div>
+
+      {spec.entities.map((entity, entityIndex) => (
+        <div key={entityIndex} className="border rounded-lg p-4">
+          <div className="flex flex-wrap items-end gap-3 mb-3">
+            <label className="text-sm text-gray-600">
+              Entità
+              <input
+                value={entity.name}
+                onChange={(e) => updateEntity(entityIndex, { ...entity, name: e.target.value })}
+                className={inputClass}
+                disabled={disabled}
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              Plurale
+              <input
+                value={entity.pluralName || ''}
+                onChange={(e) => updateEntity(entityIndex, { ...entity, pluralName: e.target.value || undefined })}
+                className={inputClass}
+                disabled={disabled}
+              />
+            </label>
+            <button
+              onClick={() => removeEntity(entityIndex)}
+              disabled={disabled || spec.entities.length === 1}
+              className="ml-auto text-sm text-red-600 hover:underline disabled:text-gray-300"
+            >
+              Rimuovi entità
+            </button>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pb-1 pr-2">Campo</th>
+                <th className="pb-1 pr-2">Etichetta</th>
+                <th className="pb-1 pr-2">Tipo</th>
+                <th className="pb-1 pr-2">Valori / collegamento</th>
+                <th className="pb-1 pr-2">Min</th>
+                <th className="pb-1 pr-2">Max</th>
+                <th className="pb-1 pr-2">Obbl.</th>
+                <th className="pb-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entity.fields.map((field, fieldIndex) => (
+                <tr key={fieldIndex} className="align-top">
+                  <td className="pr-2 pb-2">
+                    <input
+                      value={field.name}
+                      onChange={(e) => updateField(entityIndex, fieldIndex, { name: e.target.value })}
+                      className={inputClass}
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className="pr-2 pb-2">
+                    <input
+                      value={field.label || ''}
+                      onChange={(e) => updateField(entityIndex, fieldIndex, { label: e.target.value || undefined })}
+                      className={inputClass}
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className="pr-2 pb-2">
+                    <select
+                      value={field.type}
+                      onChange={(e) => changeFieldType(entityIndex, fieldIndex, e.target.value as FieldType)}
+                      className={inputClass}
+                      disabled={disabled}
+                    >
+                      {FIELD_TYPES.map((type) => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="pr-2 pb-2">
+                    {field.type === 'enum' && (
+                      <input
+                        value={(field.values || []).join(', ')}
+                        onChange={(e) => updateField(entityIndex, fieldIndex, { values: e.target.value.split(',').map((value) => value.trim()) })}
+                        placeholder="bozza, confermato"
+                        className={inputClass}
+                        disabled={disabled}
+                      />
+                    )}
+                    {field.type === 'relation' && (
+                      <select
+                        value={field.target || ''}
+                        onChange={(e) => updateField(entityIndex, fieldIndex, { target: e.target.value })}
+                        className={inputClass}
+                        disabled={disabled}
+                      >
+                        {spec.entities.map((target, i) => (
+                          <option key={i} value={target.name}>{target.name}</option>
+                        ))}
+                      </select>
+                    )}
+                  </td>
+                  <td className="pr-2 pb-2 w-20">
+                    {boundedTypes.includes(field.type) && (
+                      <input
+                        type="number"
+                        value={field.min ?? ''}
+                        onChange={(e) => updateField(entityIndex, fieldIndex, { min: parseBound(e.target.value) })}
+                        className={inputClass}
+                        disabled={disabled}
+                      />
+                    )}
+                  </td>
+                  <td className="pr-2 pb-2 w-20">
+                    {boundedTypes.includes(field.type) && (
+                      <input
+                        type="number"
+                        value={field.max ?? ''}
+                        onChange={(e) => updateField(entityIndex, fieldIndex, { max: parseBound(e.target.value) })}
+                        className={inputClass}
+                        disabled={disabled}
+                      />
+                    )}
+                  </td>
+                  <td className="pr-2 pb-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={field.required === true}
+                      onChange={(e) => updateField(entityIndex, fieldIndex, { required: e.target.checked || undefined })}
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className="pb-2">
+                    <button
+                      onClick={() => removeField(entityIndex, fieldIndex)}
+                      disabled={disabled || entity.fields.length === 1}
+                      className="text-gray-400 hover:text-red-600 disabled:text-gray-200"
+                      title="Rimuovi campo"
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            onClick={() => addField(entityIndex)}
+            disabled={disabled}
+            className="mt-2 text-sm text-blue-600 hover:underline disabled:text-gray-300"
+          >
+            + Aggiungi campo
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={addEntity}
+        disabled={disabled}
+        className="text-sm px-4 py-2 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 disabled:opacity-50"
+      >
+        + Aggiungi entità
+      </button>
+
+      <div>
+        <h3 className="font-medium mb-2">Schermate</h3>
+        {screens.length === 0 && <p className="text-sm text-gray-500 mb-2">Nessuna schermata proposta</p>}
+        {screens.map((screen, index) => (
+          <div key={index} className="flex gap-2 mb-2">
+            <input
+              value={screen.name}
+              onChange={(e) => updateScreen(index, { name: e.target.value })}
+              className={`${inputClass} max-w-48`}
+              disabled={disabled}
+            />
+            <select
+              value={screen.entity || ''}
+              onChange={(e) => updateScreen(index, { entity: e.target.value || undefined })}
+              className={`${inputClass} max-w-40`}
+              disabled={disabled}
+            >
+              <option value="">—</option>
+              {spec.entities.map((entity, i) => (
+                <option key={i} value={entity.name}>{entity.name}</option>
+              ))}
+            </select>
+            <input
+              value={screen.description || ''}
+              onChange={(e) => updateScreen(index, { description: e.target.value || undefined })}
+              className={inputClass}
+              disabled={disabled}
+            />
+            <button
+              onClick={() => onChange({ ...spec, screens: screens.filter((_, i) => i !== index) })}
+              disabled={disabled}
+              className="text-gray-400 hover:text-red-600"
+              title="Rimuovi schermata"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => onChange({ ...spec, screens: [...screens, { name: '' }] })}
+          disabled={disabled}
+          className="text-sm text-blue-600 hover:underline disabled:text-gray-300"
+        >
+          + Aggiungi schermata
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { UsageSummary as UsageSummaryData } from '@/lib/llm-usage';
+
+interface UsageSummaryProps {
+  workspaceId: string;
+  days?: number;
+}
+
+const callTypeLabels: Record<string, string> = {
+  create: 'Creazione',
+  modify: 'Modifica',
+  fix: 'Fix validazione',
+  'auto-fix': 'Auto-fix build',
+  spec: 'Proposta spec',
+  translate: 'Traduzione',
+  generate: 'Generazione app',
+};
+
+function formatCost(value: number): string {
+  return value.toLocaleString('it-IT', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 4 });
+}
+
+function formatTokens(value: number): string {
+  return value >= 1_000_000 ? `${(value / 1_000_000).toFixed(1)}M` : value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
+}
+
+// Riepilogo dei costi LLM del workspace (GET /api/workspaces/[id]/usage)
+export default function UsageSummary({ workspaceId, days = 30 }: UsageSummaryProps) {
+  const [summary, setSummary] = useState<UsageSummaryData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/workspaces/${workspaceId}/usage?days=${days}`)
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) {
+          setSummary(data);
+        } else {
+          setError(data.error || 'Errore caricamento costi');
+        }
+      })
+      .catch(() => setError('Errore caricamento costi'));
+  }, [workspaceId, days]);
+
+  if (error) {
+    return <p className="text-sm text-gray-500">Costi non disponibili: {error}</p>;
+  }
+
+  if (!summary) {
+    return <p className="text-sm text-gray-500">Caricamento costi...</p>;
+  }
+
+  const maxDayCost = Math.max(...summary.byDay.map((day) => day.costUsd), 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex justify-between items-baseline mb-4">
+        <h2 className="text-lg font-semibold text-gray-800">Costi AI</h2>
+        <span className="text-xs text-gray-500">ultimi {days} giorni</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-6">
+        <div>
+          <div className="text-sm text-gray-600">Costo stimato</div>
+          <div className="text-2xl font-bold text-gray-900">{formatCost(summary.totals.costUsd)}</div>
+        </div>
+        <div>
+          <div className="text-sm text-gray-600">Token (input / output)</div>
+          <div className="text-2xl font-bold text-gray-900">
+            {formatTokens(summary.totals.inputTokens)} / {formatTokens(summary.totals.outputTokens)}
+          </div>
+        </div>
+        <div>
+          <div className="text-sm text-gray-600">Chiamate</div>
+          <div className="text-2xl font-bold text-gray-900">{summary.totals.calls}</div>
+        </div>
+      </div>
+
+      {summary.byDay.length > 0 && (
+        <div className="flex items-end gap-1 h-16 mb-6" title="Costo per giorno">
+          {summary.byDay.map((day) => (
+            <div
+              key={day.day}
+              className="flex-1 bg-blue-500 rounded-t"
+              style={{ height: `${maxDayCost > 0 ? Math.max(4, (day.costUsd / maxDayCost) * 100) : 4}%` }}
+              title={`${day.day}: ${formatCost(day.costUsd)} (${day.calls} chiamate)`}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+        <div>
+          <h3 className="font-medium text-gray-700 mb-2">Per modulo</h3>
+          {summary.byModule.length === 0 ? (
+            <p className="text-gray-500">Nessuna chiamata registrata</p>
+          ) : (
+            <ul className="space-y-1">
+              {summary.byModule.slice(0, 5).map((module) => (
+                <li key={module.moduleId || 'none'} className="flex justify-between">
+                  <span className="text-gray-700">
+                    {module.moduleName || 'Senza modulo'}
+                    <span className="text-gray-400"> · {module.versions} versioni</span>
+                  </span>
+                  <span className="font-medium">{formatCost(module.costUsd)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div>
+          <h3 className="font-medium text-gray-700 mb-2">Per tipo di chiamata</h3>
+          <ul className="space-y-1">
+            {summary.byCallType.map((entry) => (
+              <li key={entry.callType} className="flex justify-between">
+                <span className="text-gray-700">
+                  {callTypeLabels[entry.callType] || entry.callType}
+                  <span className="text-gray-400"> · {entry.calls}</span>
+                </span>
+                <span className="font-medium">{formatCost(entry.costUsd)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
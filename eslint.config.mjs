@@ -12,6 +12,10 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Sorgenti dei template di modulo (progetti generati, non parte di questa app)
+    "templates/**",
+    // Bundle del worker dei job (npm run worker)
+    ".worker/**",
   ]),
 ]);
 
@@ -0,0 +1,443 @@
+import { quoteIdentifier, quoteList } from './ddl-parser';
+import type { DatabaseSchema } from './supabase/schema';
+
+/**
+ * Regole di business dichiarative di un modulo (module_versions.business_rules, migration 012):
+ * intervalli, obbligatorietà condizionate, confronti tra campi e unicità, espressi su tabelle e
+ * colonne del database_schema. Le regole sono dati, non codice generato, e vengono applicate:
+ * - nell'app generata: lib/rules.ts (generato da qui) contiene le regole e validateRecord(), chiamato
+ *   da create/update degli hook di lib/db.ts e dai form e dalle route API generate
+ * - nel database: vincoli CHECK e UNIQUE (renderBusinessRulesSql) nella migration
+ * Si modificano con PUT /api/modules/[id]/rules (job 'module.rules', senza chiamate LLM) o dal
+ * modello con lo strumento set_business_rules durante le modifiche iterative.
+ */
+
+export const RULES_MODULE_PATH = 'lib/rules.ts';
+
+export const COMPARE_OPERATORS = ['<', '<=', '>', '>=', '=', '<>'] as const;
+
+export type CompareOperator = typeof COMPARE_OPERATORS[number];
+
+export type RuleValue = string | number | boolean;
+
+interface BaseRule {
+  // Identificatore snake_case, univoco nel modulo (usato anche nel nome del vincolo SQL)
+  id: string;
+  table: string;
+  // Messaggio mostrato quando la regola non è rispettata
+  message: string;
+}
+
+// Valore numerico entro min/max (i valori vuoti sono ammessi: per l'obbligatorietà si usa NOT NULL)
+export interface RangeRule extends BaseRule {
+  type: 'range';
+  column: string;
+  min?: number;
+  max?: number;
+}
+
+// column obbligatoria quando when.column vale when.equals (o, senza equals, quando è valorizzata)
+export interface RequiredIfRule extends BaseRule {
+  type: 'required-if';
+  column: string;
+  when: { column: string; equals?: RuleValue };
+}
+
+// Confronto tra due colonne dello stesso record (es: data_fine >= data_inizio)
+export interface CompareRule extends BaseRule {
+  type: 'compare';
+  column: string;
+  operator: CompareOperator;
+  otherColumn: string;
+}
+
+// Combinazione di colonne univoca nella tabella
+export interface UniqueRule extends BaseRule {
+  type: 'unique';
+  columns: string[];
+}
+
+export type BusinessRule = RangeRule | RequiredIfRule | CompareRule | UniqueRule;
+
+export const BUSINESS_RULE_TYPES: BusinessRule['type'][] = ['range', 'required-if', 'compare', 'unique'];
+
+const RULE_ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+// Nomi di tabella e colonna ammessi nelle regole: finiscono nell'SQL dei vincoli
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const OPERATOR_LABELS: Record<CompareOperator, string> = {
+  '<': 'minore di',
+  '<=': 'minore o uguale a',
+  '>': 'maggiore di',
+  '>=': 'maggiore o uguale a',
+  '=': 'uguale a',
+  '<>': 'diverso da',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRuleValue(value: unknown): value is RuleValue {
+  return typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+function getRuleColumns(rule: BusinessRule): string[] {
+  switch (rule.type) {
+    case 'range':
+      return [rule.column];
+    case 'required-if':
+      return [rule.column, rule.when.column];
+    case 'compare':
+      return [rule.column, rule.otherColumn];
+    case 'unique':
+      return rule.columns;
+  }
+}
+
+function getDefaultMessage(candidate: BusinessRule): string {
+  switch (candidate.type) {
+    case 'range':
+      if (candidate.min !== undefined && candidate.max !== undefined) {
+        return `${candidate.column} deve essere compreso tra ${candidate.min} e ${candidate.max}`;
+      }
+      return candidate.min !== undefined
+        ? `${candidate.column} deve essere almeno ${candidate.min}`
+        : `${candidate.column} deve essere al massimo ${candidate.max}`;
+    case 'required-if':
+      return candidate.when.equals === undefined
+        ? `${candidate.column} è obbligatorio se ${candidate.when.column} è valorizzato`
+        : `${candidate.column} è obbligatorio se ${candidate.when.column} è ${JSON.stringify(candidate.when.equals)}`;
+    case 'compare':
+      return `${candidate.column} deve essere ${OPERATOR_LABELS[candidate.operator]} ${candidate.otherColumn}`;
+    case 'unique':
+      return `Esiste già un record con lo stesso valore di ${candidate.columns.join(', ')}`;
+  }
+}
+
+function normalizeRule(raw: unknown, index: number, schema: DatabaseSchema | null, errors: string[]): BusinessRule | null {
+  const label = `Regola ${index + 1}`;
+  if (!isRecord(raw)) {
+    errors.push(`${label}: deve essere un oggetto`);
+    return null;
+  }
+  const type = raw.type;
+  if (typeof type !== 'string' || !(BUSINESS_RULE_TYPES as string[]).includes(type)) {
+    errors.push(`${label}: type non valido (ammessi: ${BUSINESS_RULE_TYPES.join(', ')})`);
+    return null;
+  }
+  if (typeof raw.table !== 'string' || !raw.table.trim()) {
+    errors.push(`${label}: table obbligatoria`);
+    return null;
+  }
+  const table = raw.table.trim();
+  const base = { id: '', table, message: '' };
+  const column = typeof raw.column === 'string' ? raw.column.trim() : '';
+  const errorCount = errors.length;
+  let rule: BusinessRule | null = null;
+
+  switch (type) {
+    case 'range': {
+      const min = typeof raw.min === 'number' && Number.isFinite(raw.min) ? raw.min : undefined;
+      const max = typeof raw.max === 'number' && Number.isFinite(raw.max) ? raw.max : undefined;
+      if (min === undefined && max === undefined) {
+        errors.push(`${label}: range richiede min e/o max numerici`);
+      } else if (min !== undefined && max !== undefined && min > max) {
+        errors.push(`${label}: min (${min}) maggiore di max (${max})`);
+      }
+      rule = { ...base, type, column, ...(min !== undefined && { min }), ...(max !== undefined && { max }) };
+      break;
+    }
+    case 'required-if': {
+      const when = isRecord(raw.when) ? raw.when : null;
+      const whenColumn = when && typeof when.column === 'string' ? when.column.trim() : '';
+      if (!whenColumn) {
+        errors.push(`${label}: required-if richiede when.column`);
+      }
+      if (when && when.equals !== undefined && !isRuleValue(when.equals)) {
+        errors.push(`${label}: when.equals deve essere una stringa, un numero o un booleano`);
+      }
+      const equals = when && isRuleValue(when.equals) ? when.equals : undefined;
+      rule = { ...base, type, column, when: { column: whenColumn, ...(equals !== undefined && { equals }) } };
+      break;
+    }
+    case 'compare': {
+      const operator = raw.operator;
+      if (typeof operator !== 'string' || !(COMPARE_OPERATORS as readonly string[]).includes(operator)) {
+        errors.push(`${label}: operator non valido (ammessi: ${COMPARE_OPERATORS.join(' ')})`);
+      }
+      const otherColumn = typeof raw.otherColumn === 'string' ? raw.otherColumn.trim() : '';
+      if (!otherColumn) {
+        errors.push(`${label}: compare richiede otherColumn`);
+      }
+      rule = { ...base, type, column, operator: operator as CompareOperator, otherColumn };
+      break;
+    }
+    case 'unique': {
+      const columns = Array.isArray(raw.columns)
+        ? raw.columns.filter((value): value is string => typeof value === 'string' && value.trim().length > 0).map(value => value.trim())
+        : [];
+      if (columns.length === 0) {
+        errors.push(`${label}: unique richiede columns (almeno una colonna)`);
+      }
+      rule = { ...base, type, columns };
+      break;
+    }
+  }
+  if (!rule) {
+    return null;
+  }
+  if (rule.type !== 'unique' && !rule.column) {
+    errors.push(`${label}: column obbligatoria`);
+  }
+
+  // Anche senza schema i nomi devono essere identificatori semplici
+  for (const name of [table, ...getRuleColumns(rule).filter(Boolean)]) {
+    if (!IDENTIFIER_PATTERN.test(name)) {
+      errors.push(`${label}: "${name}" non è un nome di tabella o colonna valido (lettere, cifre e _)`);
+    }
+  }
+
+  // Tabelle e colonne devono esistere nello schema della versione
+  if (schema) {
+    const schemaTable = schema.tables.find(candidate => candidate.name === table);
+    if (!schemaTable) {
+      errors.push(`${label}: tabella "${table}" non presente nello schema`);
+    } else {
+      for (const name of getRuleColumns(rule).filter(Boolean)) {
+        if (!schemaTable.columns.some(candidate => candidate.name === name)) {
+          errors.push(`${label}: colonna "${table}.${name}" non presente nello schema`);
+        }
+      }
+    }
+  }
+
+  if (raw.id !== undefined && (typeof raw.id !== 'string' || !RULE_ID_PATTERN.test(raw.id))) {
+    errors.push(`${label}: id deve essere snake_case (lettere minuscole, cifre e _)`);
+  }
+  if (errors.length > errorCount) {
+    return null;
+  }
+
+  const id = typeof raw.id === 'string' ? raw.id : `${rule.type.replace('-', '_')}_${getRuleColumns(rule).join('_')}`.toLowerCase();
+  if (!RULE_ID_PATTERN.test(id)) {
+    errors.push(`${label}: id "${id}" non valido, indica un id snake_case`);
+    return null;
+  }
+  const message = typeof raw.message === 'string' && raw.message.trim()
+    ? raw.message.replace(/[\r\n]+/g, ' ').trim()
+    : getDefaultMessage(rule);
+  return { ...rule, id, message };
+}
+
+/**
+ * Valida le regole (JSON dal client o dallo strumento del modello) rispetto allo schema della
+ * versione e le normalizza: id generato se assente, messaggio di default. rules è null se ci sono errori.
+ */
+export function normalizeBusinessRules(
+  input: unknown,
+  schema: DatabaseSchema | null | undefined
+): { rules: BusinessRule[] | null; errors: string[] } {
+  if (!Array.isArray(input)) {
+    return { rules: null, errors: ['Le regole devono essere un array'] };
+  }
+  const errors: string[] = [];
+  const rules = input
+    .map((raw, index) => normalizeRule(raw, index, schema || null, errors))
+    .filter((rule): rule is BusinessRule => rule !== null);
+
+  const ids = rules.map(rule => `${rule.table}.${rule.id}`);
+  ids.forEach((id, index) => {
+    if (ids.indexOf(id) !== index) {
+      errors.push(`Regola duplicata: ${id}`);
+    }
+  });
+
+  return errors.length > 0 ? { rules: null, errors } : { rules, errors };
+}
+
+// Regole salvate su una versione (le versioni precedenti alla migration 012 non ne hanno)
+export function getVersionBusinessRules(version: { business_rules?: unknown } | null | undefined): BusinessRule[] {
+  return Array.isArray(version?.business_rules) ? version.business_rules as BusinessRule[] : [];
+}
+
+// Parte fissa di lib/rules.ts: tipo delle regole e valutazione su un record (le regole sono in colonne SQL,
+// il record in proprietà: la corrispondenza viene da TableConfig.columns)
+const RULES_RUNTIME = `import type { DbRecord, TableConfig } from '@/lib/db';
+
+export type BusinessRule = { id: string; table: string; message: string } & (
+  | { type: 'range'; column: string; min?: number; max?: number }
+  | { type: 'required-if'; column: string; when: { column: string; equals?: string | number | boolean } }
+  | { type: 'compare'; column: string; operator: '<' | '<=' | '>' | '>=' | '=' | '<>'; otherColumn: string }
+  | { type: 'unique'; columns: string[] }
+);
+
+type Row = Record<string, unknown>;
+
+function toColumns<T extends DbRecord>(config: TableConfig<T>, record: object): Row {
+  const values = record as Row;
+  const row: Row = {};
+  for (const [property, column] of Object.entries(config.columns) as [string, string][]) {
+    row[column] = values[property];
+  }
+  return row;
+}
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+function compareValues(a: unknown, b: unknown, operator: string): boolean {
+  const numeric = !Number.isNaN(Number(a)) && !Number.isNaN(Number(b));
+  const left = numeric ? Number(a) : String(a);
+  const right = numeric ? Number(b) : String(b);
+  switch (operator) {
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '=': return left === right;
+    default: return left !== right;
+  }
+}
+
+function passes(rule: BusinessRule, row: Row, others: Row[]): boolean {
+  switch (rule.type) {
+    case 'range': {
+      const value = row[rule.column];
+      if (isEmpty(value)) {
+        return true;
+      }
+      const number = Number(value);
+      return !Number.isNaN(number) && (rule.min === undefined || number >= rule.min) && (rule.max === undefined || number <= rule.max);
+    }
+    case 'required-if': {
+      const condition = row[rule.when.column];
+      const active = rule.when.equals === undefined ? !isEmpty(condition) : String(condition) === String(rule.when.equals);
+      return !active || !isEmpty(row[rule.column]);
+    }
+    case 'compare': {
+      const value = row[rule.column];
+      const other = row[rule.otherColumn];
+      return isEmpty(value) || isEmpty(other) || compareValues(value, other, rule.operator);
+    }
+    case 'unique':
+      return rule.columns.some(column => isEmpty(row[column]))
+        || !others.some(other => rule.columns.every(column => String(other[column]) === String(row[column])));
+  }
+}
+
+/**
+ * Messaggi delle regole non rispettate da un record della tabella (vuoto = valido).
+ * others sono gli altri record già presenti, usati dalle regole di unicità.
+ */
+export function validateRecord<T extends DbRecord>(config: TableConfig<T>, record: object, others: object[] = []): string[] {
+  const row = toColumns(config, record);
+  const otherRows = others.map(other => toColumns(config, other));
+  return BUSINESS_RULES
+    .filter(rule => rule.table === config.name && !passes(rule, row, otherRows))
+    .map(rule => rule.message);
+}
+`;
+
+// Sorgente di lib/rules.ts per l'app generata: regole della versione e validateRecord
+export function renderRulesModule(rules: BusinessRule[]): string {
+  return `${RULES_RUNTIME}
+// Regole di business del modulo: generate da module_versions.business_rules, non modificare
+export const BUSINESS_RULES: BusinessRule[] = ${JSON.stringify(rules, null, 2)};
+`;
+}
+
+/**
+ * Allinea lib/rules.ts alle regole della versione. Solo i moduli con il data layer (lib/db.ts)
+ * applicano le regole: gli altri restano invariati.
+ */
+export function withBusinessRules(files: Record<string, string>, rules: BusinessRule[]): Record<string, string> {
+  if (!('lib/db.ts' in files)) {
+    return files;
+  }
+  return { ...files, [RULES_MODULE_PATH]: renderRulesModule(rules) };
+}
+
+function sqlLiteral(value: RuleValue): string {
+  if (typeof value === 'string') {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  return String(value);
+}
+
+function getConstraintName(rule: BusinessRule): string {
+  return `br_${rule.table}_${rule.id}`.substring(0, 63);
+}
+
+function getCheckExpression(rule: Exclude<BusinessRule, UniqueRule>): string {
+  const column = quoteIdentifier(rule.column);
+  switch (rule.type) {
+    case 'range': {
+      const bounds = [
+        ...(rule.min !== undefined ? [`${column} >= ${Number(rule.min)}`] : []),
+        ...(rule.max !== undefined ? [`${column} <= ${Number(rule.max)}`] : []),
+      ];
+      return `${column} IS NULL OR (${bounds.join(' AND ')})`;
+    }
+    case 'required-if': {
+      const whenColumn = quoteIdentifier(rule.when.column);
+      return rule.when.equals === undefined
+        ? `${whenColumn} IS NULL OR ${column} IS NOT NULL`
+        : `${whenColumn} IS DISTINCT FROM ${sqlLiteral(rule.when.equals)} OR ${column} IS NOT NULL`;
+    }
+    case 'compare': {
+      const otherColumn = quoteIdentifier(rule.otherColumn);
+      if (!(COMPARE_OPERATORS as readonly string[]).includes(rule.operator)) {
+        throw new Error(`Operatore non valido nella regola ${rule.id}: ${rule.operator}`);
+      }
+      return `${column} IS NULL OR ${otherColumn} IS NULL OR ${column} ${rule.operator} ${otherColumn}`;
+    }
+  }
+}
+
+/**
+ * Vincoli SQL delle regole: CHECK per range, required-if e compare, UNIQUE per unique.
+ * Ogni vincolo viene prima rimosso, così la migration si può rieseguire dopo una modifica delle regole;
+ * i vincoli delle regole eliminate si rimuovono passando le regole precedenti in `previous`.
+ * Nomi quotati e messaggio su una sola riga: anche le regole salvate prima della validazione dei nomi
+ * non possono aggiungere SQL alla migration.
+ */
+export function renderBusinessRulesSql(rules: BusinessRule[], previous: BusinessRule[] = []): string {
+  const statements: string[] = [];
+  const names = new Set(rules.map(getConstraintName));
+  for (const rule of previous) {
+    if (!names.has(getConstraintName(rule))) {
+      statements.push(`ALTER TABLE ${quoteIdentifier(rule.table)} DROP CONSTRAINT IF EXISTS ${quoteIdentifier(getConstraintName(rule))};`);
+    }
+  }
+  for (const rule of rules) {
+    const name = quoteIdentifier(getConstraintName(rule));
+    const table = quoteIdentifier(rule.table);
+    const constraint = rule.type === 'unique'
+      ? `UNIQUE (${quoteList(rule.columns)})`
+      : `CHECK (${getCheckExpression(rule)})`;
+    statements.push(`-- ${rule.message.replace(/[\r\n]+/g, ' ')}
+ALTER TABLE ${table} DROP CONSTRAINT IF EXISTS ${name};
+ALTER TABLE ${table} ADD CONSTRAINT ${name} ${constraint};`);
+  }
+  return statements.join('\n\n');
+}
+
+// Descrizione di una regola per prompt e log (es: "[sconto_max] ordini: sconto deve essere al massimo 30")
+export function describeBusinessRule(rule: BusinessRule): string {
+  return `[${rule.id}] ${rule.table}: ${rule.message}`;
+}
+
+// Istruzioni per i prompt di modifica (vuote se il modulo non ha il data layer)
+export function getBusinessRulePromptInstructions(files: Record<string, string>, rules: BusinessRule[]): string {
+  if (!('lib/db.ts' in files)) {
+    return '';
+  }
+  return `REGOLE DI BUSINESS:
+- Le validazioni di business (intervalli, campi obbligatori in base ad altri campi, confronti tra campi, unicità) sono dati, non codice: impostale con lo strumento set_business_rules inviando l'elenco COMPLETO delle regole del modulo (anche quelle esistenti da mantenere)
+- Le regole usano nomi di tabella e colonna del database (snake_case) e diventano vincoli SQL: non scrivere tu i vincoli CHECK nella migration
+- ${RULES_MODULE_PATH} viene generato automaticamente: non scriverlo. create e update degli hook applicano già le regole (il messaggio finisce in error)
+- Nei form chiama validateRecord(CONFIGURAZIONE, valori) da '@/lib/rules' prima di salvare (es: validateRecord(ORDERS_TABLE, values), con la configurazione esportata da lib/tables.ts) e mostra i messaggi restituiti
+- Nelle route API (app/api/**/route.ts) che scrivono dati chiama validateRecord e rispondi 422 con i messaggi se non è vuoto
+${rules.length > 0 ? `\nRegole attuali:\n${rules.map(rule => `- ${describeBusinessRule(rule)}`).join('\n')}` : '\nIl modulo non ha ancora regole.'}`;
+}
@@ -0,0 +1,988 @@
+import {
+  findEntity,
+  getDisplayField,
+  toCamelCase,
+  toKebabCase,
+  toLabel,
+  toPascalCase,
+  toSnakeCase,
+  type EntitySpec,
+  type FieldSpec,
+  type ModuleSpec,
+} from './entity-spec';
+import { DB_MODULE_PATH, TABLES_MODULE_PATH, renderDbModule, renderTablesModule, type TableBinding } from './data-layer';
+import { RULES_MODULE_PATH, renderRulesModule } from './business-rules';
+import { DEFAULT_LOCALE, I18N_MODULE_PATH, getCatalogPath, renderI18nModule, stringifyCatalog, type Locale } from './locale';
+import type { DatabaseColumn, DatabaseSchema } from './supabase/schema';
+
+/**
+ * Generatore deterministico (senza LLM) di moduli CRUD da una spec di entità (lib/entity-spec.ts).
+ * Per ogni entità produce lista, form, pagina nuovo e dettaglio; in comune tipi, data layer Supabase
+ * (lib/data-layer.ts, hook per entità in lib/tables.ts) e DDL SQL.
+ * L'output è una mappa percorso -> contenuto, da unire a getBaseFiles() come i file generati dall'AI.
+ * I testi non sono nel codice: le pagine usano t() e il catalogo messages/<locale>.json contiene
+ * le etichette della spec e i testi standard nella lingua del modulo.
+ * Stessa spec = stessi file: nessuna validazione a tentativi.
+ */
+
+export interface CrudGeneratorOptions {
+  // Lingua del catalogo generato (le etichette della spec sono già in questa lingua)
+  locale?: Locale;
+}
+
+export interface CrudModuleOutput {
+  files: Record<string, string>;
+  sql: string;
+  schema: DatabaseSchema;
+}
+
+interface ResolvedField {
+  spec: FieldSpec;
+  // Proprietà TypeScript (camelCase)
+  key: string;
+  // Colonna SQL (snake_case, con suffisso _id per le relazioni)
+  column: string;
+  label: string;
+  // Tipo TypeScript della proprietà
+  tsType: string;
+  optional: boolean;
+  // Solo enum: nome del tipo union e della costante con i valori
+  enumType?: string;
+  enumConstant?: string;
+  // Solo relation: entità collegata
+  target?: ResolvedEntity;
+}
+
+interface ResolvedEntity {
+  spec: EntitySpec;
+  typeName: string;
+  // Nome della pagina/hook (camelCase plurale)
+  collectionName: string;
+  slug: string;
+  table: string;
+  label: string;
+  pluralLabel: string;
+  // Hook del data layer (es: useOrdini)
+  hookName: string;
+  emptyConstant: string;
+  fields: ResolvedField[];
+  displayField: ResolvedField;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent';
+const LABEL_CLASS = 'block text-sm font-medium text-gray-700 mb-1';
+
+// Numero massimo di colonne mostrate nella tabella della lista
+const MAX_LIST_COLUMNS = 6;
+
+// Letterale stringa sicuro per il codice generato (TS e JSX)
+const literal = (value: string) => JSON.stringify(value);
+
+// Chiamata t() per il codice generato, con eventuali parametri già in forma di codice (es: 'field: ...')
+const tCall = (key: string, params?: string) => params ? `t(${literal(key)}, { ${params} })` : `t(${literal(key)})`;
+
+const toConstantCase = (value: string) => toSnakeCase(value).toUpperCase();
+
+function getTsType(field: FieldSpec, enumType?: string): string {
+  switch (field.type) {
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'enum':
+      return enumType!;
+    default:
+      return 'string';
+  }
+}
+
+function resolveModule(spec: ModuleSpec): ResolvedEntity[] {
+  const resolved = spec.entities.map((entity): ResolvedEntity => {
+    const typeName = toPascalCase(entity.name);
+    const pluralName = entity.pluralName || entity.name;
+    const fields = entity.fields.map((field): ResolvedField => {
+      const key = toCamelCase(field.name);
+      const enumType = field.type === 'enum' ? `${typeName}${toPascalCase(field.name)}` : undefined;
+      return {
+        spec: field,
+        key,
+        column: field.type === 'relation' ? `${toSnakeCase(field.name)}_id` : toSnakeCase(field.name),
+        label: field.label || toLabel(field.name),
+        tsType: getTsType(field, enumType),
+        // I booleani hanno sempre un valore (false di default)
+        optional: !field.required && field.type !== 'boolean',
+        ...(enumType && { enumType, enumConstant: `${toConstantCase(typeName)}_${toConstantCase(field.name)}_VALUES` }),
+      };
+    });
+    const displayFieldName = getDisplayField(entity).name;
+    return {
+      spec: entity,
+      typeName,
+      collectionName: toCamelCase(pluralName),
+      slug: toKebabCase(pluralName),
+      table: toSnakeCase(pluralName),
+      label: entity.name,
+      pluralLabel: pluralName,
+      hookName: `use${toPascalCase(pluralName)}`,
+      emptyConstant: `EMPTY_${toConstantCase(typeName)}`,
+      fields,
+      displayField: fields.find(field => field.spec.name === displayFieldName) || fields[0],
+    };
+  });
+
+  // Collega le relazioni (validate in normalizeModuleSpec)
+  for (const entity of resolved) {
+    for (const field of entity.fields) {
+      if (field.spec.type === 'relation') {
+        const targetSpec = findEntity(spec.entities, field.spec.target!);
+        field.target = resolved.find(candidate => candidate.spec === targetSpec);
+      }
+    }
+  }
+  return resolved;
+}
+
+// Entità collegate da un'entità (una sola volta ciascuna, per gli hook delle select e delle liste)
+function getRelatedEntities(entity: ResolvedEntity): ResolvedEntity[] {
+  const related: ResolvedEntity[] = [];
+  for (const field of entity.fields) {
+    if (field.target && !related.includes(field.target)) {
+      related.push(field.target);
+    }
+  }
+  return related;
+}
+
+const relatedCollectionVar = (entity: ResolvedEntity) => `${entity.collectionName}Collection`;
+
+// ========================================
+// Catalogo dei messaggi (messages/<locale>.json)
+// ========================================
+
+type EntityMessage = 'title' | 'new' | 'empty' | 'notFound' | 'confirmDelete' | 'select';
+
+const entityKey = (entity: ResolvedEntity, message: EntityMessage) => `${entity.collectionName}.${message}`;
+const fieldKey = (entity: ResolvedEntity, field: ResolvedField) => `${entity.collectionName}.fields.${field.key}`;
+
+// Testi comuni a tutte le entità, con i segnaposto risolti da t() a runtime
+const COMMON_MESSAGES: Record<Locale, Record<string, string>> = {
+  it: {
+    'common.home': 'Home',
+    'common.loading': 'Caricamento...',
+    'common.save': 'Salva',
+    'common.create': 'Crea',
+    'common.cancel': 'Annulla',
+    'common.edit': 'Modifica',
+    'common.delete': 'Elimina',
+    'common.detail': 'Dettaglio',
+    'common.yes': 'Sì',
+    'common.no': 'No',
+    'db.notConfigured': 'Database non configurato: i dati restano in memoria e vanno persi ricaricando la pagina',
+    'db.error': 'Errore del database: {message}',
+    'validation.required': '{field} è obbligatorio',
+    'validation.number': '{field} deve essere un numero',
+    'validation.integer': '{field} deve essere un numero intero',
+    'validation.email': '{field} non è un indirizzo email valido',
+    'validation.min': '{field} deve essere almeno {min}',
+    'validation.max': '{field} non può superare {max}',
+    'validation.minLength': '{field} deve avere almeno {min} caratteri',
+    'validation.maxLength': '{field} non può superare {max} caratteri',
+  },
+  en: {
+    'common.home': 'Home',
+    'common.loading': 'Loading...',
+    'common.save': 'Save',
+    'common.create': 'Create',
+    'common.cancel': 'Cancel',
+    'common.edit': 'Edit',
+    'common.delete': 'Delete',
+    'common.detail': 'Details',
+    'common.yes': 'Yes',
+    'common.no': 'No',
+    'db.notConfigured': 'Database not configured: data is kept in memory and lost when the page is reloaded',
+    'db.error': 'Database error: {message}',
+    'validation.required': '{field} is required',
+    'validation.number': '{field} must be a number',
+    'validation.integer': '{field} must be an integer',
+    'validation.email': '{field} is not a valid email address',
+    'validation.min': '{field} must be at least {min}',
+    'validation.max': '{field} cannot exceed {max}',
+    'validation.minLength': '{field} must have at least {min} characters',
+    'validation.maxLength': '{field} cannot exceed {max} characters',
+  },
+  de: {
+    'common.home': 'Startseite',
+    'common.loading': 'Wird geladen...',
+    'common.save': 'Speichern',
+    'common.create': 'Anlegen',
+    'common.cancel': 'Abbrechen',
+    'common.edit': 'Bearbeiten',
+    'common.delete': 'Löschen',
+    'common.detail': 'Details',
+    'common.yes': 'Ja',
+    'common.no': 'Nein',
+    'db.notConfigured': 'Datenbank nicht konfiguriert: Die Daten bleiben im Speicher und gehen beim Neuladen der Seite verloren',
+    'db.error': 'Datenbankfehler: {message}',
+    'validation.required': '{field} ist erforderlich',
+    'validation.number': '{field} muss eine Zahl sein',
+    'validation.integer': '{field} muss eine ganze Zahl sein',
+    'validation.email': '{field} ist keine gültige E-Mail-Adresse',
+    'validation.min': '{field} muss mindestens {min} sein',
+    'validation.max': '{field} darf {max} nicht überschreiten',
+    'validation.minLength': '{field} muss mindestens {min} Zeichen haben',
+    'validation.maxLength': '{field} darf höchstens {max} Zeichen haben',
+  },
+};
+
+// Testi specifici di un'entità, composti dalle etichette della spec
+const ENTITY_MESSAGES: Record<Locale, (label: string, pluralLabel: string) => Record<Exclude<EntityMessage, 'title'>, string>> = {
+  it: (label, pluralLabel) => ({
+    new: `Nuovo ${label.toLowerCase()}`,
+    empty: `Nessun elemento in ${pluralLabel.toLowerCase()}. Creane uno per iniziare.`,
+    notFound: `Elemento non trovato in ${pluralLabel.toLowerCase()}`,
+    confirmDelete: `Eliminare questo elemento (${label.toLowerCase()})?`,
+    select: `Seleziona ${label.toLowerCase()}...`,
+  }),
+  en: (label, pluralLabel) => ({
+    new: `New ${label.toLowerCase()}`,
+    empty: `No ${pluralLabel.toLowerCase()} yet. Create one to get started.`,
+    notFound: `${label} not found`,
+    confirmDelete: `Delete this ${label.toLowerCase()}?`,
+    select: `Select ${label.toLowerCase()}...`,
+  }),
+  // In tedesco i sostantivi restano maiuscoli
+  de: (label, pluralLabel) => ({
+    new: `${label} anlegen`,
+    empty: `Noch keine Einträge in ${pluralLabel}. Lege einen an, um zu beginnen.`,
+    notFound: `${label} nicht gefunden`,
+    confirmDelete: `Diesen Eintrag (${label}) löschen?`,
+    select: `${label} auswählen...`,
+  }),
+};
+
+function buildCatalog(spec: ModuleSpec, entities: ResolvedEntity[], locale: Locale): Record<string, string> {
+  const catalog: Record<string, string> = {
+    'module.title': spec.name,
+    ...(spec.description && { 'module.description': spec.description }),
+    ...COMMON_MESSAGES[locale],
+  };
+  for (const entity of entities) {
+    catalog[entityKey(entity, 'title')] = entity.pluralLabel;
+    for (const [message, text] of Object.entries(ENTITY_MESSAGES[locale](entity.label, entity.pluralLabel))) {
+      catalog[entityKey(entity, message as EntityMessage)] = text;
+    }
+    for (const field of entity.fields) {
+      catalog[fieldKey(entity, field)] = field.label;
+    }
+  }
+  return catalog;
+}
+
+// ========================================
+// lib/types.ts, lib/tables.ts, lib/format.ts, components/DataStatus.tsx
+// ========================================
+
+function getDefaultValue(field: ResolvedField): string | null {
+  const { spec } = field;
+  if (spec.default !== undefined) {
+    if (field.tsType === 'number') {
+      return String(Number(spec.default));
+    }
+    if (field.tsType === 'boolean') {
+      return String(spec.default === true || spec.default === 'true');
+    }
+    return literal(String(spec.default));
+  }
+  if (field.optional) {
+    return null;
+  }
+  switch (spec.type) {
+    case 'number':
+    case 'integer':
+      return '0';
+    case 'boolean':
+      return 'false';
+    case 'enum':
+      return literal(spec.values![0]);
+    default:
+      return "''";
+  }
+}
+
+function renderTypes(spec: ModuleSpec, entities: ResolvedEntity[]): string {
+  const blocks: string[] = [`// Tipi del modulo "${spec.name}" generati automaticamente dalla spec delle entità`];
+
+  for (const entity of entities) {
+    const lines: string[] = [];
+    for (const field of entity.fields) {
+      if (field.enumType) {
+        lines.push(`export type ${field.enumType} = ${field.spec.values!.map(literal).join(' | ')};`);
+        lines.push(`export const ${field.enumConstant}: ${field.enumType}[] = [${field.spec.values!.map(literal).join(', ')}];`);
+        lines.push('');
+      }
+    }
+
+    lines.push(`export interface ${entity.typeName} {`);
+    lines.push('  id: string;');
+    lines.push('  createdAt: string;');
+    for (const field of entity.fields) {
+      const comment = field.target ? ` // id di ${field.target.typeName}` : '';
+      lines.push(`  ${field.key}${field.optional ? '?' : ''}: ${field.tsType};${comment}`);
+    }
+    lines.push('}');
+    lines.push('');
+    lines.push(`export type ${entity.typeName}Input = Omit<${entity.typeName}, 'id' | 'createdAt'>;`);
+    lines.push('');
+
+    const defaults = entity.fields
+      .map(field => ({ field, value: getDefaultValue(field) }))
+      .filter(entry => entry.value !== null)
+      .map(entry => `  ${entry.field.key}: ${entry.value},`);
+    lines.push(`export const ${entity.emptyConstant}: ${entity.typeName}Input = {`);
+    lines.push(...defaults);
+    lines.push('};');
+
+    blocks.push(lines.join('\n'));
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
+
+// Hook per entità sul data layer condiviso: i tipi restano quelli di lib/types.ts
+function getTableBindings(entities: ResolvedEntity[]): TableBinding[] {
+  return entities.map(entity => ({
+    table: entity.table,
+    typeName: entity.typeName,
+    inputTypeName: `${entity.typeName}Input`,
+    hookName: entity.hookName,
+    configName: `${toConstantCase(entity.table)}_TABLE`,
+    columns: [
+      { column: 'id', property: 'id', tsType: 'string', optional: false, generated: true },
+      ...entity.fields.map(field => ({ column: field.column, property: field.key, tsType: field.tsType, optional: field.optional, generated: false })),
+      { column: 'created_at', property: 'createdAt', tsType: 'string', optional: false, generated: true },
+    ],
+    orderBy: 'created_at',
+  }));
+}
+
+const DATA_STATUS_FILE = `'use client';
+
+import { t } from '@/lib/i18n';
+
+interface DataStatusProps {
+  configured: boolean;
+  error: string | null;
+}
+
+// Avvisi del data layer: database non configurato (dati solo in memoria) o errore di Supabase
+export default function DataStatus({ configured, error }: DataStatusProps) {
+  return (
+    <>
+      {!configured && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          {t('db.notConfigured')}
+        </div>
+      )}
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {t('db.error', { message: error })}
+        </div>
+      )}
+    </>
+  );
+}
+`;
+
+const FORMAT_FILE = `import { localeTag, t } from '@/lib/i18n';
+
+// Formattazione dei valori per liste e dettagli, nella lingua attiva
+export function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return '—';
+  }
+  if (typeof value === 'boolean') {
+    return value ? t('common.yes') : t('common.no');
+  }
+  if (typeof value === 'number') {
+    return value.toLocaleString(localeTag);
+  }
+  return String(value);
+}
+
+export function formatDate(value?: string): string {
+  if (!value) {
+    return '—';
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString(localeTag);
+}
+
+export function formatDateTime(value?: string): string {
+  if (!value) {
+    return '—';
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString(localeTag);
+}
+`;
+
+// ========================================
+// Componenti e pagine
+// ========================================
+
+// Espressione JSX che mostra il valore di un campo di `item`
+function renderValue(field: ResolvedField, item: string = 'item'): string {
+  if (field.target) {
+    return `formatValue(${relatedCollectionVar(field.target)}.get(${item}.${field.key})?.${field.target.displayField.key})`;
+  }
+  if (field.spec.type === 'date') {
+    return `formatDate(${item}.${field.key})`;
+  }
+  if (field.spec.type === 'datetime') {
+    return `formatDateTime(${item}.${field.key})`;
+  }
+  return `formatValue(${item}.${field.key})`;
+}
+
+function renderFormatImports(fields: ResolvedField[]): string {
+  const used = new Set<string>();
+  for (const field of fields) {
+    used.add(field.spec.type === 'date' ? 'formatDate' : field.spec.type === 'datetime' ? 'formatDateTime' : 'formatValue');
+  }
+  return `import { ${['formatValue', 'formatDate', 'formatDateTime'].filter(name => used.has(name)).join(', ')} } from '@/lib/format';`;
+}
+
+function renderRelatedHooks(entity: ResolvedEntity, indent: string): string[] {
+  return getRelatedEntities(entity).map(related =>
+    `${indent}const ${relatedCollectionVar(related)} = ${related.hookName}();`
+  );
+}
+
+// Hook dell'entità e delle entità collegate, per l'import da lib/tables.ts
+function renderHookImports(entity: ResolvedEntity): string {
+  const related = getRelatedEntities(entity).filter(other => other !== entity);
+  return [entity, ...related].map(other => other.hookName).join(', ');
+}
+
+function renderInput(entity: ResolvedEntity, field: ResolvedField): string {
+  const id = `${entity.slug}-${toKebabCase(field.key)}`;
+  const { key, optional } = field;
+  const value = optional ? `values.${key} ?? ''` : `values.${key}`;
+  const stringOnChange = `(e) => setField('${key}', e.target.value)`;
+  const label = `          <label htmlFor="${id}" className="${LABEL_CLASS}">{${tCall(fieldKey(entity, field))}}${field.spec.required ? ' *' : ''}</label>`;
+
+  let control: string;
+  switch (field.spec.type) {
+    case 'text':
+      control = `          <textarea id="${id}" rows={3} value={${value}} onChange={${stringOnChange}} className="${INPUT_CLASS}" />`;
+      break;
+    case 'number':
+    case 'integer': {
+      const step = field.spec.type === 'integer' ? '1' : '0.01';
+      const parsed = optional
+        ? `e.target.value === '' ? undefined : Number(e.target.value)`
+        : `e.target.value === '' ? 0 : Number(e.target.value)`;
+      control = `          <input id="${id}" type="number" step="${step}" value={${value}} onChange={(e) => setField('${key}', ${parsed})} className="${INPUT_CLASS}" />`;
+      break;
+    }
+    case 'boolean':
+      return [
+        '        <div className="flex items-center gap-2">',
+        `          <input id="${id}" type="checkbox" checked={values.${key}} onChange={(e) => setField('${key}', e.target.checked)} className="h-4 w-4" />`,
+        `          <label htmlFor="${id}" className="text-sm font-medium text-gray-700">{${tCall(fieldKey(entity, field))}}</label>`,
+        '        </div>',
+      ].join('\n');
+    case 'enum': {
+      const parsed = optional
+        ? `e.target.value === '' ? undefined : (e.target.value as ${field.enumType})`
+        : `e.target.value as ${field.enumType}`;
+      control = [
+        `          <select id="${id}" value={${value}} onChange={(e) => setField('${key}', ${parsed})} className="${INPUT_CLASS}">`,
+        ...(optional ? ['            <option value="">—</option>'] : []),
+        `            {${field.enumConstant}.map((option) => (`,
+        '              <option key={option} value={option}>{option}</option>',
+        '            ))}',
+        '          </select>',
+      ].join('\n');
+      break;
+    }
+    case 'relation': {
+      const target = field.target!;
+      control = [
+        `          <select id="${id}" value={${value}} onChange={${stringOnChange}} className="${INPUT_CLASS}">`,
+        `            <option value="">{${tCall(entityKey(target, 'select'))}}</option>`,
+        `            {${relatedCollectionVar(target)}.items.map((option) => (`,
+        `              <option key={option.id} value={option.id}>{formatValue(option.${target.displayField.key})}</option>`,
+        '            ))}',
+        '          </select>',
+      ].join('\n');
+      break;
+    }
+    default: {
+      const type = field.spec.type === 'email' ? 'email' : field.spec.type === 'date' ? 'date' : field.spec.type === 'datetime' ? 'datetime-local' : 'text';
+      control = `          <input id="${id}" type="${type}" value={${value}} onChange={${stringOnChange}} className="${INPUT_CLASS}" />`;
+    }
+  }
+
+  return ['        <div>', label, control, '        </div>'].join('\n');
+}
+
+// Controlli di validazione del form (campi obbligatori, formato email, limiti min/max)
+function renderValidation(entity: ResolvedEntity, field: ResolvedField): string[] {
+  const checks: string[] = [];
+  const { key, spec } = field;
+  const problem = (message: string, params = '') =>
+    `problems.push(${tCall(`validation.${message}`, `field: ${tCall(fieldKey(entity, field))}${params}`)});`;
+  if (spec.required && ['string', 'text', 'email'].includes(spec.type)) {
+    checks.push(`  if (!data.${key}.trim()) {\n    ${problem('required')}\n  }`);
+  } else if (spec.required && ['date', 'datetime', 'enum', 'relation'].includes(spec.type)) {
+    checks.push(`  if (!data.${key}) {\n    ${problem('required')}\n  }`);
+  } else if (spec.required && ['number', 'integer'].includes(spec.type)) {
+    checks.push(`  if (Number.isNaN(data.${key})) {\n    ${problem('number')}\n  }`);
+  }
+  if (spec.type === 'email') {
+    checks.push(`  if (data.${key} && !/^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$/.test(data.${key})) {\n    ${problem('email')}\n  }`);
+  }
+  if (spec.type === 'integer') {
+    checks.push(`  if (data.${key} !== undefined && !Number.isInteger(data.${key})) {\n    ${problem('integer')}\n  }`);
+  }
+
+  // Limiti: sul valore per i numeri, sulla lunghezza per i testi (i campi facoltativi vuoti non sono controllati)
+  const isNumber = field.tsType === 'number';
+  const measured = isNumber ? `data.${key}` : `data.${key}.length`;
+  const guard = field.optional ? (isNumber ? `data.${key} !== undefined && ` : `data.${key} && `) : '';
+  if (spec.min !== undefined) {
+    const message = isNumber ? problem('min', `, min: ${spec.min}`) : problem('minLength', `, min: ${spec.min}`);
+    checks.push(`  if (${guard}${measured} < ${spec.min}) {\n    ${message}\n  }`);
+  }
+  if (spec.max !== undefined) {
+    const message = isNumber ? problem('max', `, max: ${spec.max}`) : problem('maxLength', `, max: ${spec.max}`);
+    checks.push(`  if (${guard}${measured} > ${spec.max}) {\n    ${message}\n  }`);
+  }
+  return checks;
+}
+
+function renderForm(entity: ResolvedEntity): string {
+  const related = getRelatedEntities(entity);
+  const enumConstants = entity.fields.filter(field => field.enumConstant).map(field => field.enumConstant!);
+  const enumTypes = entity.fields.filter(field => field.enumType).map(field => `type ${field.enumType}`);
+  const typeImports = [
+    entity.emptyConstant,
+    ...enumConstants,
+    ...enumTypes,
+    ...related.map(other => `type ${other.typeName}`),
+    `type ${entity.typeName}Input`,
+  ];
+  const input = `${entity.typeName}Input`;
+  const validations = entity.fields.flatMap(field => renderValidation(entity, field));
+  const configName = `${toConstantCase(entity.table)}_TABLE`;
+  const tableImports = [configName, ...related.map(other => other.hookName)];
+
+  return `'use client';
+
+import { useState, type FormEvent } from 'react';
+import { t } from '@/lib/i18n';
+import { validateRecord } from '@/lib/rules';
+import { ${tableImports.join(', ')} } from '@/lib/tables';
+${related.length > 0 ? `import { formatValue } from '@/lib/format';\n` : ''}import { ${typeImports.join(', ')} } from '@/lib/types';
+
+interface ${entity.typeName}FormProps {
+  initialData?: ${input};
+  submitLabel?: string;
+  onSubmit: (data: ${input}) => void;
+  onCancel?: () => void;
+}
+
+function validate(data: ${input}): string[] {
+  const problems: string[] = [];
+${validations.length > 0 ? validations.join('\n') + '\n' : ''}  return problems;
+}
+
+export default function ${entity.typeName}Form({ initialData, submitLabel = t('common.save'), onSubmit, onCancel }: ${entity.typeName}FormProps) {
+  const [values, setValues] = useState<${input}>(initialData ?? ${entity.emptyConstant});
+  const [errors, setErrors] = useState<string[]>([]);
+${renderRelatedHooks(entity, '  ').join('\n')}${related.length > 0 ? '\n' : ''}
+  function setField<K extends keyof ${input}>(key: K, value: ${input}[K]) {
+    setValues((prev) => ({ ...prev, [key]: value }));
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    // Controlli dei campi della spec e regole di business del modulo (lib/rules.ts)
+    const problems = [...validate(values), ...validateRecord(${configName}, values)];
+    setErrors(problems);
+    if (problems.length === 0) {
+      onSubmit(values);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {errors.length > 0 && (
+        <ul className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 list-disc list-inside">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+${entity.fields.map(field => renderInput(entity, field)).join('\n')}
+      </div>
+      <div className="flex gap-3">
+        <button type="submit" className="px-6 py-2 bg-primary text-primary-foreground rounded-lg hover:opacity-90 font-medium">
+          {submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-6 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200">
+            {t('common.cancel')}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+`;
+}
+
+function renderListPage(entity: ResolvedEntity): string {
+  const columns = entity.fields.filter(field => field.spec.type !== 'text').slice(0, MAX_LIST_COLUMNS);
+  const related = getRelatedEntities(entity);
+
+  return `'use client';
+
+import Link from 'next/link';
+import DataStatus from '@/components/DataStatus';
+import { t } from '@/lib/i18n';
+import { ${renderHookImports(entity)} } from '@/lib/tables';
+${renderFormatImports(columns)}
+
+export default function ${toPascalCase(entity.collectionName)}Page() {
+  const collection = ${entity.hookName}();
+${renderRelatedHooks(entity, '  ').join('\n')}${related.length > 0 ? '\n' : ''}
+  return (
+    <main className="max-w-6xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <Link href="/" className="text-sm text-primary hover:underline">← {t('common.home')}</Link>
+          <h1 className="text-3xl font-bold text-gray-900">{${tCall(entityKey(entity, 'title'))}}</h1>
+        </div>
+        <Link href="/${entity.slug}/new" className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:opacity-90">
+          {${tCall(entityKey(entity, 'new'))}}
+        </Link>
+      </div>
+
+      <DataStatus configured={collection.configured} error={collection.error} />
+
+      {!collection.loaded ? (
+        <p className="text-gray-500">{t('common.loading')}</p>
+      ) : collection.items.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+          {${tCall(entityKey(entity, 'empty'))}}
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+${columns.map(field => `                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{${tCall(fieldKey(entity, field))}}</th>`).join('\n')}
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {collection.items.map((item) => (
+                <tr key={item.id} className="hover:bg-gray-50">
+${columns.map(field => `                  <td className="px-4 py-3 text-sm text-gray-900">{${renderValue(field)}}</td>`).join('\n')}
+                  <td className="px-4 py-3 text-right">
+                    <Link href={'/${entity.slug}/' + item.id} className="text-sm text-primary hover:underline">
+                      {t('common.detail')}
+                    </Link>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </main>
+  );
+}
+`;
+}
+
+function renderNewPage(entity: ResolvedEntity): string {
+  return `'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import ${entity.typeName}Form from '@/components/${entity.typeName}Form';
+import DataStatus from '@/components/DataStatus';
+import { t } from '@/lib/i18n';
+import { ${entity.hookName} } from '@/lib/tables';
+
+export default function New${entity.typeName}Page() {
+  const router = useRouter();
+  const collection = ${entity.hookName}();
+
+  return (
+    <main className="max-w-3xl mx-auto p-6">
+      <Link href="/${entity.slug}" className="text-sm text-primary hover:underline">← {${tCall(entityKey(entity, 'title'))}}</Link>
+      <h1 className="text-3xl font-bold text-gray-900 mb-6">{${tCall(entityKey(entity, 'new'))}}</h1>
+      <DataStatus configured={collection.configured} error={collection.error} />
+      <div className="bg-white rounded-lg shadow p-6">
+        <${entity.typeName}Form
+          submitLabel={t('common.create')}
+          onSubmit={async (data) => {
+            const created = await collection.create(data);
+            if (created) {
+              router.push('/${entity.slug}/' + created.id);
+            }
+          }}
+          onCancel={() => router.push('/${entity.slug}')}
+        />
+      </div>
+    </main>
+  );
+}
+`;
+}
+
+function renderDetailPage(entity: ResolvedEntity): string {
+  const related = getRelatedEntities(entity);
+
+  return `'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import DataStatus from '@/components/DataStatus';
+import ${entity.typeName}Form from '@/components/${entity.typeName}Form';
+import { t } from '@/lib/i18n';
+import { ${renderHookImports(entity)} } from '@/lib/tables';
+${renderFormatImports(entity.fields)}
+
+export default function ${entity.typeName}DetailPage() {
+  const params = useParams();
+  const id = String(params.id);
+  const router = useRouter();
+  const collection = ${entity.hookName}();
+${renderRelatedHooks(entity, '  ').join('\n')}${related.length > 0 ? '\n' : ''}  const [editing, setEditing] = useState(false);
+  const item = collection.get(id);
+
+  if (!collection.loaded) {
+    return (
+      <main className="max-w-3xl mx-auto p-6">
+        <p className="text-gray-500">{t('common.loading')}</p>
+      </main>
+    );
+  }
+
+  if (!item) {
+    return (
+      <main className="max-w-3xl mx-auto p-6">
+        <p className="text-gray-600 mb-4">{${tCall(entityKey(entity, 'notFound'))}}</p>
+        <Link href="/${entity.slug}" className="text-primary hover:underline">← {${tCall(entityKey(entity, 'title'))}}</Link>
+      </main>
+    );
+  }
+
+  const handleDelete = async () => {
+    if (window.confirm(${tCall(entityKey(entity, 'confirmDelete'))}) && (await collection.remove(id))) {
+      router.push('/${entity.slug}');
+    }
+  };
+
+  return (
+    <main className="max-w-3xl mx-auto p-6">
+      <Link href="/${entity.slug}" className="text-sm text-primary hover:underline">← {${tCall(entityKey(entity, 'title'))}}</Link>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">{${renderValue(entity.displayField)}}</h1>
+        {!editing && (
+          <div className="flex gap-2">
+            <button onClick={() => setEditing(true)} className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:opacity-90">
+              {t('common.edit')}
+            </button>
+            <button onClick={handleDelete} className="px-4 py-2 bg-red-50 text-red-700 rounded-lg hover:bg-red-100">
+              {t('common.delete')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <DataStatus configured={collection.configured} error={collection.error} />
+
+      <div className="bg-white rounded-lg shadow p-6">
+        {editing ? (
+          <${entity.typeName}Form
+            initialData={item}
+            onSubmit={async (data) => {
+              if (await collection.update(id, data)) {
+                setEditing(false);
+              }
+            }}
+            onCancel={() => setEditing(false)}
+          />
+        ) : (
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+${entity.fields.map(field => `            <div>
+              <dt className="text-sm font-medium text-gray-500">{${tCall(fieldKey(entity, field))}}</dt>
+              <dd className="mt-1 text-gray-900">{${renderValue(field)}}</dd>
+            </div>`).join('\n')}
+          </dl>
+        )}
+      </div>
+    </main>
+  );
+}
+`;
+}
+
+function renderHomePage(spec: ModuleSpec, entities: ResolvedEntity[]): string {
+  return `import Link from 'next/link';
+import { t } from '@/lib/i18n';
+
+export default function Home() {
+  return (
+    <main className="max-w-6xl mx-auto p-6">
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">{t('module.title')}</h1>
+${spec.description ? `      <p className="text-gray-600 mb-8">{t('module.description')}</p>\n` : ''}      <div className="grid grid-cols-1 md:grid-cols-3 gap-4${spec.description ? '' : ' mt-6'}">
+${entities.map(entity => `        <Link href="/${entity.slug}" className="block bg-white rounded-lg shadow p-6 hover:shadow-md transition-shadow">
+          <h2 className="text-xl font-semibold text-gray-900">{${tCall(entityKey(entity, 'title'))}}</h2>
+          <p className="text-sm text-gray-500 mt-1">{[${entity.fields.slice(0, 4).map(field => tCall(fieldKey(entity, field))).join(', ')}].join(', ')}</p>
+        </Link>`).join('\n')}
+      </div>
+    </main>
+  );
+}
+`;
+}
+
+// ========================================
+// SQL DDL e database_schema
+// ========================================
+
+function getSqlType(field: FieldSpec): string {
+  switch (field.type) {
+    case 'number':
+      return 'NUMERIC(12,2)';
+    case 'integer':
+      return 'INTEGER';
+    case 'boolean':
+      return 'BOOLEAN';
+    case 'date':
+      return 'DATE';
+    case 'datetime':
+      return 'TIMESTAMP WITH TIME ZONE';
+    case 'relation':
+      return 'UUID';
+    default:
+      return 'TEXT';
+  }
+}
+
+function getSqlDefault(field: ResolvedField): string | undefined {
+  const value = field.spec.default;
+  if (value === undefined) {
+    return field.spec.type === 'boolean' ? 'FALSE' : undefined;
+  }
+  if (field.tsType === 'number') {
+    return String(Number(value));
+  }
+  if (field.tsType === 'boolean') {
+    return value === true || value === 'true' ? 'TRUE' : 'FALSE';
+  }
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+function buildSchema(entities: ResolvedEntity[]): DatabaseSchema {
+  return {
+    tables: entities.map(entity => ({
+      name: entity.table,
+      columns: [
+        { name: 'id', type: 'UUID', primaryKey: true, default: 'gen_random_uuid()' },
+        ...entity.fields.map((field): DatabaseColumn => {
+          const defaultValue = getSqlDefault(field);
+          return {
+            name: field.column,
+            type: getSqlType(field.spec),
+            ...(!field.optional && { notNull: true }),
+            ...(defaultValue && { default: defaultValue }),
+            ...(field.spec.values && { enumValues: field.spec.values }),
+            ...(field.target && { references: { table: field.target.table, column: 'id', onDelete: field.optional ? 'set null' : 'restrict' } }),
+          };
+        }),
+        { name: 'created_at', type: 'TIMESTAMP WITH TIME ZONE', notNull: true, default: 'NOW()' },
+      ],
+    })),
+  };
+}
+
+function renderSql(spec: ModuleSpec, schema: DatabaseSchema, entities: ResolvedEntity[]): string {
+  const statements: string[] = [`-- Schema del modulo "${spec.name}" generato dalla spec delle entità`];
+
+  // Prima le tabelle, poi le foreign key (così l'ordine delle entità e le relazioni circolari non contano)
+  for (const table of schema.tables) {
+    const columns = table.columns.map(column => {
+      let definition = `  ${column.name} ${column.type}`;
+      if (column.primaryKey) definition += ' PRIMARY KEY';
+      if (column.notNull && !column.primaryKey) definition += ' NOT NULL';
+      if (column.default) definition += ` DEFAULT ${column.default}`;
+      if (column.enumValues) {
+        definition += ` CHECK (${column.name} IN (${column.enumValues.map(value => `'${value.replace(/'/g, "''")}'`).join(', ')}))`;
+      }
+      return definition;
+    });
+    statements.push(`CREATE TABLE IF NOT EXISTS ${table.name} (\n${columns.join(',\n')}\n);`);
+  }
+
+  for (const entity of entities) {
+    for (const field of entity.fields) {
+      if (field.target) {
+        statements.push(`ALTER TABLE ${entity.table}
+  ADD CONSTRAINT fk_${entity.table}_${field.column}
+  FOREIGN KEY (${field.column}) REFERENCES ${field.target.table}(id) ON DELETE ${field.optional ? 'SET NULL' : 'RESTRICT'};`);
+        statements.push(`CREATE INDEX IF NOT EXISTS idx_${entity.table}_${field.column} ON ${entity.table}(${field.column});`);
+      }
+    }
+  }
+
+  return statements.join('\n\n') + '\n';
+}
+
+// Schema delle tabelle di una spec, senza generare i file (es: per il data layer del codice generato con AI)
+export function getModuleSchema(spec: ModuleSpec): DatabaseSchema {
+  return buildSchema(resolveModule(spec));
+}
+
+/**
+ * Genera i file del modulo CRUD da una spec già normalizzata (normalizeModuleSpec).
+ * I file usano solo pacchetti presenti in getBaseFiles() (next, react, @supabase/supabase-js).
+ */
+export function generateCrudModule(spec: ModuleSpec, options: CrudGeneratorOptions = {}): CrudModuleOutput {
+  const locale = options.locale || DEFAULT_LOCALE;
+  const entities = resolveModule(spec);
+  const schema = buildSchema(entities);
+  const sql = renderSql(spec, schema, entities);
+
+  const files: Record<string, string> = {
+    'app/page.tsx': renderHomePage(spec, entities),
+    'lib/types.ts': renderTypes(spec, entities),
+    [DB_MODULE_PATH]: renderDbModule(),
+    [TABLES_MODULE_PATH]: renderTablesModule(getTableBindings(entities), { typesImport: '@/lib/types' }),
+    [RULES_MODULE_PATH]: renderRulesModule([]),
+    'components/DataStatus.tsx': DATA_STATUS_FILE,
+    'lib/format.ts': FORMAT_FILE,
+    [I18N_MODULE_PATH]: renderI18nModule([locale], locale),
+    [getCatalogPath(locale)]: stringifyCatalog(buildCatalog(spec, entities, locale)),
+    'supabase/schema.sql': sql,
+  };
+
+  for (const entity of entities) {
+    files[`components/${entity.typeName}Form.tsx`] = renderForm(entity);
+    files[`app/${entity.slug}/page.tsx`] = renderListPage(entity);
+    files[`app/${entity.slug}/new/page.tsx`] = renderNewPage(entity);
+    files[`app/${entity.slug}/[id]/page.tsx`] = renderDetailPage(entity);
+  }
+
+  return { files, sql, schema };
+}
@@ -0,0 +1,363 @@
+import { toCamelCase, toPascalCase, toSnakeCase } from './entity-spec';
+import { RULES_MODULE_PATH, renderRulesModule } from './business-rules';
+import type { DatabaseColumn, DatabaseSchema, DatabaseTable } from './supabase/schema';
+
+/**
+ * Data layer delle app generate: i record vivono in tabelle Supabase, non nello stato dei componenti.
+ * - lib/db.ts è uguale per tutte le app: client Supabase dalle variabili NEXT_PUBLIC_SUPABASE_*,
+ *   hook generico useTable con mappatura proprietà camelCase <-> colonne snake_case. Senza variabili
+ *   d'ambiente l'app resta utilizzabile: i dati stanno in memoria e l'hook espone configured: false.
+ * - lib/tables.ts dipende dallo schema: per ogni tabella un tipo, la configurazione e un hook
+ *   (es: useOrders). Viene generato dal database_schema della versione quando manca; dopo la
+ *   creazione appartiene al modulo e si aggiorna insieme alle migration.
+ * - lib/rules.ts contiene le regole di business della versione (lib/business-rules.ts): create e
+ *   update le verificano prima di scrivere.
+ */
+
+export const DB_MODULE_PATH = 'lib/db.ts';
+export const TABLES_MODULE_PATH = 'lib/tables.ts';
+
+export interface ColumnBinding {
+  column: string;
+  // Proprietà TypeScript del record
+  property: string;
+  tsType: string;
+  optional: boolean;
+  // Valorizzata dal database (chiave primaria, created_at...): esclusa dal tipo di input
+  generated: boolean;
+}
+
+export interface TableBinding {
+  table: string;
+  typeName: string;
+  inputTypeName: string;
+  hookName: string;
+  configName: string;
+  columns: ColumnBinding[];
+  orderBy?: string;
+}
+
+export interface TablesModuleOptions {
+  // Modulo da cui importare i tipi già dichiarati (es: '@/lib/types'); senza, i tipi sono dichiarati in lib/tables.ts
+  typesImport?: string;
+}
+
+const DB_MODULE = `'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { createClient } from '@supabase/supabase-js';
+import { validateRecord } from '@/lib/rules';
+
+// Senza queste variabili i dati restano in memoria (persi al ricaricamento) e configured è false
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+export const isDatabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
+
+let client: ReturnType<typeof createClient> | null = null;
+
+export function getSupabase() {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return null;
+  }
+  if (!client) {
+    client = createClient(supabaseUrl, supabaseAnonKey);
+  }
+  return client;
+}
+
+export interface DbRecord {
+  id: string;
+}
+
+// Tabella Supabase e colonna di ogni proprietà del record
+export interface TableConfig<T extends DbRecord> {
+  name: string;
+  columns: { [K in keyof T]-?: string };
+  orderBy?: string;
+}
+
+type Row = Record<string, unknown>;
+
+function fromRow<T extends DbRecord>(config: TableConfig<T>, row: Row): T {
+  const record: Row = {};
+  for (const [property, column] of Object.entries(config.columns) as [string, string][]) {
+    const value = row[column];
+    if (value !== null && value !== undefined) {
+      record[property] = value;
+    }
+  }
+  return record as unknown as T;
+}
+
+// In creazione i campi assenti prendono il default del database, in modifica vengono svuotati
+function toRow<T extends DbRecord>(config: TableConfig<T>, input: object, clearMissing: boolean): Row {
+  const values = input as Row;
+  const row: Row = {};
+  for (const [property, column] of Object.entries(config.columns) as [string, string][]) {
+    if (property === 'id') {
+      continue;
+    }
+    if (values[property] !== undefined) {
+      row[column] = values[property];
+    } else if (clearMissing && property in values) {
+      row[column] = null;
+    }
+  }
+  return row;
+}
+
+function createId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return Date.now().toString(36) + Math.random().toString(36).slice(2);
+}
+
+function describeError(error: unknown): string {
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+}
+
+export function useTable<T extends DbRecord, I extends object = Omit<T, 'id'>>(config: TableConfig<T>) {
+  const [items, setItems] = useState<T[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    const supabase = getSupabase();
+    if (!supabase) {
+      setLoaded(true);
+      return;
+    }
+    const query = supabase.from(config.name).select('*');
+    const { data, error: loadError } = await (config.orderBy ? query.order(config.orderBy, { ascending: true }) : query);
+    if (loadError) {
+      setError(describeError(loadError));
+    } else {
+      setItems(((data ?? []) as Row[]).map(row => fromRow(config, row)));
+      setError(null);
+    }
+    setLoaded(true);
+  }, [config]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const create = async (input: I): Promise<T | null> => {
+    const problems = validateRecord(config, input, items);
+    if (problems.length > 0) {
+      setError(problems.join('; '));
+      return null;
+    }
+    const supabase = getSupabase();
+    if (!supabase) {
+      const record: Row = { ...input, id: createId() };
+      for (const [property, column] of Object.entries(config.columns) as [string, string][]) {
+        if (column === 'created_at' && record[property] === undefined) {
+          record[property] = new Date().toISOString();
+        }
+      }
+      const created = record as unknown as T;
+      setItems(prev => [...prev, created]);
+      return created;
+    }
+    const { data, error: insertError } = await supabase.from(config.name).insert(toRow(config, input, false)).select().single();
+    if (insertError || !data) {
+      setError(describeError(insertError));
+      return null;
+    }
+    const created = fromRow(config, data as Row);
+    setItems(prev => [...prev, created]);
+    setError(null);
+    return created;
+  };
+
+  const update = async (id: string, input: Partial<I>): Promise<boolean> => {
+    const current = items.find(item => item.id === id);
+    const problems = validateRecord(config, { ...current, ...input }, items.filter(item => item.id !== id));
+    if (problems.length > 0) {
+      setError(problems.join('; '));
+      return false;
+    }
+    const supabase = getSupabase();
+    if (supabase) {
+      const { error: updateError } = await supabase.from(config.name).update(toRow(config, input, true)).eq(config.columns.id, id);
+      if (updateError) {
+        setError(describeError(updateError));
+        return false;
+      }
+      setError(null);
+    }
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...input } : item)));
+    return true;
+  };
+
+  const remove = async (id: string): Promise<boolean> => {
+    const supabase = getSupabase();
+    if (supabase) {
+      const { error: deleteError } = await supabase.from(config.name).delete().eq(config.columns.id, id);
+      if (deleteError) {
+        setError(describeError(deleteError));
+        return false;
+      }
+      setError(null);
+    }
+    setItems(prev => prev.filter(item => item.id !== id));
+    return true;
+  };
+
+  const get = (id?: string): T | undefined => items.find(item => item.id === id);
+
+  return { items, loaded, error, configured: isDatabaseConfigured, reload, create, update, remove, get };
+}
+`;
+
+// Colonne con valore assegnato dal database: non fanno parte dell'input dei form
+const GENERATED_DEFAULT_PATTERN = /^(gen_random_uuid|uuid_generate_v4|now|current_timestamp|current_date)\b/i;
+
+function getColumnTsType(column: DatabaseColumn): string {
+  if (column.enumValues && column.enumValues.length > 0) {
+    return column.enumValues.map(value => JSON.stringify(value)).join(' | ');
+  }
+  const type = column.type.toUpperCase();
+  if (/^(NUMERIC|DECIMAL|REAL|DOUBLE|FLOAT|INT|INTEGER|BIGINT|SMALLINT|SERIAL|BIGSERIAL)\b/.test(type)) {
+    return 'number';
+  }
+  if (/^BOOL/.test(type)) {
+    return 'boolean';
+  }
+  if (/^JSONB?\b/.test(type)) {
+    return 'unknown';
+  }
+  return 'string';
+}
+
+function isGeneratedColumn(column: DatabaseColumn): boolean {
+  return !!column.primaryKey || (!!column.default && GENERATED_DEFAULT_PATTERN.test(column.default.trim()));
+}
+
+function getTableBinding(table: DatabaseTable): TableBinding {
+  const baseName = toPascalCase(table.name);
+  return {
+    table: table.name,
+    typeName: `${baseName}Row`,
+    inputTypeName: `${baseName}Input`,
+    hookName: `use${baseName}`,
+    configName: `${toSnakeCase(table.name).toUpperCase()}_TABLE`,
+    columns: table.columns.map(column => ({
+      column: column.name,
+      property: column.primaryKey ? 'id' : toCamelCase(column.name),
+      tsType: getColumnTsType(column),
+      optional: !column.primaryKey && !column.notNull,
+      generated: isGeneratedColumn(column),
+    })),
+    ...(table.columns.some(column => column.name === 'created_at') && { orderBy: 'created_at' }),
+  };
+}
+
+// Tabelle utilizzabili dal data layer: serve una chiave primaria (mappata sulla proprietà id)
+export function getTableBindings(schema: DatabaseSchema | null | undefined): TableBinding[] {
+  return (schema?.tables || [])
+    .filter(table => table.columns.filter(column => column.primaryKey).length === 1)
+    .map(getTableBinding);
+}
+
+export function renderTablesModule(bindings: TableBinding[], options: TablesModuleOptions = {}): string {
+  const lines: string[] = [
+    "import { useTable, type TableConfig } from '@/lib/db';",
+  ];
+  if (options.typesImport) {
+    const typeNames = bindings.flatMap(binding => [binding.typeName, binding.inputTypeName]);
+    lines.push(`import type { ${typeNames.join(', ')} } from '${options.typesImport}';`);
+  }
+  lines.push('', '// Tabelle Supabase del modulo: tipo del record, configurazione e hook per ogni tabella');
+
+  for (const binding of bindings) {
+    lines.push('');
+    if (!options.typesImport) {
+      lines.push(`export interface ${binding.typeName} {`);
+      for (const column of binding.columns) {
+        lines.push(`  ${column.property}${column.optional ? '?' : ''}: ${column.tsType};`);
+      }
+      lines.push('}', '');
+      const generated = binding.columns.filter(column => column.generated).map(column => `'${column.property}'`);
+      lines.push(`export type ${binding.inputTypeName} = Omit<${binding.typeName}, ${generated.length > 0 ? generated.join(' | ') : "'id'"}>;`, '');
+    }
+    lines.push(`export const ${binding.configName}: TableConfig<${binding.typeName}> = {`);
+    lines.push(`  name: '${binding.table}',`);
+    lines.push('  columns: {');
+    for (const column of binding.columns) {
+      lines.push(`    ${column.property}: '${column.column}',`);
+    }
+    lines.push('  },');
+    if (binding.orderBy) {
+      lines.push(`  orderBy: '${binding.orderBy}',`);
+    }
+    lines.push('};', '');
+    lines.push(`export function ${binding.hookName}() {`);
+    lines.push(`  return useTable<${binding.typeName}, ${binding.inputTypeName}>(${binding.configName});`);
+    lines.push('}');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function renderDbModule(): string {
+  return DB_MODULE;
+}
+
+// lib/db.ts, lib/tables.ts e lib/rules.ts (senza regole) per uno schema (vuoto se lo schema non ha tabelle utilizzabili)
+export function getDataLayerFiles(schema: DatabaseSchema | null | undefined): Record<string, string> {
+  const bindings = getTableBindings(schema);
+  if (bindings.length === 0) {
+    return {};
+  }
+  return {
+    [DB_MODULE_PATH]: DB_MODULE,
+    [TABLES_MODULE_PATH]: renderTablesModule(bindings),
+    [RULES_MODULE_PATH]: renderRulesModule([]),
+  };
+}
+
+/**
+ * Allinea il data layer ai file del modulo: lib/db.ts è sempre quello corrente, lib/tables.ts
+ * viene generato dallo schema solo se manca, così come lib/rules.ts (le regole si scrivono con
+ * withBusinessRules). I moduli senza schema e senza lib/tables.ts restano invariati.
+ */
+export function withDataLayer(files: Record<string, string>, schema: DatabaseSchema | null | undefined): Record<string, string> {
+  if (TABLES_MODULE_PATH in files) {
+    return {
+      ...files,
+      [DB_MODULE_PATH]: DB_MODULE,
+      ...(!(RULES_MODULE_PATH in files) && { [RULES_MODULE_PATH]: renderRulesModule([]) }),
+    };
+  }
+  const dataLayerFiles = getDataLayerFiles(schema);
+  if (Object.keys(dataLayerFiles).length === 0) {
+    return files;
+  }
+  return { ...files, ...dataLayerFiles };
+}
+
+// Istruzioni per i prompt di generazione e modifica (vuote se il modulo non ha il data layer)
+export function getDataLayerPromptInstructions(files: Record<string, string>): string {
+  const tablesModule = files[TABLES_MODULE_PATH];
+  if (!tablesModule) {
+    return '';
+  }
+  return `DATI (Supabase):
+- I record vanno letti e salvati con gli hook di lib/tables.ts: NON tenerli solo nello stato dei componenti
+- lib/db.ts esiste già e viene generato automaticamente: non scriverlo (lo stesso vale per lib/rules.ts)
+- lib/tables.ts si modifica solo se cambia lo schema del database, insieme alla migration
+- Ogni hook (es: const orders = useOrders()) restituisce items, loaded, error, configured, reload() e get(id), più create(input), update(id, input) e remove(id) che sono async
+- I componenti che usano gli hook devono iniziare con 'use client'
+- Se configured è false mostra l'avviso t('db.notConfigured') (i dati restano in memoria); se error non è null mostra t('db.error', { message: error }). Entrambe le chiavi vanno nel catalogo
+
+Contenuto di lib/tables.ts:
+\`\`\`ts
+${tablesModule}\`\`\``;
+}
@@ -0,0 +1,1288 @@
+import type {
+  DatabaseColumn,
+  DatabaseConstraint,
+  DatabaseIndex,
+  DatabaseReference,
+  DatabaseSchema,
+  DatabaseTable,
+  ReferentialAction,
+} from './supabase/schema';
+
+/**
+ * Parser del DDL Postgres delle migration dei moduli: applica CREATE/ALTER/DROP TABLE, vincoli e
+ * indici al database_schema della versione precedente (formato di lib/supabase/schema.ts).
+ * Una migration che tocca tabelle o colonne inesistenti viene rifiutata, così lo schema salvato sulla
+ * versione resta quello del database e i moduli collegati lo ricevono aggiornato nei prompt.
+ * Gli statement che non cambiano la struttura (COMMENT, POLICY, TRIGGER, INSERT...) sono ignorati,
+ * verificando solo le tabelle e le colonne che citano.
+ * Durante l'applicazione viene costruita anche la down migration (usata dal migration runner per il
+ * rollback), a partire dallo schema precedente a ogni statement.
+ */
+
+export interface ApplyMigrationOptions {
+  // Tabelle di altri moduli (collegati) utilizzabili come destinazione delle foreign key
+  externalTables?: DatabaseTable[];
+}
+
+export interface MigrationResult {
+  // null se la migration è rifiutata
+  schema: DatabaseSchema | null;
+  errors: string[];
+  // Statement ignorati o applicati solo in parte
+  notes: string[];
+  // Migration inversa (statement in ordine inverso), vuota se la migration è rifiutata
+  downSql: string;
+  // Parti della migration che la down migration non ripristina (dati cancellati, statement non invertibili)
+  downWarnings: string[];
+}
+
+type TokenKind = 'word' | 'identifier' | 'string' | 'number' | 'symbol';
+
+interface Token {
+  kind: TokenKind;
+  // Parole chiave e nomi non quotati in minuscolo, identificatori quotati e stringhe senza apici
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface Statement {
+  tokens: Token[];
+  text: string;
+}
+
+interface ApplyContext {
+  schema: DatabaseSchema;
+  externalTables: DatabaseTable[];
+  notes: string[];
+  // Inverso dello statement corrente, nell'ordine di applicazione
+  down: string[];
+  downWarnings: string[];
+}
+
+const WORD_PATTERN = /[A-Za-z_][A-Za-z0-9_$]*/y;
+const NUMBER_PATTERN = /\d+(\.\d+)?([eE][+-]?\d+)?/y;
+const DOLLAR_TAG_PATTERN = /\$([A-Za-z_][A-Za-z0-9_]*)?\$/y;
+const TWO_CHAR_SYMBOLS = ['::', '<=', '>=', '<>', '!=', '||'];
+
+// Parole che chiudono il tipo o il default di una colonna
+const COLUMN_CONSTRAINT_WORDS = new Set(['constraint', 'primary', 'not', 'null', 'default', 'references', 'unique', 'check', 'generated', 'collate']);
+const TABLE_CONSTRAINT_WORDS = new Set(['constraint', 'primary', 'unique', 'foreign', 'check', 'exclude']);
+const REFERENTIAL_ACTIONS = new Set(['cascade', 'restrict', 'set null', 'set default', 'no action']);
+
+function readQuoted(sql: string, start: number, quote: string): { value: string; end: number } {
+  let value = '';
+  let i = start + 1;
+  for (;;) {
+    if (i >= sql.length) {
+      throw new Error(quote === "'" ? 'stringa non chiusa' : 'identificatore tra virgolette non chiuso');
+    }
+    if (sql[i] === quote) {
+      if (sql[i + 1] !== quote) {
+        return { value, end: i + 1 };
+      }
+      i++;
+    }
+    value += sql[i++];
+  }
+}
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < sql.length) {
+    const char = sql[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (sql.startsWith('--', i)) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+    if (sql.startsWith('/*', i)) {
+      const end = sql.indexOf('*/', i + 2);
+      if (end === -1) {
+        throw new Error('commento /* non chiuso');
+      }
+      i = end + 2;
+      continue;
+    }
+
+    const start = i;
+    if (char === "'" || char === '"') {
+      const { value, end } = readQuoted(sql, i, char);
+      tokens.push({ kind: char === "'" ? 'string' : 'identifier', value, start, end });
+      i = end;
+      continue;
+    }
+    if (char === '$') {
+      DOLLAR_TAG_PATTERN.lastIndex = i;
+      const tag = DOLLAR_TAG_PATTERN.exec(sql);
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length);
+        if (close === -1) {
+          throw new Error(`blocco ${tag[0]} non chiuso`);
+        }
+        i = close + tag[0].length;
+        tokens.push({ kind: 'string', value: sql.slice(start + tag[0].length, close), start, end: i });
+        continue;
+      }
+    }
+    WORD_PATTERN.lastIndex = i;
+    const word = WORD_PATTERN.exec(sql);
+    if (word) {
+      i += word[0].length;
+      tokens.push({ kind: 'word', value: word[0].toLowerCase(), start, end: i });
+      continue;
+    }
+    NUMBER_PATTERN.lastIndex = i;
+    const number = NUMBER_PATTERN.exec(sql);
+    if (number) {
+      i += number[0].length;
+      tokens.push({ kind: 'number', value: number[0], start, end: i });
+      continue;
+    }
+    const symbol = TWO_CHAR_SYMBOLS.find(candidate => sql.startsWith(candidate, i)) || char;
+    i += symbol.length;
+    tokens.push({ kind: 'symbol', value: symbol, start, end: i });
+  }
+  return tokens;
+}
+
+function splitStatements(sql: string): Statement[] {
+  const statements: Statement[] = [];
+  let current: Token[] = [];
+  const flush = () => {
+    if (current.length > 0) {
+      statements.push({ tokens: current, text: sql.slice(current[0].start, current[current.length - 1].end) });
+    }
+    current = [];
+  };
+  for (const token of tokenize(sql)) {
+    if (token.kind === 'symbol' && token.value === ';') {
+      flush();
+    } else {
+      current.push(token);
+    }
+  }
+  flush();
+  return statements;
+}
+
+// Statement di uno script SQL senza commenti (il ; dentro stringhe e blocchi $$ non separa)
+export function splitSqlStatements(sql: string): string[] {
+  return splitStatements(sql).map(statement => statement.text);
+}
+
+// Lettura sequenziale dei token di uno statement (o di una sua parte); sql è lo script completo, a cui si riferiscono start/end dei token
+class Cursor {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[], private readonly sql: string) {}
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  done(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+
+  next(): Token {
+    const token = this.tokens[this.pos];
+    if (!token) {
+      throw new Error('statement incompleto');
+    }
+    this.pos++;
+    return token;
+  }
+
+  isWord(word: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === 'word' && token.value === word;
+  }
+
+  isSymbol(symbol: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === 'symbol' && token.value === symbol;
+  }
+
+  // Consuma le parole solo se ci sono tutte, nell'ordine
+  accept(...words: string[]): boolean {
+    if (!words.every((word, index) => this.isWord(word, index))) {
+      return false;
+    }
+    this.pos += words.length;
+    return true;
+  }
+
+  expect(...words: string[]): void {
+    if (!this.accept(...words)) {
+      throw new Error(`atteso ${words.join(' ').toUpperCase()}`);
+    }
+  }
+
+  identifier(): string {
+    const token = this.next();
+    if (token.kind !== 'word' && token.kind !== 'identifier') {
+      throw new Error(`nome atteso invece di "${token.value}"`);
+    }
+    return token.value;
+  }
+
+  // Nome eventualmente qualificato dallo schema (public.ordini)
+  qualifiedName(): { schema?: string; name: string } {
+    const first = this.identifier();
+    if (this.isSymbol('.')) {
+      this.pos++;
+      return { schema: first, name: this.identifier() };
+    }
+    return { name: first };
+  }
+
+  // Contenuto di un gruppo tra parentesi (le parentesi sono consumate)
+  group(): Token[] {
+    if (!this.isSymbol('(')) {
+      throw new Error('attesa "("');
+    }
+    const start = ++this.pos;
+    let depth = 1;
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos++];
+      if (token.kind === 'symbol' && token.value === '(') depth++;
+      if (token.kind === 'symbol' && token.value === ')' && --depth === 0) {
+        return this.tokens.slice(start, this.pos - 1);
+      }
+    }
+    throw new Error('parentesi non chiusa');
+  }
+
+  // Token fino alla prima parola di `stops` fuori dalle parentesi (o fino alla fine)
+  until(stops: Set<string>): Token[] {
+    const start = this.pos;
+    let depth = 0;
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos];
+      if (depth === 0 && token.kind === 'word' && stops.has(token.value)) {
+        break;
+      }
+      if (token.kind === 'symbol' && token.value === '(') depth++;
+      if (token.kind === 'symbol' && token.value === ')') depth--;
+      this.pos++;
+    }
+    return this.tokens.slice(start, this.pos);
+  }
+
+  rest(): Token[] {
+    const tokens = this.tokens.slice(this.pos);
+    this.pos = this.tokens.length;
+    return tokens;
+  }
+
+  source(tokens: Token[]): string {
+    return tokens.length > 0 ? this.sql.slice(tokens[0].start, tokens[tokens.length - 1].end) : '';
+  }
+
+  sub(tokens: Token[]): Cursor {
+    return new Cursor(tokens, this.sql);
+  }
+}
+
+// Elementi di una lista separata da virgole fuori dalle parentesi
+function splitList(tokens: Token[]): Token[][] {
+  const items: Token[][] = [];
+  let current: Token[] = [];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.kind === 'symbol' && token.value === '(') depth++;
+    if (token.kind === 'symbol' && token.value === ')') depth--;
+    if (depth === 0 && token.kind === 'symbol' && token.value === ',') {
+      items.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length > 0) {
+    items.push(current);
+  }
+  return items;
+}
+
+function readNameList(cursor: Cursor): string[] {
+  return splitList(cursor.group()).map(item => {
+    const names = cursor.sub(item);
+    const name = names.identifier();
+    if (!names.done()) {
+      throw new Error(`nome di colonna atteso invece di "${cursor.source(item)}"`);
+    }
+    return name;
+  });
+}
+
+// ========================================
+// Tabelle e colonne dello schema
+// ========================================
+
+function findTable(schema: DatabaseSchema, name: string): DatabaseTable | undefined {
+  return schema.tables.find(table => table.name === name);
+}
+
+function findColumn(table: DatabaseTable, name: string): DatabaseColumn | undefined {
+  return table.columns.find(column => column.name === name);
+}
+
+// Le tabelle del modulo sono nello schema public: gli altri schemi non sono gestiti dalle migration dei moduli
+function getLocalName(name: { schema?: string; name: string }): string {
+  if (name.schema && name.schema !== 'public') {
+    throw new Error(`la tabella "${name.schema}.${name.name}" è fuori dallo schema del modulo`);
+  }
+  return name.name;
+}
+
+function requireTable(context: ApplyContext, name: { schema?: string; name: string }): DatabaseTable {
+  const localName = getLocalName(name);
+  const table = findTable(context.schema, localName);
+  if (!table) {
+    throw new Error(`tabella "${localName}" inesistente`);
+  }
+  return table;
+}
+
+function requireColumn(table: DatabaseTable, name: string): DatabaseColumn {
+  const column = findColumn(table, name);
+  if (!column) {
+    throw new Error(`colonna "${table.name}.${name}" inesistente`);
+  }
+  return column;
+}
+
+// Colonne di altre tabelle con una foreign key verso table (ed eventualmente verso una sua colonna)
+function findReferencing(schema: DatabaseSchema, table: string, column?: string): Array<{ table: DatabaseTable; column: DatabaseColumn }> {
+  return schema.tables.flatMap(candidate => candidate.columns
+    .filter(other => other.references?.table === table && (column === undefined || other.references.column === column))
+    .map(other => ({ table: candidate, column: other })));
+}
+
+function describeReferencing(references: Array<{ table: DatabaseTable; column: DatabaseColumn }>): string {
+  return references.map(reference => `${reference.table.name}.${reference.column.name}`).join(', ');
+}
+
+// Destinazione di una foreign key: tabella del modulo (anche quella in creazione) o di un modulo collegato
+function resolveReference(
+  context: ApplyContext,
+  target: { schema?: string; name: string },
+  columns: string[] | null
+): Array<{ table: string; column: string }> {
+  if (target.schema && target.schema !== 'public') {
+    if (!columns) {
+      throw new Error(`indica la colonna referenziata di "${target.schema}.${target.name}"`);
+    }
+    return columns.map(column => ({ table: `${target.schema}.${target.name}`, column }));
+  }
+  const table = findTable(context.schema, target.name) || context.externalTables.find(candidate => candidate.name === target.name);
+  if (!table) {
+    throw new Error(`la foreign key referenzia la tabella "${target.name}" inesistente`);
+  }
+  const targetColumns = columns || table.columns.filter(column => column.primaryKey).map(column => column.name);
+  if (targetColumns.length === 0) {
+    throw new Error(`la tabella "${target.name}" non ha una chiave primaria da referenziare`);
+  }
+  for (const column of targetColumns) {
+    if (!findColumn(table, column)) {
+      throw new Error(`la foreign key referenzia la colonna "${target.name}.${column}" inesistente`);
+    }
+  }
+  return targetColumns.map(column => ({ table: table.name, column }));
+}
+
+// ========================================
+// Rendering SQL (down migration, schema completo e diff tra versioni in lib/schema-diff.ts)
+// ========================================
+
+const RESERVED_WORDS = new Set([
+  'all', 'and', 'as', 'asc', 'case', 'check', 'column', 'constraint', 'create', 'default', 'desc', 'else', 'end',
+  'false', 'from', 'grant', 'group', 'in', 'is', 'limit', 'not', 'null', 'offset', 'on', 'or', 'order', 'primary',
+  'references', 'select', 'table', 'then', 'to', 'true', 'union', 'unique', 'user', 'using', 'when', 'where', 'with',
+]);
+
+export function quoteIdentifier(name: string): string {
+  return /^[a-z_][a-z0-9_]*$/.test(name) && !RESERVED_WORDS.has(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+export function quoteList(names: string[]): string {
+  return names.map(quoteIdentifier).join(', ');
+}
+
+export function renderEnumCheck(column: DatabaseColumn): string {
+  const values = (column.enumValues || []).map(value => `'${value.replace(/'/g, "''")}'`).join(', ');
+  return `CHECK (${quoteIdentifier(column.name)} IN (${values}))`;
+}
+
+export function renderColumnDefinition(column: DatabaseColumn, inlinePrimaryKey: boolean): string {
+  const parts = [quoteIdentifier(column.name), column.type];
+  if (column.primaryKey && inlinePrimaryKey) {
+    parts.push('PRIMARY KEY');
+  } else if (column.notNull) {
+    parts.push('NOT NULL');
+  }
+  if (column.default) {
+    parts.push(`DEFAULT ${column.default}`);
+  }
+  if (column.enumValues) {
+    parts.push(renderEnumCheck(column));
+  }
+  return parts.join(' ');
+}
+
+export function renderConstraint(constraint: DatabaseConstraint): string {
+  return constraint.type === 'unique'
+    ? `CONSTRAINT ${quoteIdentifier(constraint.name)} UNIQUE (${quoteList(constraint.columns)})`
+    : `CONSTRAINT ${quoteIdentifier(constraint.name)} CHECK (${constraint.expression})`;
+}
+
+export function renderDropConstraint(table: string, name: string): string {
+  return `ALTER TABLE ${quoteIdentifier(table)} DROP CONSTRAINT IF EXISTS ${quoteIdentifier(name)};`;
+}
+
+// Azioni della foreign key dopo REFERENCES tabella(colonna), con lo spazio iniziale ('' se NO ACTION)
+export function renderReferenceActions(reference: DatabaseReference): string {
+  return [
+    ...(reference.onDelete ? [` ON DELETE ${reference.onDelete.toUpperCase()}`] : []),
+    ...(reference.onUpdate ? [` ON UPDATE ${reference.onUpdate.toUpperCase()}`] : []),
+  ].join('');
+}
+
+// Idempotente (DROP IF EXISTS + ADD), come i vincoli generati dal deploy
+export function renderForeignKey(table: DatabaseTable, column: DatabaseColumn, name = `fk_${table.name}_${column.name}`): string {
+  const reference = column.references!;
+  const target = reference.table.split('.').map(quoteIdentifier).join('.');
+  return `${renderDropConstraint(table.name, name)}
+ALTER TABLE ${quoteIdentifier(table.name)} ADD CONSTRAINT ${quoteIdentifier(name)} FOREIGN KEY (${quoteIdentifier(column.name)}) REFERENCES ${target}(${quoteIdentifier(reference.column)})${renderReferenceActions(reference)};`;
+}
+
+// Le colonne di un indice possono essere espressioni, conservate come testo
+export function renderIndex(table: DatabaseTable, index: DatabaseIndex): string {
+  const columns = index.columns.map(column => (findColumn(table, column) ? quoteIdentifier(column) : column));
+  return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS ${quoteIdentifier(index.name)} ON ${quoteIdentifier(table.name)} (${columns.join(', ')});`;
+}
+
+export function renderCreateTable(table: DatabaseTable): string {
+  const primaryKey = table.columns.filter(column => column.primaryKey);
+  const elements = table.columns.map(column => renderColumnDefinition(column, primaryKey.length === 1));
+  if (primaryKey.length > 1) {
+    elements.push(`PRIMARY KEY (${quoteList(primaryKey.map(column => column.name))})`);
+  }
+  elements.push(...(table.constraints || []).map(renderConstraint));
+  return `CREATE TABLE IF NOT EXISTS ${quoteIdentifier(table.name)} (\n${elements.map(element => `  ${element}`).join(',\n')}\n);`;
+}
+
+// Foreign key e indici: dopo la creazione di tutte le tabelle
+export function renderTableRelations(table: DatabaseTable): string[] {
+  return [
+    ...table.columns.filter(column => column.references).map(column => renderForeignKey(table, column)),
+    ...(table.indexes || []).map(index => renderIndex(table, index)),
+  ];
+}
+
+/**
+ * DDL completo di un database_schema (tabelle, vincoli, foreign key, indici), rieseguibile su un database
+ * che contiene già le tabelle. È la migration di base delle versioni senza una migration salvata.
+ */
+export function renderSchemaSql(schema: DatabaseSchema | null | undefined): string {
+  const tables = Array.isArray(schema?.tables) ? schema.tables : [];
+  return [...tables.map(renderCreateTable), ...tables.flatMap(renderTableRelations)].join('\n\n');
+}
+
+// ========================================
+// Colonne e vincoli
+// ========================================
+
+// Azioni e opzioni dopo REFERENCES (ON DELETE ..., MATCH ..., DEFERRABLE ...): restituisce le azioni
+// ON DELETE/ON UPDATE diverse da NO ACTION, le altre opzioni non sono rappresentate nello schema
+function readReferenceOptions(cursor: Cursor): Pick<DatabaseReference, 'onDelete' | 'onUpdate'> {
+  const actions: Pick<DatabaseReference, 'onDelete' | 'onUpdate'> = {};
+  for (;;) {
+    if (cursor.accept('on')) {
+      // ON DELETE|UPDATE CASCADE, RESTRICT, SET NULL, SET DEFAULT, NO ACTION
+      const event = cursor.next().value;
+      if (event !== 'delete' && event !== 'update') {
+        throw new Error(`atteso ON DELETE o ON UPDATE invece di ON ${event.toUpperCase()}`);
+      }
+      const action = cursor.accept('set') ? `set ${cursor.next().value}` : cursor.accept('no') ? `no ${cursor.next().value}` : cursor.next().value;
+      if (!REFERENTIAL_ACTIONS.has(action)) {
+        throw new Error(`azione ON ${event.toUpperCase()} non valida: ${action.toUpperCase()}`);
+      }
+      if (action !== 'no action') {
+        actions[event === 'delete' ? 'onDelete' : 'onUpdate'] = action as ReferentialAction;
+      }
+    } else if (cursor.accept('match')) {
+      cursor.next();
+    } else if (cursor.accept('deferrable') || cursor.accept('not', 'deferrable')) {
+      continue;
+    } else if (cursor.accept('initially')) {
+      cursor.next();
+    } else {
+      return actions;
+    }
+  }
+}
+
+function readReference(cursor: Cursor): NonNullable<ParsedColumn['reference']> {
+  const target = cursor.qualifiedName();
+  const columns = cursor.isSymbol('(') ? readNameList(cursor) : null;
+  return { target, columns, actions: readReferenceOptions(cursor) };
+}
+
+// Valori ammessi da un CHECK (colonna IN ('a', 'b')), rappresentati come enumValues della colonna
+function getEnumCheck(tokens: Token[]): { column: string; values: string[] } | null {
+  const [column, keyword, open, ...rest] = tokens;
+  const close = rest.pop();
+  if (
+    !column || (column.kind !== 'word' && column.kind !== 'identifier') ||
+    keyword?.kind !== 'word' || keyword.value !== 'in' ||
+    open?.kind !== 'symbol' || open.value !== '(' ||
+    close?.kind !== 'symbol' || close.value !== ')' ||
+    rest.length === 0
+  ) {
+    return null;
+  }
+  const values: string[] = [];
+  for (const [index, token] of rest.entries()) {
+    const expected = index % 2 === 0 ? token.kind === 'string' : token.kind === 'symbol' && token.value === ',';
+    if (!expected) {
+      return null;
+    }
+    if (token.kind === 'string') {
+      values.push(token.value);
+    }
+  }
+  return { column: column.value, values };
+}
+
+function normalizeType(cursor: Cursor, tokens: Token[]): string {
+  if (tokens.length === 0) {
+    throw new Error('tipo della colonna mancante');
+  }
+  const source = cursor.source(tokens).replace(/\s+/g, ' ').replace(/\s*([(),])\s*/g, '$1');
+  return tokens.some(token => token.kind === 'identifier') ? source : source.toUpperCase();
+}
+
+interface ParsedColumn {
+  column: DatabaseColumn;
+  constraints: DatabaseConstraint[];
+  reference?: {
+    target: { schema?: string; name: string };
+    columns: string[] | null;
+    actions: Pick<DatabaseReference, 'onDelete' | 'onUpdate'>;
+  };
+}
+
+function parseColumnDefinition(context: ApplyContext, cursor: Cursor, table: string): ParsedColumn {
+  const name = cursor.identifier();
+  const column: DatabaseColumn = { name, type: normalizeType(cursor, cursor.until(COLUMN_CONSTRAINT_WORDS)) };
+  const constraints: DatabaseConstraint[] = [];
+  let reference: ParsedColumn['reference'];
+
+  while (!cursor.done()) {
+    let constraintName: string | undefined;
+    if (cursor.accept('constraint')) {
+      constraintName = cursor.identifier();
+    }
+    if (cursor.accept('primary', 'key')) {
+      column.primaryKey = true;
+    } else if (cursor.accept('not', 'null')) {
+      column.notNull = true;
+    } else if (cursor.accept('null')) {
+      delete column.notNull;
+    } else if (cursor.accept('default')) {
+      const expression = cursor.accept('null') ? [] : cursor.until(COLUMN_CONSTRAINT_WORDS);
+      if (expression.length > 0) {
+        column.default = cursor.source(expression);
+      }
+    } else if (cursor.accept('references')) {
+      reference = readReference(cursor);
+    } else if (cursor.accept('unique')) {
+      constraints.push({ name: constraintName || `${table}_${name}_key`, type: 'unique', columns: [name] });
+    } else if (cursor.accept('check')) {
+      const expression = cursor.group();
+      const enumCheck = getEnumCheck(expression);
+      if (enumCheck && enumCheck.column === name) {
+        column.enumValues = enumCheck.values;
+      } else {
+        constraints.push({ name: constraintName || `${table}_${name}_check`, type: 'check', columns: [name], expression: cursor.source(expression) });
+      }
+    } else if (cursor.accept('generated')) {
+      // GENERATED ALWAYS AS (...) STORED / AS IDENTITY: valore calcolato dal database
+      cursor.rest();
+    } else if (cursor.accept('collate')) {
+      cursor.qualifiedName();
+    } else {
+      throw new Error(`vincolo di colonna non riconosciuto: "${cursor.source(cursor.rest())}"`);
+    }
+  }
+
+  return { column, constraints, ...(reference && { reference }) };
+}
+
+function applyReference(context: ApplyContext, table: DatabaseTable, columns: string[], reference: NonNullable<ParsedColumn['reference']>): void {
+  const targets = resolveReference(context, reference.target, reference.columns);
+  if (targets.length !== columns.length) {
+    throw new Error(`la foreign key su ${columns.join(', ')} ha ${targets.length} colonne di destinazione`);
+  }
+  columns.forEach((name, index) => {
+    requireColumn(table, name).references = { ...targets[index], ...reference.actions };
+  });
+}
+
+function addConstraint(table: DatabaseTable, constraint: DatabaseConstraint): void {
+  const constraints = table.constraints || [];
+  if (constraints.some(existing => existing.name === constraint.name)) {
+    throw new Error(`vincolo "${constraint.name}" già esistente`);
+  }
+  table.constraints = [...constraints, constraint];
+}
+
+// Vincolo di tabella (in CREATE TABLE o ALTER TABLE ... ADD)
+function applyTableConstraint(context: ApplyContext, cursor: Cursor, table: DatabaseTable): void {
+  const name = cursor.accept('constraint') ? cursor.identifier() : undefined;
+  if (cursor.accept('primary', 'key')) {
+    const columns = readNameList(cursor);
+    if (table.columns.some(column => column.primaryKey)) {
+      throw new Error(`la tabella "${table.name}" ha già una chiave primaria`);
+    }
+    for (const column of columns) {
+      requireColumn(table, column).primaryKey = true;
+    }
+    context.down.push(renderDropConstraint(table.name, name || `${table.name}_pkey`));
+  } else if (cursor.accept('unique')) {
+    cursor.accept('nulls', 'not', 'distinct');
+    const columns = readNameList(cursor);
+    columns.forEach(column => requireColumn(table, column));
+    const constraintName = name || `${table.name}_${columns.join('_')}_key`;
+    addConstraint(table, { name: constraintName, type: 'unique', columns });
+    context.down.push(renderDropConstraint(table.name, constraintName));
+  } else if (cursor.accept('foreign', 'key')) {
+    const columns = readNameList(cursor);
+    columns.forEach(column => requireColumn(table, column));
+    cursor.expect('references');
+    applyReference(context, table, columns, readReference(cursor));
+    context.down.push(renderDropConstraint(table.name, name || `${table.name}_${columns[0]}_fkey`));
+  } else if (cursor.accept('check')) {
+    const expression = cursor.group();
+    const enumCheck = getEnumCheck(expression);
+    if (enumCheck) {
+      requireColumn(table, enumCheck.column).enumValues = enumCheck.values;
+      context.down.push(renderDropConstraint(table.name, name || `${table.name}_${enumCheck.column}_check`));
+    } else {
+      const columns = table.columns
+        .map(column => column.name)
+        .filter(column => expression.some(token => (token.kind === 'word' || token.kind === 'identifier') && token.value === column));
+      // Nome generato da Postgres: tabella e prima colonna citata
+      const constraintName = name || (columns.length > 0 ? `${table.name}_${columns[0]}_check` : `${table.name}_check`);
+      addConstraint(table, { name: constraintName, type: 'check', columns, expression: cursor.source(expression) });
+      context.down.push(renderDropConstraint(table.name, constraintName));
+    }
+  } else {
+    context.notes.push(`Vincolo di "${table.name}" non rappresentato nello schema: ${cursor.source(cursor.rest())}`);
+    return;
+  }
+  readReferenceOptions(cursor);
+  if (!cursor.done()) {
+    throw new Error(`testo inatteso dopo il vincolo: "${cursor.source(cursor.rest())}"`);
+  }
+}
+
+// DROP CONSTRAINT: vincoli registrati, foreign key e chiave primaria con i nomi generati da Postgres o dai moduli.
+// Restituisce l'SQL che ricrea il vincolo (null se il vincolo non è nello schema)
+function dropConstraint(table: DatabaseTable, name: string): string | null {
+  const constraint = table.constraints?.find(candidate => candidate.name === name);
+  if (constraint) {
+    table.constraints = table.constraints!.filter(candidate => candidate.name !== name);
+    return `ALTER TABLE ${quoteIdentifier(table.name)} ADD ${renderConstraint(constraint)};`;
+  }
+  const primaryKey = table.columns.filter(column => column.primaryKey);
+  if (name === `${table.name}_pkey` && primaryKey.length > 0) {
+    primaryKey.forEach(column => delete column.primaryKey);
+    return `ALTER TABLE ${quoteIdentifier(table.name)} ADD PRIMARY KEY (${quoteList(primaryKey.map(column => column.name))});`;
+  }
+  const foreignKey = table.columns.find(column =>
+    column.references && (name === `${table.name}_${column.name}_fkey` || name === `fk_${table.name}_${column.name}`)
+  );
+  if (foreignKey) {
+    const restore = renderForeignKey(table, foreignKey, name);
+    delete foreignKey.references;
+    return restore;
+  }
+  const enumCheck = table.columns.find(column => column.enumValues && name === `${table.name}_${column.name}_check`);
+  if (enumCheck) {
+    const restore = `ALTER TABLE ${quoteIdentifier(table.name)} ADD CONSTRAINT ${quoteIdentifier(name)} ${renderEnumCheck(enumCheck)};`;
+    delete enumCheck.enumValues;
+    return restore;
+  }
+  return null;
+}
+
+// ========================================
+// Statement
+// ========================================
+
+function applyCreateTable(context: ApplyContext, cursor: Cursor): void {
+  if (cursor.accept('temporary') || cursor.accept('temp')) {
+    context.notes.push('Tabella temporanea ignorata');
+    cursor.rest();
+    return;
+  }
+  cursor.accept('unlogged');
+  cursor.expect('table');
+  const ifNotExists = cursor.accept('if', 'not', 'exists');
+  const name = getLocalName(cursor.qualifiedName());
+  if (findTable(context.schema, name)) {
+    if (ifNotExists) {
+      // Come in Postgres la definizione non viene letta: lo schema resta quello della tabella esistente
+      context.notes.push(`Tabella "${name}" già esistente: CREATE TABLE IF NOT EXISTS ignorato`);
+      cursor.rest();
+      return;
+    }
+    throw new Error(`tabella "${name}" già esistente`);
+  }
+  if (!cursor.isSymbol('(')) {
+    throw new Error('CREATE TABLE senza elenco di colonne (es: CREATE TABLE ... AS) non supportato');
+  }
+
+  const table: DatabaseTable = { name, columns: [] };
+  const elements = splitList(cursor.group());
+  const references: Array<{ column: string; reference: NonNullable<ParsedColumn['reference']> }> = [];
+  const tableConstraints: Token[][] = [];
+  for (const element of elements) {
+    const first = element[0];
+    if (first?.kind === 'word' && TABLE_CONSTRAINT_WORDS.has(first.value)) {
+      tableConstraints.push(element);
+      continue;
+    }
+    if (first?.kind === 'word' && first.value === 'like') {
+      throw new Error('CREATE TABLE ... (LIKE ...) non supportato');
+    }
+    const parsed = parseColumnDefinition(context, cursor.sub(element), name);
+    if (findColumn(table, parsed.column.name)) {
+      throw new Error(`colonna "${name}.${parsed.column.name}" definita due volte`);
+    }
+    table.columns.push(parsed.column);
+    parsed.constraints.forEach(constraint => addConstraint(table, constraint));
+    if (parsed.reference) {
+      references.push({ column: parsed.column.name, reference: parsed.reference });
+    }
+  }
+
+  if (table.columns.filter(column => column.primaryKey).length > 1) {
+    throw new Error(`la tabella "${name}" ha più chiavi primarie (per una chiave composta usa PRIMARY KEY (...))`);
+  }
+
+  // La tabella è visibile alle proprie foreign key (relazioni ricorsive)
+  context.schema.tables.push(table);
+  for (const element of tableConstraints) {
+    applyTableConstraint(context, cursor.sub(element), table);
+  }
+  for (const { column, reference } of references) {
+    applyReference(context, table, [column], reference);
+  }
+  // I vincoli di tabella spariscono con la tabella: l'inverso è solo il DROP TABLE
+  context.down = [`DROP TABLE IF EXISTS ${quoteIdentifier(name)};`];
+}
+
+function applyAddColumn(context: ApplyContext, cursor: Cursor, table: DatabaseTable): void {
+  cursor.accept('column');
+  const ifNotExists = cursor.accept('if', 'not', 'exists');
+  const parsed = parseColumnDefinition(context, cursor, table.name);
+  if (findColumn(table, parsed.column.name)) {
+    if (ifNotExists) {
+      context.notes.push(`Colonna "${table.name}.${parsed.column.name}" già esistente: ADD COLUMN IF NOT EXISTS ignorato`);
+      return;
+    }
+    throw new Error(`colonna "${table.name}.${parsed.column.name}" già esistente`);
+  }
+  if (parsed.column.primaryKey && table.columns.some(column => column.primaryKey)) {
+    throw new Error(`la tabella "${table.name}" ha già una chiave primaria`);
+  }
+  table.columns.push(parsed.column);
+  parsed.constraints.forEach(constraint => addConstraint(table, constraint));
+  if (parsed.reference) {
+    applyReference(context, table, [parsed.column.name], parsed.reference);
+  }
+  context.down.push(`ALTER TABLE ${quoteIdentifier(table.name)} DROP COLUMN IF EXISTS ${quoteIdentifier(parsed.column.name)};`);
+}
+
+function applyDropColumn(context: ApplyContext, cursor: Cursor, table: DatabaseTable): void {
+  cursor.accept('column');
+  const ifExists = cursor.accept('if', 'exists');
+  const name = cursor.identifier();
+  const cascade = cursor.accept('cascade');
+  cursor.accept('restrict');
+  if (!findColumn(table, name)) {
+    if (ifExists) {
+      context.notes.push(`Colonna "${table.name}.${name}" inesistente: DROP COLUMN IF EXISTS ignorato`);
+      return;
+    }
+    requireColumn(table, name);
+  }
+  const referencing = findReferencing(context.schema, table.name, name);
+  if (referencing.length > 0 && !cascade) {
+    throw new Error(`la colonna "${table.name}.${name}" è referenziata da ${describeReferencing(referencing)} (usa CASCADE)`);
+  }
+
+  // Il ripristino ricrea la colonna (vuota) con foreign key, vincoli e indici rimossi insieme a lei
+  const column = requireColumn(table, name);
+  context.down.push([
+    `ALTER TABLE ${quoteIdentifier(table.name)} ADD COLUMN ${renderColumnDefinition(column, true)};`,
+    ...(column.references ? [renderForeignKey(table, column)] : []),
+    ...(table.constraints || [])
+      .filter(constraint => constraint.columns.includes(name))
+      .map(constraint => `ALTER TABLE ${quoteIdentifier(table.name)} ADD ${renderConstraint(constraint)};`),
+    ...(table.indexes || []).filter(index => index.columns.includes(name)).map(index => renderIndex(table, index)),
+    ...referencing.map(reference => renderForeignKey(reference.table, reference.column)),
+  ].join('\n'));
+  context.downWarnings.push(`Il rollback ricrea la colonna "${table.name}.${name}" senza i dati eliminati`);
+
+  referencing.forEach(reference => delete reference.column.references);
+  // Come in Postgres, indici e vincoli sulla colonna vengono rimossi con lei
+  table.columns = table.columns.filter(column => column.name !== name);
+  table.indexes = table.indexes?.filter(index => !index.columns.includes(name));
+  table.constraints = table.constraints?.filter(constraint => !constraint.columns.includes(name));
+}
+
+function applyAlterColumn(context: ApplyContext, cursor: Cursor, table: DatabaseTable): void {
+  cursor.accept('column');
+  const column = requireColumn(table, cursor.identifier());
+  const previous = { ...column };
+  const alterColumn = `ALTER TABLE ${quoteIdentifier(table.name)} ALTER COLUMN ${quoteIdentifier(column.name)}`;
+  if (cursor.accept('type') || cursor.accept('set', 'data', 'type')) {
+    context.down.push(`${alterColumn} TYPE ${previous.type} USING ${quoteIdentifier(column.name)}::${previous.type};`);
+    column.type = normalizeType(cursor, cursor.until(new Set(['using', 'collate'])));
+    // USING: conversione dei valori esistenti, non fa parte dello schema
+    if (cursor.accept('using')) {
+      cursor.until(new Set(['collate']));
+    }
+    if (cursor.accept('collate')) {
+      cursor.qualifiedName();
+    }
+  } else if (cursor.accept('set', 'not', 'null')) {
+    column.notNull = true;
+    if (!previous.notNull) {
+      context.down.push(`${alterColumn} DROP NOT NULL;`);
+    }
+  } else if (cursor.accept('drop', 'not', 'null')) {
+    delete column.notNull;
+    if (previous.notNull) {
+      context.down.push(`${alterColumn} SET NOT NULL;`);
+    }
+  } else if (cursor.accept('set', 'default')) {
+    column.default = cursor.source(cursor.rest());
+    context.down.push(previous.default ? `${alterColumn} SET DEFAULT ${previous.default};` : `${alterColumn} DROP DEFAULT;`);
+  } else if (cursor.accept('drop', 'default')) {
+    delete column.default;
+    if (previous.default) {
+      context.down.push(`${alterColumn} SET DEFAULT ${previous.default};`);
+    }
+  } else {
+    context.notes.push(`Modifica di "${table.name}.${column.name}" non rappresentata nello schema: ${cursor.source(cursor.rest())}`);
+  }
+}
+
+function renameColumn(context: ApplyContext, table: DatabaseTable, from: string, to: string): void {
+  const column = requireColumn(table, from);
+  if (findColumn(table, to)) {
+    throw new Error(`colonna "${table.name}.${to}" già esistente`);
+  }
+  column.name = to;
+  for (const reference of findReferencing(context.schema, table.name, from)) {
+    reference.column.references = { ...reference.column.references!, column: to };
+  }
+  const rename = (name: string) => (name === from ? to : name);
+  table.indexes?.forEach(index => { index.columns = index.columns.map(rename); });
+  table.constraints?.forEach(constraint => { constraint.columns = constraint.columns.map(rename); });
+  context.down.push(`ALTER TABLE ${quoteIdentifier(table.name)} RENAME COLUMN ${quoteIdentifier(to)} TO ${quoteIdentifier(from)};`);
+}
+
+function renameTable(context: ApplyContext, table: DatabaseTable, to: string): void {
+  if (findTable(context.schema, to)) {
+    throw new Error(`tabella "${to}" già esistente`);
+  }
+  for (const reference of findReferencing(context.schema, table.name)) {
+    reference.column.references = { ...reference.column.references!, table: to };
+  }
+  context.down.push(`ALTER TABLE ${quoteIdentifier(to)} RENAME TO ${quoteIdentifier(table.name)};`);
+  table.name = to;
+}
+
+function applyAlterAction(context: ApplyContext, cursor: Cursor, table: DatabaseTable): void {
+  if (cursor.accept('add')) {
+    const next = cursor.peek();
+    if (next?.kind === 'word' && TABLE_CONSTRAINT_WORDS.has(next.value)) {
+      applyTableConstraint(context, cursor, table);
+    } else {
+      applyAddColumn(context, cursor, table);
+    }
+  } else if (cursor.accept('drop', 'constraint')) {
+    const ifExists = cursor.accept('if', 'exists');
+    const name = cursor.identifier();
+    const restore = dropConstraint(table, name);
+    if (restore) {
+      context.down.push(restore);
+    } else if (!ifExists) {
+      context.notes.push(`Vincolo "${name}" non presente nello schema di "${table.name}"`);
+      context.downWarnings.push(`Il rollback non ricrea il vincolo "${name}" di "${table.name}"`);
+    }
+  } else if (cursor.accept('drop')) {
+    applyDropColumn(context, cursor, table);
+  } else if (cursor.accept('alter')) {
+    applyAlterColumn(context, cursor, table);
+  } else if (cursor.accept('rename', 'to')) {
+    renameTable(context, table, cursor.identifier());
+  } else if (cursor.accept('rename', 'constraint')) {
+    const from = cursor.identifier();
+    cursor.expect('to');
+    const to = cursor.identifier();
+    const constraint = table.constraints?.find(candidate => candidate.name === from);
+    if (constraint) {
+      constraint.name = to;
+    }
+    context.down.push(`ALTER TABLE ${quoteIdentifier(table.name)} RENAME CONSTRAINT ${quoteIdentifier(to)} TO ${quoteIdentifier(from)};`);
+  } else if (cursor.accept('rename')) {
+    cursor.accept('column');
+    const from = cursor.identifier();
+    cursor.expect('to');
+    renameColumn(context, table, from, cursor.identifier());
+  } else {
+    // ENABLE ROW LEVEL SECURITY, OWNER TO, SET (...): non cambiano la struttura
+    context.notes.push(`ALTER TABLE ${table.name} ${cursor.source(cursor.rest())}: ignorato`);
+  }
+}
+
+function applyAlterTable(context: ApplyContext, cursor: Cursor): void {
+  cursor.expect('table');
+  const ifExists = cursor.accept('if', 'exists');
+  cursor.accept('only');
+  const name = cursor.qualifiedName();
+  if (cursor.isSymbol('*')) {
+    cursor.next();
+  }
+  if (ifExists && !findTable(context.schema, getLocalName(name))) {
+    context.notes.push(`Tabella "${name.name}" inesistente: ALTER TABLE IF EXISTS ignorato`);
+    return;
+  }
+  const table = requireTable(context, name);
+  for (const action of splitList(cursor.rest())) {
+    const actionCursor = cursor.sub(action);
+    applyAlterAction(context, actionCursor, table);
+    if (!actionCursor.done()) {
+      throw new Error(`testo inatteso: "${actionCursor.source(actionCursor.rest())}"`);
+    }
+  }
+}
+
+function applyDropTable(context: ApplyContext, cursor: Cursor): void {
+  const ifExists = cursor.accept('if', 'exists');
+  const names: string[] = [];
+  for (const item of splitList(cursor.until(new Set(['cascade', 'restrict'])))) {
+    names.push(getLocalName(cursor.sub(item).qualifiedName()));
+  }
+  const cascade = cursor.accept('cascade');
+  // Il ripristino ricrea prima le tabelle e poi relazioni e indici (anche fra le tabelle eliminate)
+  const restoreTables: string[] = [];
+  const restoreRelations: string[] = [];
+  for (const name of names) {
+    const table = findTable(context.schema, name);
+    if (!table) {
+      if (ifExists) {
+        context.notes.push(`Tabella "${name}" inesistente: DROP TABLE IF EXISTS ignorato`);
+        continue;
+      }
+      throw new Error(`tabella "${name}" inesistente`);
+    }
+    const referencing = findReferencing(context.schema, name).filter(reference => !names.includes(reference.table.name));
+    if (referencing.length > 0 && !cascade) {
+      throw new Error(`la tabella "${name}" è referenziata da ${describeReferencing(referencing)} (usa CASCADE)`);
+    }
+    restoreTables.push(renderCreateTable(table));
+    restoreRelations.push(
+      ...renderTableRelations(table),
+      ...referencing.map(reference => renderForeignKey(reference.table, reference.column))
+    );
+    context.downWarnings.push(`Il rollback ricrea la tabella "${name}" senza i dati eliminati`);
+    referencing.forEach(reference => delete reference.column.references);
+  }
+  // La down migration è invertita alla fine: le relazioni vanno inserite prima delle tabelle
+  if (restoreRelations.length > 0) {
+    context.down.push(restoreRelations.join('\n'));
+  }
+  if (restoreTables.length > 0) {
+    context.down.push(restoreTables.join('\n\n'));
+  }
+  context.schema.tables = context.schema.tables.filter(table => !names.includes(table.name));
+}
+
+function applyCreateIndex(context: ApplyContext, cursor: Cursor, unique: boolean): void {
+  cursor.accept('concurrently');
+  const ifNotExists = cursor.accept('if', 'not', 'exists');
+  const explicitName = cursor.isWord('on') ? undefined : cursor.qualifiedName().name;
+  cursor.expect('on');
+  cursor.accept('only');
+  const table = requireTable(context, cursor.qualifiedName());
+  if (cursor.accept('using')) {
+    cursor.next();
+  }
+
+  // Colonne semplici (verificate) o espressioni (riportate come testo)
+  const columns = splitList(cursor.group()).map(element => {
+    const [first, second] = element;
+    if ((first?.kind === 'word' || first?.kind === 'identifier') && !(second?.kind === 'symbol' && second.value === '(')) {
+      return requireColumn(table, first.value).name;
+    }
+    return cursor.source(element);
+  });
+  const name = explicitName || `${table.name}_${columns.join('_').replace(/\W+/g, '_')}_idx`;
+
+  if (context.schema.tables.some(candidate => candidate.indexes?.some(index => index.name === name))) {
+    if (ifNotExists) {
+      context.notes.push(`Indice "${name}" già esistente: CREATE INDEX IF NOT EXISTS ignorato`);
+      return;
+    }
+    throw new Error(`indice "${name}" già esistente`);
+  }
+  const index: DatabaseIndex = { name, columns, ...(unique && { unique }) };
+  table.indexes = [...(table.indexes || []), index];
+  context.down.push(`DROP INDEX IF EXISTS ${quoteIdentifier(name)};`);
+}
+
+function applyDropIndex(context: ApplyContext, cursor: Cursor): void {
+  cursor.accept('concurrently');
+  const ifExists = cursor.accept('if', 'exists');
+  for (const item of splitList(cursor.until(new Set(['cascade', 'restrict'])))) {
+    const name = cursor.sub(item).qualifiedName().name;
+    const table = context.schema.tables.find(candidate => candidate.indexes?.some(index => index.name === name));
+    if (table) {
+      context.down.push(renderIndex(table, table.indexes!.find(index => index.name === name)!));
+      table.indexes = table.indexes!.filter(index => index.name !== name);
+    } else {
+      context.notes.push(`Indice "${name}" non presente nello schema`);
+      if (!ifExists) {
+        context.downWarnings.push(`Il rollback non ricrea l'indice "${name}"`);
+      }
+    }
+  }
+  cursor.accept('cascade');
+  cursor.accept('restrict');
+}
+
+// Nella WHERE di UPDATE/DELETE: operatori accanto a cui un nome è una colonna confrontata,
+// parole (oltre alle riservate) che sono valori o funzioni e non colonne
+const COMPARISON_SYMBOLS = new Set(['=', '<>', '!=', '<', '>', '<=', '>=']);
+const CAST_SYMBOLS = new Set(['::']);
+const CLOSING_SYMBOLS = new Set([')']);
+const PREDICATE_WORDS = new Set(['is', 'in', 'not', 'between', 'like', 'ilike']);
+const WHERE_VALUE_WORDS = new Set([
+  'any', 'array', 'between', 'current_date', 'current_time', 'current_timestamp', 'current_user', 'ilike', 'interval',
+  'like', 'localtime', 'localtimestamp', 'session_user', 'some',
+]);
+
+function isNameToken(token: Token | undefined): boolean {
+  return token?.kind === 'identifier' ||
+    (token?.kind === 'word' && !RESERVED_WORDS.has(token.value) && !WHERE_VALUE_WORDS.has(token.value));
+}
+
+function isSymbolToken(token: Token | undefined, symbols: Set<string>): boolean {
+  return token?.kind === 'symbol' && symbols.has(token.value);
+}
+
+// Target delle assegnazioni di UPDATE ... SET: col = ..., (col1, col2) = ..., col[1] = ..., col.campo = ...
+function readSetTargets(cursor: Cursor, tokens: Token[]): string[] {
+  return splitList(tokens).flatMap(item => {
+    const assignment = cursor.sub(item);
+    return assignment.isSymbol('(') ? readNameList(assignment) : [assignment.identifier()];
+  });
+}
+
+// Colonne confrontate nella WHERE (a = 1, a IS NULL, 1 < t.a, a::date = ...), anche qualificate con la tabella o l'alias;
+// con sottoquery o WHERE CURRENT OF non si possono attribuire alla tabella e non si verificano
+function readWhereColumns(tokens: Token[], qualifiers: Set<string>): string[] {
+  if (tokens.some(token => token.kind === 'word' && (token.value === 'select' || token.value === 'current'))) {
+    return [];
+  }
+  const columns: string[] = [];
+  tokens.forEach((token, index) => {
+    const next = tokens[index + 1];
+    if (!isNameToken(token) || next?.kind === 'symbol' && (next.value === '(' || next.value === '.')) {
+      return;
+    }
+    let before = tokens[index - 1];
+    if (before?.kind === 'symbol' && before.value === '.') {
+      const qualifier = tokens[index - 2];
+      if (!qualifier || !qualifiers.has(qualifier.value)) {
+        return;
+      }
+      before = tokens[index - 3];
+    } else if (before?.kind === 'symbol' && before.value === '::') {
+      return;
+    }
+    const leftOperand = isSymbolToken(next, COMPARISON_SYMBOLS) || isSymbolToken(next, CAST_SYMBOLS) ||
+      (next?.kind === 'word' && PREDICATE_WORDS.has(next.value));
+    const rightOperand = isSymbolToken(before, COMPARISON_SYMBOLS) &&
+      (!next || isSymbolToken(next, CLOSING_SYMBOLS) || (next.kind === 'word' && (next.value === 'and' || next.value === 'or')));
+    if (leftOperand || rightOperand) {
+      columns.push(token.value);
+    }
+  });
+  return columns;
+}
+
+// Statement che non cambiano la struttura: si verificano solo tabelle e colonne citate
+function checkReferencedObjects(context: ApplyContext, cursor: Cursor, keyword: string): void {
+  if (keyword === 'comment') {
+    cursor.expect('on');
+    if (cursor.accept('table')) {
+      requireTable(context, cursor.qualifiedName());
+    } else if (cursor.accept('column')) {
+      const first = cursor.identifier();
+      cursor.next();
+      const second = cursor.identifier();
+      if (cursor.isSymbol('.')) {
+        cursor.next();
+        requireColumn(requireTable(context, { schema: first, name: second }), cursor.identifier());
+      } else {
+        requireColumn(requireTable(context, { name: first }), second);
+      }
+    }
+  } else if (keyword === 'insert') {
+    cursor.expect('into');
+    const table = requireTable(context, cursor.qualifiedName());
+    if (cursor.isSymbol('(')) {
+      readNameList(cursor).forEach(column => requireColumn(table, column));
+    }
+  } else if (keyword === 'update' || keyword === 'delete') {
+    cursor.accept('from');
+    cursor.accept('only');
+    const table = requireTable(context, cursor.qualifiedName());
+    if (cursor.isSymbol('*')) {
+      cursor.next();
+    }
+    // Alias facoltativo: i nomi nella WHERE possono essere qualificati con la tabella o con l'alias
+    const qualifiers = new Set([table.name]);
+    if (cursor.accept('as') || (!cursor.done() && !['set', 'using', 'where', 'returning'].includes(cursor.peek()!.value))) {
+      qualifiers.add(cursor.identifier());
+    }
+    if (keyword === 'update') {
+      cursor.expect('set');
+      readSetTargets(cursor, cursor.until(new Set(['from', 'where', 'returning'])))
+        .forEach(column => requireColumn(table, column));
+    }
+    // Con FROM/USING la WHERE può citare colonne di altre tabelle
+    const joined = cursor.isWord('from') || cursor.isWord('using');
+    cursor.until(new Set(['where', 'returning']));
+    if (cursor.accept('where') && !joined) {
+      readWhereColumns(cursor.until(new Set(['returning'])), qualifiers)
+        .forEach(column => requireColumn(table, column));
+    }
+  } else if (keyword === 'create') {
+    // CREATE POLICY / TRIGGER ... ON tabella
+    cursor.until(new Set(['on']));
+    if (cursor.accept('on')) {
+      requireTable(context, cursor.qualifiedName());
+    }
+  }
+  cursor.rest();
+}
+
+function applyStatement(context: ApplyContext, statement: Statement, sql: string): void {
+  const cursor = new Cursor(statement.tokens, sql);
+  const keyword = cursor.next().value;
+  const notReverted = `Il rollback non annulla: ${statement.text.split('\n')[0]}`;
+  if (keyword === 'create') {
+    cursor.accept('or', 'replace');
+    if (cursor.isWord('table') || cursor.isWord('temporary') || cursor.isWord('temp') || cursor.isWord('unlogged')) {
+      applyCreateTable(context, cursor);
+    } else if (cursor.accept('unique', 'index')) {
+      applyCreateIndex(context, cursor, true);
+    } else if (cursor.accept('index')) {
+      applyCreateIndex(context, cursor, false);
+    } else if (cursor.isWord('policy') || cursor.isWord('trigger')) {
+      checkReferencedObjects(context, cursor, keyword);
+      context.downWarnings.push(notReverted);
+    } else {
+      context.notes.push(`Ignorato: ${statement.text.split('\n')[0]}`);
+      context.downWarnings.push(notReverted);
+      return;
+    }
+  } else if (keyword === 'alter' && cursor.isWord('table')) {
+    applyAlterTable(context, cursor);
+  } else if (keyword === 'drop' && cursor.accept('table')) {
+    applyDropTable(context, cursor);
+  } else if (keyword === 'drop' && cursor.accept('index')) {
+    applyDropIndex(context, cursor);
+  } else if (['comment', 'insert', 'update', 'delete'].includes(keyword)) {
+    checkReferencedObjects(context, cursor, keyword);
+    if (keyword !== 'comment') {
+      context.downWarnings.push(notReverted);
+    }
+  } else {
+    context.notes.push(`Ignorato: ${statement.text.split('\n')[0]}`);
+    context.downWarnings.push(notReverted);
+    return;
+  }
+  if (!cursor.done()) {
+    throw new Error(`testo inatteso: "${cursor.source(cursor.rest())}"`);
+  }
+}
+
+function cloneSchema(schema: DatabaseSchema): DatabaseSchema {
+  return JSON.parse(JSON.stringify(schema));
+}
+
+/**
+ * Applica una migration SQL allo schema della versione precedente e restituisce lo schema risultante
+ * con la relativa down migration.
+ * Ogni statement è applicato su una copia: gli errori sono raccolti tutti (con il numero dello statement)
+ * e se ce n'è almeno uno la migration è rifiutata (schema null).
+ */
+export function applyMigrationToSchema(
+  previous: DatabaseSchema | null | undefined,
+  sql: string,
+  options: ApplyMigrationOptions = {}
+): MigrationResult {
+  const errors: string[] = [];
+  const notes: string[] = [];
+  const down: string[] = [];
+  const downWarnings: string[] = [];
+  let schema: DatabaseSchema = cloneSchema({ tables: Array.isArray(previous?.tables) ? previous.tables : [] });
+
+  let statements: Statement[];
+  try {
+    statements = splitStatements(sql);
+  } catch (error) {
+    return { schema: null, errors: [`SQL non valido: ${error instanceof Error ? error.message : String(error)}`], notes, downSql: '', downWarnings };
+  }
+
+  statements.forEach((statement, index) => {
+    const context: ApplyContext = {
+      schema: cloneSchema(schema),
+      externalTables: options.externalTables || [],
+      notes,
+      down: [],
+      downWarnings,
+    };
+    try {
+      applyStatement(context, statement, sql);
+      schema = context.schema;
+      down.push(...context.down);
+    } catch (error) {
+      const preview = statement.text.replace(/\s+/g, ' ').substring(0, 60);
+      errors.push(`Statement ${index + 1} (${preview}): ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  if (errors.length > 0) {
+    return { schema: null, errors, notes, downSql: '', downWarnings };
+  }
+  return { schema, errors, notes, downSql: down.reverse().join('\n\n'), downWarnings };
+}
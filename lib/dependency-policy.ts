@@ -0,0 +1,296 @@
+import npmMetadata from './npm-metadata.json';
+import { DEFAULT_STACK_PROFILE, getBasePackageJson, listStackProfiles, type PackageJson, type StackProfileId } from './stack-profiles';
+import type { DependencyUpdate } from './structured-output';
+
+/**
+ * Politica delle dipendenze npm proposte dal modello (strumento update_dependencies in generazione,
+ * modifica e auto-fix). Le modifiche vengono validate e unite al package.json della versione corrente:
+ * - sono ammessi solo i pacchetti di ALLOWED_PACKAGES, con le major indicate
+ * - i pacchetti del profilo di stack (next, react, tailwind, ...) non sono modificabili dal modello
+ * - i nomi simili a un pacchetto noto (es: "reactt", "date-fn") sono rifiutati come typo-squatting
+ * I range vengono risolti sulla cache locale lib/npm-metadata.json (nessuna chiamata al registry,
+ * funziona offline); la cache si aggiorna con `npm run deps:metadata`.
+ */
+
+export interface AllowedPackage {
+  description: string;
+  // Major ammesse: un range fuori da queste viene riportato all'ultima versione nota della major più alta
+  majors: number[];
+  // Pacchetti che vanno sempre in devDependencies (es: @types/*)
+  dev?: boolean;
+}
+
+export const ALLOWED_PACKAGES: Record<string, AllowedPackage> = {
+  'date-fns': { description: 'formattazione e calcolo di date', majors: [3, 4] },
+  'dayjs': { description: 'date leggere (alternativa a date-fns)', majors: [1] },
+  'zod': { description: 'validazione di form e dati', majors: [3] },
+  'react-hook-form': { description: 'gestione dei form', majors: [7] },
+  '@hookform/resolvers': { description: 'integrazione zod per react-hook-form', majors: [3] },
+  'clsx': { description: 'composizione di classi CSS', majors: [2] },
+  'tailwind-merge': { description: 'merge di classi Tailwind', majors: [2] },
+  'class-variance-authority': { description: 'varianti di componenti Tailwind', majors: [0] },
+  'lucide-react': { description: 'icone', majors: [0] },
+  '@heroicons/react': { description: 'icone', majors: [2] },
+  'recharts': { description: 'grafici', majors: [2] },
+  'chart.js': { description: 'grafici (con react-chartjs-2)', majors: [4] },
+  'react-chartjs-2': { description: 'componenti React per chart.js', majors: [5] },
+  '@tanstack/react-table': { description: 'tabelle con ordinamento e filtri', majors: [8] },
+  '@tanstack/react-query': { description: 'cache delle richieste', majors: [5] },
+  'sonner': { description: 'notifiche toast', majors: [1] },
+  'uuid': { description: 'generazione di UUID', majors: [11] },
+  'papaparse': { description: 'import/export CSV', majors: [5] },
+  '@types/papaparse': { description: 'tipi di papaparse', majors: [5], dev: true },
+  'jspdf': { description: 'export PDF', majors: [3] },
+};
+
+interface PackageMetadata {
+  latest: string;
+  // Ultima versione pubblicata per ogni major
+  majors: Record<string, string>;
+}
+
+interface MetadataCache {
+  updatedAt: string;
+  packages: Record<string, PackageMetadata>;
+}
+
+const METADATA: MetadataCache = npmMetadata;
+
+const PACKAGE_NAME_PATTERN = /^(?:@[a-z0-9][a-z0-9._-]*\/)?[a-z0-9][a-z0-9._-]*$/;
+
+// Range accettati: versione esatta, ^ o ~, anche parziale (es: ^4, 4.x)
+const RANGE_PATTERN = /^([\^~]?)v?(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?$/;
+
+// Range che chiedono semplicemente "l'ultima versione"
+const LATEST_RANGES = ['', '*', 'x', 'latest'];
+
+export type DependencyRejectionReason = 'invalid-name' | 'stack-managed' | 'typosquat' | 'not-allowed' | 'invalid-range';
+
+export interface RejectedDependency {
+  name: string;
+  range: string;
+  reason: DependencyRejectionReason;
+  message: string;
+}
+
+export interface ResolvedDependency {
+  name: string;
+  // Range scritto in package.json (può differire da quello richiesto se fuori politica)
+  range: string;
+  requested: string;
+  dev: boolean;
+}
+
+export interface DependencyResolution {
+  files: Record<string, string>;
+  accepted: ResolvedDependency[];
+  rejected: RejectedDependency[];
+}
+
+// Pacchetti gestiti dai profili di stack: le versioni vengono solo da lib/stack-profiles.ts
+function getStackManagedPackages(): Set<string> {
+  return new Set(listStackProfiles().flatMap(profile => [
+    ...Object.keys(profile.dependencies),
+    ...Object.keys(profile.devDependencies),
+  ]));
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Pacchetto noto di cui `name` sembra una variante (typo-squatting), se esiste
+function findLookalikePackage(name: string, knownPackages: string[]): string | null {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const normalized = normalize(name);
+  for (const known of knownPackages) {
+    if (known === name) {
+      continue;
+    }
+    const maxDistance = known.length > 6 ? 2 : 1;
+    if (normalize(known) === normalized || levenshtein(name, known) <= maxDistance) {
+      return known;
+    }
+  }
+  return null;
+}
+
+// Confronta due versioni x.y.z (solo parte numerica)
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(part => parseInt(part, 10) || 0);
+  const partsB = b.split('.').map(part => parseInt(part, 10) || 0);
+  for (let i = 0; i < 3; i++) {
+    if ((partsA[i] || 0) !== (partsB[i] || 0)) {
+      return (partsA[i] || 0) - (partsB[i] || 0);
+    }
+  }
+  return 0;
+}
+
+// Range di default di un pacchetto ammesso: ultima versione nota della major più alta
+function getDefaultRange(name: string): string | null {
+  const policy = ALLOWED_PACKAGES[name];
+  const metadata = METADATA.packages[name];
+  if (!policy || !metadata) {
+    return null;
+  }
+  const major = [...policy.majors].sort((a, b) => b - a).find(candidate => metadata.majors[candidate]);
+  return major !== undefined ? `^${metadata.majors[major]}` : null;
+}
+
+/**
+ * Risolve il range richiesto per un pacchetto ammesso sulla cache dei metadati:
+ * range validi restano invariati, quelli fuori dalle major ammesse o verso versioni
+ * non pubblicate vengono riportati al range di default. Restituisce null se il range
+ * non è un range semver (URL git, file:, tag diversi da latest).
+ */
+export function resolveDependencyRange(name: string, requested: string): string | null {
+  const policy = ALLOWED_PACKAGES[name];
+  const defaultRange = getDefaultRange(name);
+  if (!policy || !defaultRange) {
+    return null;
+  }
+
+  const range = requested.trim();
+  if (LATEST_RANGES.includes(range.toLowerCase())) {
+    return defaultRange;
+  }
+
+  const match = RANGE_PATTERN.exec(range);
+  if (!match) {
+    return null;
+  }
+
+  const [, operator, majorText, minor, patch] = match;
+  const major = parseInt(majorText, 10);
+  const latestOfMajor = METADATA.packages[name].majors[major];
+  if (!policy.majors.includes(major) || !latestOfMajor) {
+    return defaultRange;
+  }
+
+  // Versione parziale (^4, 4.x): ultima versione nota della major
+  if (!minor || !patch || !/^\d+$/.test(minor) || !/^\d+$/.test(patch)) {
+    return `^${latestOfMajor}`;
+  }
+
+  // Versione più recente di quella in cache: non verificabile offline
+  if (compareVersions(`${major}.${minor}.${patch}`, latestOfMajor) > 0) {
+    return `^${latestOfMajor}`;
+  }
+
+  return `${operator}${major}.${minor}.${patch}`;
+}
+
+function checkDependency(name: string, range: string, stackManaged: Set<string>): RejectedDependency | null {
+  if (!PACKAGE_NAME_PATTERN.test(name) || name.length > 214) {
+    return { name, range, reason: 'invalid-name', message: `"${name}" non è un nome di pacchetto npm valido` };
+  }
+  if (stackManaged.has(name)) {
+    return { name, range, reason: 'stack-managed', message: `${name} è gestito dal profilo di stack e non può essere modificato` };
+  }
+  if (!ALLOWED_PACKAGES[name]) {
+    const lookalike = findLookalikePackage(name, [...Object.keys(ALLOWED_PACKAGES), ...stackManaged]);
+    if (lookalike) {
+      return { name, range, reason: 'typosquat', message: `${name} somiglia a ${lookalike}: possibile typo-squatting` };
+    }
+    return { name, range, reason: 'not-allowed', message: `${name} non è tra i pacchetti ammessi` };
+  }
+  return null;
+}
+
+function parsePackageJson(content: string | undefined, stackProfile: StackProfileId): PackageJson {
+  if (content) {
+    try {
+      return JSON.parse(content);
+    } catch {
+      console.warn('[DEPS] package.json non valido, riparto da quello del profilo di stack');
+    }
+  }
+  return getBasePackageJson(stackProfile);
+}
+
+/**
+ * Valida le dipendenze proposte dal modello e le unisce al package.json dei file
+ * (quello della versione corrente; senza package.json si parte da quello del profilo di stack).
+ * I pacchetti rifiutati non vengono scritti; i file restano invariati se nessun pacchetto è accettato.
+ */
+export function applyDependencyUpdate(
+  files: Record<string, string>,
+  update: DependencyUpdate | undefined,
+  stackProfile: StackProfileId = DEFAULT_STACK_PROFILE
+): DependencyResolution {
+  const accepted: ResolvedDependency[] = [];
+  const rejected: RejectedDependency[] = [];
+  if (!update) {
+    return { files, accepted, rejected };
+  }
+
+  const stackManaged = getStackManagedPackages();
+  const requested = [
+    ...Object.entries(update.dependencies || {}).map(([name, range]) => ({ name, range, dev: false })),
+    ...Object.entries(update.devDependencies || {}).map(([name, range]) => ({ name, range, dev: true })),
+  ];
+
+  for (const { name, range, dev } of requested) {
+    const rejection = checkDependency(name, range, stackManaged);
+    if (rejection) {
+      rejected.push(rejection);
+      continue;
+    }
+    const resolvedRange = resolveDependencyRange(name, range);
+    if (!resolvedRange) {
+      rejected.push({ name, range, reason: 'invalid-range', message: `Range "${range}" non valido per ${name}` });
+      continue;
+    }
+    accepted.push({ name, range: resolvedRange, requested: range, dev: ALLOWED_PACKAGES[name].dev ?? dev });
+  }
+
+  rejected.forEach(dependency => console.warn(`[DEPS] Dipendenza rifiutata: ${dependency.message}`));
+  if (accepted.length === 0) {
+    return { files, accepted, rejected };
+  }
+
+  const packageJson = parsePackageJson(files['package.json'], stackProfile);
+  const dependencies = { ...packageJson.dependencies };
+  const devDependencies = { ...packageJson.devDependencies };
+  for (const dependency of accepted) {
+    delete dependencies[dependency.name];
+    delete devDependencies[dependency.name];
+    (dependency.dev ? devDependencies : dependencies)[dependency.name] = dependency.range;
+    console.log(`[DEPS] ${dependency.name}@${dependency.range}${dependency.range !== dependency.requested ? ` (richiesto ${dependency.requested})` : ''}`);
+  }
+
+  return {
+    files: {
+      ...files,
+      'package.json': JSON.stringify({ ...packageJson, dependencies, devDependencies }, null, 2),
+    },
+    accepted,
+    rejected,
+  };
+}
+
+// Istruzioni per i prompt che espongono update_dependencies
+export function getDependencyPromptInstructions(): string {
+  const packages = Object.entries(ALLOWED_PACKAGES)
+    .map(([name, policy]) => `  - ${name} ${getDefaultRange(name) || ''}: ${policy.description}`)
+    .join('\n');
+
+  return `DIPENDENZE NPM:
+- next, react, react-dom, tailwindcss e gli strumenti di build sono gestiti dal profilo di stack: non aggiungerli e non cambiarne la versione
+- Con update_dependencies puoi aggiungere SOLO questi pacchetti (range consigliato):
+${packages}
+- Qualsiasi altro pacchetto viene rifiutato: se non è in elenco implementa la funzionalità senza dipendenze`;
+}
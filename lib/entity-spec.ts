@@ -0,0 +1,376 @@
+/**
+ * Spec dichiarativa di un modulo CRUD: entità, campi, enum e relazioni.
+ * Validata e normalizzata qui, poi trasformata in codice da lib/crud-generator.ts senza chiamate LLM.
+ *
+ * Esempio:
+ * {
+ *   "name": "Gestione Ordini",
+ *   "entities": [
+ *     { "name": "Cliente", "pluralName": "Clienti", "fields": [{ "name": "nome", "type": "string", "required": true }] },
+ *     { "name": "Ordine", "pluralName": "Ordini", "fields": [
+ *       { "name": "cliente", "type": "relation", "target": "Cliente", "required": true },
+ *       { "name": "importo", "type": "number", "required": true },
+ *       { "name": "stato", "type": "'bozza' | 'confermato' | 'spedito'" }
+ *     ] }
+ *   ]
+ * }
+ */
+
+export const FIELD_TYPES = [
+  'string',
+  'text',
+  'number',
+  'integer',
+  'boolean',
+  'date',
+  'datetime',
+  'email',
+  'enum',
+  'relation',
+] as const;
+
+export type FieldType = typeof FIELD_TYPES[number];
+
+export interface FieldSpec {
+  name: string;
+  label?: string;
+  type: FieldType;
+  required?: boolean;
+  // Valori ammessi (type 'enum')
+  values?: string[];
+  // Nome dell'entità collegata (type 'relation')
+  target?: string;
+  default?: string | number | boolean;
+  // Validazioni: valore minimo/massimo (number, integer) o lunghezza minima/massima (string, text, email)
+  min?: number;
+  max?: number;
+}
+
+export interface EntitySpec {
+  name: string;
+  pluralName?: string;
+  // Campo mostrato nelle liste e nelle select delle relazioni (default: primo campo testuale)
+  displayField?: string;
+  fields: FieldSpec[];
+}
+
+// Schermata proposta per il modulo (lista, dettaglio, dashboard...), descrittiva: guida revisione e modifiche
+export interface ScreenSpec {
+  name: string;
+  description?: string;
+  // Entità principale mostrata dalla schermata
+  entity?: string;
+}
+
+export interface ModuleSpec {
+  name: string;
+  description?: string;
+  entities: EntitySpec[];
+  screens?: ScreenSpec[];
+}
+
+// Nomi riservati: ogni record generato ha già id e createdAt
+const RESERVED_FIELD_NAMES = ['id', 'createdAt', 'created_at'];
+
+const TEXT_FIELD_TYPES: FieldType[] = ['string', 'text', 'email'];
+
+// Tipi che ammettono min/max
+const BOUNDED_FIELD_TYPES: FieldType[] = ['number', 'integer', ...TEXT_FIELD_TYPES];
+
+// Parole di un nome libero ("Data Consegna", "dataConsegna", "data_consegna" -> ["data", "consegna"])
+function splitWords(value: string): string[] {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase());
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+export function toPascalCase(value: string): string {
+  return splitWords(value).map(capitalize).join('');
+}
+
+export function toCamelCase(value: string): string {
+  const pascal = toPascalCase(value);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+export function toKebabCase(value: string): string {
+  return splitWords(value).join('-');
+}
+
+export function toSnakeCase(value: string): string {
+  return splitWords(value).join('_');
+}
+
+// Etichetta leggibile da un nome di campo ("dataConsegna" -> "Data consegna")
+export function toLabel(value: string): string {
+  const words = value.replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(/[\s_-]+/).filter(Boolean);
+  const label = words.map(word => word.toLowerCase()).join(' ');
+  return capitalize(label);
+}
+
+// Estrae i valori da una union TypeScript di stringhe: "'bozza' | 'confermato'" -> ['bozza', 'confermato']
+export function parseEnumShorthand(type: string): string[] | null {
+  if (!type.includes('|') && !/^\s*['"]/.test(type)) {
+    return null;
+  }
+  const parts = type.split('|').map(part => part.trim());
+  const values: string[] = [];
+  for (const part of parts) {
+    const match = part.match(/^(['"])(.*)\1$/);
+    if (!match) {
+      return null;
+    }
+    values.push(match[2]);
+  }
+  return values;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function normalizeField(raw: unknown, entityName: string, index: number, errors: string[]): FieldSpec | null {
+  const where = `${entityName}, campo ${index + 1}`;
+  if (!isRecord(raw)) {
+    errors.push(`${where}: deve essere un oggetto`);
+    return null;
+  }
+  if (typeof raw.name !== 'string' || !toCamelCase(raw.name)) {
+    errors.push(`${where}: name obbligatorio`);
+    return null;
+  }
+  if (/^[0-9]/.test(toCamelCase(raw.name))) {
+    errors.push(`${entityName}.${raw.name}: il nome deve iniziare con una lettera`);
+    return null;
+  }
+  if (RESERVED_FIELD_NAMES.includes(toCamelCase(raw.name))) {
+    errors.push(`${entityName}.${raw.name}: nome riservato (id e createdAt sono generati automaticamente)`);
+    return null;
+  }
+
+  const field: FieldSpec = {
+    name: raw.name,
+    type: 'string',
+    ...(typeof raw.label === 'string' && raw.label.trim() && { label: raw.label.trim() }),
+    ...(raw.required === true && { required: true }),
+    ...(['string', 'number', 'boolean'].includes(typeof raw.default) && { default: raw.default as string | number | boolean }),
+  };
+
+  const rawType = typeof raw.type === 'string' ? raw.type.trim() : '';
+  const shorthandValues = parseEnumShorthand(rawType);
+  if (shorthandValues) {
+    field.type = 'enum';
+    field.values = shorthandValues;
+  } else if ((FIELD_TYPES as readonly string[]).includes(rawType)) {
+    field.type = rawType as FieldType;
+  } else {
+    errors.push(`${entityName}.${raw.name}: tipo "${rawType}" non supportato (ammessi: ${FIELD_TYPES.join(', ')} o union di stringhe)`);
+    return null;
+  }
+
+  if (field.type === 'enum') {
+    const values = field.values || (Array.isArray(raw.values) ? raw.values : []);
+    if (values.length === 0 || !values.every(value => typeof value === 'string' && value.length > 0)) {
+      errors.push(`${entityName}.${raw.name}: un enum richiede una lista non vuota di valori stringa`);
+      return null;
+    }
+    if (new Set(values).size !== values.length) {
+      errors.push(`${entityName}.${raw.name}: valori enum duplicati`);
+      return null;
+    }
+    field.values = values as string[];
+    if (field.default !== undefined && !field.values.includes(String(field.default))) {
+      errors.push(`${entityName}.${raw.name}: il default "${field.default}" non è tra i valori dell'enum`);
+    }
+  }
+
+  if (field.type === 'relation') {
+    if (typeof raw.target !== 'string' || !raw.target.trim()) {
+      errors.push(`${entityName}.${raw.name}: una relation richiede target (nome dell'entità collegata)`);
+      return null;
+    }
+    field.target = raw.target.trim();
+  }
+
+  for (const bound of ['min', 'max'] as const) {
+    const value = raw[bound];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (!BOUNDED_FIELD_TYPES.includes(field.type)) {
+      errors.push(`${entityName}.${raw.name}: ${bound} è ammesso solo per numeri e testi`);
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${entityName}.${raw.name}: ${bound} deve essere un numero`);
+    } else {
+      field[bound] = value;
+    }
+  }
+  if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+    errors.push(`${entityName}.${raw.name}: min (${field.min}) maggiore di max (${field.max})`);
+  }
+
+  return field;
+}
+
+function normalizeEntity(raw: unknown, index: number, errors: string[]): EntitySpec | null {
+  if (!isRecord(raw)) {
+    errors.push(`Entità ${index + 1}: deve essere un oggetto`);
+    return null;
+  }
+  if (typeof raw.name !== 'string' || !toPascalCase(raw.name) || /^[0-9]/.test(toPascalCase(raw.name))) {
+    errors.push(`Entità ${index + 1}: name obbligatorio e deve iniziare con una lettera`);
+    return null;
+  }
+  if (!Array.isArray(raw.fields) || raw.fields.length === 0) {
+    errors.push(`${raw.name}: almeno un campo richiesto`);
+    return null;
+  }
+
+  const entityName = raw.name.trim();
+  const fields = raw.fields
+    .map((field, fieldIndex) => normalizeField(field, entityName, fieldIndex, errors))
+    .filter((field): field is FieldSpec => field !== null);
+
+  const fieldKeys = fields.map(field => toCamelCase(field.name));
+  const duplicates = fieldKeys.filter((key, keyIndex) => fieldKeys.indexOf(key) !== keyIndex);
+  if (duplicates.length > 0) {
+    errors.push(`${entityName}: campi duplicati (${[...new Set(duplicates)].join(', ')})`);
+  }
+
+  const entity: EntitySpec = {
+    name: entityName,
+    fields,
+    ...(typeof raw.pluralName === 'string' && raw.pluralName.trim() && { pluralName: raw.pluralName.trim() }),
+  };
+
+  if (typeof raw.displayField === 'string') {
+    const displayField = fields.find(field => toCamelCase(field.name) === toCamelCase(raw.displayField as string));
+    if (!displayField) {
+      errors.push(`${entityName}: displayField "${raw.displayField}" non è un campo dell'entità`);
+    } else {
+      entity.displayField = displayField.name;
+    }
+  }
+
+  return entity;
+}
+
+function normalizeScreens(raw: unknown, entities: EntitySpec[], errors: string[]): ScreenSpec[] {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    errors.push('screens deve essere una lista');
+    return [];
+  }
+
+  const screens: ScreenSpec[] = [];
+  raw.forEach((screen, index) => {
+    if (!isRecord(screen) || typeof screen.name !== 'string' || !screen.name.trim()) {
+      errors.push(`Schermata ${index + 1}: name obbligatorio`);
+      return;
+    }
+    const entity = typeof screen.entity === 'string' && screen.entity.trim() ? findEntity(entities, screen.entity) : undefined;
+    if (typeof screen.entity === 'string' && screen.entity.trim() && !entity) {
+      errors.push(`Schermata ${screen.name}: entità "${screen.entity}" non trovata`);
+      return;
+    }
+    screens.push({
+      name: screen.name.trim(),
+      ...(typeof screen.description === 'string' && screen.description.trim() && { description: screen.description.trim() }),
+      ...(entity && { entity: entity.name }),
+    });
+  });
+  return screens;
+}
+
+/**
+ * Valida una spec (tipicamente JSON dal client) e la normalizza: enum in forma union
+ * convertiti in { type: 'enum', values }, nomi e target verificati.
+ * Restituisce gli errori in italiano; spec è null se ci sono errori.
+ */
+export function normalizeModuleSpec(input: unknown): { spec: ModuleSpec | null; errors: string[] } {
+  const errors: string[] = [];
+  if (!isRecord(input)) {
+    return { spec: null, errors: ['La spec deve essere un oggetto JSON'] };
+  }
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    errors.push('name obbligatorio (nome del modulo)');
+  }
+  if (!Array.isArray(input.entities) || input.entities.length === 0) {
+    errors.push('entities deve contenere almeno un\'entità');
+    return { spec: null, errors };
+  }
+
+  const entities = input.entities
+    .map((entity, index) => normalizeEntity(entity, index, errors))
+    .filter((entity): entity is EntitySpec => entity !== null);
+
+  const typeNames = entities.map(entity => toPascalCase(entity.name));
+  const slugs = entities.map(entity => toKebabCase(entity.pluralName || entity.name));
+  typeNames.forEach((typeName, index) => {
+    if (typeNames.indexOf(typeName) !== index || slugs.indexOf(slugs[index]) !== index) {
+      errors.push(`Entità duplicata: ${entities[index].name}`);
+    }
+  });
+
+  for (const entity of entities) {
+    for (const field of entity.fields) {
+      if (field.type === 'relation' && !findEntity(entities, field.target!)) {
+        errors.push(`${entity.name}.${field.name}: entità collegata "${field.target}" non trovata`);
+      }
+    }
+  }
+
+  const screens = normalizeScreens(input.screens, entities, errors);
+
+  if (errors.length > 0) {
+    return { spec: null, errors };
+  }
+
+  return {
+    spec: {
+      name: (input.name as string).trim(),
+      ...(typeof input.description === 'string' && input.description.trim() && { description: input.description.trim() }),
+      entities,
+      ...(screens.length > 0 && { screens }),
+    },
+    errors,
+  };
+}
+
+// Cerca un'entità per nome, nome plurale o nome del tipo (case-insensitive)
+export function findEntity(entities: EntitySpec[], name: string): EntitySpec | undefined {
+  const key = toPascalCase(name);
+  return entities.find(entity =>
+    toPascalCase(entity.name) === key || (entity.pluralName && toPascalCase(entity.pluralName) === key)
+  );
+}
+
+// Campo da mostrare per un record (liste, select delle relazioni)
+export function getDisplayField(entity: EntitySpec): FieldSpec {
+  if (entity.displayField) {
+    const field = entity.fields.find(candidate => candidate.name === entity.displayField);
+    if (field) {
+      return field;
+    }
+  }
+  return entity.fields.find(field => TEXT_FIELD_TYPES.includes(field.type)) || entity.fields[0];
+}
+
+// Breve descrizione testuale della spec (usata come prompt della versione e nei log)
+export function describeModuleSpec(spec: ModuleSpec): string {
+  const entities = spec.entities
+    .map(entity => `${entity.name} (${entity.fields.map(field => field.name).join(', ')})`)
+    .join('; ');
+  const screens = spec.screens && spec.screens.length > 0
+    ? `. Schermate: ${spec.screens.map(screen => screen.name).join(', ')}`
+    : '';
+  return `${spec.name}${spec.description ? ` - ${spec.description}` : ''}. Entità: ${entities}${screens}`;
+}
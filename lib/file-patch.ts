@@ -0,0 +1,222 @@
+/**
+ * Modifiche parziali ai file (strumento edit_file del flusso di modifica): invece di riscrivere
+ * l'intero file il modello invia blocchi search/replace o un diff unificato, applicati al contenuto
+ * attuale con rilevamento dei conflitti:
+ * - un blocco search deve comparire esattamente una volta nel file (tollerati solo gli spazi a fine riga)
+ * - un hunk del diff deve trovare le sue righe di contesto alla posizione indicata o in un solo punto del file
+ * Le modifiche a un file sono atomiche: se una non si applica il file resta invariato e viene
+ * segnalato, così il chiamante può chiedere il file completo (fallback a write_file).
+ */
+
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+}
+
+export interface FilePatch {
+  path: string;
+  // Blocchi search/replace applicati in ordine
+  edits?: SearchReplaceEdit[];
+  // In alternativa: diff unificato del file
+  diff?: string;
+}
+
+export interface PatchFailure {
+  path: string;
+  reason: string;
+}
+
+export interface PatchResult {
+  files: Record<string, string>;
+  // File modificati con successo
+  patched: string[];
+  failed: PatchFailure[];
+}
+
+interface DiffHunk {
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+// Blocchi del formato testuale legacy: <<<<<<< SEARCH ... ======= ... >>>>>>> REPLACE
+const SEARCH_REPLACE_BLOCK_PATTERN = /<<<<<<< SEARCH\n([\s\S]*?)\n?=======\n([\s\S]*?)\n?>>>>>>> REPLACE/g;
+
+function splitLines(content: string): string[] {
+  return content.replace(/\r\n/g, '\n').split('\n');
+}
+
+// Posizioni (indice di riga) in cui `block` compare in `lines`, ignorando gli spazi a fine riga
+function findBlock(lines: string[], block: string[]): number[] {
+  const positions: number[] = [];
+  if (block.length === 0) {
+    return positions;
+  }
+  for (let start = 0; start + block.length <= lines.length; start++) {
+    if (block.every((line, offset) => lines[start + offset].trimEnd() === line.trimEnd())) {
+      positions.push(start);
+    }
+  }
+  return positions;
+}
+
+function countOccurrences(content: string, search: string): number {
+  let count = 0;
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    count++;
+    index = content.indexOf(search, index + search.length);
+  }
+  return count;
+}
+
+function applySearchReplace(content: string, edit: SearchReplaceEdit, index: number): string {
+  const label = `blocco ${index + 1}`;
+  if (!edit.search) {
+    throw new Error(`${label}: search vuoto`);
+  }
+
+  const occurrences = countOccurrences(content, edit.search);
+  if (occurrences === 1) {
+    return content.replace(edit.search, () => edit.replace);
+  }
+  if (occurrences > 1) {
+    throw new Error(`${label}: il testo da sostituire compare ${occurrences} volte, aggiungi righe di contesto`);
+  }
+
+  // Nessuna corrispondenza esatta: riprova riga per riga ignorando gli spazi a fine riga
+  const lines = splitLines(content);
+  const searchLines = splitLines(edit.search);
+  const positions = findBlock(lines, searchLines);
+  if (positions.length === 0) {
+    throw new Error(`${label}: il testo da sostituire non è presente nel file attuale`);
+  }
+  if (positions.length > 1) {
+    throw new Error(`${label}: il testo da sostituire compare ${positions.length} volte, aggiungi righe di contesto`);
+  }
+  const [start] = positions;
+  return [...lines.slice(0, start), ...splitLines(edit.replace), ...lines.slice(start + searchLines.length)].join('\n');
+}
+
+export function parseUnifiedDiff(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+
+  for (const line of splitLines(diff.replace(/\n+$/, ''))) {
+    const header = HUNK_HEADER_PATTERN.exec(line);
+    if (header) {
+      current = { oldStart: parseInt(header[1], 10), oldLines: [], newLines: [] };
+      hunks.push(current);
+      continue;
+    }
+    if (!current || line.startsWith('\\')) {
+      // Intestazioni ---/+++, righe prima del primo hunk e "\ No newline at end of file"
+      continue;
+    }
+    if (line.startsWith('-')) {
+      current.oldLines.push(line.substring(1));
+    } else if (line.startsWith('+')) {
+      current.newLines.push(line.substring(1));
+    } else if (line.startsWith(' ') || line === '') {
+      current.oldLines.push(line.substring(1));
+      current.newLines.push(line.substring(1));
+    }
+  }
+
+  return hunks;
+}
+
+function applyUnifiedDiff(content: string | undefined, diff: string): string {
+  const hunks = parseUnifiedDiff(diff);
+  if (hunks.length === 0) {
+    throw new Error('diff senza hunk (@@ -a,b +c,d @@)');
+  }
+
+  // Nuovo file: un solo hunk senza righe originali
+  if (content === undefined) {
+    if (hunks.length === 1 && hunks[0].oldLines.length === 0) {
+      return hunks[0].newLines.join('\n');
+    }
+    throw new Error('il file non esiste');
+  }
+
+  let lines = splitLines(content);
+  // Righe aggiunte/rimosse dagli hunk precedenti: sposta la posizione attesa dei successivi
+  let offset = 0;
+  hunks.forEach((hunk, index) => {
+    const label = `hunk ${index + 1}`;
+    // Un hunk di sola inserzione (@@ -N,0 +M,k @@) inserisce dopo la riga N, gli altri partono dalla riga N
+    const anchor = hunk.oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const expected = Math.max(anchor + offset, 0);
+    let start: number;
+    if (hunk.oldLines.length === 0) {
+      start = Math.min(expected, lines.length);
+    } else if (findBlock(lines.slice(expected, expected + hunk.oldLines.length), hunk.oldLines).includes(0)) {
+      start = expected;
+    } else {
+      const positions = findBlock(lines, hunk.oldLines);
+      if (positions.length === 0) {
+        throw new Error(`${label}: le righe di contesto non corrispondono al file attuale`);
+      }
+      if (positions.length > 1) {
+        throw new Error(`${label}: le righe di contesto compaiono ${positions.length} volte nel file`);
+      }
+      start = positions[0];
+    }
+    lines = [...lines.slice(0, start), ...hunk.newLines, ...lines.slice(start + hunk.oldLines.length)];
+    offset = start - anchor + hunk.newLines.length - hunk.oldLines.length;
+  });
+
+  return lines.join('\n');
+}
+
+// Applica una patch al contenuto di un file (undefined se il file non esiste); lancia un errore in caso di conflitto
+export function applyFilePatch(content: string | undefined, patch: FilePatch): string {
+  if (patch.diff) {
+    return applyUnifiedDiff(content, patch.diff);
+  }
+  if (content === undefined) {
+    throw new Error('il file non esiste: per un file nuovo usa write_file');
+  }
+  return (patch.edits || []).reduce((result, edit, index) => applySearchReplace(result, edit, index), content);
+}
+
+/**
+ * Applica le patch ai file. Le patch dello stesso file sono applicate in ordine; se una fallisce
+ * il file torna al contenuto originale e finisce in `failed` con il motivo del conflitto.
+ */
+export function applyFilePatches(currentFiles: Record<string, string>, patches: FilePatch[]): PatchResult {
+  const files: Record<string, string> = { ...currentFiles };
+  const failedPaths = new Set<string>();
+  const failed: PatchFailure[] = [];
+
+  for (const patch of patches) {
+    if (failedPaths.has(patch.path)) {
+      continue;
+    }
+    try {
+      files[patch.path] = applyFilePatch(files[patch.path], patch);
+    } catch (error) {
+      failedPaths.add(patch.path);
+      failed.push({ path: patch.path, reason: error instanceof Error ? error.message : 'patch non applicabile' });
+      if (patch.path in currentFiles) {
+        files[patch.path] = currentFiles[patch.path];
+      } else {
+        delete files[patch.path];
+      }
+    }
+  }
+
+  const patched = [...new Set(patches.map(patch => patch.path))].filter(path => !failedPaths.has(path));
+  return { files, patched, failed };
+}
+
+// Estrae i blocchi <<<<<<< SEARCH / ======= / >>>>>>> REPLACE da un testo (formato legacy)
+export function parseSearchReplaceBlocks(text: string): SearchReplaceEdit[] {
+  return [...text.replace(/\r\n/g, '\n').matchAll(SEARCH_REPLACE_BLOCK_PATTERN)].map(match => ({
+    search: match[1],
+    replace: match[2],
+  }));
+}
@@ -0,0 +1,217 @@
+/**
+ * Eventi di avanzamento della generazione, inviati al client come Server-Sent Events.
+ * Usato sia lato server (route con `?stream=1`) sia lato client (AIPromptBuilder, workspace/new):
+ * il modulo usa solo API web standard (ReadableStream, TextEncoder/TextDecoder).
+ */
+
+export type ProgressPhase =
+  | 'prompting'
+  | 'tokens'
+  | 'parsing'
+  | 'validation'
+  | 'fix'
+  | 'security'
+  | 'saving'
+  | 'migration'
+  | 'github'
+  | 'vercel'
+  | 'auto-fix';
+
+export interface ProgressEvent {
+  phase: ProgressPhase;
+  message: string;
+  // Tentativo di validazione/fix (1-based)
+  attempt?: number;
+  // Caratteri di output ricevuti dal modello finora
+  receivedCharacters?: number;
+  // Stato del deployment Vercel (QUEUED, BUILDING, READY, ERROR, ...)
+  state?: string;
+  timestamp: number;
+}
+
+// Il timestamp è opzionale: se assente viene usato l'istante di invio
+export type ProgressReporter = (event: Omit<ProgressEvent, 'timestamp'> & { timestamp?: number }) => void;
+
+// Percentuale indicativa per fase (usata per la barra di avanzamento lato client)
+const PHASE_PROGRESS: Record<ProgressPhase, number> = {
+  prompting: 5,
+  tokens: 10,
+  parsing: 40,
+  validation: 45,
+  fix: 50,
+  security: 60,
+  saving: 65,
+  migration: 68,
+  github: 70,
+  vercel: 80,
+  'auto-fix': 85,
+};
+
+export function estimateProgress(event: ProgressEvent | undefined): number {
+  if (!event) {
+    return 0;
+  }
+  if (event.phase === 'tokens' && event.receivedCharacters) {
+    // Circa 20k caratteri per una generazione completa
+    return Math.min(38, 10 + Math.round(event.receivedCharacters / 700));
+  }
+  if (event.phase === 'vercel' && event.state === 'READY') {
+    return 95;
+  }
+  return PHASE_PROGRESS[event.phase];
+}
+
+// Reporter di default per le chiamate non in streaming
+export const noopProgress: ProgressReporter = () => {};
+
+// Converte i caratteri ricevuti dal modello in eventi 'tokens', al massimo uno ogni `intervalMs`.
+// Restituisce undefined per le chiamate non in streaming (il provider usa allora la chiamata non in streaming)
+export function createOutputProgressReporter(
+  report: ProgressReporter,
+  intervalMs: number = 500
+): ((receivedCharacters: number) => void) | undefined {
+  if (report === noopProgress) {
+    return undefined;
+  }
+  let lastReportTime = 0;
+  return (receivedCharacters) => {
+    const now = Date.now();
+    if (now - lastReportTime < intervalMs) {
+      return;
+    }
+    lastReportTime = now;
+    report({ phase: 'tokens', receivedCharacters, message: `Ricevuti ${receivedCharacters} caratteri dal modello...` });
+  };
+}
+
+// Evento finale: contiene lo stesso body JSON della risposta non in streaming
+export interface ProgressResult<T = Record<string, unknown>> {
+  status: number;
+  data: T;
+}
+
+// Il client chiede lo streaming con ?stream=1 o Accept: text/event-stream
+export function wantsEventStream(request: Request): boolean {
+  const url = new URL(request.url);
+  return url.searchParams.get('stream') === '1' ||
+    (request.headers.get('accept') || '').includes('text/event-stream');
+}
+
+function formatSseMessage(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Esegue `run` inviando gli eventi di avanzamento come SSE.
+ * La Response restituita da `run` (la stessa della variante non in streaming)
+ * viene inviata come evento finale `result`.
+ */
+export function createProgressStream(run: (report: ProgressReporter) => Promise<Response>): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (event: string, data: unknown) => {
+        if (closed) {
+          return;
+        }
+        try {
+          controller.enqueue(encoder.encode(formatSseMessage(event, data)));
+        } catch {
+          // Il client si è disconnesso: la generazione continua comunque lato server
+          closed = true;
+        }
+      };
+
+      const report: ProgressReporter = (event) => {
+        send('progress', { timestamp: Date.now(), ...event });
+      };
+
+      try {
+        const response = await run(report);
+        const data = await response.json();
+        send('result', { status: response.status, data });
+      } catch (error) {
+        send('result', {
+          status: 500,
+          data: { success: false, error: error instanceof Error ? error.message : 'Errore sconosciuto' },
+        });
+      } finally {
+        if (!closed) {
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Legge uno stream SSE prodotto da createProgressStream (lato client).
+ * Chiama `onProgress` per ogni evento e restituisce il risultato finale.
+ */
+export async function readProgressStream<T = Record<string, unknown>>(
+  response: Response,
+  onProgress: (event: ProgressEvent) => void
+): Promise<ProgressResult<T>> {
+  // Errori di validazione (400/404) arrivano come JSON semplice prima di avviare lo stream
+  if (!(response.headers.get('content-type') || '').includes('text/event-stream')) {
+    return { status: response.status, data: await response.json() as T };
+  }
+  if (!response.body) {
+    throw new Error('Risposta senza body: streaming non supportato');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: ProgressResult<T> | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+
+    // I messaggi SSE sono separati da una riga vuota
+    let separatorIndex;
+    while ((separatorIndex = buffer.indexOf('\n\n')) !== -1) {
+      const rawMessage = buffer.substring(0, separatorIndex);
+      buffer = buffer.substring(separatorIndex + 2);
+
+      let eventName = 'message';
+      const dataLines: string[] = [];
+      for (const line of rawMessage.split('\n')) {
+        if (line.startsWith('event:')) {
+          eventName = line.substring(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.substring(5).trim());
+        }
+      }
+      if (dataLines.length === 0) {
+        continue;
+      }
+
+      const data = JSON.parse(dataLines.join('\n'));
+      if (eventName === 'progress') {
+        onProgress(data as ProgressEvent);
+      } else if (eventName === 'result') {
+        result = data as ProgressResult<T>;
+      }
+    }
+  }
+
+  if (!result) {
+    throw new Error('Stream terminato senza risultato');
+  }
+  return result;
+}
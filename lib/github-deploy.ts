@@ -1,5 +1,8 @@
 import { Octokit } from '@octokit/rest';
 import { getBaseFiles } from './code-generation';
+import { DEFAULT_STACK_PROFILE, type StackProfileId } from './stack-profiles';
+import type { LlmProvider } from './llm-provider';
+import type { ProgressReporter } from './generation-progress';
 
 // Inizializza GitHub client
 export function getGitHubClient() {
@@ -42,11 +45,12 @@ export async function withRetry<T>(
   throw lastError || new Error(`${operationName} fallito dopo ${maxRetries} tentativi`);
 }
 
-// Crea e pusha repo GitHub con timeout e retry
+// Crea e pusha repo GitHub con timeout e retry (i file base mancanti vengono dal profilo di stack)
 export async function createAndPushGitHubRepo(
   appId: string,
   files: Record<string, string>,
-  prompt: string
+  prompt: string,
+  stackProfile: StackProfileId = DEFAULT_STACK_PROFILE
 ): Promise<{ repoUrl: string; deployUrl: string }> {
   console.log('[GITHUB] Inizio creazione repo GitHub...');
   
@@ -120,7 +124,7 @@ export async function createAndPushGitHubRepo(
       }
 
       // Prepara file
-      const baseFiles = getBaseFiles();
+      const baseFiles = getBaseFiles(undefined, stackProfile);
       const allFiles = { ...baseFiles, ...files };
       console.log('[GITHUB] File totali da pushare:', Object.keys(allFiles).length);
 
@@ -264,8 +268,9 @@ export async function createVercelDeployment(
     enableAutoFix?: boolean;
     currentFiles?: Record<string, string>;
     originalPrompt?: string;
-    anthropic?: any;
+    llm?: LlmProvider;
     onAutoFix?: (fixedFiles: Record<string, string>) => Promise<void>;
+    onProgress?: ProgressReporter;
   }
 ): Promise<string> {
   console.log('[VERCEL] Inizio creazione progetto Vercel...');
@@ -303,6 +308,7 @@ export async function createVercelDeployment(
     (async () => {
       // STEP 1: Crea il progetto usando API v9
       console.log('[VERCEL] [STEP 1] Creazione progetto...');
+      options?.onProgress?.({ phase: 'vercel', message: 'Creazione progetto Vercel...' });
       
       let projectId: string | null = null;
       let lastError: Error | null = null;
@@ -434,6 +440,7 @@ export async function createVercelDeployment(
           const deploymentData = await deploymentResponse.json();
           deploymentId = deploymentData.id;
           console.log('[VERCEL] Deployment triggerato:', deploymentId);
+          options?.onProgress?.({ phase: 'vercel', state: 'QUEUED', message: 'Deployment avviato su Vercel' });
           break;
         } catch (error) {
           lastError = error instanceof Error ? error : new Error(String(error));
@@ -458,6 +465,7 @@ export async function createVercelDeployment(
       let deploymentError: Error | null = null;
       const maxPollingAttempts = 30; // 30 tentativi * 10 secondi = 5 minuti max
       const pollingInterval = 10000; // 10 secondi
+      let lastReportedState: string | null = null;
 
       for (let pollingAttempt = 1; pollingAttempt <= maxPollingAttempts; pollingAttempt++) {
         try {
@@ -486,6 +494,10 @@ export async function createVercelDeployment(
           const readyState = deploymentStatus.readyState;
           
           console.log(`[VERCEL] Deployment state: ${readyState || 'UNKNOWN'}`);
+          if (readyState && readyState !== lastReportedState) {
+            lastReportedState = readyState;
+            options?.onProgress?.({ phase: 'vercel', state: readyState, message: `Build Vercel: ${readyState}` });
+          }
 
           if (readyState === 'READY') {
             // Usa sempre l'URL del progetto (pubblico) invece dell'URL del deployment (può essere privato)
@@ -516,8 +528,9 @@ export async function createVercelDeployment(
             }
 
             // AUTO-FIX: Se abilitato, prova a fixare automaticamente
-            if (options?.enableAutoFix && options?.currentFiles && options?.originalPrompt && options?.anthropic) {
+            if (options?.enableAutoFix && options?.currentFiles && options?.originalPrompt && options?.llm) {
               console.log('[VERCEL] [AUTO-FIX] Tentativo auto-fix...');
+              options.onProgress?.({ phase: 'auto-fix', message: 'Build fallita, tentativo di auto-fix...' });
               
               try {
                 const { getVercelBuildLogs, autoFixBuildErrors } = await import('./vercel-auto-fix');
@@ -535,7 +548,7 @@ export async function createVercelDeployment(
                     errorSummary,
                     options.currentFiles,
                     options.originalPrompt,
-                    options.anthropic,
+                    options.llm,
                     1
                   );
 
@@ -0,0 +1,313 @@
+import { builtinModules } from 'module';
+import * as nodePath from 'path';
+import type { ValidationError } from './code-generation';
+
+/**
+ * Validazione del grafo degli import tra i file generati.
+ * Lavora direttamente sulla mappa path -> contenuto (senza file system) e segnala:
+ * - import relativi o con alias `@/*` che non risolvono a nessun file
+ * - export default o nominati importati ma non presenti nel file di destinazione
+ * - pacchetti npm importati ma non dichiarati nel package.json generato
+ */
+
+// Stesso alias di tsconfig.json in getBaseFiles(): "@/*" -> "./*"
+const PATH_ALIAS_PREFIX = '@/';
+
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.json', '.d.ts'];
+const CODE_FILE_PATTERN = /\.(tsx?|jsx?)$/;
+
+interface ImportStatement {
+  specifier: string;
+  kind: 'import' | 'export';
+  defaultImport: boolean;
+  namedImports: string[];
+  // export * from '...'
+  reExportAll: boolean;
+  index: number;
+}
+
+interface ModuleExports {
+  names: Set<string>;
+  // true se gli export non sono determinabili staticamente (CommonJS, destructuring, export * da npm)
+  unknown: boolean;
+}
+
+// import X, { a, b as c } from '...' / export { a } from '...' / export * from '...'
+const FROM_PATTERN = /^[ \t]*(import|export)\s+(?:type\s+)?((?:(?!\b(?:import|export)\b)[\w$*{}\s,])*?)\s*from\s*['"]([^'"]+)['"]/gm;
+// import '...' (side-effect, es: CSS)
+const SIDE_EFFECT_PATTERN = /^[ \t]*import\s*['"]([^'"]+)['"]/gm;
+// import('...') / require('...')
+const DYNAMIC_PATTERN = /\b(?:import|require)\(\s*['"]([^'"]+)['"]\s*\)/g;
+
+const DECLARATION_EXPORT_PATTERN =
+  /^[ \t]*export\s+(?:declare\s+)?(?:async\s+)?(?:abstract\s+)?(?:function\*?|class|const|let|var|interface|type|enum|namespace)\s+([A-Za-z_$][\w$]*)/gm;
+const LOCAL_EXPORT_LIST_PATTERN = /^[ \t]*export\s+(?:type\s+)?\{([^}]*)\}(?!\s*from)/gm;
+
+// Estrae i nomi da una lista { a, type b, c as d }: per gli import prende il nome originale,
+// per gli export il nome esposto
+function parseNameList(list: string, side: 'imported' | 'exported'): string[] {
+  return list
+    .split(',')
+    .map(part => part.trim().replace(/^type\s+/, ''))
+    .filter(Boolean)
+    .map(part => {
+      const [original, alias] = part.split(/\s+as\s+/);
+      return (side === 'exported' && alias ? alias : original).trim();
+    });
+}
+
+// Sostituisce i commenti con spazi (mantenendo gli indici) per non considerare import commentati
+// o nei JSDoc (es: @type {import('next').NextConfig}). I `//` preceduti da ":" (URL) non sono commenti
+function maskComments(content: string): string {
+  const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+  return content
+    .replace(/\/\*[\s\S]*?\*\//g, blank)
+    .replace(/(^|[^:])(\/\/.*)$/gm, (_, prefix: string, comment: string) => prefix + blank(comment));
+}
+
+function parseImports(rawContent: string): ImportStatement[] {
+  const statements: ImportStatement[] = [];
+  const content = maskComments(rawContent);
+
+  let match;
+  FROM_PATTERN.lastIndex = 0;
+  while ((match = FROM_PATTERN.exec(content)) !== null) {
+    const [, kind, rawClause, specifier] = match;
+    const clause = rawClause.trim();
+    const braceMatch = clause.match(/\{([^}]*)\}/);
+    const namedImports = braceMatch ? parseNameList(braceMatch[1], 'imported') : [];
+    const beforeBraces = clause.replace(/\{[^}]*\}/, '').replace(/\*\s+as\s+[\w$]+/, '').replace(/,/g, '').trim();
+
+    statements.push({
+      specifier,
+      kind: kind as 'import' | 'export',
+      defaultImport: kind === 'import' && beforeBraces.length > 0,
+      namedImports,
+      reExportAll: kind === 'export' && clause === '*',
+      index: match.index,
+    });
+  }
+
+  SIDE_EFFECT_PATTERN.lastIndex = 0;
+  while ((match = SIDE_EFFECT_PATTERN.exec(content)) !== null) {
+    statements.push({ specifier: match[1], kind: 'import', defaultImport: false, namedImports: [], reExportAll: false, index: match.index });
+  }
+
+  DYNAMIC_PATTERN.lastIndex = 0;
+  while ((match = DYNAMIC_PATTERN.exec(content)) !== null) {
+    statements.push({ specifier: match[1], kind: 'import', defaultImport: false, namedImports: [], reExportAll: false, index: match.index });
+  }
+
+  return statements;
+}
+
+function isRelativeOrAlias(specifier: string): boolean {
+  return specifier.startsWith('.') || specifier.startsWith(PATH_ALIAS_PREFIX);
+}
+
+// Nome del pacchetto npm da uno specifier (es: "@supabase/supabase-js/dist" -> "@supabase/supabase-js")
+function getPackageName(specifier: string): string {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+function isBuiltinModule(specifier: string): boolean {
+  return specifier.startsWith('node:') || builtinModules.includes(getPackageName(specifier));
+}
+
+// Risolve un import relativo o con alias a un file della mappa, come farebbe il bundler di Next.js
+function resolveImport(fromFile: string, specifier: string, allFiles: Record<string, string>): string | null {
+  const basePath = specifier.startsWith(PATH_ALIAS_PREFIX)
+    ? specifier.slice(PATH_ALIAS_PREFIX.length)
+    : nodePath.posix.join(nodePath.posix.dirname(fromFile), specifier);
+  const normalized = nodePath.posix.normalize(basePath).replace(/^\.\//, '');
+
+  const candidates = [
+    normalized,
+    ...RESOLVE_EXTENSIONS.map(ext => `${normalized}${ext}`),
+    ...RESOLVE_EXTENSIONS.map(ext => `${normalized}/index${ext}`),
+  ];
+  return candidates.find(candidate => candidate in allFiles) ?? null;
+}
+
+function collectExports(
+  filePath: string,
+  allFiles: Record<string, string>,
+  cache: Map<string, ModuleExports>,
+  visiting: Set<string> = new Set()
+): ModuleExports {
+  const cached = cache.get(filePath);
+  if (cached) {
+    return cached;
+  }
+
+  const content = maskComments(allFiles[filePath] || '');
+  const result: ModuleExports = {
+    names: new Set(),
+    unknown: /module\.exports|exports\.\w+\s*=/.test(content) || /^[ \t]*export\s+(?:const|let|var)\s*[{[]/m.test(content),
+  };
+
+  // Protezione contro cicli di export *
+  if (visiting.has(filePath)) {
+    return { names: new Set(), unknown: true };
+  }
+  visiting.add(filePath);
+
+  if (/^[ \t]*export\s+default\b/m.test(content)) {
+    result.names.add('default');
+  }
+
+  let match;
+  DECLARATION_EXPORT_PATTERN.lastIndex = 0;
+  while ((match = DECLARATION_EXPORT_PATTERN.exec(content)) !== null) {
+    result.names.add(match[1]);
+  }
+
+  LOCAL_EXPORT_LIST_PATTERN.lastIndex = 0;
+  while ((match = LOCAL_EXPORT_LIST_PATTERN.exec(content)) !== null) {
+    parseNameList(match[1], 'exported').forEach(name => result.names.add(name));
+  }
+
+  for (const statement of parseImports(content)) {
+    if (statement.kind !== 'export') {
+      continue;
+    }
+
+    const clause = content.slice(statement.index).match(/export\s+(?:type\s+)?((?:(?!\b(?:import|export)\b)[\w$*{}\s,])*?)\s*from/);
+    const exportClause = clause ? clause[1].trim() : '';
+    const namespaceMatch = exportClause.match(/^\*\s+as\s+([\w$]+)/);
+    const listMatch = exportClause.match(/\{([^}]*)\}/);
+
+    if (namespaceMatch) {
+      result.names.add(namespaceMatch[1]);
+    } else if (listMatch) {
+      parseNameList(listMatch[1], 'exported').forEach(name => result.names.add(name));
+    } else if (statement.reExportAll) {
+      const target = isRelativeOrAlias(statement.specifier)
+        ? resolveImport(filePath, statement.specifier, allFiles)
+        : null;
+      if (!target || !CODE_FILE_PATTERN.test(target)) {
+        result.unknown = true;
+        continue;
+      }
+      const targetExports = collectExports(target, allFiles, cache, visiting);
+      targetExports.names.forEach(name => {
+        if (name !== 'default') {
+          result.names.add(name);
+        }
+      });
+      result.unknown = result.unknown || targetExports.unknown;
+    }
+  }
+
+  visiting.delete(filePath);
+  cache.set(filePath, result);
+  return result;
+}
+
+function getDeclaredPackages(allFiles: Record<string, string>): Set<string> | null {
+  const packageJsonContent = allFiles['package.json'];
+  if (!packageJsonContent) {
+    return null;
+  }
+
+  try {
+    const packageJson = JSON.parse(packageJsonContent);
+    return new Set([
+      ...Object.keys(packageJson.dependencies || {}),
+      ...Object.keys(packageJson.devDependencies || {}),
+      ...Object.keys(packageJson.peerDependencies || {}),
+    ]);
+  } catch {
+    // package.json non valido: il controllo dei pacchetti non è affidabile
+    return null;
+  }
+}
+
+function getLocation(filePath: string, content: string, index: number, specifier: string): ValidationError['location'] {
+  const before = content.slice(0, index);
+  const line = before.split('\n').length;
+  const lineText = content.split('\n')[line - 1] || '';
+  const column = Math.max(lineText.indexOf(specifier), 0);
+  return { file: filePath, line, column, length: specifier.length, lineText };
+}
+
+/**
+ * Valida gli import dei file generati.
+ * `contextFiles` servono solo come destinazioni degli import (es: file non modificati in /modify),
+ * gli errori vengono riportati solo per `files`.
+ */
+export function validateImports(
+  files: Record<string, string>,
+  contextFiles: Record<string, string> = {}
+): ValidationError[] {
+  const allFiles = { ...contextFiles, ...files };
+  const declaredPackages = getDeclaredPackages(allFiles);
+  const exportsCache = new Map<string, ModuleExports>();
+  const errors: ValidationError[] = [];
+
+  for (const [filePath, content] of Object.entries(files)) {
+    if (!CODE_FILE_PATTERN.test(filePath) || filePath.endsWith('.d.ts') || !content) {
+      continue;
+    }
+
+    for (const statement of parseImports(content)) {
+      const { specifier } = statement;
+      const location = getLocation(filePath, content, statement.index, specifier);
+
+      if (!isRelativeOrAlias(specifier)) {
+        if (specifier.startsWith('/') || isBuiltinModule(specifier) || !declaredPackages) {
+          continue;
+        }
+        const packageName = getPackageName(specifier);
+        if (!declaredPackages.has(packageName)) {
+          errors.push({
+            file: filePath,
+            message: `Il pacchetto "${packageName}" è importato ma non è dichiarato in package.json: aggiungilo alle dependencies o rimuovi l'import`,
+            location,
+          });
+        }
+        continue;
+      }
+
+      const target = resolveImport(filePath, specifier, allFiles);
+      if (!target) {
+        errors.push({
+          file: filePath,
+          message: `Import "${specifier}" non risolto: nessun file corrispondente tra i file generati`,
+          location,
+        });
+        continue;
+      }
+
+      // CSS, JSON e asset non hanno export da verificare
+      if (!CODE_FILE_PATTERN.test(target)) {
+        continue;
+      }
+
+      const targetExports = collectExports(target, allFiles, exportsCache);
+      if (targetExports.unknown) {
+        continue;
+      }
+
+      if (statement.defaultImport && !targetExports.names.has('default')) {
+        errors.push({
+          file: filePath,
+          message: `"${target}" non ha un export default (importato da "${specifier}"): usa un import nominato o aggiungi export default`,
+          location,
+        });
+      }
+
+      const missingNames = statement.namedImports.filter(name => !targetExports.names.has(name));
+      if (missingNames.length > 0) {
+        errors.push({
+          file: filePath,
+          message: `"${target}" non esporta ${missingNames.map(name => `"${name}"`).join(', ')} (importato da "${specifier}")`,
+          location,
+        });
+      }
+    }
+  }
+
+  return errors;
+}
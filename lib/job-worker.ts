@@ -0,0 +1,140 @@
+import { hostname } from 'os';
+import type { Job, JobType } from './supabase/schema';
+import type { SupabaseClient } from './supabase/server';
+import type { ProgressEvent, ProgressReporter } from './generation-progress';
+import { claimNextJob, completeJob, failJob, saveJobProgress, type JobOutcome } from './jobs';
+import { runCreateModule, type CreateModulePayload } from './module-create';
+import { runModifyModule, type ModifyModulePayload } from './module-modify';
+import { runDeployModule, type DeployModulePayload } from './module-deploy';
+import { runAddModuleLocale, type AddModuleLocalePayload } from './module-locale';
+import { runApplyTheme, type ApplyThemePayload } from './theme-redeploy';
+import { runUpdateModuleRules, type UpdateModuleRulesPayload } from './module-rules';
+
+/**
+ * Worker della coda job: processo Node separato dal server Next.js (npm run worker),
+ * quindi il lavoro lungo non dipende dal timeout delle richieste HTTP/serverless.
+ */
+
+// Ogni handler riporta la prima fase di avanzamento prima di qualsiasi effetto esterno (chiamate LLM,
+// scritture su module_versions/modules, push, migration): un errore dopo il primo evento non viene ritentato
+type JobHandler = (supabase: SupabaseClient, payload: Record<string, unknown>, onProgress: ProgressReporter) => Promise<JobOutcome>;
+
+// Il payload è scritto dalle route che accodano il job: il cast al tipo dell'handler è sicuro
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  'module.create': (supabase, payload, onProgress) =>
+    runCreateModule(supabase, payload as unknown as CreateModulePayload, onProgress),
+  'module.modify': (supabase, payload, onProgress) =>
+    runModifyModule(supabase, payload as unknown as ModifyModulePayload, onProgress),
+  'module.deploy': (supabase, payload, onProgress) =>
+    runDeployModule(supabase, payload as unknown as DeployModulePayload, onProgress),
+  'module.translate': (supabase, payload, onProgress) =>
+    runAddModuleLocale(supabase, payload as unknown as AddModuleLocalePayload, onProgress),
+  'module.theme': (supabase, payload, onProgress) =>
+    runApplyTheme(supabase, payload as unknown as ApplyThemePayload, onProgress),
+  'module.rules': (supabase, payload, onProgress) =>
+    runUpdateModuleRules(supabase, payload as unknown as UpdateModuleRulesPayload, onProgress),
+};
+
+// Intervallo minimo tra due salvataggi degli eventi di avanzamento sul database
+const PROGRESS_FLUSH_INTERVAL_MS = 1000;
+
+export function getDefaultWorkerId(): string {
+  return `${hostname()}-${process.pid}`;
+}
+
+// Raccoglie gli eventi del job e li salva a blocchi (gli eventi 'tokens' sono frequenti)
+function createJobProgressRecorder(supabase: SupabaseClient, job: Job) {
+  // I tentativi precedenti restano visibili nella timeline
+  const events: ProgressEvent[] = [...(job.progress || [])];
+  // Eventi riportati in questo tentativo: da qui l'handler può aver prodotto effetti
+  let started = false;
+  let lastFlush = 0;
+  let pendingFlush: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    lastFlush = Date.now();
+    const snapshot = [...events];
+    pendingFlush = pendingFlush
+      .then(() => saveJobProgress(supabase, job, snapshot))
+      .catch(error => console.warn(`[WORKER] Errore salvataggio avanzamento job ${job.id}:`, error));
+    return pendingFlush;
+  };
+
+  const report: ProgressReporter = (event) => {
+    started = true;
+    events.push({ timestamp: Date.now(), ...event });
+    if (Date.now() - lastFlush >= PROGRESS_FLUSH_INTERVAL_MS) {
+      flush();
+    }
+  };
+
+  return { report, flush, hasStarted: () => started };
+}
+
+// Prende in carico ed esegue un job. Restituisce false se la coda è vuota
+export async function processNextJob(supabase: SupabaseClient, workerId: string): Promise<boolean> {
+  const job = await claimNextJob(supabase, workerId);
+  if (!job) {
+    return false;
+  }
+
+  console.log(`[WORKER] Job ${job.id} (${job.type}) preso in carico, tentativo ${job.attempts}/${job.max_attempts}`);
+  const handler = JOB_HANDLERS[job.type];
+  if (!handler) {
+    await completeJob(supabase, job, {
+      status: 400,
+      body: { success: false, error: `Tipo di job non supportato: ${job.type}` },
+    });
+    return true;
+  }
+
+  const recorder = createJobProgressRecorder(supabase, job);
+  let outcome: JobOutcome;
+  try {
+    outcome = await handler(supabase, job.payload, recorder.report);
+  } catch (error) {
+    console.error(`[WORKER] Errore job ${job.id}:`, error);
+    await recorder.flush();
+    await failJob(supabase, job, error, { retryable: !recorder.hasStarted() });
+    return true;
+  }
+  // Fuori dal try: un errore nel salvataggio dell'esito non deve far ritentare un job riuscito
+  await recorder.flush();
+  await completeJob(supabase, job, outcome);
+  return true;
+}
+
+export interface JobWorkerOptions {
+  workerId?: string;
+  // Attesa tra due controlli quando la coda è vuota
+  pollIntervalMs?: number;
+  // Esegue i job in coda e termina quando la coda è vuota
+  once?: boolean;
+  signal?: AbortSignal;
+}
+
+export async function runJobWorker(supabase: SupabaseClient, options: JobWorkerOptions = {}): Promise<void> {
+  const workerId = options.workerId || getDefaultWorkerId();
+  const pollIntervalMs = options.pollIntervalMs ?? 2000;
+  console.log(`[WORKER] Avvio worker ${workerId}`);
+
+  while (!options.signal?.aborted) {
+    let processed = false;
+    try {
+      processed = await processNextJob(supabase, workerId);
+    } catch (error) {
+      // Errori di rete/database durante il claim: riprova al prossimo giro
+      console.error('[WORKER] Errore nel ciclo del worker:', error);
+    }
+
+    if (processed) {
+      continue;
+    }
+    if (options.once) {
+      break;
+    }
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+  }
+
+  console.log(`[WORKER] Worker ${workerId} terminato`);
+}
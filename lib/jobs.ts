@@ -0,0 +1,213 @@
+import type { Job, JobType } from './supabase/schema';
+import type { SupabaseClient } from './supabase/server';
+import { createProgressStream, type ProgressEvent } from './generation-progress';
+
+/**
+ * Coda persistente dei job (tabella `jobs`, migration 004_jobs.sql).
+ * Le route accodano il lavoro e rispondono subito con l'id del job; il worker
+ * (lib/job-worker.ts) prende in carico i job con claim_next_job ed esegue gli handler.
+ */
+
+// Risultato di un handler: stesso body/status della vecchia risposta sincrona della route
+export interface JobOutcome {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Lock più vecchio di così = worker considerato morto, il job viene ripreso
+export const JOB_LOCK_TIMEOUT_SECONDS = 15 * 60;
+
+// Backoff esponenziale tra i tentativi: 30s, 60s, 120s...
+export function getRetryDelayMs(attempt: number): number {
+  return 30000 * Math.pow(2, Math.max(0, attempt - 1));
+}
+
+export async function enqueueJob(
+  supabase: SupabaseClient,
+  type: JobType,
+  payload: Record<string, unknown>,
+  options: { moduleId?: string; maxAttempts?: number } = {}
+): Promise<Job> {
+  const { data: job, error } = await supabase
+    .from('jobs')
+    .insert({
+      type,
+      payload,
+      module_id: options.moduleId || null,
+      max_attempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+    })
+    .select()
+    .single();
+
+  if (error || !job) {
+    throw new Error(`Impossibile accodare il job ${type}: ${error?.message || 'errore sconosciuto'}`);
+  }
+
+  console.log(`[JOBS] Job accodato: ${job.id} (${type})`);
+  return job as Job;
+}
+
+export async function getJob(supabase: SupabaseClient, jobId: string): Promise<Job | null> {
+  const { data: job } = await supabase
+    .from('jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+  return (job as Job) || null;
+}
+
+// Prende in carico il prossimo job eseguibile (atomico, vedi claim_next_job in 004_jobs.sql e 015_job_reclaim.sql)
+export async function claimNextJob(supabase: SupabaseClient, workerId: string): Promise<Job | null> {
+  const { data, error } = await supabase.rpc('claim_next_job', {
+    p_worker_id: workerId,
+    p_lock_timeout_seconds: JOB_LOCK_TIMEOUT_SECONDS,
+  });
+
+  if (error) {
+    throw new Error(`Errore claim job: ${error.message}`);
+  }
+
+  const jobs = (data || []) as Job[];
+  return jobs[0] || null;
+}
+
+// Salva gli eventi di avanzamento e rinnova il lock (heartbeat)
+export async function saveJobProgress(supabase: SupabaseClient, job: Job, progress: ProgressEvent[]): Promise<void> {
+  await supabase
+    .from('jobs')
+    .update({ progress, locked_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .eq('locked_by', job.locked_by);
+}
+
+// Aggiorna il job solo se è ancora in esecuzione con il lock di questo worker. False = lock perso
+// (scaduto e ripreso da un altro worker): l'esito di questo tentativo viene scartato
+async function updateLockedJob(supabase: SupabaseClient, job: Job, values: Record<string, unknown>): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .update(values)
+    .eq('id', job.id)
+    .eq('locked_by', job.locked_by)
+    .eq('status', 'running')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Errore aggiornamento job ${job.id}: ${error.message}`);
+  }
+  if (!data || data.length === 0) {
+    console.warn(`[JOBS] Job ${job.id}: lock perso (worker ${job.locked_by}), esito del tentativo ${job.attempts} scartato`);
+    return false;
+  }
+  return true;
+}
+
+export async function completeJob(supabase: SupabaseClient, job: Job, outcome: JobOutcome): Promise<boolean> {
+  // Un esito 4xx/5xx restituito dall'handler è definitivo (es: modulo non trovato): niente retry
+  const succeeded = outcome.status < 400;
+  const error = succeeded ? null : String(outcome.body.error || `Job fallito con status ${outcome.status}`);
+
+  const updated = await updateLockedJob(supabase, job, {
+    status: succeeded ? 'succeeded' : 'failed',
+    result: outcome.body,
+    result_status: outcome.status,
+    error,
+    finished_at: new Date().toISOString(),
+    locked_by: null,
+    locked_at: null,
+  });
+
+  if (updated) {
+    console.log(`[JOBS] Job ${job.id} ${succeeded ? 'completato' : 'fallito'} (status ${outcome.status})`);
+  }
+  return updated;
+}
+
+// Errore inatteso (eccezione): riaccoda con backoff finché ci sono tentativi.
+// Con retryable false (l'handler aveva già chiamato l'LLM, salvato versioni, spostato puntatori o pushato)
+// il job fallisce subito: ripeterlo duplicherebbe quegli effetti
+export async function failJob(
+  supabase: SupabaseClient,
+  job: Job,
+  error: unknown,
+  options: { retryable?: boolean } = {}
+): Promise<boolean> {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const canRetry = options.retryable !== false && job.attempts < job.max_attempts;
+
+  if (canRetry) {
+    const delayMs = getRetryDelayMs(job.attempts);
+    const requeued = await updateLockedJob(supabase, job, {
+      status: 'queued',
+      error: errorMessage,
+      run_at: new Date(Date.now() + delayMs).toISOString(),
+      locked_by: null,
+      locked_at: null,
+    });
+    if (requeued) {
+      console.warn(`[JOBS] Job ${job.id} fallito (tentativo ${job.attempts}/${job.max_attempts}), retry tra ${delayMs / 1000}s:`, errorMessage);
+    }
+    return requeued;
+  }
+
+  const updated = await updateLockedJob(supabase, job, {
+    status: 'failed',
+    error: errorMessage,
+    result: { success: false, error: errorMessage },
+    result_status: 500,
+    finished_at: new Date().toISOString(),
+    locked_by: null,
+    locked_at: null,
+  });
+  if (!updated) {
+    return false;
+  }
+  console.error(options.retryable === false
+    ? `[JOBS] Job ${job.id} fallito dopo l'avvio del lavoro, nessun retry:`
+    : `[JOBS] Job ${job.id} fallito definitivamente dopo ${job.attempts} tentativi:`, errorMessage);
+  return true;
+}
+
+// Body JSON e status HTTP equivalenti allo stato del job (usati da GET /api/jobs/[id] e dallo stream)
+export function getJobResponse(job: Job): JobOutcome {
+  if (job.status === 'succeeded' || job.status === 'failed') {
+    return {
+      status: job.result_status || (job.status === 'succeeded' ? 200 : 500),
+      body: job.result || { success: false, error: job.error || 'Job fallito' },
+    };
+  }
+  return { status: 202, body: { success: true, jobId: job.id, status: job.status } };
+}
+
+/**
+ * Stream SSE dell'avanzamento di un job: rilegge il job dal database e inoltra i nuovi eventi,
+ * poi invia il risultato finale. Il job continua nel worker anche se il client si disconnette.
+ */
+export function createJobProgressStream(
+  supabase: SupabaseClient,
+  jobId: string,
+  pollIntervalMs: number = 1000
+): Response {
+  return createProgressStream(async (report) => {
+    let sentEvents = 0;
+
+    while (true) {
+      const job = await getJob(supabase, jobId);
+      if (!job) {
+        return Response.json({ success: false, error: 'Job non trovato' }, { status: 404 });
+      }
+
+      const progress = job.progress || [];
+      progress.slice(sentEvents).forEach(report);
+      sentEvents = progress.length;
+
+      if (job.status === 'succeeded' || job.status === 'failed') {
+        const { status, body } = getJobResponse(job);
+        return Response.json(body, { status });
+      }
+
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    }
+  });
+}
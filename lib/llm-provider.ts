@@ -0,0 +1,186 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as nodePath from 'path';
+
+/**
+ * Layer di astrazione sul modello LLM.
+ * Le route e le funzioni di generazione usano `LlmProvider` invece di istanziare direttamente
+ * il client Anthropic: il provider si sceglie con LLM_PROVIDER (anthropic | record | replay)
+ * e il modello con LLM_MODEL.
+ */
+
+export const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+const DEFAULT_RECORDINGS_DIR = 'llm-recordings';
+
+// Tipo di chiamata, per la contabilità dei token (lib/llm-usage.ts)
+export type LlmCallType = 'create' | 'modify' | 'fix' | 'auto-fix' | 'spec' | 'translate' | 'generate';
+
+export interface LlmRequest {
+  callType?: LlmCallType;
+  system?: string;
+  messages: Anthropic.MessageParam[];
+  maxTokens: number;
+  tools?: Anthropic.Tool[];
+  toolChoice?: Anthropic.ToolChoice;
+  // Se presente, la risposta viene letta in streaming e notificata man mano (caratteri di output ricevuti)
+  onOutputProgress?: (receivedCharacters: number) => void;
+}
+
+// Sottoinsieme di Anthropic.Message usato dalla pipeline (compatibile con parseStructuredResponse)
+export type LlmResponse = Pick<Anthropic.Message, 'content' | 'stop_reason' | 'model' | 'usage'>;
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  createMessage(request: LlmRequest): Promise<LlmResponse>;
+}
+
+// Provider reale: chiama l'API Anthropic
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(apiKey: string, readonly model: string = DEFAULT_MODEL) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async createMessage(request: LlmRequest): Promise<LlmResponse> {
+    const params: Anthropic.MessageCreateParamsNonStreaming = {
+      model: this.model,
+      max_tokens: request.maxTokens,
+      ...(request.system && { system: request.system }),
+      ...(request.tools && { tools: request.tools }),
+      ...(request.toolChoice && { tool_choice: request.toolChoice }),
+      messages: request.messages,
+    };
+
+    let message: Anthropic.Message;
+    if (request.onOutputProgress) {
+      const onOutputProgress = request.onOutputProgress;
+      let receivedCharacters = 0;
+      const stream = this.client.messages.stream(params);
+      const onDelta = (delta: string) => {
+        receivedCharacters += delta.length;
+        onOutputProgress(receivedCharacters);
+      };
+      stream.on('text', onDelta);
+      stream.on('inputJson', onDelta);
+      message = await stream.finalMessage();
+    } else {
+      message = await this.client.messages.create(params);
+    }
+
+    return {
+      content: message.content,
+      stop_reason: message.stop_reason,
+      model: message.model,
+      usage: message.usage,
+    };
+  }
+}
+
+interface Recording {
+  key: string;
+  model: string;
+  // onOutputProgress non viene serializzato (JSON.stringify ignora le funzioni)
+  request: Omit<LlmRequest, 'onOutputProgress'>;
+  response: LlmResponse;
+  recordedAt: string;
+}
+
+// Chiave stabile di una richiesta: hash di modello, prompt, strumenti e limiti
+export function getRequestKey(model: string, request: LlmRequest): string {
+  const canonical = JSON.stringify({
+    model,
+    system: request.system || null,
+    messages: request.messages,
+    maxTokens: request.maxTokens,
+    tools: (request.tools || []).map(tool => tool.name),
+    toolChoice: request.toolChoice || null,
+  });
+  return createHash('sha256').update(canonical).digest('hex').substring(0, 32);
+}
+
+/**
+ * Provider record/replay: le risposte vengono salvate su disco (una per file JSON, indicizzate
+ * per hash della richiesta) e possono essere riservite senza rete.
+ * - mode 'record': inoltra la richiesta al provider reale e salva la risposta
+ * - mode 'replay': serve solo risposte registrate, errore se la richiesta non è mai stata vista
+ */
+export class ReplayProvider implements LlmProvider {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(
+    private directory: string,
+    private mode: 'record' | 'replay',
+    private upstream?: LlmProvider,
+    model?: string
+  ) {
+    if (mode === 'record' && !upstream) {
+      throw new Error('Il provider in modalità record richiede un provider reale a cui inoltrare le richieste');
+    }
+    this.name = mode;
+    this.model = upstream?.model || model || DEFAULT_MODEL;
+  }
+
+  private getRecordingPath(key: string): string {
+    return nodePath.join(this.directory, `${key}.json`);
+  }
+
+  async createMessage(request: LlmRequest): Promise<LlmResponse> {
+    const key = getRequestKey(this.model, request);
+    const recordingPath = this.getRecordingPath(key);
+
+    if (this.mode === 'replay') {
+      if (!fs.existsSync(recordingPath)) {
+        throw new Error(`Nessuna risposta registrata per la richiesta ${key} in ${this.directory}. Esegui prima con LLM_PROVIDER=record`);
+      }
+      const recording: Recording = JSON.parse(await fs.promises.readFile(recordingPath, 'utf8'));
+      console.log(`[LLM] Replay risposta registrata ${key}`);
+      request.onOutputProgress?.(JSON.stringify(recording.response.content).length);
+      return recording.response;
+    }
+
+    const response = await this.upstream!.createMessage(request);
+    const recording: Recording = {
+      key,
+      model: this.model,
+      request,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(recordingPath, JSON.stringify(recording, null, 2));
+    console.log(`[LLM] Risposta registrata: ${recordingPath}`);
+    return response;
+  }
+}
+
+function createAnthropicProvider(model: string): AnthropicProvider {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error('ANTHROPIC_API_KEY non configurata');
+  }
+  return new AnthropicProvider(apiKey, model);
+}
+
+// Crea il provider configurato dalle variabili d'ambiente
+export function getLlmProvider(): LlmProvider {
+  const providerName = process.env.LLM_PROVIDER || 'anthropic';
+  const model = process.env.LLM_MODEL || DEFAULT_MODEL;
+  const recordingsDir = nodePath.resolve(process.env.LLM_RECORDINGS_DIR || DEFAULT_RECORDINGS_DIR);
+
+  switch (providerName) {
+    case 'anthropic':
+      return createAnthropicProvider(model);
+    case 'record':
+      return new ReplayProvider(recordingsDir, 'record', createAnthropicProvider(model));
+    case 'replay':
+      return new ReplayProvider(recordingsDir, 'replay', undefined, model);
+    default:
+      throw new Error(`LLM_PROVIDER non supportato: ${providerName} (valori ammessi: anthropic, record, replay)`);
+  }
+}
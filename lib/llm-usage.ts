@@ -0,0 +1,178 @@
+import type { LlmCallType, LlmProvider, LlmRequest, LlmResponse } from './llm-provider';
+import type { LlmUsageRecord } from './supabase/schema';
+import type { SupabaseClient } from './supabase/server';
+
+/**
+ * Contabilità di token e costi delle chiamate LLM (tabella `llm_usage`, migration 008_llm_usage.sql).
+ * UsageTrackingProvider avvolge il provider configurato e registra ogni chiamata (token, modello,
+ * latenza, tipo) legata a workspace e modulo; la versione del modulo si collega quando viene salvata.
+ * La registrazione non blocca mai la generazione: gli errori di scrittura vengono solo loggati.
+ */
+
+// Prezzi in USD per milione di token (input, output), per prefisso del nome del modello
+const MODEL_PRICING: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'claude-3-haiku', input: 0.25, output: 1.25 },
+];
+
+// Modelli non in tabella: stimati con il prezzo di Sonnet
+const FALLBACK_PRICING = { input: 3, output: 15 };
+
+export function estimateCostUsd(model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = MODEL_PRICING.find(entry => model.startsWith(entry.prefix)) || FALLBACK_PRICING;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+export interface UsageContext {
+  workspaceId: string;
+  moduleId?: string;
+  moduleVersionId?: string;
+}
+
+export class UsageTrackingProvider implements LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  // Righe già registrate, da collegare alla versione quando viene salvata
+  private recordIds: string[] = [];
+
+  constructor(
+    private upstream: LlmProvider,
+    private supabase: SupabaseClient,
+    private context: UsageContext
+  ) {
+    this.name = upstream.name;
+    this.model = upstream.model;
+  }
+
+  async createMessage(request: LlmRequest): Promise<LlmResponse> {
+    const startTime = Date.now();
+    const response = await this.upstream.createMessage(request);
+    // In replay le risposte vengono dal disco: nessun costo da registrare
+    if (this.upstream.name !== 'replay') {
+      await this.record(request.callType || 'generate', response, Date.now() - startTime);
+    }
+    return response;
+  }
+
+  private async record(callType: LlmCallType, response: LlmResponse, latencyMs: number): Promise<void> {
+    const model = response.model || this.model;
+    const inputTokens = response.usage?.input_tokens || 0;
+    const outputTokens = response.usage?.output_tokens || 0;
+    try {
+      const { data, error } = await this.supabase
+        .from('llm_usage')
+        .insert({
+          workspace_id: this.context.workspaceId,
+          module_id: this.context.moduleId || null,
+          module_version_id: this.context.moduleVersionId || null,
+          call_type: callType,
+          model,
+          input_tokens: inputTokens,
+          output_tokens: outputTokens,
+          latency_ms: latencyMs,
+          cost_usd: estimateCostUsd(model, inputTokens, outputTokens),
+        })
+        .select('id')
+        .single();
+      if (error || !data) {
+        throw error || new Error('Nessuna riga inserita');
+      }
+      this.recordIds.push(data.id);
+    } catch (error) {
+      console.warn('[USAGE] Errore registrazione uso LLM:', error);
+    }
+  }
+
+  // Collega alla versione le chiamate già registrate e quelle successive (es: auto-fix dopo il salvataggio)
+  async linkVersion(moduleVersionId: string): Promise<void> {
+    this.context = { ...this.context, moduleVersionId };
+    if (this.recordIds.length === 0) {
+      return;
+    }
+    const { error } = await this.supabase
+      .from('llm_usage')
+      .update({ module_version_id: moduleVersionId })
+      .in('id', this.recordIds);
+    if (error) {
+      console.warn('[USAGE] Errore collegamento uso LLM alla versione:', error);
+    }
+  }
+}
+
+export function trackLlmUsage(llm: LlmProvider, supabase: SupabaseClient, context: UsageContext): UsageTrackingProvider {
+  return new UsageTrackingProvider(llm, supabase, context);
+}
+
+// ========================================
+// Aggregazioni per GET /api/workspaces/[id]/usage
+// ========================================
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  byDay: (UsageTotals & { day: string })[];
+  byModule: (UsageTotals & { moduleId: string | null; moduleName: string | null; versions: number })[];
+  byCallType: (UsageTotals & { callType: LlmCallType })[];
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: LlmUsageRecord): void {
+  totals.calls += 1;
+  totals.inputTokens += record.input_tokens;
+  totals.outputTokens += record.output_tokens;
+  totals.costUsd += Number(record.cost_usd);
+}
+
+function groupBy<K>(records: LlmUsageRecord[], getKey: (record: LlmUsageRecord) => K): Map<K, UsageTotals> {
+  const groups = new Map<K, UsageTotals>();
+  for (const record of records) {
+    const key = getKey(record);
+    const totals = groups.get(key) || emptyTotals();
+    addRecord(totals, record);
+    groups.set(key, totals);
+  }
+  return groups;
+}
+
+/**
+ * Aggrega le righe di llm_usage: totale, per giorno (UTC, in ordine cronologico),
+ * per modulo e per tipo di chiamata (in ordine di costo decrescente).
+ */
+export function summarizeUsage(records: LlmUsageRecord[], moduleNames: Record<string, string> = {}): UsageSummary {
+  const totals = emptyTotals();
+  records.forEach(record => addRecord(totals, record));
+
+  const byDay = [...groupBy(records, record => record.created_at.substring(0, 10))]
+    .map(([day, dayTotals]) => ({ day, ...dayTotals }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+
+  const byModule = [...groupBy(records, record => record.module_id || null)]
+    .map(([moduleId, moduleTotals]) => ({
+      moduleId,
+      moduleName: moduleId ? moduleNames[moduleId] || null : null,
+      versions: new Set(
+        records.filter(record => record.module_id === moduleId && record.module_version_id).map(record => record.module_version_id)
+      ).size,
+      ...moduleTotals,
+    }))
+    .sort((a, b) => b.costUsd - a.costUsd);
+
+  const byCallType = [...groupBy(records, record => record.call_type)]
+    .map(([callType, callTotals]) => ({ callType, ...callTotals }))
+    .sort((a, b) => b.costUsd - a.costUsd);
+
+  return { totals, byDay, byModule, byCallType };
+}
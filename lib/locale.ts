@@ -0,0 +1,238 @@
+import type { ValidationError } from './code-generation';
+import type { SupabaseClient } from './supabase/server';
+
+/**
+ * Lingua delle app generate e catalogo dei messaggi.
+ * Ogni app generata ha i testi in messages/<locale>.json (oggetto piatto "chiave": "testo") e li usa
+ * con t('chiave') da lib/i18n.ts, generato qui a partire dai cataloghi presenti: aggiungere una lingua
+ * a un modulo significa aggiungere un catalogo e rigenerare lib/i18n.ts, senza toccare la logica.
+ * La lingua si imposta sul workspace e può essere sovrascritta dal singolo modulo.
+ */
+
+export const SUPPORTED_LOCALES = ['it', 'en', 'de'] as const;
+
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'it';
+
+export const I18N_MODULE_PATH = 'lib/i18n.ts';
+
+const MESSAGES_DIR = 'messages';
+
+const LOCALE_INFO: Record<Locale, { tag: string; language: string }> = {
+  it: { tag: 'it-IT', language: 'italiano' },
+  en: { tag: 'en-US', language: 'inglese' },
+  de: { tag: 'de-DE', language: 'tedesco' },
+};
+
+export function isSupportedLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+// Prima lingua supportata tra i candidati (es: modulo, poi workspace), altrimenti DEFAULT_LOCALE
+export function resolveLocale(...candidates: unknown[]): Locale {
+  return candidates.find(isSupportedLocale) || DEFAULT_LOCALE;
+}
+
+export function getLanguageName(locale: Locale): string {
+  return LOCALE_INFO[locale].language;
+}
+
+export function getCatalogPath(locale: Locale): string {
+  return `${MESSAGES_DIR}/${locale}.json`;
+}
+
+// Lingue con un catalogo tra i file (nell'ordine di SUPPORTED_LOCALES)
+export function getCatalogLocales(files: Record<string, string>): Locale[] {
+  return SUPPORTED_LOCALES.filter(locale => getCatalogPath(locale) in files);
+}
+
+// Catalogo valido: oggetto JSON con soli valori stringa. null se assente o non valido
+export function parseCatalog(content: string | undefined): Record<string, string> | null {
+  if (content === undefined) {
+    return null;
+  }
+  try {
+    const parsed: unknown = JSON.parse(content);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      return null;
+    }
+    const entries = Object.entries(parsed);
+    return entries.every(([, value]) => typeof value === 'string') ? Object.fromEntries(entries) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function stringifyCatalog(catalog: Record<string, string>): string {
+  return JSON.stringify(catalog, null, 2) + '\n';
+}
+
+// Sorgente di lib/i18n.ts per l'app generata: importa i cataloghi presenti ed espone t() e la lingua attiva
+export function renderI18nModule(locales: Locale[], defaultLocale: Locale): string {
+  const included = locales.length > 0 ? locales : [defaultLocale];
+  const fallback = included.includes(defaultLocale) ? defaultLocale : included[0];
+
+  return `// Generato da ERP Builder in base ai cataloghi in messages/: non modificare a mano
+${included.map(locale => `import ${locale}Messages from '@/${getCatalogPath(locale)}';`).join('\n')}
+
+export const LOCALES = [${included.map(locale => `'${locale}'`).join(', ')}] as const;
+
+export type Locale = typeof LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = '${fallback}';
+
+const catalogs: Record<Locale, Record<string, string>> = {
+${included.map(locale => `  ${locale}: ${locale}Messages,`).join('\n')}
+};
+
+const LOCALE_TAGS: Record<Locale, string> = {
+${included.map(locale => `  ${locale}: '${LOCALE_INFO[locale].tag}',`).join('\n')}
+};
+
+function isLocale(value: string | undefined): value is Locale {
+  return (LOCALES as readonly string[]).includes(value || '');
+}
+
+// Lingua attiva: NEXT_PUBLIC_LOCALE se ha un catalogo, altrimenti la lingua del modulo
+const requestedLocale = process.env.NEXT_PUBLIC_LOCALE;
+export const locale: Locale = isLocale(requestedLocale) ? requestedLocale : DEFAULT_LOCALE;
+
+// Tag BCP 47 per toLocaleString/toLocaleDateString (es: 'it-IT')
+export const localeTag = LOCALE_TAGS[locale];
+
+// Testo di una chiave nella lingua attiva (poi nella lingua di default, poi la chiave stessa).
+// I parametri sostituiscono i segnaposto: t('orders.count', { count: 3 }) con "{count} ordini"
+export function t(key: string, params?: Record<string, string | number>): string {
+  const message = catalogs[locale][key] ?? catalogs[DEFAULT_LOCALE][key] ?? key;
+  if (!params) {
+    return message;
+  }
+  return message.replace(/\\{(\\w+)\\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+`;
+}
+
+// Lingua di default dichiarata in un lib/i18n.ts generato (null se il modulo non usa i cataloghi)
+export function getI18nDefaultLocale(files: Record<string, string>): Locale | null {
+  const match = files[I18N_MODULE_PATH]?.match(/export const DEFAULT_LOCALE: Locale = '(\w+)'/);
+  return match && isSupportedLocale(match[1]) ? match[1] : null;
+}
+
+function importsI18n(files: Record<string, string>): boolean {
+  return Object.entries(files).some(([path, content]) =>
+    /\.(tsx?|jsx?)$/.test(path) && path !== I18N_MODULE_PATH && /from\s+['"](@\/lib\/i18n|(\.\.?\/)+(lib\/)?i18n)['"]/.test(content)
+  );
+}
+
+/**
+ * Allinea lib/i18n.ts ai cataloghi presenti. I moduli legacy senza cataloghi e senza import
+ * di lib/i18n restano invariati; se il codice usa t() ma manca il catalogo, ne crea uno vuoto
+ * (le chiavi mancanti vengono poi segnalate da validateMessageKeys).
+ */
+export function withI18nFiles(files: Record<string, string>, locale: Locale): Record<string, string> {
+  const locales = getCatalogLocales(files);
+  if (locales.length === 0 && !importsI18n(files)) {
+    return files;
+  }
+
+  const result = { ...files };
+  if (locales.length === 0) {
+    result[getCatalogPath(locale)] = stringifyCatalog({});
+    locales.push(locale);
+  }
+  result[I18N_MODULE_PATH] = renderI18nModule(locales, locale);
+  return result;
+}
+
+// File di contesto per validare codice che usa t() prima che il catalogo sia stato scritto
+export function getI18nContextFiles(locale: Locale): Record<string, string> {
+  return { [I18N_MODULE_PATH]: renderI18nModule([locale], locale) };
+}
+
+// Istruzioni per i prompt di generazione e modifica
+export function getI18nPromptInstructions(locale: Locale): string {
+  const catalogPath = getCatalogPath(locale);
+  return `LINGUA E TESTI:
+- Lingua dell'interfaccia: ${getLanguageName(locale)} (${locale})
+- NON scrivere testi visibili direttamente nel JSX: mettili nel catalogo ${catalogPath} (oggetto JSON piatto "chiave": "testo", chiavi come "orders.title") e usali con t('chiave') importato da '@/lib/i18n'
+- Per testi con valori usa i segnaposto: "orders.count": "{count} ordini" e t('orders.count', { count })
+- Per date e numeri usa localeTag da '@/lib/i18n' (es: value.toLocaleDateString(localeTag))
+- lib/i18n.ts esiste già e viene generato automaticamente: non scriverlo
+- Scrivi sempre il contenuto COMPLETO di ${catalogPath} se aggiungi o cambi testi`;
+}
+
+// Chiavi usate con t('...') letterale nei sorgenti
+function collectMessageKeys(content: string): string[] {
+  const keys: string[] = [];
+  const pattern = /(?<![\w.$])t\(\s*(['"])([^'"\n]+)\1/g;
+  let match;
+  while ((match = pattern.exec(content)) !== null) {
+    keys.push(match[2]);
+  }
+  return keys;
+}
+
+/**
+ * Verifica i cataloghi: JSON validi con soli testi, e ogni chiave usata con t() nei file
+ * presente nel catalogo della lingua di default. I file di contesto servono solo a trovare
+ * lib/i18n.ts e i cataloghi (le loro chiavi non vengono controllate).
+ */
+export function validateMessageKeys(
+  files: Record<string, string>,
+  contextFiles: Record<string, string> = {}
+): ValidationError[] {
+  const allFiles = { ...contextFiles, ...files };
+  const defaultLocale = getI18nDefaultLocale(allFiles);
+  if (!defaultLocale) {
+    return [];
+  }
+
+  const errors: ValidationError[] = [];
+  for (const locale of getCatalogLocales(files)) {
+    if (!parseCatalog(files[getCatalogPath(locale)])) {
+      errors.push({
+        file: getCatalogPath(locale),
+        message: 'Catalogo non valido: deve essere un oggetto JSON piatto con soli valori stringa ("chiave": "testo")',
+        location: null,
+      });
+    }
+  }
+
+  const defaultCatalogPath = getCatalogPath(defaultLocale);
+  const catalog = parseCatalog(allFiles[defaultCatalogPath]);
+  if (!catalog) {
+    return errors;
+  }
+
+  for (const [path, content] of Object.entries(files)) {
+    if (!/\.(tsx?|jsx?)$/.test(path) || path === I18N_MODULE_PATH) {
+      continue;
+    }
+    const missing = [...new Set(collectMessageKeys(content))].filter(key => !(key in catalog));
+    if (missing.length > 0) {
+      errors.push({
+        file: path,
+        message: `Chiavi usate con t() ma assenti in ${defaultCatalogPath}: ${missing.join(', ')}. Aggiungile al catalogo`,
+        location: null,
+      });
+    }
+  }
+  return errors;
+}
+
+// Lingua di un modulo: quella del modulo se impostata, altrimenti quella del workspace (migration 007)
+export async function loadModuleLocale(
+  supabase: SupabaseClient,
+  module: { workspace_id: string; locale?: string | null }
+): Promise<Locale> {
+  if (isSupportedLocale(module.locale)) {
+    return module.locale;
+  }
+  const { data: workspace } = await supabase
+    .from('workspaces')
+    .select('locale')
+    .eq('id', module.workspace_id)
+    .single();
+  return resolveLocale(workspace?.locale);
+}
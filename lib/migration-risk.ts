@@ -0,0 +1,339 @@
+import { applyMigrationToSchema, splitSqlStatements, type ApplyMigrationOptions } from './ddl-parser';
+import { diffSchemas } from './schema-diff';
+import type { DatabaseReference, DatabaseSchema, DatabaseTable } from './supabase/schema';
+
+/**
+ * Analisi di rischio delle migration dei moduli: ogni statement è classificato come sicuro, da
+ * preparare con un backfill (fallisce o richiede dati coerenti se la tabella ha già righe: NOT NULL,
+ * vincoli, foreign key) o distruttivo (cancella o converte dati: DROP, DELETE, riduzione del tipo).
+ * La classificazione confronta lo schema prima e dopo ogni statement (lib/schema-diff.ts); le tabelle
+ * create dalla stessa migration sono vuote e non hanno rischi.
+ * Con statement non sicuri la promozione in STAGING/PROD richiede conferma esplicita
+ * (migrationRiskConfirmed) e può salvare prima una copia delle tabelle coinvolte (backupTables).
+ */
+
+export type MigrationRiskLevel = 'safe' | 'backfill' | 'destructive';
+
+export interface StatementRisk {
+  // Migration di provenienza (v3, v4...) nei report che ne riuniscono più di una
+  migration?: string;
+  sql: string;
+  level: MigrationRiskLevel;
+  reasons: string[];
+  // Tabelle già esistenti i cui dati sono toccati dallo statement
+  tables: string[];
+}
+
+export interface MigrationRiskReport {
+  // Livello più alto fra gli statement
+  level: MigrationRiskLevel;
+  statements: StatementRisk[];
+  // Tabelle da salvare prima della migration (statement non sicuri su tabelle esistenti)
+  tables: string[];
+}
+
+export interface MigrationRiskOptions extends ApplyMigrationOptions {
+  // SQL già applicato al database ma assente dallo schema (vincoli delle regole di business precedenti):
+  // un vincolo ricreato uguale non è un rischio
+  appliedSql?: string;
+}
+
+const LEVEL_ORDER: MigrationRiskLevel[] = ['safe', 'backfill', 'destructive'];
+
+const LEVEL_LABELS: Record<MigrationRiskLevel, string> = {
+  safe: '✅ sicuro',
+  backfill: '⚠️ richiede backfill',
+  destructive: '🛑 distruttivo',
+};
+
+// ========================================
+// Tipi di colonna
+// ========================================
+
+const TYPE_ALIASES: Record<string, string> = {
+  int: 'integer',
+  int4: 'integer',
+  serial: 'integer',
+  serial4: 'integer',
+  int2: 'smallint',
+  smallserial: 'smallint',
+  serial2: 'smallint',
+  int8: 'bigint',
+  bigserial: 'bigint',
+  serial8: 'bigint',
+  float4: 'real',
+  float8: 'double precision',
+  float: 'double precision',
+  decimal: 'numeric',
+  bool: 'boolean',
+  'character varying': 'varchar',
+  character: 'char',
+  bpchar: 'char',
+  'timestamp with time zone': 'timestamptz',
+  'timestamp without time zone': 'timestamp',
+};
+
+// Cifre intere rappresentabili dai tipi interi (per il confronto con NUMERIC(p, s))
+const INTEGER_DIGITS: Record<string, number> = { smallint: 5, integer: 10, bigint: 19 };
+
+// Conversioni senza perdita oltre a quelle fra interi, testi e numeric
+const WIDENING_CASTS = new Set(['real>double precision', 'date>timestamp', 'date>timestamptz', 'timestamp>timestamptz', 'json>jsonb']);
+
+function parseType(type: string): { base: string; args: number[]; array: boolean } {
+  const normalized = type.toLowerCase().replace(/\s+/g, ' ').trim();
+  const args = normalized.match(/\(([^)]*)\)/)?.[1].split(',').map(arg => parseInt(arg, 10)).filter(arg => !isNaN(arg)) || [];
+  const base = normalized.replace(/\([^)]*\)/g, '').replace(/\[\]/g, '').replace(/\s+/g, ' ').trim();
+  return { base: TYPE_ALIASES[base] || base, args, array: normalized.endsWith('[]') };
+}
+
+// true se tutti i valori del tipo di partenza sono rappresentabili nel nuovo tipo
+function isWideningType(fromType: string, toType: string): boolean {
+  const from = parseType(fromType);
+  const to = parseType(toType);
+  if (from.array !== to.array) {
+    return false;
+  }
+  if (from.base === to.base && from.args.join(',') === to.args.join(',')) {
+    return true;
+  }
+  if (to.base === 'text') {
+    return true;
+  }
+  if (to.base === 'varchar' && (from.base === 'varchar' || from.base === 'char')) {
+    return to.args.length === 0 || (from.args.length > 0 && to.args[0] >= from.args[0]);
+  }
+  if (from.base in INTEGER_DIGITS) {
+    if (to.base in INTEGER_DIGITS) {
+      return INTEGER_DIGITS[to.base] >= INTEGER_DIGITS[from.base];
+    }
+    if (to.base === 'numeric') {
+      return to.args.length === 0 || to.args[0] - (to.args[1] || 0) >= INTEGER_DIGITS[from.base];
+    }
+  }
+  if (from.base === 'numeric' && to.base === 'numeric') {
+    if (to.args.length === 0) {
+      return true;
+    }
+    if (from.args.length === 0) {
+      return false;
+    }
+    const [fromPrecision, fromScale = 0] = from.args;
+    const [toPrecision, toScale = 0] = to.args;
+    return toScale >= fromScale && toPrecision - toScale >= fromPrecision - fromScale;
+  }
+  return WIDENING_CASTS.has(`${from.base}>${to.base}`);
+}
+
+// ========================================
+// Classificazione degli statement
+// ========================================
+
+interface RiskContext {
+  // Schema all'inizio della migration: un vincolo o una foreign key ricreati uguali non sono un rischio
+  initial: DatabaseSchema;
+  // Tabelle create dalla migration (vuote)
+  created: Set<string>;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function maxLevel(levels: MigrationRiskLevel[]): MigrationRiskLevel {
+  return levels.reduce<MigrationRiskLevel>((max, level) => (LEVEL_ORDER.indexOf(level) > LEVEL_ORDER.indexOf(max) ? level : max), 'safe');
+}
+
+// Nome locale di una tabella citata nell'SQL (senza schema e apici)
+function getTableName(reference: string): string {
+  return reference.trim().split('.').pop()!.replace(/"/g, '');
+}
+
+function getTables(schema: DatabaseSchema | null | undefined): DatabaseTable[] {
+  return Array.isArray(schema?.tables) ? schema.tables : [];
+}
+
+function classifyStatement(sql: string, before: DatabaseSchema, after: DatabaseSchema, context: RiskContext): StatementRisk {
+  const risks: Array<{ level: MigrationRiskLevel; table: string; reason: string }> = [];
+  const add = (level: MigrationRiskLevel, table: string, reason: string) => {
+    if (!context.created.has(table)) {
+      risks.push({ level, table, reason });
+    }
+  };
+
+  // Statement sui dati: lo schema non cambia
+  const deleted = sql.match(/^delete\s+from\s+(?:only\s+)?([\w."]+)/i);
+  const truncated = sql.match(/^truncate\s+(?:table\s+)?(?:only\s+)?([\w.",\s]+?)(?:\s+(?:restart|continue|cascade|restrict)\b|$)/i);
+  const updated = sql.match(/^update\s+(?:only\s+)?([\w."]+)/i);
+  if (deleted) {
+    add('destructive', getTableName(deleted[1]), `cancella righe di "${getTableName(deleted[1])}"`);
+  } else if (truncated) {
+    truncated[1].split(',').map(getTableName).forEach(table => add('destructive', table, `svuota la tabella "${table}"`));
+  } else if (updated) {
+    add('backfill', getTableName(updated[1]), `aggiorna righe esistenti di "${getTableName(updated[1])}" (il rollback non le ripristina)`);
+  } else if (/^alter\s+table\b[\s\S]*\brename\b/i.test(sql)) {
+    // Una rinomina conserva i dati: il diff la vede come rimozione più aggiunta
+    return { sql, level: 'safe', reasons: [], tables: [] };
+  }
+
+  const diff = diffSchemas(before, after);
+  for (const table of diff.removedTables) {
+    add('destructive', table.name, `elimina la tabella "${table.name}" con i suoi dati`);
+  }
+  for (const tableDiff of diff.alteredTables) {
+    const table = tableDiff.table;
+    const initial = getTables(context.initial).find(candidate => candidate.name === table);
+    for (const column of tableDiff.removedColumns) {
+      add('destructive', table, `elimina la colonna "${table}.${column.name}" con i suoi dati`);
+    }
+    for (const column of tableDiff.addedColumns) {
+      if ((column.notNull || column.primaryKey) && !column.default && !/serial/i.test(column.type)) {
+        add('backfill', table, `aggiunge "${table}.${column.name}" NOT NULL senza default: fallisce se la tabella ha righe`);
+      }
+    }
+    for (const { column, changes } of tableDiff.alteredColumns) {
+      const initialColumn = initial?.columns.find(candidate => candidate.name === column);
+      if (changes.type && !isWideningType(String(changes.type.from), String(changes.type.to))) {
+        add('destructive', table, `cambia il tipo di "${table}.${column}" da ${changes.type.from} a ${changes.type.to}: i valori esistenti possono essere troncati o non convertibili`);
+      }
+      if (changes.notNull?.to === true && !initialColumn?.notNull) {
+        add('backfill', table, `rende "${table}.${column}" NOT NULL: fallisce se ci sono righe con valore NULL`);
+      }
+      if (changes.enumValues?.to && !sameValue(initialColumn?.enumValues, changes.enumValues.to)) {
+        const values = changes.enumValues.to as string[];
+        const previous = changes.enumValues.from as string[] | null;
+        const removed = previous ? previous.filter(value => !values.includes(value)) : null;
+        if (!removed) {
+          add('backfill', table, `limita "${table}.${column}" ai valori ${values.join(', ')}: fallisce se ci sono righe con altri valori`);
+        } else if (removed.length > 0) {
+          add('backfill', table, `rimuove i valori ${removed.join(', ')} di "${table}.${column}": fallisce se sono usati`);
+        }
+      }
+      // Cambiare solo ON DELETE/ON UPDATE non riverifica valori diversi da quelli già referenziati
+      const target = changes.references?.to as DatabaseReference | null | undefined;
+      if (target && (initialColumn?.references?.table !== target.table || initialColumn.references.column !== target.column)) {
+        add('backfill', table, `aggiunge la foreign key "${table}.${column}" → ${target.table}.${target.column}: i valori esistenti devono essere presenti`);
+      }
+      if (changes.primaryKey?.to === true && !initialColumn?.primaryKey) {
+        add('backfill', table, `chiave primaria su "${table}.${column}": i valori esistenti devono essere univoci e non NULL`);
+      }
+    }
+    for (const constraint of tableDiff.addedConstraints) {
+      if (initial?.constraints?.some(existing => sameValue(existing, constraint))) {
+        continue;
+      }
+      add('backfill', table, constraint.type === 'unique'
+        ? `vincolo di unicità "${constraint.name}" su ${table}(${constraint.columns.join(', ')}): fallisce se ci sono duplicati`
+        : `vincolo "${constraint.name}" (${constraint.expression}): fallisce se ci sono righe che non lo rispettano`);
+    }
+    for (const index of tableDiff.addedIndexes) {
+      if (index.unique && !initial?.indexes?.some(existing => sameValue(existing, index))) {
+        add('backfill', table, `indice univoco "${index.name}" su ${table}(${index.columns.join(', ')}): fallisce se ci sono duplicati`);
+      }
+    }
+  }
+
+  return {
+    sql,
+    level: maxLevel(risks.map(risk => risk.level)),
+    reasons: risks.map(risk => risk.reason),
+    tables: [...new Set(risks.map(risk => risk.table))],
+  };
+}
+
+function buildReport(statements: StatementRisk[]): MigrationRiskReport {
+  return {
+    level: maxLevel(statements.map(statement => statement.level)),
+    statements,
+    tables: [...new Set(statements.filter(statement => statement.level !== 'safe').flatMap(statement => statement.tables))],
+  };
+}
+
+/**
+ * Classifica gli statement di una migration rispetto allo schema della versione precedente.
+ * Uno statement che non si applica allo schema (es. foreign key verso un modulo collegato non passato
+ * in externalTables) è classificato dal solo tipo: DROP/DELETE/TRUNCATE distruttivi, gli altri da verificare.
+ */
+export function analyzeMigrationRisk(
+  previous: DatabaseSchema | null | undefined,
+  sql: string,
+  options: MigrationRiskOptions = {}
+): MigrationRiskReport {
+  let schema: DatabaseSchema = { tables: getTables(previous) };
+  if (options.appliedSql) {
+    schema = applyMigrationToSchema(schema, options.appliedSql, options).schema || schema;
+  }
+
+  let statements: string[];
+  try {
+    statements = splitSqlStatements(sql);
+  } catch (error) {
+    return buildReport([{
+      sql,
+      level: 'backfill',
+      reasons: [`SQL non analizzabile: ${error instanceof Error ? error.message : String(error)}`],
+      tables: [],
+    }]);
+  }
+
+  const context: RiskContext = { initial: schema, created: new Set() };
+  return buildReport(statements.map(statement => {
+    const applied = applyMigrationToSchema(schema, statement, options);
+    if (!applied.schema) {
+      return {
+        sql: statement,
+        level: /^(drop|delete|truncate)\b/i.test(statement) ? 'destructive' : 'backfill',
+        reasons: [`non verificabile sullo schema (${applied.errors.join('; ')})`],
+        tables: [],
+      };
+    }
+    const risk = classifyStatement(statement, schema, applied.schema, context);
+    diffSchemas(schema, applied.schema).addedTables.forEach(table => context.created.add(table.name));
+    schema = applied.schema;
+    return risk;
+  }));
+}
+
+// Report unico per più migration (es. quelle in sospeso in un ambiente), con la migration di ogni statement
+export function combineMigrationRisks(reports: Array<{ migration: string; report: MigrationRiskReport }>): MigrationRiskReport {
+  return buildReport(reports.flatMap(({ migration, report }) => report.statements.map(statement => ({ ...statement, migration }))));
+}
+
+// Statement a rischio: la promozione in STAGING/PROD richiede migrationRiskConfirmed
+export function requiresMigrationConfirmation(report: MigrationRiskReport | null | undefined): boolean {
+  return !!report && report.level !== 'safe';
+}
+
+function countLevels(report: MigrationRiskReport): string {
+  const destructive = report.statements.filter(statement => statement.level === 'destructive').length;
+  const backfill = report.statements.filter(statement => statement.level === 'backfill').length;
+  return [
+    destructive > 0 && `${destructive} ${destructive === 1 ? 'distruttivo' : 'distruttivi'}`,
+    backfill > 0 && `${backfill} da preparare con un backfill`,
+  ].filter(Boolean).join(', ');
+}
+
+// Messaggio di errore della promozione bloccata (come describeBlockingFindings per la sicurezza)
+export function describeMigrationRisk(report: MigrationRiskReport): string {
+  const reasons = report.statements.flatMap(statement => statement.reasons);
+  const backup = report.tables.length > 0 ? ` (con backupTables: true viene salvata prima una copia di ${report.tables.join(', ')})` : '';
+  return `Migration con statement a rischio: ${countLevels(report)} (${reasons.slice(0, 3).join('; ')}${reasons.length > 3 ? '; ...' : ''}). Conferma con migrationRiskConfirmed: true${backup}`;
+}
+
+// Righe per la chat del workspace: riepilogo e classificazione di ogni statement
+export function formatMigrationRisk(report: MigrationRiskReport): string[] {
+  if (report.statements.length === 0) {
+    return [];
+  }
+  const summary = report.level === 'safe'
+    ? `Migration: ${report.statements.length} statement, tutti sicuri`
+    : `Migration: ${report.statements.length} statement, ${countLevels(report)}`;
+  return [
+    summary,
+    ...report.statements.map(statement => {
+      const preview = statement.sql.split('\n')[0].substring(0, 80);
+      const migration = statement.migration ? ` [${statement.migration}]` : '';
+      const reasons = statement.reasons.length > 0 ? ` — ${statement.reasons.join('; ')}` : '';
+      return `${LEVEL_LABELS[statement.level]}${migration}: ${preview}${reasons}`;
+    }),
+  ];
+}
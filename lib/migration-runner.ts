@@ -0,0 +1,390 @@
+import { createHash, randomBytes } from 'crypto';
+import { Client } from 'pg';
+import { quoteIdentifier, renderSchemaSql, splitSqlStatements } from './ddl-parser';
+import type { DatabaseSchema } from './supabase/schema';
+
+/**
+ * Esecuzione delle migration dei moduli sul database di un ambiente (connessione Postgres diretta,
+ * MODULE_DATABASE_URL_DEV / _STAGING / _PROD o MODULE_DATABASE_URL per tutti gli ambienti).
+ * Lo storico è nella tabella `module_migrations` dello stesso database, creata al primo utilizzo:
+ * una riga per ogni applicazione, con checksum dell'SQL (una migration modificata dopo
+ * l'applicazione blocca le successive), down migration per il rollback ed eventuale errore.
+ * Le migration in sospeso sono applicate in un'unica transazione con lock per modulo e ambiente;
+ * il dry-run le esegue (up e poi down) su uno schema temporaneo e annulla tutto.
+ * Prima di migration a rischio (lib/migration-risk.ts) le tabelle coinvolte possono essere copiate
+ * nella stessa transazione (<tabella>_backup_<data>_<xxxx>).
+ */
+
+export type MigrationEnvironment = 'dev' | 'staging' | 'production';
+
+export const MIGRATION_ENVIRONMENTS: MigrationEnvironment[] = ['dev', 'staging', 'production'];
+
+// Una migration per versione del modulo (lib/module-migrations.ts)
+export interface ModuleMigration {
+  name: string;
+  versionId: string;
+  versionNumber: number;
+  upSql: string;
+  downSql: string;
+  // Schema prima della migration: base del dry-run su schema temporaneo
+  schemaBefore: DatabaseSchema | null;
+}
+
+export interface MigrationRecord {
+  id: number;
+  module_id: string;
+  version_id: string;
+  version_number: number;
+  environment: MigrationEnvironment;
+  name: string;
+  checksum: string;
+  up_sql: string;
+  down_sql: string;
+  status: 'applied' | 'rolled_back' | 'failed';
+  error: string | null;
+  applied_at: string;
+  rolled_back_at: string | null;
+}
+
+export interface MigrationPlan {
+  // Da applicare, nell'ordine delle versioni
+  pending: ModuleMigration[];
+  applied: MigrationRecord[];
+  // Applicate ma non più nella storia della versione (es. ritorno a una versione precedente): vanno annullate
+  orphaned: MigrationRecord[];
+  errors: string[];
+}
+
+export interface MigrationRunResult {
+  success: boolean;
+  environment: MigrationEnvironment;
+  dryRun: boolean;
+  applied: string[];
+  rolledBack: string[];
+  error?: string;
+  // Nome della migration fallita
+  failed?: string;
+  // Copie delle tabelle salvate prima di applicare le migration (backupTables)
+  backups?: Array<{ table: string; backup: string }>;
+}
+
+const HISTORY_TABLE_SQL = `CREATE TABLE IF NOT EXISTS module_migrations (
+  id BIGSERIAL PRIMARY KEY,
+  module_id UUID NOT NULL,
+  version_id UUID NOT NULL,
+  version_number INTEGER NOT NULL,
+  environment TEXT NOT NULL CHECK (environment IN ('dev', 'staging', 'production')),
+  name TEXT NOT NULL,
+  checksum TEXT NOT NULL,
+  up_sql TEXT NOT NULL,
+  down_sql TEXT NOT NULL DEFAULT '',
+  status TEXT NOT NULL CHECK (status IN ('applied', 'rolled_back', 'failed')),
+  error TEXT,
+  applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  rolled_back_at TIMESTAMP WITH TIME ZONE
+);
+CREATE INDEX IF NOT EXISTS idx_module_migrations_module ON module_migrations(module_id, environment, version_id);`;
+
+// Attesa massima dei lock sulle tabelle: una migration bloccata fallisce invece di fermare l'app
+const LOCK_TIMEOUT = '15s';
+
+const ENVIRONMENT_SUFFIX: Record<MigrationEnvironment, string> = {
+  dev: 'DEV',
+  staging: 'STAGING',
+  production: 'PROD',
+};
+
+export function isMigrationEnvironment(value: unknown): value is MigrationEnvironment {
+  return typeof value === 'string' && (MIGRATION_ENVIRONMENTS as string[]).includes(value);
+}
+
+export function getModuleDatabaseUrl(environment: MigrationEnvironment): string | undefined {
+  return process.env[`MODULE_DATABASE_URL_${ENVIRONMENT_SUFFIX[environment]}`] || process.env.MODULE_DATABASE_URL || undefined;
+}
+
+export function getMigrationChecksum(sql: string): string {
+  return createHash('sha256').update(sql.trim()).digest('hex');
+}
+
+// Il runner gestisce la transazione: la migration non può aprirla o chiuderla da sé
+export function getTransactionErrors(sql: string): string[] {
+  const errors: string[] = [];
+  for (const statement of splitSqlStatements(sql)) {
+    const preview = statement.replace(/\s+/g, ' ').substring(0, 60);
+    if (/^(begin|commit|rollback|start\s+transaction|end|savepoint|release)\b/i.test(statement)) {
+      errors.push(`Controllo della transazione non ammesso nella migration: ${preview}`);
+    } else if (/^(create|drop|reindex)\s+(unique\s+)?index\s+concurrently\b/i.test(statement) || /^vacuum\b/i.test(statement)) {
+      errors.push(`Statement non eseguibile in una transazione: ${preview}`);
+    }
+  }
+  return errors;
+}
+
+async function withClient<T>(databaseUrl: string, run: (client: Client) => Promise<T>): Promise<T> {
+  const client = new Client({ connectionString: databaseUrl });
+  await client.connect();
+  try {
+    await client.query(HISTORY_TABLE_SQL);
+    return await run(client);
+  } finally {
+    await client.end();
+  }
+}
+
+// Lock transazionale per modulo e ambiente: due promozioni contemporanee non applicano la stessa migration
+async function lockModule(client: Client, moduleId: string, environment: MigrationEnvironment): Promise<void> {
+  await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`module_migrations:${moduleId}:${environment}`]);
+  await client.query(`SET LOCAL lock_timeout = '${LOCK_TIMEOUT}'`);
+}
+
+async function loadHistory(client: Client, moduleId: string, environment?: MigrationEnvironment): Promise<MigrationRecord[]> {
+  const { rows } = await client.query<MigrationRecord>(
+    `SELECT * FROM module_migrations
+     WHERE module_id = $1 AND ($2::text IS NULL OR environment = $2)
+     ORDER BY id`,
+    [moduleId, environment || null]
+  );
+  // BIGSERIAL arriva come stringa dal driver
+  return rows.map(row => ({ ...row, id: Number(row.id) }));
+}
+
+// Migration attualmente applicate: l'ultima riga di ogni versione è 'applied'
+function getAppliedRecords(history: MigrationRecord[]): MigrationRecord[] {
+  const latest = new Map<string, MigrationRecord>();
+  for (const record of history) {
+    latest.set(record.version_id, record);
+  }
+  return [...latest.values()].filter(record => record.status === 'applied').sort((a, b) => a.id - b.id);
+}
+
+function planFromHistory(history: MigrationRecord[], migrations: ModuleMigration[]): MigrationPlan {
+  const applied = getAppliedRecords(history);
+  const appliedByVersion = new Map(applied.map(record => [record.version_id, record]));
+  const errors: string[] = [];
+
+  for (const migration of migrations) {
+    const record = appliedByVersion.get(migration.versionId);
+    if (record && record.checksum !== getMigrationChecksum(migration.upSql)) {
+      errors.push(`La migration ${migration.name} è cambiata dopo l'applicazione (checksum diverso)`);
+    }
+  }
+
+  const versionIds = new Set(migrations.map(migration => migration.versionId));
+  const orphaned = applied.filter(record => !versionIds.has(record.version_id));
+  if (orphaned.length > 0) {
+    errors.push(
+      `Migration applicate che non fanno parte di questa versione: ${orphaned.map(record => record.name).join(', ')} (esegui prima il rollback)`
+    );
+  }
+
+  const pending = migrations.filter(migration => !appliedByVersion.has(migration.versionId));
+  for (const migration of pending) {
+    errors.push(...getTransactionErrors(migration.upSql).map(error => `${migration.name}: ${error}`));
+  }
+
+  return {
+    pending,
+    applied,
+    orphaned,
+    errors,
+  };
+}
+
+// Copia delle tabelle esistenti (struttura e dati, senza vincoli e indici) prima delle migration
+async function backupTables(client: Client, tables: string[], result: MigrationRunResult): Promise<void> {
+  // Data e parte casuale: due promozioni nello stesso secondo non usano lo stesso nome
+  const suffix = `${new Date().toISOString().replace(/\D/g, '').substring(0, 14)}_${randomBytes(2).toString('hex')}`;
+  for (const table of tables) {
+    const { rows } = await client.query('SELECT to_regclass($1) AS regclass', [quoteIdentifier(table)]);
+    if (!rows[0]?.regclass) {
+      continue;
+    }
+    // Nomi Postgres di al massimo 63 caratteri
+    const backup = `${table.substring(0, 63 - suffix.length - 8)}_backup_${suffix}`;
+    await client.query(`CREATE TABLE ${quoteIdentifier(backup)} AS TABLE ${quoteIdentifier(table)}`);
+    console.log(`[MIGRATIONS] ${result.environment}: backup di ${table} in ${backup}`);
+    result.backups = [...(result.backups || []), { table, backup }];
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function getMigrationHistory(
+  databaseUrl: string,
+  moduleId: string,
+  environment?: MigrationEnvironment
+): Promise<MigrationRecord[]> {
+  return withClient(databaseUrl, client => loadHistory(client, moduleId, environment));
+}
+
+export async function planMigrations(
+  databaseUrl: string,
+  moduleId: string,
+  environment: MigrationEnvironment,
+  migrations: ModuleMigration[]
+): Promise<MigrationPlan> {
+  return withClient(databaseUrl, async client => planFromHistory(await loadHistory(client, moduleId, environment), migrations));
+}
+
+// Esegue le migration in sospeso (up e down in ordine inverso) su uno schema temporaneo che replica
+// le tabelle del modulo prima della prima migration; la transazione viene sempre annullata
+async function dryRun(client: Client, pending: ModuleMigration[], result: MigrationRunResult): Promise<void> {
+  const scratchSchema = `migration_dry_run_${randomBytes(6).toString('hex')}`;
+  let current = '';
+  await client.query('BEGIN');
+  try {
+    await client.query(`CREATE SCHEMA ${scratchSchema}`);
+    // Le tabelle senza schema sono create nello schema temporaneo, le tabelle di altri moduli restano visibili
+    await client.query(`SET LOCAL search_path TO ${scratchSchema}, public`);
+    current = 'schema di partenza';
+    const baseline = renderSchemaSql(pending[0].schemaBefore);
+    if (baseline) {
+      await client.query(baseline);
+    }
+    for (const migration of pending) {
+      current = migration.name;
+      await client.query(migration.upSql);
+      result.applied.push(migration.name);
+    }
+    for (const migration of [...pending].reverse()) {
+      current = `${migration.name} (rollback)`;
+      if (migration.downSql) {
+        await client.query(migration.downSql);
+      }
+      result.rolledBack.push(migration.name);
+    }
+  } catch (error) {
+    result.success = false;
+    result.failed = current;
+    result.error = `${current}: ${describeError(error)}`;
+  } finally {
+    await client.query('ROLLBACK');
+  }
+}
+
+/**
+ * Applica le migration del modulo non ancora eseguite nell'ambiente (una transazione per tutte:
+ * se una fallisce non ne resta applicata nessuna e il fallimento è registrato nello storico).
+ * Con dryRun le migration sono solo provate su uno schema temporaneo; con backupTables le tabelle
+ * indicate sono copiate prima della prima migration (solo se ce ne sono da applicare).
+ */
+export async function applyModuleMigrations(
+  databaseUrl: string,
+  moduleId: string,
+  environment: MigrationEnvironment,
+  migrations: ModuleMigration[],
+  options: { dryRun?: boolean; backupTables?: string[] } = {}
+): Promise<MigrationRunResult> {
+  const dryRunRequested = !!options.dryRun;
+  const result: MigrationRunResult = { success: true, environment, dryRun: dryRunRequested, applied: [], rolledBack: [] };
+
+  return withClient(databaseUrl, async client => {
+    const plan = planFromHistory(await loadHistory(client, moduleId, environment), migrations);
+    if (plan.errors.length > 0) {
+      return { ...result, success: false, error: plan.errors.join('; ') };
+    }
+    if (plan.pending.length === 0) {
+      return result;
+    }
+
+    if (dryRunRequested) {
+      await dryRun(client, plan.pending, result);
+      return result;
+    }
+
+    let current: ModuleMigration | undefined;
+    await client.query('BEGIN');
+    try {
+      await lockModule(client, moduleId, environment);
+      // Un'altra promozione può aver applicato le migration mentre si attendeva il lock
+      const lockedPlan = planFromHistory(await loadHistory(client, moduleId, environment), migrations);
+      // Anche lo storico riletto sotto lock deve essere coerente con le versioni (checksum, ordine)
+      if (lockedPlan.errors.length > 0) {
+        await client.query('ROLLBACK');
+        return { ...result, success: false, error: lockedPlan.errors.join('; ') };
+      }
+      if (lockedPlan.pending.length > 0 && options.backupTables?.length) {
+        await backupTables(client, options.backupTables, result);
+      }
+      for (const migration of lockedPlan.pending) {
+        current = migration;
+        console.log(`[MIGRATIONS] ${environment}: applicazione ${migration.name}...`);
+        if (migration.upSql.trim()) {
+          await client.query(migration.upSql);
+        }
+        await client.query(
+          `INSERT INTO module_migrations
+             (module_id, version_id, version_number, environment, name, checksum, up_sql, down_sql, status)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'applied')`,
+          [moduleId, migration.versionId, migration.versionNumber, environment, migration.name,
+            getMigrationChecksum(migration.upSql), migration.upSql, migration.downSql]
+        );
+        result.applied.push(migration.name);
+      }
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      const message = describeError(error);
+      console.error(`[MIGRATIONS] ${environment}: ${current?.name || 'migration'} fallita:`, message);
+      // Il fallimento resta nello storico anche se la transazione è annullata
+      if (current) {
+        await client.query(
+          `INSERT INTO module_migrations
+             (module_id, version_id, version_number, environment, name, checksum, up_sql, down_sql, status, error)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'failed', $9)`,
+          [moduleId, current.versionId, current.versionNumber, environment, current.name,
+            getMigrationChecksum(current.upSql), current.upSql, current.downSql, message]
+        ).catch(recordError => console.error('[MIGRATIONS] Errore registrazione fallimento:', recordError));
+      }
+      // Le copie sono nella transazione annullata
+      return { ...result, success: false, applied: [], backups: undefined, failed: current?.name, error: `${current?.name || 'Migration'}: ${message}` };
+    }
+  });
+}
+
+/**
+ * Annulla le ultime `steps` migration applicate nell'ambiente eseguendo le loro down migration
+ * (in un'unica transazione, dalla più recente).
+ */
+export async function rollbackModuleMigrations(
+  databaseUrl: string,
+  moduleId: string,
+  environment: MigrationEnvironment,
+  steps = 1
+): Promise<MigrationRunResult> {
+  const result: MigrationRunResult = { success: true, environment, dryRun: false, applied: [], rolledBack: [] };
+
+  return withClient(databaseUrl, async client => {
+    let current: MigrationRecord | undefined;
+    await client.query('BEGIN');
+    try {
+      await lockModule(client, moduleId, environment);
+      const applied = getAppliedRecords(await loadHistory(client, moduleId, environment));
+      for (const record of applied.reverse().slice(0, Math.max(1, steps))) {
+        current = record;
+        if (!record.down_sql.trim() && record.up_sql.trim()) {
+          throw new Error('down migration non disponibile');
+        }
+        console.log(`[MIGRATIONS] ${environment}: rollback ${record.name}...`);
+        if (record.down_sql.trim()) {
+          await client.query(record.down_sql);
+        }
+        await client.query(
+          `UPDATE module_migrations SET status = 'rolled_back', rolled_back_at = NOW() WHERE id = $1`,
+          [record.id]
+        );
+        result.rolledBack.push(record.name);
+      }
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      const message = describeError(error);
+      console.error(`[MIGRATIONS] ${environment}: rollback di ${current?.name || 'migration'} fallito:`, message);
+      return { ...result, success: false, rolledBack: [], failed: current?.name, error: `${current?.name || 'Rollback'}: ${message}` };
+    }
+  });
+}
@@ -0,0 +1,507 @@
+import { validateAndFixCode, validateSyntax, formatValidationError, getBaseFiles } from './code-generation';
+import { FORCE_TOOL_USE, GENERATION_TOOLS, parseStructuredResponse } from './structured-output';
+import { createAndPushGitHubRepo, createVercelDeployment, getGitHubClient } from './github-deploy';
+import { getLlmProvider, type LlmProvider } from './llm-provider';
+import { trackLlmUsage } from './llm-usage';
+import { createOutputProgressReporter, type ProgressReporter } from './generation-progress';
+import type { JobOutcome } from './jobs';
+import { listTemplates, selectTemplate, type ModuleTemplate } from './template-registry';
+import { describeModuleSpec, type ModuleSpec } from './entity-spec';
+import { generateCrudModule, getModuleSchema } from './crud-generator';
+import { applyDependencyUpdate, getDependencyPromptInstructions } from './dependency-policy';
+import { getDataLayerFiles, getDataLayerPromptInstructions, withDataLayer } from './data-layer';
+import { proposeModuleSpec } from './spec-proposal';
+import { describeRouteMap, generateRouteMapFiles, planRouteMap } from './route-map';
+import { describeBlockingFindings, formatSecurityFinding, getBlockingFindings, scanGeneratedCode } from './security-scan';
+import { getCatalogPath, getI18nContextFiles, getI18nPromptInstructions, loadModuleLocale, withI18nFiles, type Locale } from './locale';
+import { loadModuleStackProfile, type StackProfileId } from './stack-profiles';
+import { getThemePromptInstructions, loadWorkspaceTheme, withTheme, type WorkspaceTheme } from './theme';
+import { applyMigrationToSchema, renderSchemaSql } from './ddl-parser';
+import { applyVersionMigrations } from './module-migrations';
+import type { MigrationRunResult } from './migration-runner';
+import type { DatabaseSchema } from './supabase/schema';
+import type { SupabaseClient } from './supabase/server';
+
+/**
+ * Generazione e primo deploy di un modulo appena creato (job 'module.create').
+ * La riga in `modules` viene creata dalla route POST /api/modules/create prima di accodare il job.
+ */
+
+export const GENERATION_MODES = ['single-page', 'multi-page'] as const;
+
+export type GenerationMode = typeof GENERATION_MODES[number];
+
+export function isGenerationMode(value: unknown): value is GenerationMode {
+  return typeof value === 'string' && (GENERATION_MODES as readonly string[]).includes(value);
+}
+
+export interface CreateModulePayload {
+  moduleId: string;
+  prompt: string;
+  name: string;
+  // Spec di entità validata (normalizeModuleSpec): se presente, senza mode, il codice non è generato con AI
+  spec?: ModuleSpec;
+  // Generazione AI: pagina singola (default) o mappa delle route con lista, dettaglio e modifica per entità.
+  // Con una spec la generazione AI usa quella invece di chiederne una al modello
+  mode?: GenerationMode;
+  // Deploy anche con risultati di sicurezza gravi (lib/security-scan.ts)
+  securityOverride?: boolean;
+}
+
+interface GeneratedModule {
+  files: Record<string, string>;
+  // Template usato come fallback quando il codice AI non supera la validazione
+  fallbackTemplate: ModuleTemplate | null;
+  databaseSchema: DatabaseSchema | null;
+}
+
+async function generateWithAi(
+  supabase: SupabaseClient,
+  module: { workspace_id: string },
+  { prompt, name, locale, stackProfile, theme, mode, spec: confirmedSpec }: {
+    prompt: string;
+    name: string;
+    locale: Locale;
+    stackProfile: StackProfileId;
+    theme: WorkspaceTheme;
+    mode: GenerationMode;
+    spec?: ModuleSpec;
+  },
+  llm: LlmProvider,
+  onProgress: ProgressReporter
+): Promise<GeneratedModule> {
+  // Tabelle del modulo dalla spec confermata o, senza, da quella proposta dal modello: il codice generato
+  // salva i dati su Supabase tramite lib/tables.ts. Se la proposta non è valida si genera senza data layer
+  let spec = confirmedSpec || null;
+  if (!spec) {
+    const proposal = await proposeModuleSpec(prompt, llm, { name, onProgress });
+    if (!proposal.spec) {
+      console.warn('[CREATE] Spec non proposta, generazione senza data layer:', proposal.errors);
+    }
+    spec = proposal.spec;
+  }
+  const proposedSchema = spec ? getModuleSchema(spec) : null;
+  const dataLayerFiles = getDataLayerFiles(proposedSchema);
+  const dataLayerInstructions = getDataLayerPromptInstructions(dataLayerFiles);
+  const templates = await listTemplates(supabase, module.workspace_id);
+  // lib/i18n.ts e il data layer sono nel contesto: il codice generato li importa ma non li scrive
+  const contextFiles = { ...getI18nContextFiles(locale), ...dataLayerFiles };
+  const baseFiles = getBaseFiles(locale, stackProfile, theme);
+
+  // Multi-pagina: mappa delle route dalla spec, poi un file alla volta. Senza spec non c'è una
+  // mappa da pianificare e si genera la pagina singola
+  let allFiles: Record<string, string>;
+  if (mode === 'multi-page' && spec) {
+    const routeMap = planRouteMap(spec);
+    console.log('[CREATE] Mappa delle route:\n' + describeRouteMap(routeMap));
+    const generated = await generateRouteMapFiles(
+      routeMap,
+      { prompt, name, locale, stackProfile, baseFiles, contextFiles },
+      llm,
+      onProgress
+    );
+    if (generated.missing.length > 0) {
+      console.warn('[CREATE] File della mappa non generati:', generated.missing);
+    }
+    allFiles = generated.files;
+  } else {
+    if (mode === 'multi-page') {
+      console.warn('[CREATE] Spec non disponibile: generazione a pagina singola');
+    }
+    allFiles = await generateSinglePage({ prompt, name, locale, stackProfile, baseFiles, dataLayerInstructions }, llm, onProgress);
+  }
+
+  // Valida e fix dell'intero albero (il fallback sceglie anche tra i template contribuiti dal workspace)
+  const validated = await validateAndFixCode(allFiles, prompt, llm, 1, undefined, contextFiles, onProgress, templates);
+  if (!validated.success && validated.errors && validated.errors.length > 0) {
+    console.warn('[CREATE] Errori di sintassi dopo validazione:', validated.errors);
+    // Continua comunque
+  }
+
+  // Con il template di fallback la versione parte dallo schema di default del template
+  // (i template hanno già il proprio lib/tables.ts)
+  const fallbackTemplate = validated.useFallback ? selectTemplate(prompt, templates) : null;
+  const databaseSchema = fallbackTemplate ? fallbackTemplate.defaultSchema : proposedSchema;
+  return {
+    files: withDataLayer(withI18nFiles(validated.files, locale), databaseSchema),
+    fallbackTemplate,
+    databaseSchema,
+  };
+}
+
+// Pagina singola: app/page.tsx, components/Form.tsx e catalogo in una sola chiamata
+async function generateSinglePage(
+  { prompt, name, locale, stackProfile, baseFiles, dataLayerInstructions }: {
+    prompt: string;
+    name: string;
+    locale: Locale;
+    stackProfile: StackProfileId;
+    baseFiles: Record<string, string>;
+    dataLayerInstructions: string;
+  },
+  llm: LlmProvider,
+  onProgress: ProgressReporter
+): Promise<Record<string, string>> {
+  // Genera codice con AI
+  console.log('[CREATE] Generazione codice con AI...');
+  onProgress({ phase: 'prompting', message: `Generazione codice con ${llm.model}...` });
+  const systemPrompt = `Sei un esperto sviluppatore Next.js e TypeScript.
+Genera codice COMPLETO, COMPILABILE e FUNZIONANTE.
+NON lasciare codice incompleto o placeholder.
+Tutti i tipi devono essere completi.
+Tutti i tag JSX devono essere chiusi.
+Tutte le funzioni devono essere implementate completamente.`;
+
+  const userPrompt = `Crea un nuovo modulo "${name}" con questa descrizione: ${prompt}
+
+Genera un'applicazione Next.js completa e funzionante.
+Crea SOLO questi file:
+- app/page.tsx (pagina principale)
+- components/Form.tsx (form base)
+- ${getCatalogPath(locale)} (catalogo dei testi)
+
+Usa Tailwind per UI.
+
+${getI18nPromptInstructions(locale)}
+${dataLayerInstructions ? `\n${dataLayerInstructions}\n` : ''}
+${getThemePromptInstructions(baseFiles)}
+
+${getDependencyPromptInstructions()}
+
+Usa lo strumento write_file per ogni file (un file per chiamata, contenuto completo).`;
+
+  const message = await llm.createMessage({
+    callType: 'create',
+    maxTokens: 16000,
+    system: systemPrompt,
+    tools: GENERATION_TOOLS,
+    toolChoice: FORCE_TOOL_USE,
+    messages: [{ role: 'user', content: userPrompt }],
+    onOutputProgress: createOutputProgressReporter(onProgress),
+  });
+
+  onProgress({ phase: 'parsing', message: 'Lettura dei file generati...' });
+  const parsed = parseStructuredResponse(message);
+
+  // Aggiungi file base (con le dipendenze proposte dal modello, se ammesse)
+  return applyDependencyUpdate({ ...baseFiles, ...parsed.files }, parsed.dependencyUpdate, stackProfile).files;
+}
+
+// Generazione deterministica da spec (lib/crud-generator.ts): nessun retry, la validazione è solo un controllo
+async function generateFromSpec(
+  spec: ModuleSpec,
+  { locale, stackProfile, theme }: { locale: Locale; stackProfile: StackProfileId; theme: WorkspaceTheme },
+  onProgress: ProgressReporter
+): Promise<GeneratedModule> {
+  console.log('[CREATE] Generazione CRUD da spec:', describeModuleSpec(spec));
+  onProgress({ phase: 'prompting', message: `Generazione CRUD da spec (${spec.entities.length} entità)...` });
+  const crud = generateCrudModule(spec, { locale });
+  const files = { ...getBaseFiles(locale, stackProfile, theme), ...crud.files };
+
+  onProgress({ phase: 'validation', message: 'Validazione dei file generati...' });
+  const errors = await validateSyntax(files);
+  if (errors.length > 0) {
+    console.warn('[CREATE] Errori nei file generati da spec:', errors.map(formatValidationError));
+  }
+
+  return { files, fallbackTemplate: null, databaseSchema: crud.schema };
+}
+
+export async function runCreateModule(
+  supabase: SupabaseClient,
+  payload: CreateModulePayload,
+  onProgress: ProgressReporter
+): Promise<JobOutcome> {
+  const { moduleId, prompt, name } = payload;
+
+  const { data: module } = await supabase
+    .from('modules')
+    .select('*')
+    .eq('id', moduleId)
+    .single();
+
+  if (!module) {
+    return { status: 404, body: { success: false, error: 'Modulo non trovato' } };
+  }
+
+  // Token e costi di generazione, fix e auto-fix vengono registrati su llm_usage
+  const llm = trackLlmUsage(getLlmProvider(), supabase, { workspaceId: module.workspace_id, moduleId: module.id });
+  const locale = await loadModuleLocale(supabase, module);
+  // Profilo di stack dei file base, registrato sulla versione per i rebuild
+  const stackProfile = await loadModuleStackProfile(supabase, module);
+  // Tema del workspace: token CSS nei file base, usati dai prompt al posto dei colori fissi
+  const theme = await loadWorkspaceTheme(supabase, module.workspace_id);
+
+  // Con una spec di entità (e senza mode) il codice è generato in modo deterministico, senza AI
+  const fromSpec = !!payload.spec && !payload.mode;
+  const generated = fromSpec
+    ? await generateFromSpec(payload.spec!, { locale, stackProfile, theme }, onProgress)
+    : await generateWithAi(
+      supabase,
+      module,
+      { prompt, name, locale, stackProfile, theme, mode: payload.mode || 'single-page', spec: payload.spec },
+      llm,
+      onProgress
+    );
+  const { fallbackTemplate, databaseSchema } = generated;
+  // Anche i template di fallback ricevono il tema
+  const files = withTheme(generated.files, theme);
+
+  // Analisi di sicurezza: con risultati gravi il codice non viene pushato, salvo override
+  onProgress({ phase: 'security', message: 'Analisi di sicurezza del codice generato...' });
+  const securityFindings = scanGeneratedCode(files);
+  const blockingFindings = getBlockingFindings(securityFindings);
+  if (securityFindings.length > 0) {
+    console.warn('[CREATE] Risultati analisi di sicurezza:', securityFindings.map(formatSecurityFinding));
+  }
+  const deployBlocked = blockingFindings.length > 0 && !payload.securityOverride;
+
+  let repoUrl: string | undefined;
+  let deployUrl: string | undefined;
+  let deployError: string | undefined;
+  let deployStatus: 'deployed_dev' | 'failed' | 'blocked' = 'deployed_dev';
+  let autoFixApplied = false;
+
+  if (deployBlocked) {
+    console.warn('[CREATE] Deploy bloccato dall\'analisi di sicurezza');
+    deployError = describeBlockingFindings(securityFindings);
+    deployStatus = 'blocked';
+  } else {
+    try {
+      // Deploy
+      console.log('[CREATE] Deploy su GitHub e Vercel...');
+      onProgress({ phase: 'github', message: 'Creazione repository e push su GitHub...' });
+      const githubResult = await createAndPushGitHubRepo(module.id, files, module.name, stackProfile);
+      repoUrl = githubResult.repoUrl;
+      onProgress({ phase: 'github', message: `Repository pronto: ${repoUrl}` });
+      // Estrai il nome del repository dall'URL (es: https://github.com/user/repo -> repo)
+      const repoNameFromUrl = repoUrl.split('/').pop()?.replace('.git', '') || `erp-app-${module.id.substring(0, 8)}`;
+      const repoName = repoNameFromUrl;
+
+      try {
+        // Deploy con auto-fix abilitato
+        deployUrl = await createVercelDeployment(repoName, repoUrl, module.id, {
+          enableAutoFix: true,
+          currentFiles: files,
+          originalPrompt: prompt,
+          llm,
+          onProgress,
+          onAutoFix: async (fixedFiles: Record<string, string>) => {
+            // Anche il codice corretto dall'auto-fix passa dall'analisi di sicurezza prima del push
+            const fixFindings = getBlockingFindings(scanGeneratedCode(fixedFiles));
+            if (fixFindings.length > 0 && !payload.securityOverride) {
+              throw new Error(describeBlockingFindings(fixFindings));
+            }
+
+            console.log('[CREATE] [AUTO-FIX] Applicazione fix su GitHub...');
+            autoFixApplied = true;
+
+            // Push fix su GitHub
+            const octokit = getGitHubClient();
+            const { data: userData } = await octokit.users.getAuthenticated();
+            const username = userData.login;
+
+            // Ottieni branch SHA (prova prima main, poi master)
+            let refData;
+            try {
+              refData = (await octokit.git.getRef({
+                owner: username,
+                repo: repoName,
+                ref: 'heads/main',
+              })).data;
+            } catch (error: any) {
+              if (error.status === 404) {
+                // Prova con master
+                refData = (await octokit.git.getRef({
+                  owner: username,
+                  repo: repoName,
+                  ref: 'heads/master',
+                })).data;
+              } else {
+                throw error;
+              }
+            }
+
+            const { data: commitData } = await octokit.git.getCommit({
+              owner: username,
+              repo: repoName,
+              commit_sha: refData.object.sha,
+            });
+
+            // Crea blobs per i file fixati
+            const baseFiles = getBaseFiles(locale, stackProfile, theme);
+            const allFixedFiles = { ...baseFiles, ...fixedFiles };
+            const blobShas: Record<string, string> = {};
+
+            for (const [path, content] of Object.entries(allFixedFiles)) {
+              const { data: blobData } = await octokit.git.createBlob({
+                owner: username,
+                repo: repoName,
+                content: Buffer.from(content).toString('base64'),
+                encoding: 'base64',
+              });
+              blobShas[path] = blobData.sha;
+            }
+
+            // Crea tree
+            const { data: treeData } = await octokit.git.createTree({
+              owner: username,
+              repo: repoName,
+              base_tree: commitData.tree.sha,
+              tree: Object.entries(allFixedFiles).map(([path]) => ({
+                path,
+                mode: '100644' as const,
+                type: 'blob' as const,
+                sha: blobShas[path],
+              })),
+            });
+
+            // Crea commit
+            const { data: commitResponse } = await octokit.git.createCommit({
+              owner: username,
+              repo: repoName,
+              message: 'Auto-fix: correzione errori di build',
+              tree: treeData.sha,
+              parents: [refData.object.sha],
+            });
+
+            // Aggiorna reference (usa lo stesso branch trovato prima)
+            const branchName = refData.ref.replace('refs/heads/', '');
+            await octokit.git.updateRef({
+              owner: username,
+              repo: repoName,
+              ref: `heads/${branchName}`,
+              sha: commitResponse.sha,
+            });
+
+            console.log('[CREATE] [AUTO-FIX] ✅ Fix pushato su GitHub, Vercel auto-deployerà...');
+
+            // Aggiorna files nel database (aggiorna l'ultima versione)
+            const { data: latestVersion } = await supabase
+              .from('module_versions')
+              .select('id')
+              .eq('module_id', module.id)
+              .order('version_number', { ascending: false })
+              .limit(1)
+              .single();
+
+            if (latestVersion) {
+              await supabase
+                .from('module_versions')
+                .update({ files: fixedFiles })
+                .eq('id', latestVersion.id);
+            }
+          },
+        });
+        console.log('[CREATE] ✅ Deployment Vercel completato:', deployUrl);
+      } catch (vercelError) {
+        console.error('[CREATE] ⚠️  Errore deployment Vercel:', vercelError);
+        deployError = vercelError instanceof Error ? vercelError.message : 'Errore sconosciuto durante deployment Vercel';
+        deployStatus = 'failed';
+        // Continua comunque - il modulo è creato e il repo GitHub è pushato
+        // L'utente può riprovare il deploy in seguito
+      }
+    } catch (error) {
+      console.error('[CREATE] ⚠️  Errore durante deploy:', error);
+      deployError = error instanceof Error ? error.message : 'Errore sconosciuto durante deploy';
+      deployStatus = 'failed';
+      // Continua comunque - il modulo è creato anche se il deploy fallisce
+    }
+  }
+
+  // Crea versione v1
+  onProgress({ phase: 'saving', message: 'Salvataggio versione v1...' });
+  const versionData: any = {
+    module_id: module.id,
+    version_number: 1,
+    prompt,
+    files,
+    github_repo_url: repoUrl,
+    status: deployStatus,
+    security_findings: securityFindings,
+    security_override: blockingFindings.length > 0 && !!payload.securityOverride,
+    stack_profile: stackProfile,
+    created_by: fallbackTemplate
+      ? `Creazione nuovo modulo (template ${fallbackTemplate.id})`
+      : fromSpec ? 'Creazione nuovo modulo (da spec)'
+      : payload.mode === 'multi-page' ? 'Creazione nuovo modulo (multi-pagina)' : 'Creazione nuovo modulo',
+  };
+
+  if (databaseSchema) {
+    versionData.database_schema = databaseSchema;
+  }
+
+  // Prima migration del modulo: lo schema completo (e la down migration che elimina le tabelle)
+  const migrationSql = renderSchemaSql(databaseSchema);
+  versionData.migration_sql = migrationSql;
+  versionData.migration_down_sql = migrationSql ? applyMigrationToSchema(null, migrationSql).downSql : '';
+
+  // Spec confermata dall'utente: le modifiche successive ripartono da qui
+  if (payload.spec) {
+    versionData.spec = payload.spec;
+  }
+
+  if (deployUrl) {
+    versionData.dev_deploy_url = deployUrl;
+  }
+
+  if (deployError) {
+    versionData.build_log = `Deployment error: ${deployError}`;
+  }
+
+  // Un retry del job dopo un crash può trovare la v1 già salvata: la sostituisce
+  const { data: version, error: versionError } = await supabase
+    .from('module_versions')
+    .upsert(versionData, { onConflict: 'module_id,version_number' })
+    .select()
+    .single();
+
+  if (versionError || !version) {
+    console.error('[CREATE] Errore creazione versione:', versionError);
+    return {
+      status: 500,
+      body: { success: false, error: versionError?.message || 'Errore creazione versione' },
+    };
+  }
+
+  await llm.linkVersion(version.id);
+
+  // Aggiorna modulo con dev_version_id
+  await supabase
+    .from('modules')
+    .update({
+      dev_version_id: version.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', module.id);
+
+  // Tabelle create nel database DEV (se configurato): un errore non blocca il modulo, resta nel risultato
+  let migrations: MigrationRunResult | null = null;
+  if (migrationSql) {
+    onProgress({ phase: 'migration', message: 'Applicazione migration nel database DEV...' });
+    migrations = await applyVersionMigrations(supabase, version, 'dev');
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      moduleId: module.id,
+      versionId: version.id,
+      devUrl: deployUrl || undefined,
+      repoUrl: repoUrl || undefined,
+      deployStatus: deployStatus,
+      autoFixApplied: autoFixApplied,
+      securityFindings,
+      ...(migrations && { migrations }),
+      ...(deployError && {
+        deployError,
+        warning: deployBlocked
+          ? 'Modulo creato ma non deployato: l\'analisi di sicurezza ha trovato problemi gravi.'
+          : autoFixApplied
+          ? 'Deployment fallito, ma auto-fix applicato. Vercel sta deployando la versione corretta...'
+          : 'Deployment Vercel fallito, ma modulo creato con successo. Puoi riprovare il deploy in seguito.'
+      }),
+    },
+  };
+}
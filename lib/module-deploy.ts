@@ -0,0 +1,481 @@
+import { getBaseFiles } from './code-generation';
+import { getGitHubClient } from './github-deploy';
+import { DEFAULT_LOCALE, getI18nDefaultLocale } from './locale';
+import { getVersionStackProfile, type StackProfileId } from './stack-profiles';
+import type { ProgressReporter } from './generation-progress';
+import { describeBlockingFindings, getBlockingFindings, scanGeneratedCode } from './security-scan';
+import { getVersionBusinessRules, renderBusinessRulesSql } from './business-rules';
+import { renderReferenceActions } from './ddl-parser';
+import { applyVersionMigrations, getPendingMigrationRisk } from './module-migrations';
+import { describeMigrationRisk, requiresMigrationConfirmation } from './migration-risk';
+import type { JobOutcome } from './jobs';
+import type { SupabaseClient } from './supabase/server';
+
+/**
+ * Promozione di una versione in STAGING o PRODUCTION (job 'module.deploy'):
+ * applica le migration in sospeso al database dell'ambiente (se fallisce la promozione si ferma; se sono
+ * distruttive o richiedono un backfill serve la conferma esplicita, con backup opzionale delle tabelle),
+ * copia la versione sorgente, pusha su GitHub, crea il deploy Vercel e genera la migration SQL per PROD.
+ */
+
+export interface DeployModulePayload {
+  moduleId: string;
+  environment: 'staging' | 'production';
+  // Deploy anche con risultati di sicurezza gravi (lib/security-scan.ts)
+  securityOverride?: boolean;
+  // Promozione anche con migration distruttive o da preparare con un backfill (lib/migration-risk.ts)
+  migrationRiskConfirmed?: boolean;
+  // Copia delle tabelle coinvolte prima di applicare le migration a rischio
+  backupTables?: boolean;
+}
+
+// Funzione helper per creare repo GitHub e deploy Vercel (semplificata)
+async function deployModuleVersion(
+  moduleId: string,
+  versionId: string,
+  files: Record<string, string>,
+  moduleName: string,
+  stackProfile: StackProfileId
+): Promise<{ repoUrl: string; deployUrl: string }> {
+  const octokit = getGitHubClient();
+  const repoName = `erp-module-${moduleId.substring(0, 8)}`;
+  
+  // Ottieni username GitHub
+  const { data: userData } = await octokit.users.getAuthenticated();
+  const username = userData.login;
+
+  // Crea repository
+  let repo;
+  try {
+    const createRepoResponse = await octokit.repos.createForAuthenticatedUser({
+      name: repoName,
+      private: true,
+      auto_init: true,
+      description: `ERP module: ${moduleName}`,
+    });
+    repo = createRepoResponse.data;
+  } catch (error: any) {
+    if (error.status === 422) {
+      // Repository già esistente, usa quello
+      const { data: existingRepo } = await octokit.repos.get({
+        owner: username,
+        repo: repoName,
+      });
+      repo = existingRepo;
+    } else {
+      throw error;
+    }
+  }
+
+  // Prepara file base (dal profilo di stack registrato sulla versione) + generati
+  const baseFiles = getBaseFiles(getI18nDefaultLocale(files) || DEFAULT_LOCALE, stackProfile);
+  baseFiles['package.json'] = JSON.stringify({ ...JSON.parse(baseFiles['package.json']), name: repoName }, null, 2);
+
+  const allFiles = { ...baseFiles, ...files };
+
+  // Push file su GitHub
+  const branchName = repo.default_branch || 'main';
+  const { data: refData } = await octokit.git.getRef({
+    owner: username,
+    repo: repoName,
+    ref: `heads/${branchName}`,
+  });
+
+  const { data: commitData } = await octokit.git.getCommit({
+    owner: username,
+    repo: repoName,
+    commit_sha: refData.object.sha,
+  });
+
+  const blobShas: Record<string, string> = {};
+  for (const [path, content] of Object.entries(allFiles)) {
+    const { data: blobData } = await octokit.git.createBlob({
+      owner: username,
+      repo: repoName,
+      content: Buffer.from(content as string).toString('base64'),
+      encoding: 'base64',
+    });
+    blobShas[path] = blobData.sha;
+  }
+
+  const { data: treeData } = await octokit.git.createTree({
+    owner: username,
+    repo: repoName,
+    base_tree: commitData.tree.sha,
+    tree: Object.entries(allFiles).map(([path]) => ({
+      path,
+      mode: '100644' as const,
+      type: 'blob' as const,
+      sha: blobShas[path],
+    })),
+  });
+
+  const { data: commitResponse } = await octokit.git.createCommit({
+    owner: username,
+    repo: repoName,
+    message: `Update module: ${moduleName}`,
+    tree: treeData.sha,
+    parents: [refData.object.sha],
+  });
+
+  await octokit.git.updateRef({
+    owner: username,
+    repo: repoName,
+    ref: `heads/${branchName}`,
+    sha: commitResponse.sha,
+  });
+
+  const repoUrl = repo.html_url;
+  const deployUrl = `https://${repoName}.vercel.app`;
+
+  // Deploy su Vercel
+  const vercelToken = process.env.VERCEL_TOKEN;
+  if (vercelToken) {
+    try {
+      const { data: repoData } = await octokit.rest.repos.get({
+        owner: username,
+        repo: repoName,
+      });
+      const repoId = repoData.id;
+
+      // Crea progetto Vercel
+      const projectResponse = await fetch('https://api.vercel.com/v9/projects', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${vercelToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: repoName,
+          framework: 'nextjs',
+          gitRepository: {
+            type: 'github',
+            repo: `${username}/${repoName}`,
+            repoId: repoId,
+          },
+          environmentVariables: [
+            {
+              key: 'NEXT_PUBLIC_SUPABASE_URL',
+              value: process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+              type: 'plain',
+              target: ['production', 'preview', 'development'],
+            },
+            {
+              key: 'NEXT_PUBLIC_SUPABASE_ANON_KEY',
+              value: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
+              type: 'plain',
+              target: ['production', 'preview', 'development'],
+            },
+          ],
+        }),
+      });
+
+      if (projectResponse.ok) {
+        const projectData = await projectResponse.json();
+        // Trigger deployment
+        await fetch('https://api.vercel.com/v13/deployments', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${vercelToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            name: repoName,
+            project: projectData.id,
+            target: 'production',
+            gitSource: {
+              type: 'github',
+              repoId: repoId,
+              ref: 'main',
+            },
+          }),
+        });
+      }
+    } catch (error) {
+      console.warn('[DEPLOY] Errore deploy Vercel:', error);
+    }
+  }
+
+  return { repoUrl, deployUrl };
+}
+
+// Genera migration SQL per PROD
+async function generateMigrationSQL(
+  module: any,
+  version: any,
+  supabase: SupabaseClient
+): Promise<string> {
+  try {
+    // Carica schema database dalla versione
+    const schema = version.database_schema || {};
+    
+    // Carica connessioni per foreign keys
+    const { data: connections } = await supabase
+      .from('module_connections')
+      .select('*')
+      .or(`from_module_id.eq.${module.id},to_module_id.eq.${module.id}`);
+
+    // Genera SQL basato su schema
+    const tables = schema.tables || [];
+    const sqlStatements: string[] = [];
+
+    for (const table of tables) {
+      const columns = table.columns || [];
+      const columnDefs = columns.map((col: any) => {
+        let def = `${col.name} ${col.type}`;
+        if (col.primaryKey) def += ' PRIMARY KEY';
+        if (col.notNull && !col.primaryKey) def += ' NOT NULL';
+        if (col.default) def += ` DEFAULT ${col.default}`;
+        if (Array.isArray(col.enumValues) && col.enumValues.length > 0) {
+          const values = col.enumValues.map((value: string) => `'${value.replace(/'/g, "''")}'`).join(', ');
+          def += ` CHECK (${col.name} IN (${values}))`;
+        }
+        return def;
+      }).join(',\n    ');
+
+      sqlStatements.push(`CREATE TABLE IF NOT EXISTS ${table.name} (
+    ${columnDefs}
+);`);
+
+      // Aggiungi foreign keys dalle connessioni
+      if (connections) {
+        for (const conn of connections) {
+          if (conn.connection_type === 'foreign_key' && conn.config) {
+            const config = typeof conn.config === 'string' ? JSON.parse(conn.config) : conn.config;
+            if (config.fromField && config.toField) {
+              sqlStatements.push(`ALTER TABLE ${table.name} 
+    ADD CONSTRAINT fk_${table.name}_${config.fromField} 
+    FOREIGN KEY (${config.fromField}) 
+    REFERENCES ${config.toTable || 'unknown'}(${config.toField});`);
+            }
+          }
+        }
+      }
+    }
+
+    // Foreign key interne al modulo (dopo tutte le CREATE TABLE, così l'ordine delle tabelle non conta)
+    for (const table of tables) {
+      for (const col of table.columns || []) {
+        if (col.references) {
+          sqlStatements.push(`ALTER TABLE ${table.name}
+    ADD CONSTRAINT fk_${table.name}_${col.name}
+    FOREIGN KEY (${col.name})
+    REFERENCES ${col.references.table}(${col.references.column})${renderReferenceActions(col.references)};`);
+        }
+      }
+    }
+
+    // Vincoli e indici registrati dalle migration delle modifiche (lib/ddl-parser.ts)
+    for (const table of tables) {
+      for (const constraint of table.constraints || []) {
+        const definition = constraint.type === 'unique'
+          ? `UNIQUE (${constraint.columns.join(', ')})`
+          : `CHECK (${constraint.expression})`;
+        sqlStatements.push(`ALTER TABLE ${table.name} DROP CONSTRAINT IF EXISTS ${constraint.name};
+ALTER TABLE ${table.name} ADD CONSTRAINT ${constraint.name} ${definition};`);
+      }
+      for (const index of table.indexes || []) {
+        sqlStatements.push(`CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS ${index.name} ON ${table.name} (${index.columns.join(', ')});`);
+      }
+    }
+
+    // Vincoli delle regole di business (dopo le foreign key: possono riguardare colonne di relazione)
+    const rulesSql = renderBusinessRulesSql(getVersionBusinessRules(version));
+    if (rulesSql) {
+      sqlStatements.push(rulesSql);
+    }
+
+    return sqlStatements.join('\n\n');
+  } catch (error) {
+    console.error('[DEPLOY] Errore generazione migration SQL:', error);
+    return '-- Migration SQL generation failed';
+  }
+}
+
+export async function runDeployModule(
+  supabase: SupabaseClient,
+  payload: DeployModulePayload,
+  onProgress: ProgressReporter
+): Promise<JobOutcome> {
+  const { moduleId, environment } = payload;
+
+  // Carica modulo
+  const { data: module, error: moduleError } = await supabase
+    .from('modules')
+    .select('*')
+    .eq('id', moduleId)
+    .single();
+
+  if (moduleError || !module) {
+    return { status: 404, body: { success: false, error: 'Modulo non trovato' } };
+  }
+
+  // Determina versione da deployare
+  const sourceVersionId = 
+    environment === 'production' ? module.staging_version_id :
+    module.dev_version_id;
+
+  if (!sourceVersionId) {
+    return {
+      status: 400,
+      body: { success: false, error: `Nessuna versione ${environment === 'production' ? 'staging' : 'dev'} disponibile per il deploy` },
+    };
+  }
+
+  // Carica versione
+  const { data: version, error: versionError } = await supabase
+    .from('module_versions')
+    .select('*')
+    .eq('id', sourceVersionId)
+    .single();
+
+  if (versionError || !version) {
+    return { status: 404, body: { success: false, error: 'Versione non trovata' } };
+  }
+
+  // Analisi di sicurezza: rieseguita sui file della versione (le versioni più vecchie possono non averla),
+  // con problemi gravi la promozione viene rifiutata prima di creare la nuova versione
+  onProgress({ phase: 'security', message: 'Analisi di sicurezza del codice...' });
+  const securityFindings = scanGeneratedCode(version.files || {});
+  const blockingFindings = getBlockingFindings(securityFindings);
+  if (blockingFindings.length > 0 && !payload.securityOverride) {
+    console.warn(`[DEPLOY] Deploy in ${environment} bloccato dall'analisi di sicurezza`);
+    return {
+      status: 422,
+      body: { success: false, error: describeBlockingFindings(securityFindings), securityFindings },
+    };
+  }
+
+  // Migration della versione sorgente nel database dell'ambiente, prima del deploy: l'app promossa
+  // trova già le tabelle aggiornate. Con un errore nulla viene applicato e la promozione si ferma
+  onProgress({ phase: 'migration', message: `Analisi delle migration per ${environment.toUpperCase()}...` });
+  const currentVersionId = environment === 'production' ? module.prod_version_id : module.staging_version_id;
+  const migrationRisk = await getPendingMigrationRisk(supabase, version, environment, currentVersionId || null);
+  const riskConfirmationRequired = requiresMigrationConfirmation(migrationRisk);
+  if (riskConfirmationRequired && !payload.migrationRiskConfirmed) {
+    console.warn(`[DEPLOY] Deploy in ${environment} in attesa di conferma: migration a rischio`);
+    return {
+      status: 422,
+      body: { success: false, error: describeMigrationRisk(migrationRisk), migrationRisk, confirmationRequired: true },
+    };
+  }
+
+  onProgress({ phase: 'migration', message: `Applicazione migration nel database ${environment.toUpperCase()}...` });
+  const migrations = await applyVersionMigrations(supabase, version, environment, {
+    backupTables: riskConfirmationRequired && payload.backupTables ? migrationRisk.tables : [],
+  });
+  if (migrations && !migrations.success) {
+    console.warn(`[DEPLOY] Deploy in ${environment} interrotto: migration fallita`);
+    return {
+      status: 422,
+      body: { success: false, error: `Migration non applicata in ${environment}: ${migrations.error}`, migrations },
+    };
+  }
+
+  // La promozione ricostruisce la versione con lo stesso profilo di stack con cui è stata generata
+  const stackProfile = getVersionStackProfile(version);
+
+  // Copia versione DEV corrente (crea nuova versione per l'ambiente target)
+  const { data: existingVersions } = await supabase
+    .from('module_versions')
+    .select('version_number')
+    .eq('module_id', moduleId)
+    .order('version_number', { ascending: false })
+    .limit(1);
+
+  const nextVersionNumber = existingVersions && existingVersions.length > 0
+    ? existingVersions[0].version_number + 1
+    : 1;
+
+  // Crea nuova versione copiando da DEV
+  const { data: newVersion, error: newVersionError } = await supabase
+    .from('module_versions')
+    .insert({
+      module_id: moduleId,
+      version_number: nextVersionNumber,
+      prompt: `Deploy to ${environment.toUpperCase()}: ${version.prompt || 'Deployment'}`,
+      files: version.files || {},
+      database_schema: version.database_schema || null,
+      spec: version.spec || null,
+      business_rules: getVersionBusinessRules(version),
+      security_findings: securityFindings,
+      security_override: blockingFindings.length > 0,
+      migration_risk_confirmed: riskConfirmationRequired,
+      stack_profile: stackProfile,
+      parent_version_id: sourceVersionId,
+      status: 'draft',
+      created_by: `Deploy to ${environment.toUpperCase()}`,
+    })
+    .select()
+    .single();
+
+  if (newVersionError || !newVersion) {
+    return {
+      status: 500,
+      body: { success: false, error: newVersionError?.message || 'Errore creazione versione' },
+    };
+  }
+
+  // Deploy (crea repo e push)
+  console.log(`[DEPLOY] Deploy versione ${newVersion.version_number} in ${environment}...`);
+  onProgress({ phase: 'github', message: `Deploy versione ${newVersion.version_number} in ${environment.toUpperCase()}...` });
+  const { repoUrl, deployUrl } = await deployModuleVersion(
+    moduleId,
+    newVersion.id,
+    newVersion.files || {},
+    module.name,
+    stackProfile
+  );
+
+  // Genera migration SQL se PROD
+  let migrationSql: string | null = null;
+  if (environment === 'production') {
+    console.log('[DEPLOY] Generazione migration SQL per PROD...');
+    onProgress({ phase: 'saving', message: 'Generazione migration SQL per PROD...' });
+    migrationSql = await generateMigrationSQL(module, newVersion, supabase);
+  }
+
+  // Aggiorna versione con deploy URLs
+  const deployUrlField = 
+    environment === 'production' ? 'prod_deploy_url' :
+    'staging_deploy_url';
+
+  const statusField = 
+    environment === 'production' ? 'deployed_prod' :
+    'deployed_staging';
+
+  await supabase
+    .from('module_versions')
+    .update({
+      [deployUrlField]: deployUrl,
+      github_repo_url: repoUrl,
+      status: statusField,
+    })
+    .eq('id', newVersion.id);
+
+  // Aggiorna puntatore versione nel modulo
+  const versionField = 
+    environment === 'production' ? 'prod_version_id' :
+    'staging_version_id';
+
+  await supabase
+    .from('modules')
+    .update({
+      [versionField]: newVersion.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', moduleId);
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      deployUrl,
+      migrationSql: migrationSql || undefined,
+      ...(migrations && { migrations }),
+      migrationRisk,
+      securityFindings,
+      message: `Modulo deployato in ${environment.toUpperCase()}`,
+    },
+  };
+}
@@ -0,0 +1,256 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { getBaseFiles } from './code-generation';
+import { createAndPushGitHubRepo, createVercelDeployment } from './github-deploy';
+import { WRITE_FILE_TOOL, parseStructuredResponse } from './structured-output';
+import { getLlmProvider, type LlmProvider } from './llm-provider';
+import { trackLlmUsage } from './llm-usage';
+import { getVersionStackProfile } from './stack-profiles';
+import { getVersionBusinessRules } from './business-rules';
+import { createOutputProgressReporter, type ProgressReporter } from './generation-progress';
+import {
+  getCatalogPath,
+  getI18nDefaultLocale,
+  getLanguageName,
+  parseCatalog,
+  stringifyCatalog,
+  withI18nFiles,
+  type Locale,
+} from './locale';
+import type { JobOutcome } from './jobs';
+import type { SupabaseClient } from './supabase/server';
+
+/**
+ * Aggiunta di una lingua a un modulo esistente (job 'module.translate'): traduce solo il catalogo
+ * dei messaggi della lingua di default e rigenera lib/i18n.ts. Il codice del modulo non cambia,
+ * quindi non serve rigenerare la logica; il risultato è una nuova versione deployata su DEV.
+ */
+
+export interface AddModuleLocalePayload {
+  moduleId: string;
+  locale: Locale;
+}
+
+// Tentativi totali: se la traduzione perde chiavi o segnaposto il modello la corregge una volta
+const MAX_TRANSLATION_ATTEMPTS = 2;
+
+const FORCE_WRITE_FILE: Anthropic.ToolChoiceTool = { type: 'tool', name: WRITE_FILE_TOOL.name };
+
+function getPlaceholders(text: string): string {
+  return [...text.matchAll(/\{(\w+)\}/g)].map(match => match[1]).sort().join(',');
+}
+
+// Errori della traduzione: chiavi mancanti o segnaposto diversi dall'originale
+function checkTranslation(source: Record<string, string>, translated: Record<string, string> | null): string[] {
+  if (!translated) {
+    return ['Il catalogo tradotto non è un oggetto JSON piatto con soli valori stringa'];
+  }
+  const errors: string[] = [];
+  for (const [key, text] of Object.entries(source)) {
+    if (!(key in translated)) {
+      errors.push(`Chiave mancante: ${key}`);
+    } else if (getPlaceholders(translated[key]) !== getPlaceholders(text)) {
+      errors.push(`Segnaposto diversi in ${key}: usa gli stessi segnaposto {...} del testo originale`);
+    }
+  }
+  return errors;
+}
+
+async function translateMessages(
+  messages: Record<string, string>,
+  from: Locale,
+  to: Locale,
+  llm: LlmProvider,
+  onProgress: ProgressReporter
+): Promise<Record<string, string>> {
+  const catalogPath = getCatalogPath(to);
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_TRANSLATION_ATTEMPTS; attempt++) {
+    console.log(`[LOCALE] Traduzione di ${Object.keys(messages).length} testi ${from} -> ${to} (tentativo ${attempt}/${MAX_TRANSLATION_ATTEMPTS})...`);
+    onProgress({ phase: 'prompting', message: `Traduzione dei testi in ${getLanguageName(to)} con ${llm.model}...`, attempt });
+
+    const retry = errors.length > 0
+      ? `\n\nLa traduzione precedente non era valida:\n${errors.map(error => `- ${error}`).join('\n')}\nCorreggi questi errori.`
+      : '';
+    const message = await llm.createMessage({
+      callType: 'translate',
+      maxTokens: 8000,
+      system: `Sei un traduttore di interfacce per gestionali ERP. Traduci i testi in modo conciso e coerente (lingua di partenza: ${getLanguageName(from)}, lingua di arrivo: ${getLanguageName(to)}).`,
+      tools: [WRITE_FILE_TOOL],
+      toolChoice: FORCE_WRITE_FILE,
+      messages: [{
+        role: 'user',
+        content: `Traduci questo catalogo di messaggi e scrivilo in ${catalogPath} con lo strumento ${WRITE_FILE_TOOL.name}.
+Mantieni le stesse chiavi e lascia invariati i segnaposto tra graffe (es: {field}). Rispondi solo con il JSON piatto "chiave": "testo".
+
+${stringifyCatalog(messages)}${retry}`,
+      }],
+      onOutputProgress: createOutputProgressReporter(onProgress),
+    });
+
+    const translated = parseCatalog(parseStructuredResponse(message).files[catalogPath]);
+    errors = checkTranslation(messages, translated);
+    if (translated && errors.length === 0) {
+      return Object.fromEntries(Object.keys(messages).map(key => [key, translated[key]]));
+    }
+    console.warn('[LOCALE] Traduzione non valida:', errors);
+  }
+
+  throw new Error(`Traduzione in ${getLanguageName(to)} non valida: ${errors.slice(0, 5).join('; ')}`);
+}
+
+export async function runAddModuleLocale(
+  supabase: SupabaseClient,
+  payload: AddModuleLocalePayload,
+  onProgress: ProgressReporter
+): Promise<JobOutcome> {
+  const { moduleId, locale } = payload;
+
+  const { data: module, error: moduleError } = await supabase
+    .from('modules')
+    .select('*')
+    .eq('id', moduleId)
+    .single();
+
+  if (moduleError || !module) {
+    return { status: 404, body: { success: false, error: 'Modulo non trovato' } };
+  }
+
+  if (!module.dev_version_id) {
+    return { status: 404, body: { success: false, error: 'Nessuna versione DEV da tradurre' } };
+  }
+
+  const { data: version } = await supabase
+    .from('module_versions')
+    .select('*')
+    .eq('id', module.dev_version_id)
+    .single();
+
+  if (!version) {
+    return { status: 404, body: { success: false, error: 'Versione DEV non trovata' } };
+  }
+
+  // Il catalogo della lingua di default è la sorgente della traduzione
+  const files: Record<string, string> = version.files || {};
+  const defaultLocale = getI18nDefaultLocale(files);
+  // La traduzione non cambia stack: la nuova versione mantiene il profilo della sorgente
+  const stackProfile = getVersionStackProfile(version);
+  const sourceCatalog = defaultLocale ? parseCatalog(files[getCatalogPath(defaultLocale)]) : null;
+  if (!defaultLocale || !sourceCatalog) {
+    return {
+      status: 400,
+      body: {
+        success: false,
+        error: 'Il modulo non usa i cataloghi dei messaggi (messages/*.json): rigeneralo per poter aggiungere lingue',
+      },
+    };
+  }
+
+  // Traduce solo le chiavi mancanti: i testi già tradotti (anche a mano) restano invariati
+  const targetPath = getCatalogPath(locale);
+  const existing = parseCatalog(files[targetPath]) || {};
+  const missing = Object.fromEntries(Object.entries(sourceCatalog).filter(([key]) => !(key in existing)));
+  if (locale === defaultLocale || Object.keys(missing).length === 0) {
+    return {
+      status: 200,
+      body: {
+        success: true,
+        versionId: version.id,
+        translatedKeys: 0,
+        message: `Il modulo ha già tutti i testi in ${getLanguageName(locale)}`,
+      },
+    };
+  }
+
+  const llm = trackLlmUsage(getLlmProvider(), supabase, { workspaceId: module.workspace_id, moduleId });
+  const translated = await translateMessages(missing, defaultLocale, locale, llm, onProgress);
+
+  // Stesso ordine di chiavi del catalogo sorgente, poi eventuali chiavi presenti solo nel catalogo tradotto
+  const catalog: Record<string, string> = {};
+  for (const key of Object.keys(sourceCatalog)) {
+    catalog[key] = existing[key] ?? translated[key];
+  }
+  const newFiles = withI18nFiles({ ...files, [targetPath]: stringifyCatalog({ ...catalog, ...existing }) }, defaultLocale);
+
+  const { data: existingVersions } = await supabase
+    .from('module_versions')
+    .select('version_number')
+    .eq('module_id', moduleId)
+    .order('version_number', { ascending: false })
+    .limit(1);
+
+  const nextVersionNumber = existingVersions && existingVersions.length > 0
+    ? existingVersions[0].version_number + 1
+    : 1;
+
+  onProgress({ phase: 'saving', message: `Salvataggio versione v${nextVersionNumber}...` });
+  const { data: newVersion, error: versionError } = await supabase
+    .from('module_versions')
+    .insert({
+      module_id: moduleId,
+      version_number: nextVersionNumber,
+      prompt: version.prompt,
+      files: newFiles,
+      database_schema: version.database_schema || null,
+      spec: version.spec || null,
+      business_rules: getVersionBusinessRules(version),
+      status: 'draft',
+      stack_profile: stackProfile,
+      parent_version_id: version.id,
+      created_by: `Aggiunta lingua: ${getLanguageName(locale)}`,
+    })
+    .select()
+    .single();
+
+  if (versionError || !newVersion) {
+    console.error('[LOCALE] Errore creazione versione:', versionError);
+    return {
+      status: 500,
+      body: { success: false, error: versionError?.message || 'Errore creazione versione' },
+    };
+  }
+
+  await llm.linkVersion(newVersion.id);
+
+  await supabase
+    .from('modules')
+    .update({
+      dev_version_id: newVersion.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', moduleId);
+
+  // Deploy su DEV
+  console.log('[LOCALE] Deploy su DEV...');
+  onProgress({ phase: 'github', message: 'Push dei cataloghi su GitHub...' });
+  let devUrl: string | undefined;
+  try {
+    const allFiles = { ...getBaseFiles(defaultLocale, stackProfile), ...newFiles };
+    const repoName = `erp-module-${moduleId.substring(0, 8)}`;
+    const { repoUrl } = await createAndPushGitHubRepo(moduleId, allFiles, module.name, stackProfile);
+    devUrl = await createVercelDeployment(repoName, repoUrl, moduleId, { onProgress });
+
+    await supabase
+      .from('module_versions')
+      .update({
+        dev_deploy_url: devUrl,
+        github_repo_url: repoUrl,
+      })
+      .eq('id', newVersion.id);
+  } catch (error) {
+    console.warn('[LOCALE] Errore deploy:', error);
+    // Continua comunque: la versione con il nuovo catalogo è salvata
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      version: newVersion,
+      versionId: newVersion.id,
+      devUrl,
+      translatedKeys: Object.keys(translated).length,
+      message: `Lingua ${getLanguageName(locale)} aggiunta al modulo`,
+    },
+  };
+}
@@ -0,0 +1,207 @@
+import { renderSchemaSql } from './ddl-parser';
+import { getVersionBusinessRules, renderBusinessRulesSql, type BusinessRule } from './business-rules';
+import { analyzeMigrationRisk, combineMigrationRisks, type MigrationRiskReport } from './migration-risk';
+import {
+  applyModuleMigrations,
+  getModuleDatabaseUrl,
+  planMigrations,
+  type MigrationEnvironment,
+  type MigrationPlan,
+  type MigrationRunResult,
+  type ModuleMigration,
+} from './migration-runner';
+import type { DatabaseSchema } from './supabase/schema';
+import type { SupabaseClient } from './supabase/server';
+
+/**
+ * Migration di una versione del modulo, ricostruite risalendo parent_version_id: ogni versione con
+ * migration_sql (creazione, modifiche, regole di business) contribuisce una migration, le copie
+ * (deploy, tema, lingue) nessuna. Le versioni precedenti al salvataggio delle migration sono coperte
+ * da una migration di base con lo schema completo (rieseguibile su tabelle già esistenti).
+ */
+
+interface VersionMigrationRow {
+  id: string;
+  module_id: string;
+  version_number: number;
+  parent_version_id: string | null;
+  database_schema: DatabaseSchema | null;
+  migration_sql: string | null;
+  migration_down_sql: string | null;
+  migration_risk: MigrationRiskReport | null;
+  business_rules: BusinessRule[] | null;
+}
+
+function hasTables(schema: DatabaseSchema | null | undefined): schema is DatabaseSchema {
+  return Array.isArray(schema?.tables) && schema.tables.length > 0;
+}
+
+// Versioni dalla prima alla versione indicata, risalendo parent_version_id
+async function loadVersionChain(
+  supabase: SupabaseClient,
+  version: { id: string; module_id: string }
+): Promise<VersionMigrationRow[]> {
+  const { data: versions, error } = await supabase
+    .from('module_versions')
+    .select('id, module_id, version_number, parent_version_id, database_schema, migration_sql, migration_down_sql, migration_risk, business_rules')
+    .eq('module_id', version.module_id);
+
+  if (error) {
+    throw new Error(`Errore caricamento versioni: ${error.message}`);
+  }
+
+  const byId = new Map((versions as VersionMigrationRow[] || []).map(row => [row.id, row]));
+  const chain: VersionMigrationRow[] = [];
+  for (let current = byId.get(version.id); current && !chain.includes(current); current = byId.get(current.parent_version_id || '')) {
+    chain.unshift(current);
+  }
+  if (chain.length === 0) {
+    throw new Error('Versione non trovata');
+  }
+  return chain;
+}
+
+function buildMigrations(chain: VersionMigrationRow[]): ModuleMigration[] {
+  const migrations: ModuleMigration[] = [];
+  const firstTracked = chain.findIndex(row => row.migration_sql !== null && row.migration_sql !== undefined);
+
+  // Migration di base: la versione più vecchia con lo schema dell'ultima versione non tracciata
+  // (le copie hanno lo schema della sorgente, così dev, staging e prod usano la stessa base)
+  if (firstTracked !== 0) {
+    let baselineIndex = firstTracked === -1 ? chain.length - 1 : firstTracked - 1;
+    const schema = JSON.stringify(chain[baselineIndex].database_schema);
+    while (baselineIndex > 0 && JSON.stringify(chain[baselineIndex - 1].database_schema) === schema) {
+      baselineIndex--;
+    }
+    const baseline = chain[baselineIndex];
+    if (hasTables(baseline.database_schema)) {
+      migrations.push({
+        name: `v${baseline.version_number}-base`,
+        versionId: baseline.id,
+        versionNumber: baseline.version_number,
+        upSql: renderSchemaSql(baseline.database_schema),
+        // Le tabelle possono esistere da prima del runner: la base non si annulla
+        downSql: '',
+        schemaBefore: null,
+      });
+    }
+  }
+
+  chain.forEach((row, index) => {
+    if (index < firstTracked || firstTracked === -1 || !row.migration_sql?.trim()) {
+      return;
+    }
+    migrations.push({
+      name: `v${row.version_number}`,
+      versionId: row.id,
+      versionNumber: row.version_number,
+      upSql: row.migration_sql,
+      downSql: row.migration_down_sql || '',
+      schemaBefore: index > 0 ? chain[index - 1].database_schema : null,
+    });
+  });
+
+  return migrations;
+}
+
+export async function getVersionMigrations(
+  supabase: SupabaseClient,
+  version: { id: string; module_id: string }
+): Promise<ModuleMigration[]> {
+  return buildMigrations(await loadVersionChain(supabase, version));
+}
+
+/**
+ * Rischio delle migration che la promozione della versione eseguirebbe nell'ambiente (lib/migration-risk.ts):
+ * quelle in sospeso nel database se configurato, altrimenti quelle assenti dalla versione attuale
+ * dell'ambiente (currentVersionId). Le migration di base riproducono lo schema esistente e non sono analizzate.
+ * Per le versioni salvate prima dell'analisi il report è calcolato dallo schema della versione padre.
+ * `unsaved` aggiunge in coda i report di migration non ancora salvate su una versione (la modifica in
+ * STAGING/PROD verifica il rischio prima di creare la nuova versione figlia di `version`).
+ */
+export async function getPendingMigrationRisk(
+  supabase: SupabaseClient,
+  version: { id: string; module_id: string },
+  environment: MigrationEnvironment,
+  currentVersionId: string | null,
+  unsaved: Array<{ migration: string; report: MigrationRiskReport }> = []
+): Promise<MigrationRiskReport> {
+  const chain = await loadVersionChain(supabase, version);
+  const migrations = buildMigrations(chain);
+
+  let pending: ModuleMigration[] | null = null;
+  const databaseUrl = getModuleDatabaseUrl(environment);
+  if (databaseUrl) {
+    try {
+      pending = (await planMigrations(databaseUrl, version.module_id, environment, migrations)).pending;
+    } catch (error) {
+      console.warn(`[MIGRATIONS] Storico ${environment} non disponibile, rischio calcolato dalle versioni:`, error);
+    }
+  }
+  if (!pending) {
+    const current = currentVersionId
+      ? new Set(buildMigrations(await loadVersionChain(supabase, { id: currentVersionId, module_id: version.module_id })).map(migration => migration.versionId))
+      : new Set<string>();
+    pending = migrations.filter(migration => !current.has(migration.versionId));
+  }
+
+  return combineMigrationRisks([
+    ...pending
+      .filter(migration => !migration.name.endsWith('-base'))
+      .map(migration => {
+        const index = chain.findIndex(row => row.id === migration.versionId);
+        const parent = index > 0 ? chain[index - 1] : null;
+        return {
+          migration: migration.name,
+          report: chain[index]?.migration_risk || analyzeMigrationRisk(migration.schemaBefore, migration.upSql, {
+            appliedSql: parent ? renderBusinessRulesSql(getVersionBusinessRules(parent)) : undefined,
+          }),
+        };
+      }),
+    ...unsaved,
+  ]);
+}
+
+/**
+ * Applica (o prova, con dryRun) le migration della versione nel database dell'ambiente.
+ * null se il database dell'ambiente non è configurato: le migration restano solo nel risultato dei job.
+ * Non lancia eccezioni: anche gli errori di connessione sono nel risultato (success false).
+ */
+export async function applyVersionMigrations(
+  supabase: SupabaseClient,
+  version: { id: string; module_id: string },
+  environment: MigrationEnvironment,
+  options: { dryRun?: boolean; backupTables?: string[] } = {}
+): Promise<MigrationRunResult | null> {
+  const databaseUrl = getModuleDatabaseUrl(environment);
+  if (!databaseUrl) {
+    console.warn(`[MIGRATIONS] Database ${environment} non configurato (MODULE_DATABASE_URL): migration non applicate`);
+    return null;
+  }
+  try {
+    const migrations = await getVersionMigrations(supabase, version);
+    return await applyModuleMigrations(databaseUrl, version.module_id, environment, migrations, options);
+  } catch (error) {
+    console.error(`[MIGRATIONS] Errore migration ${environment}:`, error);
+    return {
+      success: false,
+      environment,
+      dryRun: !!options.dryRun,
+      applied: [],
+      rolledBack: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export async function planVersionMigrations(
+  supabase: SupabaseClient,
+  version: { id: string; module_id: string },
+  environment: MigrationEnvironment
+): Promise<MigrationPlan | null> {
+  const databaseUrl = getModuleDatabaseUrl(environment);
+  if (!databaseUrl) {
+    return null;
+  }
+  return planMigrations(databaseUrl, version.module_id, environment, await getVersionMigrations(supabase, version));
+}
@@ -0,0 +1,631 @@
+import { validateAndFixCode, getBaseFiles } from './code-generation';
+import { createAndPushGitHubRepo, createVercelDeployment } from './github-deploy';
+import { FORCE_TOOL_USE, MODIFY_TOOLS, WRITE_FILE_TOOL, applyStructuredOutput, parseStructuredResponse } from './structured-output';
+import { applyFilePatches, type PatchFailure } from './file-patch';
+import { getLlmProvider, type LlmProvider } from './llm-provider';
+import { trackLlmUsage } from './llm-usage';
+import { createOutputProgressReporter, type ProgressReporter } from './generation-progress';
+import type { JobOutcome } from './jobs';
+import type { ModuleSpec } from './entity-spec';
+import { getDataLayerPromptInstructions, withDataLayer } from './data-layer';
+import { getThemePromptInstructions, loadWorkspaceTheme } from './theme';
+import { applyMigrationToSchema } from './ddl-parser';
+import {
+  RULES_MODULE_PATH,
+  getBusinessRulePromptInstructions,
+  getVersionBusinessRules,
+  normalizeBusinessRules,
+  renderBusinessRulesSql,
+  withBusinessRules,
+  type BusinessRule,
+} from './business-rules';
+import { applyDependencyUpdate, getDependencyPromptInstructions } from './dependency-policy';
+import { describeBlockingFindings, formatSecurityFinding, getBlockingFindings, scanGeneratedCode } from './security-scan';
+import { getI18nDefaultLocale, getI18nPromptInstructions, loadModuleLocale, withI18nFiles, type Locale } from './locale';
+import { applyStackProfile, getVersionStackProfile, loadModuleStackProfile } from './stack-profiles';
+import { applyVersionMigrations, getPendingMigrationRisk } from './module-migrations';
+import { analyzeMigrationRisk, combineMigrationRisks, describeMigrationRisk, requiresMigrationConfirmation } from './migration-risk';
+import type { MigrationRunResult } from './migration-runner';
+import type { SupabaseClient } from './supabase/server';
+
+/**
+ * Modifica iterativa di un modulo con AI (job 'module.modify'): prompt context-aware,
+ * validazione dei file modificati, nuova versione e deploy su DEV.
+ */
+
+export interface ModifyModulePayload {
+  moduleId: string;
+  prompt: string;
+  environment: 'dev' | 'staging' | 'prod';
+  // Deploy anche con risultati di sicurezza gravi (lib/security-scan.ts)
+  securityOverride?: boolean;
+  // Applica in STAGING/PROD anche migration distruttive o da preparare con un backfill (lib/migration-risk.ts)
+  migrationRiskConfirmed?: boolean;
+  // Copia delle tabelle coinvolte prima di applicare le migration a rischio
+  backupTables?: boolean;
+}
+
+// Tipi per context-aware prompt
+interface Module {
+  id: string;
+  name: string;
+  type: string | null;
+  schema?: any;
+}
+
+interface ModuleVersion {
+  version_number: number;
+  files: Record<string, string>;
+  database_schema: any | null;
+  spec: ModuleSpec | null;
+  business_rules: BusinessRule[];
+  created_by: string | null;
+}
+
+interface ConnectableModule extends Module {
+  connectionType: string;
+  schema?: any;
+}
+
+// Costruisci prompt context-aware
+function buildIterativePrompt(params: {
+  userRequest: string;
+  currentModule: Module;
+  currentVersion: ModuleVersion;
+  connectableModules: ConnectableModule[];
+  locale: Locale;
+}): string {
+  const { userRequest, currentModule, currentVersion, connectableModules, locale } = params;
+  const dataLayerInstructions = getDataLayerPromptInstructions(currentVersion.files);
+  const themeInstructions = getThemePromptInstructions(currentVersion.files);
+  const businessRuleInstructions = getBusinessRulePromptInstructions(currentVersion.files, currentVersion.business_rules);
+
+  return `
+SISTEMA: Assistente modifica ERP modulare
+
+WORKSPACE CONTEXT:
+- Modulo: ${currentModule.name}
+- Versione: ${currentVersion.version_number}
+- Ultima modifica: ${currentVersion.created_by || 'N/A'}
+
+CODICE ATTUALE:
+${JSON.stringify(currentVersion.files, null, 2)}
+
+SCHEMA DATABASE CORRENTE:
+${currentVersion.database_schema ? JSON.stringify(currentVersion.database_schema, null, 2) : 'Nessuno schema definito'}
+
+SPEC DEL MODULO (confermata dall'utente: entità, campi, validazioni e schermate da rispettare):
+${currentVersion.spec ? JSON.stringify(currentVersion.spec, null, 2) : 'Nessuna spec definita'}
+
+MODULI COLLEGABILI:
+${connectableModules.length > 0 ? connectableModules.map(m => `
+- ${m.name} (${m.type || 'N/A'})
+  Tipo connessione: ${m.connectionType}
+  Schema: ${m.schema ? JSON.stringify(m.schema, null, 2) : 'Nessuno schema disponibile'}
+  Disponibile per: foreign_key, api_call
+`).join('\n') : 'Nessun modulo collegabile'}
+
+RICHIESTA UTENTE:
+${userRequest}
+
+ISTRUZIONI CRITICHE:
+1. Modifica SOLO i file necessari (non tutto) - per i file esistenti usa edit_file (blocchi search/replace o diff unificato), write_file con il contenuto COMPLETO solo per file nuovi o da riscrivere del tutto
+2. Se la richiesta coinvolge altri moduli, usa le foreign key corrette
+3. Mantieni retrocompatibilità quando possibile
+4. Genera migration SQL se cambi schema database - usa lo strumento migration (DDL Postgres applicato allo SCHEMA DATABASE CORRENTE: solo tabelle e colonne esistenti o create nella stessa migration)
+5. Aggiungi validazioni business appropriate (es: sconto max 30%)${businessRuleInstructions ? ' con lo strumento set_business_rules' : ''}
+6. Tutti i tipi TypeScript devono essere completi
+7. Tutti i tag JSX devono essere chiusi
+8. Tutte le funzioni devono essere implementate completamente
+9. NON lasciare codice incompleto o placeholder
+
+${getI18nPromptInstructions(locale)}
+${dataLayerInstructions ? `\n${dataLayerInstructions}\n` : ''}${businessRuleInstructions ? `\n${businessRuleInstructions}\n` : ''}${themeInstructions ? `\n${themeInstructions}\n` : ''}
+${getDependencyPromptInstructions()}
+
+OUTPUT FORMAT (solo tramite strumenti):
+- edit_file: modifiche a un file esistente, una chiamata per file
+- write_file: un file nuovo (o da riscrivere completamente) per chiamata
+- delete_file: solo se un file va rimosso
+- migration: solo se cambi schema database
+- set_business_rules: solo se cambiano le regole di business (elenco completo)
+- update_dependencies: solo se servono pacchetti npm ammessi non ancora in package.json
+- explanation: breve spiegazione modifiche in italiano
+`;
+}
+
+// Fallback delle patch: chiede al modello i file COMPLETI per cui edit_file non si applica al contenuto attuale
+async function rewriteUnpatchedFiles(
+  llm: LlmProvider,
+  { prompt, failures, files, locale }: { prompt: string; failures: PatchFailure[]; files: Record<string, string>; locale: Locale },
+  onProgress: ProgressReporter
+): Promise<Record<string, string>> {
+  const paths = failures.map(failure => failure.path);
+  console.warn('[MODIFY] Patch non applicabili, richiesta dei file completi:', failures.map(f => `${f.path} (${f.reason})`).join('; '));
+  onProgress({ phase: 'fix', message: `${paths.length} modifiche non applicabili, riscrittura completa di ${paths.join(', ')}...` });
+
+  const message = await llm.createMessage({
+    callType: 'modify',
+    maxTokens: 16000,
+    tools: [WRITE_FILE_TOOL],
+    toolChoice: FORCE_TOOL_USE,
+    messages: [{
+      role: 'user',
+      content: `Le modifiche parziali per questa richiesta non si applicano al contenuto attuale dei file:
+${failures.map(failure => `- ${failure.path}: ${failure.reason}`).join('\n')}
+
+RICHIESTA UTENTE:
+${prompt}
+
+FILE ATTUALI:
+${paths.map(path => `=== ${path} ===\n${files[path] ?? '(file non esistente)'}`).join('\n\n')}
+
+${getI18nPromptInstructions(locale)}
+
+Riscrivi ciascuno di questi file COMPLETO con write_file (un file per chiamata), applicando la richiesta e mantenendo invariato il resto del codice.`,
+    }],
+  });
+
+  const rewritten = parseStructuredResponse(message).files;
+  return Object.fromEntries(Object.entries(rewritten).filter(([path]) => paths.includes(path)));
+}
+
+export async function runModifyModule(
+  supabase: SupabaseClient,
+  payload: ModifyModulePayload,
+  onProgress: ProgressReporter
+): Promise<JobOutcome> {
+  const { moduleId, prompt, environment } = payload;
+
+  // Carica modulo e versione corrente
+  const { data: module, error: moduleError } = await supabase
+    .from('modules')
+    .select('*')
+    .eq('id', moduleId)
+    .single();
+
+  if (moduleError || !module) {
+    return { status: 404, body: { success: false, error: 'Modulo non trovato' } };
+  }
+
+  const llm = trackLlmUsage(getLlmProvider(), supabase, { workspaceId: module.workspace_id, moduleId });
+
+  // Carica versione corrente basata su environment
+  const versionId = 
+    environment === 'prod' ? module.prod_version_id :
+    environment === 'staging' ? module.staging_version_id :
+    module.dev_version_id;
+
+  let currentFiles: Record<string, string> = {};
+  let currentPrompt = '';
+  let parentVersionId: string | null = null;
+  let currentVersion: any = null;
+
+  if (versionId) {
+    const { data: versionData } = await supabase
+      .from('module_versions')
+      .select('*')
+      .eq('id', versionId)
+      .single();
+
+    if (versionData) {
+      currentVersion = versionData;
+      // I moduli con schema ma senza data layer lo ricevono qui (lib/db.ts è sempre l'ultima versione)
+      currentFiles = withDataLayer(versionData.files || {}, versionData.database_schema);
+      currentPrompt = versionData.prompt || '';
+      parentVersionId = versionData.id;
+    }
+  }
+
+  // Lingua: quella già usata dai cataloghi del modulo, altrimenti quella impostata su modulo/workspace
+  const locale = getI18nDefaultLocale(currentFiles) || await loadModuleLocale(supabase, module);
+
+  // Profilo di stack impostato su modulo/workspace: se è cambiato rispetto alla versione corrente
+  // la nuova versione passa al nuovo profilo (dipendenze del profilo aggiornate in package.json)
+  const stackProfile = await loadModuleStackProfile(supabase, module);
+  if (currentVersion && getVersionStackProfile(currentVersion) !== stackProfile) {
+    console.log(`[MODIFY] Profilo di stack: ${getVersionStackProfile(currentVersion)} -> ${stackProfile}`);
+    currentFiles = applyStackProfile(currentFiles, stackProfile);
+  }
+
+  // Genera nuovo codice con AI usando context-aware prompt
+  console.log('[MODIFY] Generazione codice con AI (context-aware)...');
+  onProgress({ phase: 'prompting', message: `Modifica del codice con ${llm.model}...` });
+  
+  const systemPrompt = `Sei un esperto sviluppatore Next.js e TypeScript specializzato in sistemi ERP modulari.
+Genera codice COMPLETO, COMPILABILE e FUNZIONANTE.
+NON lasciare codice incompleto o placeholder.
+Tutti i tipi devono essere completi.
+Tutti i tag JSX devono essere chiusi.
+Tutte le funzioni devono essere implementate completamente.
+Rispetta le relazioni tra moduli e le foreign key esistenti.`;
+
+  // Carica moduli collegabili con schema completo
+  const { data: connectedModules } = await supabase
+    .from('module_connections')
+    .select(`
+      from_module_id,
+      to_module_id,
+      connection_type,
+      config
+    `)
+    .or(`from_module_id.eq.${moduleId},to_module_id.eq.${moduleId}`);
+
+  // Carica schema dei moduli collegabili
+  const connectableModules: ConnectableModule[] = [];
+  if (connectedModules) {
+    for (const conn of connectedModules) {
+      const connectedModuleId = conn.from_module_id === moduleId 
+        ? conn.to_module_id 
+        : conn.from_module_id;
+      
+      if (connectedModuleId && connectedModuleId !== moduleId) {
+        // Carica dati del modulo collegato
+        const { data: connectedModuleData } = await supabase
+          .from('modules')
+          .select('id, name, type, dev_version_id, staging_version_id, prod_version_id')
+          .eq('id', connectedModuleId)
+          .single();
+
+        if (connectedModuleData) {
+          const versionId = connectedModuleData.dev_version_id || 
+                           connectedModuleData.staging_version_id || 
+                           connectedModuleData.prod_version_id;
+
+          let schema = null;
+          if (versionId) {
+            const { data: versionData } = await supabase
+              .from('module_versions')
+              .select('database_schema')
+              .eq('id', versionId)
+              .single();
+            schema = versionData?.database_schema || null;
+          }
+
+          connectableModules.push({
+            id: connectedModuleId,
+            name: connectedModuleData.name || 'Unknown',
+            type: connectedModuleData.type || null,
+            connectionType: conn.connection_type,
+            schema: schema,
+          });
+        }
+      }
+    }
+  }
+
+  // Costruisci prompt context-aware
+  const userPrompt = buildIterativePrompt({
+    userRequest: prompt,
+    currentModule: {
+      id: module.id,
+      name: module.name,
+      type: module.type,
+    },
+    currentVersion: {
+      version_number: currentVersion?.version_number || 1,
+      files: currentFiles,
+      database_schema: currentVersion?.database_schema || null,
+      spec: currentVersion?.spec || null,
+      business_rules: getVersionBusinessRules(currentVersion),
+      created_by: currentVersion?.created_by || null,
+    },
+    connectableModules: connectableModules,
+    locale,
+  });
+
+  const message = await llm.createMessage({
+    callType: 'modify',
+    maxTokens: 16000,
+    system: systemPrompt,
+    tools: MODIFY_TOOLS,
+    toolChoice: FORCE_TOOL_USE,
+    messages: [{
+      role: 'user',
+      content: userPrompt,
+    }],
+    onOutputProgress: createOutputProgressReporter(onProgress),
+  });
+
+  onProgress({ phase: 'parsing', message: 'Lettura delle modifiche generate...' });
+
+  // Estrai files, migration e explanation dal response (fallback al formato testuale legacy)
+  const parsedResponse = parseStructuredResponse(message);
+  const modifiedFiles = parsedResponse.files;
+  
+  // Log explanation se presente
+  if (parsedResponse.explanation) {
+    console.log('[MODIFY] Spiegazione modifiche:', parsedResponse.explanation);
+  }
+  
+  // Log migration se presente
+  if (parsedResponse.migration) {
+    console.log('[MODIFY] Migration SQL generata:', parsedResponse.migration.substring(0, 100) + '...');
+  }
+
+  // La migration aggiorna lo schema della versione (lib/ddl-parser.ts); se tocca tabelle o colonne
+  // inesistenti viene rifiutata e la versione non viene creata
+  let updatedSchema = currentVersion?.database_schema || null;
+  let migrationNotes: string[] = [];
+  let migrationDownSql = '';
+  const externalTables = connectableModules.flatMap(m => (Array.isArray(m.schema?.tables) ? m.schema.tables : []));
+  if (parsedResponse.migration) {
+    const applied = applyMigrationToSchema(updatedSchema, parsedResponse.migration, { externalTables });
+    if (!applied.schema) {
+      console.warn('[MODIFY] Migration rifiutata:', applied.errors);
+      return {
+        status: 422,
+        body: {
+          success: false,
+          error: `Migration non applicabile allo schema corrente: ${applied.errors.join('; ')}`,
+          migrationErrors: applied.errors,
+          migrationSql: parsedResponse.migration,
+        },
+      };
+    }
+    updatedSchema = applied.schema;
+    migrationNotes = applied.notes;
+    migrationDownSql = applied.downSql;
+    console.log(`[MODIFY] Schema aggiornato dalla migration: ${applied.schema.tables.length} tabelle`);
+  }
+
+  if (
+    Object.keys(modifiedFiles).length === 0 &&
+    parsedResponse.deletedFiles.length === 0 &&
+    parsedResponse.patches.length === 0 &&
+    !parsedResponse.dependencyUpdate &&
+    !parsedResponse.businessRules
+  ) {
+    throw new Error('Nessun file generato dalla AI');
+  }
+
+  // Patch (edit_file) applicate al contenuto attuale; i file in conflitto vengono richiesti completi
+  const writtenFiles = applyStructuredOutput(currentFiles, parsedResponse);
+  const patchResult = applyFilePatches(writtenFiles, parsedResponse.patches);
+  const rewrittenFiles = patchResult.failed.length > 0
+    ? await rewriteUnpatchedFiles(llm, { prompt, failures: patchResult.failed, files: writtenFiles, locale }, onProgress)
+    : {};
+  const unresolvedPatches = patchResult.failed.filter(failure => !(failure.path in rewrittenFiles));
+  if (unresolvedPatches.length > 0) {
+    console.warn('[MODIFY] File non modificati (patch non applicabile):', unresolvedPatches.map(f => f.path).join(', '));
+  }
+
+  // Applica DIFF: unisci file modificati con file esistenti (lib/i18n.ts e lib/db.ts rigenerati);
+  // le dipendenze proposte, se ammesse, vengono unite al package.json della versione corrente
+  const dependencies = applyDependencyUpdate({ ...patchResult.files, ...rewrittenFiles }, parsedResponse.dependencyUpdate, stackProfile);
+  // Regole di business: l'elenco proposto sostituisce quello della versione se è valido per lo schema,
+  // altrimenti restano le regole precedenti e gli errori finiscono nella risposta
+  const previousRules = getVersionBusinessRules(currentVersion);
+  let businessRules = previousRules;
+  let businessRuleErrors: string[] = [];
+  if (parsedResponse.businessRules) {
+    const normalized = normalizeBusinessRules(parsedResponse.businessRules, updatedSchema);
+    if (normalized.rules) {
+      businessRules = normalized.rules;
+    } else {
+      businessRuleErrors = normalized.errors;
+      console.warn('[MODIFY] Regole di business proposte non valide, mantengo le precedenti:', normalized.errors);
+    }
+  }
+  const rulesChanged = JSON.stringify(businessRules) !== JSON.stringify(previousRules);
+
+  const files = withBusinessRules(
+    withDataLayer(
+      withI18nFiles(dependencies.files, locale),
+      updatedSchema
+    ),
+    businessRules
+  );
+  const changedFiles: string[] = [...new Set([
+    ...Object.keys(modifiedFiles),
+    ...patchResult.patched,
+    ...Object.keys(rewrittenFiles),
+    ...(rulesChanged && RULES_MODULE_PATH in files ? [RULES_MODULE_PATH] : []),
+  ])];
+  const deletedFiles = parsedResponse.deletedFiles;
+
+  if (changedFiles.length === 0 && deletedFiles.length === 0 && dependencies.accepted.length === 0 && !rulesChanged) {
+    throw new Error('Nessuna modifica applicabile ai file attuali');
+  }
+
+  console.log(`[MODIFY] File modificati: ${changedFiles.join(', ')}`);
+  if (deletedFiles.length > 0) {
+    console.log(`[MODIFY] File rimossi: ${deletedFiles.join(', ')}`);
+  }
+
+  // Valida sintassi solo sui file modificati
+  console.log('[MODIFY] Validazione sintassi sui file modificati...');
+  const modifiedFilesForValidation: Record<string, string> = {};
+  for (const path of changedFiles) {
+    if (files[path]) {
+      modifiedFilesForValidation[path] = files[path];
+    }
+  }
+  
+  // Usa validateAndFixCode dalla libreria condivisa (gli altri file servono solo a risolvere gli import)
+  const validated = await validateAndFixCode(modifiedFilesForValidation, prompt, llm, 1, undefined, files, onProgress);
+  if (validated.success) {
+    // Applica fix
+    for (const [path, content] of Object.entries(validated.files)) {
+      files[path] = content;
+    }
+  } else {
+    console.warn('[MODIFY] Validazione fallita, continua comunque');
+  }
+
+  // Analisi di sicurezza sull'intera app (il deploy pusha tutti i file, non solo quelli modificati)
+  onProgress({ phase: 'security', message: 'Analisi di sicurezza del codice...' });
+  const securityFindings = scanGeneratedCode(files);
+  const blockingFindings = getBlockingFindings(securityFindings);
+  if (securityFindings.length > 0) {
+    console.warn('[MODIFY] Risultati analisi di sicurezza:', securityFindings.map(formatSecurityFinding));
+  }
+  const deployBlocked = blockingFindings.length > 0 && !payload.securityOverride;
+
+  // Determina numero versione
+  const { data: existingVersions } = await supabase
+    .from('module_versions')
+    .select('version_number')
+    .eq('module_id', moduleId)
+    .order('version_number', { ascending: false })
+    .limit(1);
+
+  const nextVersionNumber = existingVersions && existingVersions.length > 0
+    ? existingVersions[0].version_number + 1
+    : 1;
+
+  // I vincoli delle regole cambiate si applicano con la migration della modifica
+  const rulesSql = rulesChanged ? renderBusinessRulesSql(businessRules, previousRules) : '';
+  const migrationSql = [parsedResponse.migration, rulesSql].filter(Boolean).join('\n\n');
+  // Rollback: prima la migration del modello (le colonne tornano come prima), poi le regole precedenti
+  const rulesDownSql = rulesChanged ? renderBusinessRulesSql(previousRules, businessRules) : '';
+  migrationDownSql = [migrationDownSql, rulesDownSql].filter(Boolean).join('\n\n');
+  // Classificazione degli statement (sicuri, da preparare con un backfill, distruttivi), mostrata nella chat:
+  // i vincoli delle regole precedenti sono già nel database, ricrearli uguali non è un rischio
+  const migrationRisk = migrationSql
+    ? analyzeMigrationRisk(currentVersion?.database_schema, migrationSql, { externalTables, appliedSql: renderBusinessRulesSql(previousRules) })
+    : null;
+  if (requiresMigrationConfirmation(migrationRisk)) {
+    console.warn(`[MODIFY] Migration a rischio (${migrationRisk!.level}):`, migrationRisk!.statements.flatMap(statement => statement.reasons));
+  }
+
+  // In STAGING/PROD le migration a rischio (quelle già in sospeso nell'ambiente più quella della modifica)
+  // vanno confermate prima di salvare la versione: senza conferma non si crea una versione che nessuno può attivare
+  const migrationEnvironment = environment === 'prod' ? 'production' : environment;
+  const newMigrations = migrationRisk ? [{ migration: `v${nextVersionNumber}`, report: migrationRisk }] : [];
+  const pendingRisk = migrationSql && migrationEnvironment !== 'dev'
+    ? parentVersionId
+      ? await getPendingMigrationRisk(supabase, { id: parentVersionId, module_id: moduleId }, migrationEnvironment, parentVersionId, newMigrations)
+      : combineMigrationRisks(newMigrations)
+    : null;
+  const riskConfirmationRequired = requiresMigrationConfirmation(pendingRisk);
+  if (riskConfirmationRequired && !payload.migrationRiskConfirmed) {
+    console.warn(`[MODIFY] Modifica in ${environment} non salvata: migration a rischio da confermare`);
+    return {
+      status: 422,
+      body: {
+        success: false,
+        error: describeMigrationRisk(pendingRisk!),
+        migrationRisk: pendingRisk,
+        confirmationRequired: true,
+      },
+    };
+  }
+
+  // Crea nuova versione
+  onProgress({ phase: 'saving', message: `Salvataggio versione v${nextVersionNumber}...` });
+  const { data: newVersion, error: versionError } = await supabase
+    .from('module_versions')
+    .insert({
+      module_id: moduleId,
+      version_number: nextVersionNumber,
+      prompt: prompt,
+      files: files,
+      database_schema: updatedSchema,
+      spec: currentVersion?.spec || null,
+      business_rules: businessRules,
+      migration_sql: migrationSql,
+      migration_down_sql: migrationDownSql,
+      migration_risk: migrationRisk,
+      migration_risk_confirmed: riskConfirmationRequired,
+      status: deployBlocked ? 'blocked' : 'draft',
+      security_findings: securityFindings,
+      security_override: blockingFindings.length > 0 && !!payload.securityOverride,
+      stack_profile: stackProfile,
+      parent_version_id: parentVersionId,
+      created_by: `Modifica iterativa in ${environment}${parsedResponse.explanation ? ': ' + parsedResponse.explanation.substring(0, 50) : ''}`,
+    })
+    .select()
+    .single();
+
+  if (versionError || !newVersion) {
+    console.error('[MODIFY] Errore creazione versione:', versionError);
+    return {
+      status: 500,
+      body: { success: false, error: versionError?.message || 'Errore creazione versione' },
+    };
+  }
+
+  await llm.linkVersion(newVersion.id);
+
+  // Aggiorna puntatore versione attiva nel modulo
+  const updateField = 
+    environment === 'prod' ? 'prod_version_id' :
+    environment === 'staging' ? 'staging_version_id' :
+    'dev_version_id';
+
+  await supabase
+    .from('modules')
+    .update({
+      [updateField]: newVersion.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', moduleId);
+
+  // Migration applicate nel database dell'ambiente (se configurato): un errore non annulla la versione,
+  // resta nel risultato e le migration restano in sospeso per la prossima promozione
+  let migrations: MigrationRunResult | null = null;
+  if (migrationSql) {
+    onProgress({ phase: 'migration', message: `Applicazione migration v${nextVersionNumber} nel database ${environment.toUpperCase()}...` });
+    migrations = await applyVersionMigrations(supabase, newVersion, migrationEnvironment, {
+      backupTables: pendingRisk && payload.backupTables ? pendingRisk.tables : [],
+    });
+  }
+
+  // Deploy su DEV (saltato se l'analisi di sicurezza ha trovato problemi gravi)
+  let devUrl: string | undefined;
+  if (deployBlocked) {
+    console.warn('[MODIFY] Deploy bloccato dall\'analisi di sicurezza');
+  } else {
+    try {
+      console.log('[MODIFY] Deploy su DEV...');
+      onProgress({ phase: 'github', message: 'Push delle modifiche su GitHub...' });
+      // Aggiungi file base (con il tema del workspace, come la riapplicazione del tema)
+      const theme = await loadWorkspaceTheme(supabase, module.workspace_id);
+      const baseFiles = getBaseFiles(locale, stackProfile, theme);
+      const allFiles = { ...baseFiles, ...files };
+      
+      const repoName = `erp-module-${moduleId.substring(0, 8)}`;
+      const { repoUrl } = await createAndPushGitHubRepo(moduleId, allFiles, module.name, stackProfile);
+      const deployUrl = await createVercelDeployment(repoName, repoUrl, moduleId, { onProgress });
+      devUrl = deployUrl;
+      
+      // Aggiorna versione con deploy URL
+      await supabase
+        .from('module_versions')
+        .update({
+          dev_deploy_url: deployUrl,
+          github_repo_url: repoUrl,
+        })
+        .eq('id', newVersion.id);
+    } catch (error) {
+      console.warn('[MODIFY] Errore deploy:', error);
+      // Continua comunque
+    }
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      version: newVersion,
+      versionId: newVersion.id,
+      devUrl: devUrl || undefined,
+      changedFiles,
+      deletedFiles,
+      patchedFiles: patchResult.patched,
+      ...(patchResult.failed.length > 0 && { patchFailures: patchResult.failed, unresolvedPatches }),
+      dependencies: { accepted: dependencies.accepted, rejected: dependencies.rejected },
+      migrationSql: migrationSql || undefined,
+      ...(migrationNotes.length > 0 && { migrationNotes }),
+      ...(migrations && { migrations }),
+      ...(migrationRisk && { migrationRisk }),
+      businessRules,
+      ...(businessRuleErrors.length > 0 && { businessRuleErrors }),
+      explanation: parsedResponse.explanation || undefined,
+      securityFindings,
+      ...(deployBlocked && { deployBlocked, warning: describeBlockingFindings(securityFindings) }),
+      message: 'Modulo modificato con successo',
+    },
+  };
+}
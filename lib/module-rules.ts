@@ -0,0 +1,174 @@
+import { getBaseFiles } from './code-generation';
+import { createAndPushGitHubRepo, createVercelDeployment } from './github-deploy';
+import { DEFAULT_LOCALE, getI18nDefaultLocale } from './locale';
+import { getVersionStackProfile } from './stack-profiles';
+import { getVersionBusinessRules, normalizeBusinessRules, renderBusinessRulesSql, withBusinessRules } from './business-rules';
+import { applyVersionMigrations } from './module-migrations';
+import { analyzeMigrationRisk } from './migration-risk';
+import type { ProgressReporter } from './generation-progress';
+import type { JobOutcome } from './jobs';
+import type { SupabaseClient } from './supabase/server';
+
+/**
+ * Modifica delle regole di business di un modulo senza nuovo prompt (job 'module.rules', accodato da
+ * PUT /api/modules/[moduleId]/rules). Le regole sostituiscono quelle della versione DEV, lib/rules.ts
+ * viene rigenerato e la nuova versione ridistribuita: nessuna chiamata LLM. La migration con i vincoli
+ * SQL è salvata sulla versione e applicata al database DEV, come per le modifiche iterative.
+ */
+
+export interface UpdateModuleRulesPayload {
+  moduleId: string;
+  // Elenco completo delle regole (già validato dalla route, rivalidato sullo schema della versione DEV attuale)
+  rules: unknown;
+}
+
+export async function runUpdateModuleRules(
+  supabase: SupabaseClient,
+  payload: UpdateModuleRulesPayload,
+  onProgress: ProgressReporter
+): Promise<JobOutcome> {
+  const { moduleId } = payload;
+
+  const { data: module, error: moduleError } = await supabase
+    .from('modules')
+    .select('*')
+    .eq('id', moduleId)
+    .single();
+
+  if (moduleError || !module) {
+    return { status: 404, body: { success: false, error: 'Modulo non trovato' } };
+  }
+
+  if (!module.dev_version_id) {
+    return { status: 404, body: { success: false, error: 'Nessuna versione DEV a cui applicare le regole' } };
+  }
+
+  const { data: version } = await supabase
+    .from('module_versions')
+    .select('*')
+    .eq('id', module.dev_version_id)
+    .single();
+
+  if (!version) {
+    return { status: 404, body: { success: false, error: 'Versione DEV non trovata' } };
+  }
+
+  // Lo schema può essere cambiato dopo l'accodamento: le regole si validano sulla versione attuale
+  const normalized = normalizeBusinessRules(payload.rules, version.database_schema);
+  if (!normalized.rules) {
+    return { status: 400, body: { success: false, error: 'Regole non valide', errors: normalized.errors } };
+  }
+  const rules = normalized.rules;
+  const previousRules = getVersionBusinessRules(version);
+  if (JSON.stringify(rules) === JSON.stringify(previousRules)) {
+    return {
+      status: 200,
+      body: { success: true, versionId: version.id, businessRules: rules, message: 'Le regole del modulo sono già aggiornate' },
+    };
+  }
+
+  const newFiles = withBusinessRules(version.files || {}, rules);
+  const stackProfile = getVersionStackProfile(version);
+  // Una versione bloccata dall'analisi di sicurezza riceve le regole ma resta senza deploy
+  const deployBlocked = version.status === 'blocked';
+  const migrationSql = renderBusinessRulesSql(rules, previousRules);
+  const migrationDownSql = renderBusinessRulesSql(previousRules, rules);
+  // Vincoli nuovi o cambiati su tabelle con dati: richiedono conferma alla promozione (lib/migration-risk.ts)
+  const migrationRisk = analyzeMigrationRisk(version.database_schema, migrationSql, { appliedSql: renderBusinessRulesSql(previousRules) });
+
+  const { data: existingVersions } = await supabase
+    .from('module_versions')
+    .select('version_number')
+    .eq('module_id', moduleId)
+    .order('version_number', { ascending: false })
+    .limit(1);
+
+  const nextVersionNumber = existingVersions && existingVersions.length > 0
+    ? existingVersions[0].version_number + 1
+    : 1;
+
+  onProgress({ phase: 'saving', message: `Salvataggio versione v${nextVersionNumber} con le nuove regole...` });
+  const { data: newVersion, error: versionError } = await supabase
+    .from('module_versions')
+    .insert({
+      module_id: moduleId,
+      version_number: nextVersionNumber,
+      prompt: version.prompt,
+      files: newFiles,
+      database_schema: version.database_schema || null,
+      spec: version.spec || null,
+      business_rules: rules,
+      migration_sql: migrationSql,
+      migration_down_sql: migrationDownSql,
+      migration_risk: migrationRisk,
+      status: deployBlocked ? 'blocked' : 'draft',
+      security_findings: version.security_findings || [],
+      security_override: version.security_override || false,
+      stack_profile: stackProfile,
+      parent_version_id: version.id,
+      created_by: `Aggiornamento regole di business (${rules.length})`,
+    })
+    .select()
+    .single();
+
+  if (versionError || !newVersion) {
+    console.error('[RULES] Errore creazione versione:', versionError);
+    return {
+      status: 500,
+      body: { success: false, error: versionError?.message || 'Errore creazione versione' },
+    };
+  }
+
+  await supabase
+    .from('modules')
+    .update({
+      dev_version_id: newVersion.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', moduleId);
+
+  onProgress({ phase: 'migration', message: 'Applicazione dei vincoli nel database DEV...' });
+  const migrations = await applyVersionMigrations(supabase, newVersion, 'dev');
+
+  // Deploy su DEV
+  let devUrl: string | undefined;
+  if (deployBlocked) {
+    console.warn(`[RULES] Deploy di ${module.name} saltato: versione bloccata dall'analisi di sicurezza`);
+  } else {
+    try {
+      console.log(`[RULES] Deploy su DEV di ${module.name}...`);
+      onProgress({ phase: 'github', message: 'Push delle regole su GitHub...' });
+      const allFiles = { ...getBaseFiles(getI18nDefaultLocale(newFiles) || DEFAULT_LOCALE, stackProfile), ...newFiles };
+      const repoName = `erp-module-${moduleId.substring(0, 8)}`;
+      const { repoUrl } = await createAndPushGitHubRepo(moduleId, allFiles, module.name, stackProfile);
+      devUrl = await createVercelDeployment(repoName, repoUrl, moduleId, { onProgress });
+
+      await supabase
+        .from('module_versions')
+        .update({
+          dev_deploy_url: devUrl,
+          github_repo_url: repoUrl,
+        })
+        .eq('id', newVersion.id);
+    } catch (error) {
+      console.warn('[RULES] Errore deploy:', error);
+      // Continua comunque: la versione con le nuove regole è salvata
+    }
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      version: newVersion,
+      versionId: newVersion.id,
+      devUrl,
+      businessRules: rules,
+      migrationSql,
+      migrationRisk,
+      ...(migrations && { migrations }),
+      ...(deployBlocked && { deployBlocked }),
+      message: `Regole di business di ${module.name} aggiornate`,
+    },
+  };
+}
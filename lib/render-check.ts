@@ -0,0 +1,379 @@
+import { createRequire } from 'module';
+import * as nodePath from 'path';
+import * as vm from 'vm';
+import type * as esbuild from 'esbuild';
+import type { ValidationError } from './code-generation';
+
+/**
+ * Smoke test di render server-side delle pagine generate (app/**\/page.tsx).
+ * Ogni pagina viene bundlata con esbuild a partire dalla mappa path -> contenuto, con i moduli
+ * Next/Supabase/framer-motion sostituiti da stub runtime, ed eseguita in un contesto VM isolato;
+ * poi viene renderizzata con react-dom/server. Gli errori lanciati durante il render
+ * (es: `.map` su undefined, `window` usato nel render) diventano errori di validazione,
+ * così validateAndFixCode li può correggere prima del push su GitHub.
+ * Pagine che importano pacchetti senza stub non vengono verificate (nessun errore riportato).
+ */
+
+const PAGE_PATTERN = /^app\/(?:.+\/)?page\.(tsx|jsx|ts|js)$/;
+const RESOLVE_SUFFIXES = ['', '.tsx', '.ts', '.jsx', '.js', '.json', '/index.tsx', '/index.ts', '/index.jsx', '/index.js'];
+const ASSET_PATTERN = /\.(svg|png|jpe?g|gif|webp|ico)$/;
+
+// Tempo massimo per esecuzione del modulo, chiamata della pagina async e render
+const RENDER_TIMEOUT_MS = 3000;
+
+// Prefisso dell'errore di build per i pacchetti senza stub (la pagina viene saltata)
+const UNSUPPORTED_PACKAGE = 'Pacchetto senza stub runtime: ';
+
+// Pacchetti reali passati alla VM: la pagina e react-dom/server devono usare la stessa istanza di React
+const HOST_MODULES = new Set(['react', 'react/jsx-runtime', 'react/jsx-dev-runtime', 'react-dom']);
+
+// Errori che non indicano un crash: redirect()/notFound() di Next e componenti async annidati,
+// che renderToString non supporta (il render reale avviene con i React Server Components)
+const INCONCLUSIVE_ERROR_PATTERN = /^NEXT_(REDIRECT|NOT_FOUND)|suspended while responding to synchronous input|async\/await is not yet supported|\[object Promise\]/;
+
+const NEXT_LINK_STUB = `
+const React = require('react');
+module.exports = function Link({ href, children, prefetch, replace, scroll, ...props }) {
+  return React.createElement('a', { ...props, href: typeof href === 'string' ? href : (href && href.pathname) || '#' }, children);
+};
+`;
+
+const NEXT_NAVIGATION_STUB = `
+const router = { push() {}, replace() {}, back() {}, forward() {}, refresh() {}, prefetch() {} };
+function control(kind, detail) {
+  const error = new Error('NEXT_' + kind + (detail ? ' ' + detail : ''));
+  error.digest = 'NEXT_' + kind;
+  throw error;
+}
+exports.useRouter = () => router;
+exports.usePathname = () => globalThis.__renderCheck.pathname;
+exports.useSearchParams = () => new URLSearchParams();
+exports.useParams = () => globalThis.__renderCheck.params;
+exports.redirect = (url) => control('REDIRECT', url);
+exports.permanentRedirect = (url) => control('REDIRECT', url);
+exports.notFound = () => control('NOT_FOUND');
+`;
+
+const NEXT_IMAGE_STUB = `
+const React = require('react');
+module.exports = function Image({ src, alt, fill, priority, quality, placeholder, ...props }) {
+  return React.createElement('img', { ...props, src: typeof src === 'string' ? src : '', alt });
+};
+`;
+
+const NEXT_FONT_GOOGLE_STUB = `
+const font = () => ({ className: 'font', variable: '--font', style: { fontFamily: 'sans-serif' } });
+for (const name of ['Geist', 'Geist_Mono', 'Inter', 'Roboto', 'Roboto_Mono', 'Open_Sans', 'Lato', 'Montserrat', 'Poppins']) {
+  exports[name] = font;
+}
+`;
+
+// Client Supabase senza rete: ogni query risolve con una lista vuota
+const SUPABASE_STUB = `
+const emptyResult = { data: [], error: null, count: 0 };
+const emptySingle = { data: null, error: null };
+function createQuery() {
+  const query = new Proxy({}, {
+    get(target, key) {
+      if (key === 'then') {
+        return (resolve, reject) => Promise.resolve(emptyResult).then(resolve, reject);
+      }
+      if (key === 'single' || key === 'maybeSingle') {
+        return () => Promise.resolve(emptySingle);
+      }
+      return () => query;
+    },
+  });
+  return query;
+}
+const channel = { on() { return channel; }, subscribe() { return channel; }, unsubscribe() {} };
+exports.createClient = () => ({
+  from: () => createQuery(),
+  rpc: () => createQuery(),
+  channel: () => channel,
+  removeChannel() {},
+  auth: {
+    getUser: async () => ({ data: { user: null }, error: null }),
+    getSession: async () => ({ data: { session: null }, error: null }),
+    onAuthStateChange: () => ({ data: { subscription: { unsubscribe() {} } } }),
+    signOut: async () => ({ error: null }),
+  },
+});
+`;
+
+// motion.<tag> rende il tag HTML senza le prop di animazione
+const FRAMER_MOTION_STUB = `
+const React = require('react');
+const MOTION_PROPS = new Set(['initial', 'animate', 'exit', 'transition', 'variants', 'whileHover', 'whileTap',
+  'whileInView', 'whileFocus', 'whileDrag', 'layout', 'layoutId', 'drag', 'dragConstraints', 'viewport',
+  'onAnimationStart', 'onAnimationComplete']);
+const components = {};
+exports.motion = new Proxy({}, {
+  get(target, tag) {
+    if (typeof tag !== 'string') return undefined;
+    if (!components[tag]) {
+      components[tag] = React.forwardRef(function MotionComponent(props, ref) {
+        const domProps = {};
+        for (const key of Object.keys(props)) {
+          if (!MOTION_PROPS.has(key)) domProps[key] = props[key];
+        }
+        return React.createElement(tag, { ...domProps, ref });
+      });
+    }
+    return components[tag];
+  },
+});
+exports.AnimatePresence = ({ children }) => React.createElement(React.Fragment, null, children);
+exports.useAnimation = () => ({ start: async () => {}, stop() {}, set() {} });
+exports.useInView = () => false;
+exports.useReducedMotion = () => false;
+`;
+
+const RUNTIME_STUBS: Record<string, string> = {
+  'next/link': NEXT_LINK_STUB,
+  'next/navigation': NEXT_NAVIGATION_STUB,
+  'next/image': NEXT_IMAGE_STUB,
+  'next/font/google': NEXT_FONT_GOOGLE_STUB,
+  '@supabase/supabase-js': SUPABASE_STUB,
+  'framer-motion': FRAMER_MOTION_STUB,
+};
+
+// Variabili d'ambiente viste dalle pagine durante il render
+const RENDER_ENV: Record<string, string> = {
+  NODE_ENV: 'production',
+  NEXT_PUBLIC_SUPABASE_URL: 'https://render-check.supabase.co',
+  NEXT_PUBLIC_SUPABASE_ANON_KEY: 'render-check-anon-key',
+};
+
+interface HostModules {
+  require: NodeRequire;
+  react: typeof import('react');
+  server: typeof import('react-dom/server');
+}
+
+let hostModules: HostModules | null = null;
+
+// React e react-dom/server vengono caricati da node_modules con un require a runtime:
+// così il bundler di Next non li sostituisce con la build react-server delle route
+function loadHostModules(): HostModules {
+  if (!hostModules) {
+    const nodeRequire = createRequire(nodePath.join(process.cwd(), 'package.json'));
+    hostModules = {
+      require: nodeRequire,
+      react: nodeRequire('react'),
+      server: nodeRequire('react-dom/server'),
+    };
+  }
+  return hostModules;
+}
+
+function resolveProjectPath(basePath: string, allFiles: Record<string, string>): string | null {
+  const normalized = nodePath.posix.normalize(basePath);
+  for (const suffix of RESOLVE_SUFFIXES) {
+    if (allFiles[normalized + suffix] !== undefined) {
+      return normalized + suffix;
+    }
+  }
+  return null;
+}
+
+function getLoader(path: string): esbuild.Loader {
+  const extension = nodePath.posix.extname(path).substring(1);
+  return (['tsx', 'ts', 'jsx', 'js', 'json'].includes(extension) ? extension : 'text') as esbuild.Loader;
+}
+
+// Risolve gli import sulla mappa dei file generati, senza file system
+function createVirtualFilesPlugin(allFiles: Record<string, string>): esbuild.Plugin {
+  return {
+    name: 'render-check-files',
+    setup(build) {
+      build.onResolve({ filter: /.*/ }, (args) => {
+        if (args.kind === 'entry-point') {
+          return { path: nodePath.posix.normalize(args.path), namespace: 'project' };
+        }
+        const specifier = args.path;
+        if (HOST_MODULES.has(specifier)) {
+          return { path: specifier, external: true };
+        }
+        if (RUNTIME_STUBS[specifier] !== undefined) {
+          return { path: specifier, namespace: 'stub' };
+        }
+        if (specifier.endsWith('.css')) {
+          return { path: specifier, namespace: 'empty' };
+        }
+        if (specifier.startsWith('@/') || specifier.startsWith('.')) {
+          const basePath = specifier.startsWith('@/')
+            ? specifier.substring(2)
+            : nodePath.posix.join(nodePath.posix.dirname(args.importer), specifier);
+          const resolved = resolveProjectPath(basePath, allFiles);
+          // Gli import non risolti sono già segnalati da lib/import-graph.ts
+          return resolved ? { path: resolved, namespace: 'project' } : { errors: [{ text: `Import non risolto: ${specifier}` }] };
+        }
+        return { errors: [{ text: `${UNSUPPORTED_PACKAGE}${specifier}` }] };
+      });
+      build.onLoad({ filter: /.*/, namespace: 'project' }, (args) =>
+        ASSET_PATTERN.test(args.path)
+          ? { contents: `export default ${JSON.stringify(`/${args.path}`)};`, loader: 'js' }
+          : { contents: allFiles[args.path], loader: getLoader(args.path) }
+      );
+      build.onLoad({ filter: /.*/, namespace: 'stub' }, (args) => ({ contents: RUNTIME_STUBS[args.path], loader: 'js' }));
+      build.onLoad({ filter: /.*/, namespace: 'empty' }, () => ({ contents: '', loader: 'js' }));
+    },
+  };
+}
+
+// app/orders/[id]/page.tsx -> { pathname: '/orders/1', params: { id: '1' } }
+function getRouteInfo(pagePath: string): { pathname: string; params: Record<string, string | string[]> } {
+  const params: Record<string, string | string[]> = {};
+  const segments = pagePath.split('/').slice(1, -1)
+    // I gruppi (cartella) non fanno parte dell'URL
+    .filter(segment => !/^\(.*\)$/.test(segment))
+    .map(segment => {
+      const dynamic = segment.match(/^\[{1,2}(\.\.\.)?([^\]]+)\]{1,2}$/);
+      if (!dynamic) {
+        return segment;
+      }
+      params[dynamic[2]] = dynamic[1] ? ['1'] : '1';
+      return '1';
+    });
+  return { pathname: `/${segments.join('/')}`, params };
+}
+
+function getErrorMessage(error: unknown): string {
+  // Gli errori lanciati nella VM non sono instanceof Error del processo host
+  const candidate = error as { message?: unknown } | null;
+  return typeof candidate?.message === 'string' ? candidate.message : String(error);
+}
+
+// Primo frame dello stack dentro il bundle della pagina: indica il componente che ha lanciato l'errore
+function getFailingComponent(error: unknown, bundleName: string): string | null {
+  const stack = (error as { stack?: unknown } | null)?.stack;
+  if (typeof stack !== 'string') {
+    return null;
+  }
+  for (const line of stack.split('\n')) {
+    const frame = line.match(/^\s*at (?:async )?([\w$.]+) \((.+?):\d+:\d+\)$/);
+    if (frame && frame[2] === bundleName) {
+      // Object.Page -> Page
+      return frame[1].split('.').pop() || frame[1];
+    }
+  }
+  return null;
+}
+
+function withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), RENDER_TIMEOUT_MS);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function renderPage(pagePath: string, allFiles: Record<string, string>): Promise<ValidationError | null> {
+  const esbuildModule = await import('esbuild');
+  let code: string;
+  try {
+    const result = await esbuildModule.build({
+      entryPoints: [pagePath],
+      bundle: true,
+      write: false,
+      format: 'cjs',
+      platform: 'neutral',
+      target: 'es2020',
+      jsx: 'automatic',
+      define: { 'process.env.NODE_ENV': '"production"' },
+      logLevel: 'silent',
+      plugins: [createVirtualFilesPlugin(allFiles)],
+    });
+    code = result.outputFiles[0].text;
+  } catch (error) {
+    // Errori di build già coperti da esbuild/import-graph, o pacchetti senza stub: pagina non verificabile
+    console.warn(`[RENDER-CHECK] ⚠️  ${pagePath} non verificata:`, getErrorMessage(error).split('\n').slice(0, 2).join(' '));
+    return null;
+  }
+
+  const host = loadHostModules();
+  const bundleName = `render-check/${pagePath}`;
+  const pageModule: { exports: Record<string, unknown> } = { exports: {} };
+  const noop = () => {};
+  const context = vm.createContext({
+    module: pageModule,
+    exports: pageModule.exports,
+    require: (specifier: string) => host.require(specifier),
+    process: { env: { ...RENDER_ENV } },
+    // I warning di React (key mancanti, ecc.) non sono errori di render
+    console: { log: noop, info: noop, warn: noop, error: noop, debug: noop },
+    fetch: () => Promise.reject(new Error('fetch non disponibile durante il render')),
+    setTimeout,
+    clearTimeout,
+    setInterval,
+    clearInterval,
+    queueMicrotask,
+    URL,
+    URLSearchParams,
+    TextEncoder,
+    TextDecoder,
+    __renderCheck: getRouteInfo(pagePath),
+    __react: host.react,
+    __renderToString: host.server.renderToString,
+  });
+
+  try {
+    vm.runInContext(code, context, { filename: bundleName, timeout: RENDER_TIMEOUT_MS });
+
+    const Page = pageModule.exports.default;
+    if (typeof Page !== 'function') {
+      return { file: pagePath, message: 'La pagina non esporta un componente di default', location: null };
+    }
+
+    // Le pagine async (server component) vengono risolte prima del render
+    context.__props = {
+      params: Promise.resolve(context.__renderCheck.params),
+      searchParams: Promise.resolve({}),
+    };
+    context.__element = Page.constructor.name === 'AsyncFunction'
+      ? await withTimeout(
+        Promise.resolve(vm.runInContext('module.exports.default(__props)', context, { timeout: RENDER_TIMEOUT_MS })),
+        `Timeout: la pagina non ha risolto i dati entro ${RENDER_TIMEOUT_MS}ms`
+      )
+      : host.react.createElement(Page as () => null, context.__props);
+
+    vm.runInContext('__renderToString(__element)', context, { filename: bundleName, timeout: RENDER_TIMEOUT_MS });
+    return null;
+  } catch (error) {
+    const message = getErrorMessage(error);
+    if (INCONCLUSIVE_ERROR_PATTERN.test(message)) {
+      return null;
+    }
+    const component = getFailingComponent(error, bundleName);
+    return {
+      file: pagePath,
+      message: `Errore durante il render server-side${component ? ` (in ${component})` : ''}: ${message}`,
+      location: null,
+    };
+  }
+}
+
+/**
+ * Renderizza le pagine presenti in `files` e restituisce un errore per ogni pagina che lancia.
+ * `contextFiles` servono solo a risolvere gli import (es: lib/i18n.ts, componenti non modificati).
+ */
+export async function renderCheckPages(
+  files: Record<string, string>,
+  contextFiles: Record<string, string> = {}
+): Promise<ValidationError[]> {
+  const pages = Object.keys(files).filter(path => PAGE_PATTERN.test(path));
+  if (pages.length === 0) {
+    return [];
+  }
+
+  const allFiles = { ...contextFiles, ...files };
+  const errors: ValidationError[] = [];
+  for (const pagePath of pages) {
+    const error = await renderPage(pagePath, allFiles);
+    if (error) {
+      errors.push(error);
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,252 @@
+import { getSiblingSignatures } from './code-generation';
+import { FORCE_TOOL_USE, GENERATION_TOOLS, parseStructuredResponse } from './structured-output';
+import { applyDependencyUpdate, getDependencyPromptInstructions } from './dependency-policy';
+import { getDataLayerPromptInstructions } from './data-layer';
+import { getThemePromptInstructions } from './theme';
+import { toKebabCase, toPascalCase, type ModuleSpec } from './entity-spec';
+import { getCatalogPath, getI18nPromptInstructions, parseCatalog, stringifyCatalog, type Locale } from './locale';
+import type { LlmProvider } from './llm-provider';
+import type { ProgressReporter } from './generation-progress';
+import type { StackProfileId } from './stack-profiles';
+
+/**
+ * Generazione multi-pagina di un modulo (modalità 'multi-page' di POST /api/modules/create).
+ * Dalla spec proposta si pianifica prima la mappa delle route: per ogni entità lista, nuovo,
+ * dettaglio e modifica, più home, layout condiviso con la navigazione e un form per entità.
+ * Poi ogni file della mappa è generato con una chiamata dedicata, che riceve la mappa completa
+ * e le firme dei file già generati; la validazione dell'intero albero resta al chiamante.
+ *
+ * Le pagine stanno nel gruppo app/(module): il layout del gruppo aggiunge la navigazione senza
+ * toccare app/layout.tsx, che resta quello dei file base.
+ */
+
+export type RouteKind = 'home' | 'list' | 'new' | 'detail' | 'edit';
+
+export interface PlannedRoute {
+  // URL della route (es: /ordini/[id]/edit)
+  path: string;
+  file: string;
+  kind: RouteKind;
+  // Entità della spec gestita dalla route (assente per la home)
+  entity?: string;
+  description: string;
+}
+
+export interface PlannedComponent {
+  file: string;
+  description: string;
+  entity?: string;
+}
+
+export interface RouteMap {
+  // Layout condiviso delle route del modulo (navigazione tra le entità)
+  layout: PlannedComponent;
+  routes: PlannedRoute[];
+  components: PlannedComponent[];
+  // Voci del menu di navigazione: URL ed etichetta
+  navigation: Array<{ path: string; label: string }>;
+}
+
+const ROUTE_GROUP_DIR = 'app/(module)';
+const NAVIGATION_COMPONENT = 'components/ModuleNav.tsx';
+
+// Token massimi per ogni file: le route sono generate una alla volta
+const MAX_TOKENS_PER_FILE = 8000;
+
+// Mappa delle route dalla spec: slug e nomi dei componenti seguono lib/crud-generator.ts
+export function planRouteMap(spec: ModuleSpec): RouteMap {
+  const routes: PlannedRoute[] = [];
+  const components: PlannedComponent[] = [{
+    file: NAVIGATION_COMPONENT,
+    description: `Menu di navigazione del modulo "${spec.name}": link alla home e alla lista di ogni entità, con la voce attiva evidenziata (usePathname)`,
+  }];
+  const navigation: RouteMap['navigation'] = [{ path: '/', label: 'Home' }];
+
+  const screens = (spec.screens || []).filter(screen => !screen.entity);
+  routes.push({
+    path: '/',
+    file: `${ROUTE_GROUP_DIR}/page.tsx`,
+    kind: 'home',
+    description: screens.length > 0
+      ? `Home del modulo: ${screens.map(screen => screen.description ? `${screen.name} (${screen.description})` : screen.name).join('; ')}`
+      : `Home del modulo: riepilogo delle entità con il numero di record e i link alle liste`,
+  });
+
+  for (const entity of spec.entities) {
+    const pluralName = entity.pluralName || entity.name;
+    const slug = toKebabCase(pluralName);
+    const formComponent = `components/${toPascalCase(entity.name)}Form.tsx`;
+    components.push({
+      file: formComponent,
+      entity: entity.name,
+      description: `Form di ${entity.name} usato sia per la creazione sia per la modifica: props initialData (opzionale), onSubmit(input) async e onCancel; valida i campi obbligatori e i limiti della spec`,
+    });
+    navigation.push({ path: `/${slug}`, label: pluralName });
+    routes.push(
+      {
+        path: `/${slug}`,
+        file: `${ROUTE_GROUP_DIR}/${slug}/page.tsx`,
+        kind: 'list',
+        entity: entity.name,
+        description: `Lista di ${pluralName} con ricerca, link al dettaglio di ogni record e pulsante verso /${slug}/new`,
+      },
+      {
+        path: `/${slug}/new`,
+        file: `${ROUTE_GROUP_DIR}/${slug}/new/page.tsx`,
+        kind: 'new',
+        entity: entity.name,
+        description: `Creazione di ${entity.name} con ${formComponent}; dopo il salvataggio apre /${slug}/[id]`,
+      },
+      {
+        path: `/${slug}/[id]`,
+        file: `${ROUTE_GROUP_DIR}/${slug}/[id]/page.tsx`,
+        kind: 'detail',
+        entity: entity.name,
+        description: `Dettaglio di ${entity.name} (id da useParams): tutti i campi, link a /${slug}/[id]/edit ed eliminazione con conferma che torna a /${slug}`,
+      },
+      {
+        path: `/${slug}/[id]/edit`,
+        file: `${ROUTE_GROUP_DIR}/${slug}/[id]/edit/page.tsx`,
+        kind: 'edit',
+        entity: entity.name,
+        description: `Modifica di ${entity.name} con ${formComponent} precompilato; dopo il salvataggio torna a /${slug}/[id]`,
+      },
+    );
+  }
+
+  return {
+    layout: {
+      file: `${ROUTE_GROUP_DIR}/layout.tsx`,
+      description: `Layout condiviso delle route del modulo: ${NAVIGATION_COMPONENT} in alto e il contenuto della pagina (children) sotto`,
+    },
+    routes,
+    components,
+    navigation,
+  };
+}
+
+// Tutti i file della mappa nell'ordine di generazione: componenti, layout, pagine
+export function getRouteMapFiles(routeMap: RouteMap): Array<PlannedRoute | PlannedComponent> {
+  return [...routeMap.components, routeMap.layout, ...routeMap.routes];
+}
+
+// Descrizione della mappa per i prompt e per i log
+export function describeRouteMap(routeMap: RouteMap): string {
+  return [
+    'ROUTE:',
+    ...routeMap.routes.map(route => `- ${route.path} -> ${route.file}: ${route.description}`),
+    '',
+    'LAYOUT E COMPONENTI:',
+    ...[routeMap.layout, ...routeMap.components].map(component => `- ${component.file}: ${component.description}`),
+    '',
+    'NAVIGAZIONE:',
+    ...routeMap.navigation.map(item => `- ${item.label}: ${item.path}`),
+  ].join('\n');
+}
+
+// Chiavi del catalogo proposte dal modello per un file, senza sovrascrivere quelle già usate dai file precedenti
+function mergeCatalog(files: Record<string, string>, catalogPath: string, proposed: string | undefined): void {
+  const additions = parseCatalog(proposed);
+  if (!additions) {
+    if (proposed !== undefined) {
+      console.warn(`[ROUTES] ⚠️  ${catalogPath} proposto non valido: ignorato`);
+    }
+    return;
+  }
+  const catalog = parseCatalog(files[catalogPath]) || {};
+  const newEntries = Object.entries(additions).filter(([key]) => !(key in catalog));
+  files[catalogPath] = stringifyCatalog({ ...catalog, ...Object.fromEntries(newEntries) });
+}
+
+/**
+ * Genera i file della mappa uno alla volta e li unisce ai file base. Ogni chiamata scrive il
+ * file pianificato e, se servono, le nuove chiavi del catalogo; le dipendenze proposte passano
+ * da lib/dependency-policy.ts. I file che il modello non restituisce restano assenti: la
+ * validazione dell'albero li segnala come import non risolti.
+ */
+export async function generateRouteMapFiles(
+  routeMap: RouteMap,
+  { prompt, name, locale, stackProfile, baseFiles, contextFiles }: {
+    prompt: string;
+    name: string;
+    locale: Locale;
+    stackProfile: StackProfileId;
+    baseFiles: Record<string, string>;
+    contextFiles: Record<string, string>;
+  },
+  llm: LlmProvider,
+  onProgress: ProgressReporter
+): Promise<{ files: Record<string, string>; missing: string[] }> {
+  const catalogPath = getCatalogPath(locale);
+  const plannedFiles = getRouteMapFiles(routeMap);
+  const dataLayerInstructions = getDataLayerPromptInstructions(contextFiles);
+  const themeInstructions = getThemePromptInstructions(baseFiles);
+  const routeMapDescription = describeRouteMap(routeMap);
+  let files: Record<string, string> = { ...baseFiles, [catalogPath]: stringifyCatalog({}) };
+  const missing: string[] = [];
+
+  const systemPrompt = `Sei un esperto sviluppatore Next.js e TypeScript.
+Stai generando un modulo ERP multi-pagina un file alla volta, seguendo una mappa delle route già decisa.
+Genera codice COMPLETO, COMPILABILE e FUNZIONANTE, senza placeholder.
+Tutti i tag JSX devono essere chiusi e tutte le funzioni implementate completamente.`;
+
+  for (const [index, planned] of plannedFiles.entries()) {
+    console.log(`[ROUTES] Generazione ${planned.file} (${index + 1}/${plannedFiles.length})...`);
+    onProgress({ phase: 'prompting', message: `Generazione ${planned.file} (${index + 1}/${plannedFiles.length})...` });
+
+    const catalogKeys = Object.keys(parseCatalog(files[catalogPath]) || {});
+    const siblingSignatures = getSiblingSignatures(planned.file, { ...contextFiles, ...files });
+    const userPrompt = `Modulo "${name}": ${prompt}
+
+MAPPA DEL MODULO (Next.js App Router, Tailwind per la UI):
+${routeMapDescription}
+
+FILE DA GENERARE ORA: ${planned.file}
+${planned.description}
+
+${siblingSignatures ? `FIRME DEI FILE GIÀ PRESENTI (non riscriverli: importa solo ciò che esportano, con alias '@/'):\n${siblingSignatures}\n\n` : ''}I file della mappa non ancora generati verranno scritti dopo: importa solo quelli già presenti.
+Nei link usa gli URL della mappa (il gruppo (module) non fa parte dell'URL).
+
+${getI18nPromptInstructions(locale)}
+- Chiavi già presenti in ${catalogPath}: ${catalogKeys.length > 0 ? catalogKeys.join(', ') : 'nessuna'}
+- In questo passo scrivi ${catalogPath} con le sole chiavi NUOVE usate da ${planned.file}: verranno unite al catalogo
+${dataLayerInstructions ? `\n${dataLayerInstructions}\n` : ''}${themeInstructions ? `\n${themeInstructions}\n` : ''}
+${getDependencyPromptInstructions()}
+
+Usa lo strumento write_file: una chiamata per ${planned.file} (contenuto completo) e, se servono testi nuovi, una per ${catalogPath}. Non scrivere altri file.`;
+
+    const message = await llm.createMessage({
+      callType: 'create',
+      maxTokens: MAX_TOKENS_PER_FILE,
+      system: systemPrompt,
+      tools: GENERATION_TOOLS,
+      toolChoice: FORCE_TOOL_USE,
+      messages: [{ role: 'user', content: userPrompt }],
+    });
+
+    const parsed = parseStructuredResponse(message);
+    const content = parsed.files[planned.file];
+    if (!content || parsed.truncated) {
+      console.warn(`[ROUTES] ⚠️  ${planned.file} non generato${parsed.truncated ? ' (risposta troncata)' : ''}`);
+      missing.push(planned.file);
+      continue;
+    }
+    const unexpected = Object.keys(parsed.files).filter(path => path !== planned.file && path !== catalogPath);
+    if (unexpected.length > 0) {
+      console.warn(`[ROUTES] ⚠️  File fuori dalla mappa ignorati: ${unexpected.join(', ')}`);
+    }
+
+    files[planned.file] = content;
+    mergeCatalog(files, catalogPath, parsed.files[catalogPath]);
+    if (parsed.dependencyUpdate) {
+      const update = applyDependencyUpdate(files, parsed.dependencyUpdate, stackProfile);
+      files = update.files;
+      if (update.rejected.length > 0) {
+        console.warn('[ROUTES] ⚠️  Dipendenze rifiutate:', update.rejected);
+      }
+    }
+  }
+
+  console.log(`[ROUTES] ✅ Generati ${plannedFiles.length - missing.length}/${plannedFiles.length} file della mappa`);
+  return { files, missing };
+}
@@ -0,0 +1,362 @@
+import {
+  quoteIdentifier,
+  quoteList,
+  renderColumnDefinition,
+  renderConstraint,
+  renderCreateTable,
+  renderDropConstraint,
+  renderEnumCheck,
+  renderForeignKey,
+  renderIndex,
+  renderReferenceActions,
+  renderTableRelations,
+} from './ddl-parser';
+import type {
+  DatabaseColumn,
+  DatabaseConstraint,
+  DatabaseIndex,
+  DatabaseReference,
+  DatabaseSchema,
+  DatabaseTable,
+} from './supabase/schema';
+
+/**
+ * Differenza tra il database_schema di due versioni di un modulo (GET /api/modules/[id]/schema-diff):
+ * tabelle, colonne, vincoli e indici aggiunti, rimossi o modificati, e l'SQL per passare da una
+ * versione all'altra. L'SQL inverso è lo stesso calcolo a schemi scambiati.
+ * Lo schema non conserva l'identità di tabelle e colonne: una rinomina risulta come rimozione più
+ * aggiunta. L'SQL generato cancellerebbe i dati, quindi le possibili rinomine sono segnalate negli avvisi
+ * e con un commento (con il RENAME da usare al suo posto) sopra il DROP.
+ */
+
+type ColumnProperty = 'type' | 'notNull' | 'default' | 'primaryKey' | 'enumValues' | 'references';
+
+export interface ColumnDiff {
+  column: string;
+  changes: Partial<Record<ColumnProperty, { from: unknown; to: unknown }>>;
+}
+
+export interface TableDiff {
+  table: string;
+  addedColumns: DatabaseColumn[];
+  removedColumns: DatabaseColumn[];
+  alteredColumns: ColumnDiff[];
+  // Un vincolo o indice modificato compare fra i rimossi e fra gli aggiunti (stesso nome)
+  addedConstraints: DatabaseConstraint[];
+  removedConstraints: DatabaseConstraint[];
+  addedIndexes: DatabaseIndex[];
+  removedIndexes: DatabaseIndex[];
+}
+
+export interface SchemaDiff {
+  addedTables: DatabaseTable[];
+  removedTables: DatabaseTable[];
+  alteredTables: TableDiff[];
+}
+
+const COLUMN_PROPERTIES: ColumnProperty[] = ['type', 'notNull', 'default', 'primaryKey', 'enumValues', 'references'];
+
+function getTables(schema: DatabaseSchema | null | undefined): DatabaseTable[] {
+  return Array.isArray(schema?.tables) ? schema.tables : [];
+}
+
+// Valore confrontabile di una proprietà (flag assenti = false, valori assenti = null)
+function getColumnValue(column: DatabaseColumn, property: ColumnProperty): unknown {
+  if (property === 'notNull' || property === 'primaryKey') {
+    return !!column[property];
+  }
+  return column[property] ?? null;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffByName<T extends { name: string }>(from: T[], to: T[]): { added: T[]; removed: T[] } {
+  const fromByName = new Map(from.map(item => [item.name, item]));
+  const toByName = new Map(to.map(item => [item.name, item]));
+  return {
+    added: to.filter(item => !sameValue(fromByName.get(item.name), item)),
+    removed: from.filter(item => !sameValue(toByName.get(item.name), item)),
+  };
+}
+
+function diffTable(from: DatabaseTable, to: DatabaseTable): TableDiff | null {
+  const fromColumns = new Map(from.columns.map(column => [column.name, column]));
+  const toColumns = new Map(to.columns.map(column => [column.name, column]));
+
+  const alteredColumns: ColumnDiff[] = [];
+  for (const column of to.columns) {
+    const previous = fromColumns.get(column.name);
+    if (!previous) {
+      continue;
+    }
+    const changes: ColumnDiff['changes'] = {};
+    for (const property of COLUMN_PROPERTIES) {
+      const before = getColumnValue(previous, property);
+      const after = getColumnValue(column, property);
+      if (!sameValue(before, after)) {
+        changes[property] = { from: before, to: after };
+      }
+    }
+    if (Object.keys(changes).length > 0) {
+      alteredColumns.push({ column: column.name, changes });
+    }
+  }
+
+  const constraints = diffByName(from.constraints || [], to.constraints || []);
+  const indexes = diffByName(from.indexes || [], to.indexes || []);
+  const diff: TableDiff = {
+    table: to.name,
+    addedColumns: to.columns.filter(column => !fromColumns.has(column.name)),
+    removedColumns: from.columns.filter(column => !toColumns.has(column.name)),
+    alteredColumns,
+    addedConstraints: constraints.added,
+    removedConstraints: constraints.removed,
+    addedIndexes: indexes.added,
+    removedIndexes: indexes.removed,
+  };
+
+  const changed = diff.addedColumns.length + diff.removedColumns.length + diff.alteredColumns.length +
+    diff.addedConstraints.length + diff.removedConstraints.length + diff.addedIndexes.length + diff.removedIndexes.length;
+  return changed > 0 ? diff : null;
+}
+
+export function diffSchemas(from: DatabaseSchema | null | undefined, to: DatabaseSchema | null | undefined): SchemaDiff {
+  const fromTables = getTables(from);
+  const toTables = getTables(to);
+  const fromByName = new Map(fromTables.map(table => [table.name, table]));
+  const toNames = new Set(toTables.map(table => table.name));
+
+  return {
+    addedTables: toTables.filter(table => !fromByName.has(table.name)),
+    removedTables: fromTables.filter(table => !toNames.has(table.name)),
+    alteredTables: toTables.flatMap(table => {
+      const previous = fromByName.get(table.name);
+      const diff = previous ? diffTable(previous, table) : null;
+      return diff ? [diff] : [];
+    }),
+  };
+}
+
+export function isEmptySchemaDiff(diff: SchemaDiff): boolean {
+  return diff.addedTables.length === 0 && diff.removedTables.length === 0 && diff.alteredTables.length === 0;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === false) {
+    return '—';
+  }
+  if (value === true) {
+    return 'sì';
+  }
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  if (typeof value === 'object') {
+    const reference = value as DatabaseReference;
+    return `${reference.table}.${reference.column}${renderReferenceActions(reference)}`;
+  }
+  return String(value);
+}
+
+const PROPERTY_LABELS: Record<ColumnProperty, string> = {
+  type: 'tipo',
+  notNull: 'NOT NULL',
+  default: 'default',
+  primaryKey: 'chiave primaria',
+  enumValues: 'valori ammessi',
+  references: 'foreign key',
+};
+
+// Descrizione leggibile del diff, una riga per modifica
+export function describeSchemaDiff(diff: SchemaDiff): string[] {
+  const lines: string[] = [];
+  for (const table of diff.addedTables) {
+    lines.push(`Tabella aggiunta: ${table.name} (${table.columns.map(column => column.name).join(', ')})`);
+  }
+  for (const table of diff.removedTables) {
+    lines.push(`Tabella rimossa: ${table.name} (${table.columns.length} colonne)`);
+  }
+  for (const table of diff.alteredTables) {
+    for (const column of table.addedColumns) {
+      lines.push(`${table.table}.${column.name}: colonna aggiunta (${column.type})`);
+    }
+    for (const column of table.removedColumns) {
+      lines.push(`${table.table}.${column.name}: colonna rimossa`);
+    }
+    for (const { column, changes } of table.alteredColumns) {
+      for (const [property, change] of Object.entries(changes) as Array<[ColumnProperty, { from: unknown; to: unknown }]>) {
+        lines.push(`${table.table}.${column}: ${PROPERTY_LABELS[property]} ${formatValue(change.from)} → ${formatValue(change.to)}`);
+      }
+    }
+    for (const constraint of table.removedConstraints) {
+      lines.push(`${table.table}: vincolo ${constraint.name} rimosso`);
+    }
+    for (const constraint of table.addedConstraints) {
+      lines.push(`${table.table}: vincolo ${constraint.name} aggiunto`);
+    }
+    for (const index of table.removedIndexes) {
+      lines.push(`${table.table}: indice ${index.name} rimosso`);
+    }
+    for (const index of table.addedIndexes) {
+      lines.push(`${table.table}: indice ${index.name} aggiunto`);
+    }
+  }
+  return lines;
+}
+
+// Possibili rinomine: ogni colonna rimossa con le colonne aggiunte dello stesso tipo nella stessa tabella
+function getColumnRenames(table: TableDiff, removed: DatabaseColumn): DatabaseColumn[] {
+  return table.addedColumns.filter(added => added.type === removed.type);
+}
+
+// Una tabella rimossa e una aggiunta: possibile rinomina
+function getTableRename(diff: SchemaDiff): { from: DatabaseTable; to: DatabaseTable } | null {
+  return diff.addedTables.length === 1 && diff.removedTables.length === 1
+    ? { from: diff.removedTables[0], to: diff.addedTables[0] }
+    : null;
+}
+
+// Rinomine probabili: l'SQL le tratta come DROP + ADD, perdendo i dati
+export function getSchemaDiffWarnings(diff: SchemaDiff): string[] {
+  const warnings: string[] = [];
+  for (const table of diff.alteredTables) {
+    for (const removed of table.removedColumns) {
+      for (const added of getColumnRenames(table, removed)) {
+        warnings.push(
+          `${table.table}: ${removed.name} → ${added.name} potrebbe essere una rinomina, ma l'SQL elimina la colonna ${removed.name} con i suoi dati e crea ${added.name} vuota (usa RENAME COLUMN per conservarli)`
+        );
+      }
+    }
+  }
+  const tableRename = getTableRename(diff);
+  if (tableRename) {
+    warnings.push(
+      `${tableRename.from.name} → ${tableRename.to.name} potrebbe essere una rinomina: l'SQL elimina la tabella con i suoi dati e ne crea una nuova (usa ALTER TABLE ... RENAME TO per conservarli)`
+    );
+  }
+  return warnings;
+}
+
+// Commento SQL sopra il DROP di una possibile rinomina, con lo statement che conserva i dati
+function renderRenameWarning(subject: string, renames: string[], renameSql: string): string {
+  return `-- ATTENZIONE: ${subject} potrebbe essere stata rinominata in ${renames.join(' o ')}; il DROP seguente ne elimina i dati.\n-- Per conservarli usa al suo posto: ${renameSql}\n`;
+}
+
+// Nomi con cui può esistere la foreign key di una colonna (generato dai moduli o da Postgres)
+function renderDropForeignKey(table: string, column: string): string {
+  return `${renderDropConstraint(table, `fk_${table}_${column}`)}\n${renderDropConstraint(table, `${table}_${column}_fkey`)}`;
+}
+
+/**
+ * SQL che porta un database dallo schema `from` allo schema `to`: prima si rimuovono foreign key,
+ * vincoli e indici cambiati, poi tabelle e colonne, infine si ricreano vincoli, indici e relazioni.
+ * L'SQL inverso è renderSchemaDiffSql(to, from).
+ */
+export function renderSchemaDiffSql(from: DatabaseSchema | null | undefined, to: DatabaseSchema | null | undefined): string {
+  const diff = diffSchemas(from, to);
+  const fromByName = new Map(getTables(from).map(table => [table.name, table]));
+  const toByName = new Map(getTables(to).map(table => [table.name, table]));
+
+  const dropRelations: string[] = [];
+  const dropTables: string[] = [];
+  const createTables: string[] = [];
+  const alterColumns: string[] = [];
+  const addRelations: string[] = [];
+
+  const tableRename = getTableRename(diff);
+  for (const table of diff.removedTables) {
+    dropRelations.push(...table.columns.filter(column => column.references).map(column => renderDropForeignKey(table.name, column.name)));
+    const warning = tableRename?.from === table
+      ? renderRenameWarning(`la tabella ${table.name}`, [tableRename.to.name], `ALTER TABLE ${quoteIdentifier(table.name)} RENAME TO ${quoteIdentifier(tableRename.to.name)};`)
+      : '';
+    dropTables.push(`${warning}DROP TABLE IF EXISTS ${quoteIdentifier(table.name)};`);
+  }
+
+  for (const table of diff.addedTables) {
+    createTables.push(renderCreateTable(table));
+    addRelations.push(...renderTableRelations(table));
+  }
+
+  for (const tableDiff of diff.alteredTables) {
+    const previous = fromByName.get(tableDiff.table)!;
+    const table = toByName.get(tableDiff.table)!;
+    const name = quoteIdentifier(table.name);
+
+    for (const index of tableDiff.removedIndexes) {
+      dropRelations.push(`DROP INDEX IF EXISTS ${quoteIdentifier(index.name)};`);
+    }
+    for (const constraint of tableDiff.removedConstraints) {
+      dropRelations.push(renderDropConstraint(table.name, constraint.name));
+    }
+    for (const column of tableDiff.removedColumns) {
+      // La foreign key va rimossa prima delle tabelle eliminate che referenzia
+      if (column.references) {
+        dropRelations.push(renderDropForeignKey(table.name, column.name));
+      }
+      const renames = getColumnRenames(tableDiff, column);
+      const warning = renames.length > 0
+        ? renderRenameWarning(
+          `la colonna ${table.name}.${column.name}`,
+          renames.map(added => added.name),
+          `ALTER TABLE ${name} RENAME COLUMN ${quoteIdentifier(column.name)} TO ${quoteIdentifier(renames[0].name)};`
+        )
+        : '';
+      alterColumns.push(`${warning}ALTER TABLE ${name} DROP COLUMN IF EXISTS ${quoteIdentifier(column.name)};`);
+    }
+    for (const column of tableDiff.addedColumns) {
+      alterColumns.push(`ALTER TABLE ${name} ADD COLUMN IF NOT EXISTS ${renderColumnDefinition(column, false)};`);
+      if (column.references) {
+        addRelations.push(renderForeignKey(table, column));
+      }
+    }
+
+    for (const { column: columnName, changes } of tableDiff.alteredColumns) {
+      const column = table.columns.find(candidate => candidate.name === columnName)!;
+      const alterColumn = `ALTER TABLE ${name} ALTER COLUMN ${quoteIdentifier(columnName)}`;
+      if (changes.references) {
+        dropRelations.push(renderDropForeignKey(table.name, columnName));
+        if (column.references) {
+          addRelations.push(renderForeignKey(table, column));
+        }
+      }
+      if (changes.enumValues) {
+        dropRelations.push(renderDropConstraint(table.name, `${table.name}_${columnName}_check`));
+        if (column.enumValues) {
+          addRelations.push(`ALTER TABLE ${name} ADD CONSTRAINT ${quoteIdentifier(`${table.name}_${columnName}_check`)} ${renderEnumCheck(column)};`);
+        }
+      }
+      if (changes.type) {
+        alterColumns.push(`${alterColumn} TYPE ${column.type} USING ${quoteIdentifier(columnName)}::${column.type};`);
+      }
+      if (changes.default) {
+        alterColumns.push(column.default ? `${alterColumn} SET DEFAULT ${column.default};` : `${alterColumn} DROP DEFAULT;`);
+      }
+      if (changes.notNull) {
+        alterColumns.push(`${alterColumn} ${column.notNull ? 'SET' : 'DROP'} NOT NULL;`);
+      }
+    }
+
+    // Chiave primaria cambiata: si ricrea con le nuove colonne
+    const previousKey = previous.columns.filter(column => column.primaryKey).map(column => column.name);
+    const key = table.columns.filter(column => column.primaryKey).map(column => column.name);
+    if (!sameValue(previousKey, key)) {
+      if (previousKey.length > 0) {
+        dropRelations.push(renderDropConstraint(table.name, `${table.name}_pkey`));
+      }
+      if (key.length > 0) {
+        addRelations.push(`ALTER TABLE ${name} ADD PRIMARY KEY (${quoteList(key)});`);
+      }
+    }
+
+    for (const constraint of tableDiff.addedConstraints) {
+      addRelations.push(`ALTER TABLE ${name} ADD ${renderConstraint(constraint)};`);
+    }
+    for (const index of tableDiff.addedIndexes) {
+      addRelations.push(renderIndex(table, index));
+    }
+  }
+
+  return [...dropRelations, ...dropTables, ...createTables, ...alterColumns, ...addRelations].join('\n\n');
+}
@@ -0,0 +1,193 @@
+/**
+ * Analisi statica di sicurezza del codice generato, eseguita dopo validateAndFixCode e prima del push.
+ * Le regole lavorano riga per riga sulla mappa path -> contenuto e segnalano:
+ * - eval e new Function (esecuzione di codice arbitrario)
+ * - dangerouslySetInnerHTML (XSS)
+ * - chiavi e token scritti nel codice
+ * - SUPABASE_SERVICE_ROLE_KEY usata in componenti client (finirebbe nel bundle pubblico)
+ * - fetch verso host non previsti
+ * I risultati vengono salvati sulla versione (module_versions.security_findings, migration 009):
+ * con almeno un risultato di gravità 'high' il deploy è bloccato, salvo override esplicito.
+ */
+
+export type SecuritySeverity = 'high' | 'medium' | 'low';
+
+export type SecurityRule =
+  | 'eval'
+  | 'new-function'
+  | 'dangerously-set-inner-html'
+  | 'hardcoded-secret'
+  | 'service-role-in-client'
+  | 'unexpected-fetch-host';
+
+export interface SecurityFinding {
+  rule: SecurityRule;
+  severity: SecuritySeverity;
+  file: string;
+  line: number;
+  message: string;
+  // Riga incriminata (accorciata, con i segreti oscurati)
+  excerpt: string;
+}
+
+export interface SecurityScanOptions {
+  // Host ammessi per fetch oltre a quelli di default e a SECURITY_ALLOWED_HOSTS
+  allowedHosts?: string[];
+}
+
+const CODE_FILE_PATTERN = /\.(tsx?|jsx?|mjs|cjs)$/;
+const MAX_EXCERPT_LENGTH = 160;
+
+// Host sempre ammessi: il progetto Supabase delle app generate
+const DEFAULT_ALLOWED_HOSTS = ['*.supabase.co'];
+
+// Formati noti di chiavi e token (cercati in tutti i file, non solo nel codice)
+const SECRET_PATTERNS: { name: string; pattern: RegExp }[] = [
+  { name: 'chiave Anthropic', pattern: /sk-ant-[A-Za-z0-9_-]{20,}/ },
+  { name: 'chiave OpenAI', pattern: /\bsk-(?:proj-)?[A-Za-z0-9]{32,}/ },
+  { name: 'chiave Stripe', pattern: /\b[sr]k_live_[A-Za-z0-9]{16,}/ },
+  { name: 'token GitHub', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}/ },
+  { name: 'access key AWS', pattern: /\bAKIA[0-9A-Z]{16}\b/ },
+  { name: 'JWT (chiave Supabase?)', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/ },
+  { name: 'chiave privata', pattern: /-----BEGIN (?:RSA |EC |OPENSSH )?PRIVATE KEY-----/ },
+];
+
+// Assegnazioni del tipo apiKey = '...' con un valore lungo (solo nei file di codice)
+const SECRET_ASSIGNMENT_PATTERN = /\b[\w$]*(?:api[_-]?key|secret|token|password|passwd)[\w$]*['"]?\s*[:=]\s*(['"`])([^'"`\s]{16,})\1/i;
+
+// Valori che sono chiaramente segnaposto e non segreti reali
+const PLACEHOLDER_PATTERN = /^(?:your|my|example|changeme|placeholder|xxx|\.\.\.|<)/i;
+
+const FETCH_URL_PATTERN = /\bfetch\s*\(\s*(['"`])(https?:)?\/\/([^/'"`$?#:]+)/g;
+
+function getAllowedHosts(options: SecurityScanOptions): string[] {
+  const hosts = [...DEFAULT_ALLOWED_HOSTS, ...(options.allowedHosts || [])];
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  if (supabaseUrl) {
+    try {
+      hosts.push(new URL(supabaseUrl).hostname);
+    } catch {
+      // URL non valido: resta solo il default *.supabase.co
+    }
+  }
+  const extraHosts = process.env.SECURITY_ALLOWED_HOSTS;
+  if (extraHosts) {
+    hosts.push(...extraHosts.split(',').map(host => host.trim()).filter(Boolean));
+  }
+  return hosts.map(host => host.toLowerCase());
+}
+
+function isAllowedHost(host: string, allowedHosts: string[]): boolean {
+  const normalized = host.toLowerCase();
+  return allowedHosts.some(allowed =>
+    allowed.startsWith('*.')
+      ? normalized.endsWith(allowed.substring(1))
+      : normalized === allowed
+  );
+}
+
+function isCommentLine(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.startsWith('//') || trimmed.startsWith('/*') || trimmed.startsWith('*');
+}
+
+// Un file è un componente client se la prima istruzione è la direttiva 'use client'
+function isClientComponent(content: string): boolean {
+  return /^(?:\s|\/\/[^\n]*\n|\/\*[\s\S]*?\*\/)*['"]use client['"]/.test(content);
+}
+
+function redactSecrets(line: string): string {
+  let redacted = line;
+  for (const { pattern } of SECRET_PATTERNS) {
+    redacted = redacted.replace(new RegExp(pattern.source, 'g'), match => `${match.substring(0, 6)}***`);
+  }
+  redacted = redacted.replace(new RegExp(SECRET_ASSIGNMENT_PATTERN.source, 'gi'), (match: string, ...groups: string[]) =>
+    match.replace(groups[1], `${groups[1].substring(0, 4)}***`)
+  );
+  const trimmed = redacted.trim();
+  return trimmed.length > MAX_EXCERPT_LENGTH ? `${trimmed.substring(0, MAX_EXCERPT_LENGTH)}...` : trimmed;
+}
+
+function scanFile(path: string, content: string, allowedHosts: string[]): SecurityFinding[] {
+  const findings: SecurityFinding[] = [];
+  const isCode = CODE_FILE_PATTERN.test(path);
+  const isClient = isCode && isClientComponent(content);
+  const lines = content.split('\n');
+
+  const report = (rule: SecurityRule, severity: SecuritySeverity, index: number, message: string) => {
+    findings.push({ rule, severity, file: path, line: index + 1, message, excerpt: redactSecrets(lines[index]) });
+  };
+
+  lines.forEach((line, index) => {
+    for (const { name, pattern } of SECRET_PATTERNS) {
+      if (pattern.test(line)) {
+        report('hardcoded-secret', 'high', index, `Possibile ${name} scritta nel codice: usa una variabile d'ambiente`);
+        return;
+      }
+    }
+
+    if (!isCode || isCommentLine(line)) {
+      return;
+    }
+
+    const assignment = line.match(SECRET_ASSIGNMENT_PATTERN);
+    if (assignment && !PLACEHOLDER_PATTERN.test(assignment[2]) && !assignment[2].startsWith('process.env')) {
+      report('hardcoded-secret', 'high', index, 'Credenziale scritta nel codice: usa una variabile d\'ambiente');
+    }
+
+    if (/(?<![\w$.])eval\s*\(/.test(line)) {
+      report('eval', 'high', index, 'eval() esegue codice arbitrario');
+    }
+
+    if (/\bnew\s+Function\s*\(/.test(line)) {
+      report('new-function', 'high', index, 'new Function() esegue codice arbitrario');
+    }
+
+    if (/\bdangerouslySetInnerHTML\b/.test(line)) {
+      report('dangerously-set-inner-html', 'medium', index, 'dangerouslySetInnerHTML può introdurre XSS se il contenuto non è sanificato');
+    }
+
+    if (/NEXT_PUBLIC_SUPABASE_SERVICE_ROLE_KEY/.test(line)) {
+      report('service-role-in-client', 'high', index, 'La service role key con prefisso NEXT_PUBLIC_ viene inclusa nel bundle pubblico');
+    } else if (isClient && /SUPABASE_SERVICE_ROLE_KEY|SUPABASE_SERVICE_KEY/.test(line)) {
+      report('service-role-in-client', 'high', index, 'La service role key non può essere usata in un componente client: usa la anon key');
+    }
+
+    for (const match of line.matchAll(FETCH_URL_PATTERN)) {
+      const protocol = match[2];
+      const host = match[3];
+      if (!isAllowedHost(host, allowedHosts)) {
+        report('unexpected-fetch-host', 'medium', index, `fetch verso un host non previsto: ${host}`);
+      } else if (protocol === 'http:') {
+        report('unexpected-fetch-host', 'medium', index, `fetch in chiaro (http) verso ${host}`);
+      }
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * Analizza i file generati e restituisce i risultati ordinati per gravità (high prima).
+ */
+export function scanGeneratedCode(files: Record<string, string>, options: SecurityScanOptions = {}): SecurityFinding[] {
+  const allowedHosts = getAllowedHosts(options);
+  const severityOrder: Record<SecuritySeverity, number> = { high: 0, medium: 1, low: 2 };
+  return Object.entries(files)
+    .flatMap(([path, content]) => scanFile(path, content, allowedHosts))
+    .sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+}
+
+// Risultati che bloccano il deploy se l'utente non lo forza con securityOverride
+export function getBlockingFindings(findings: SecurityFinding[]): SecurityFinding[] {
+  return findings.filter(finding => finding.severity === 'high');
+}
+
+export function formatSecurityFinding(finding: SecurityFinding): string {
+  return `[${finding.severity}] ${finding.file}:${finding.line} ${finding.rule} - ${finding.message}`;
+}
+
+export function describeBlockingFindings(findings: SecurityFinding[]): string {
+  const blocking = getBlockingFindings(findings);
+  return `Deploy bloccato: ${blocking.length} problemi di sicurezza gravi (${blocking.slice(0, 3).map(f => `${f.file}:${f.line} ${f.rule}`).join(', ')}${blocking.length > 3 ? ', ...' : ''}). Correggi il codice o ripeti la richiesta con securityOverride: true`;
+}
@@ -0,0 +1,76 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { PROPOSE_SPEC_TOOL } from './structured-output';
+import { normalizeModuleSpec, type ModuleSpec } from './entity-spec';
+import type { LlmProvider } from './llm-provider';
+import type { ProgressReporter } from './generation-progress';
+
+/**
+ * Prima fase (facoltativa) della creazione di un modulo: dal prompt libero il modello propone una
+ * spec strutturata che l'utente rivede e corregge prima di avviare la generazione del codice.
+ */
+
+export interface SpecProposal {
+  spec: ModuleSpec | null;
+  // Errori di validazione dell'ultima proposta (vuoto se spec è valida)
+  errors: string[];
+  attempts: number;
+}
+
+// Tentativi totali: se la spec proposta non è valida il modello la corregge una volta con gli errori
+const MAX_PROPOSAL_ATTEMPTS = 2;
+
+const FORCE_SPEC_TOOL: Anthropic.ToolChoiceTool = { type: 'tool', name: PROPOSE_SPEC_TOOL.name };
+
+const SYSTEM_PROMPT = `Sei un analista funzionale di sistemi ERP.
+Trasforma la descrizione dell'utente in una spec strutturata del modulo: entità, campi con tipo, obbligatorietà e limiti, relazioni tra entità e schermate.
+Usa nomi e etichette in italiano, nomi dei campi in camelCase, e solo i tipi ammessi dallo strumento.
+Non aggiungere id o date di creazione: sono generati automaticamente.`;
+
+function buildUserPrompt(prompt: string, name?: string, previousErrors: string[] = []): string {
+  const retry = previousErrors.length > 0
+    ? `\n\nLa proposta precedente non era valida:\n${previousErrors.map(error => `- ${error}`).join('\n')}\nCorreggi questi errori.`
+    : '';
+  return `${name ? `Modulo "${name}". ` : ''}Descrizione: ${prompt}
+
+Proponi la spec chiamando lo strumento ${PROPOSE_SPEC_TOOL.name}.${retry}`;
+}
+
+export async function proposeModuleSpec(
+  prompt: string,
+  llm: LlmProvider,
+  options: { name?: string; onProgress?: ProgressReporter } = {}
+): Promise<SpecProposal> {
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_PROPOSAL_ATTEMPTS; attempt++) {
+    console.log(`[SPEC] Proposta spec (tentativo ${attempt}/${MAX_PROPOSAL_ATTEMPTS})...`);
+    options.onProgress?.({ phase: 'prompting', message: `Analisi della richiesta con ${llm.model}...`, attempt });
+
+    const message = await llm.createMessage({
+      callType: 'spec',
+      maxTokens: 8000,
+      system: SYSTEM_PROMPT,
+      tools: [PROPOSE_SPEC_TOOL],
+      toolChoice: FORCE_SPEC_TOOL,
+      messages: [{ role: 'user', content: buildUserPrompt(prompt, options.name, errors) }],
+    });
+
+    const toolUse = message.content.find(
+      (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use' && block.name === PROPOSE_SPEC_TOOL.name
+    );
+    if (!toolUse) {
+      errors = ['Il modello non ha proposto una spec'];
+      continue;
+    }
+
+    const normalized = normalizeModuleSpec(toolUse.input);
+    if (normalized.spec) {
+      console.log(`[SPEC] ✅ Spec proposta: ${normalized.spec.entities.length} entità`);
+      return { spec: normalized.spec, errors: [], attempts: attempt };
+    }
+    errors = normalized.errors;
+    console.warn('[SPEC] Spec proposta non valida:', errors);
+  }
+
+  return { spec: null, errors, attempts: MAX_PROPOSAL_ATTEMPTS };
+}
@@ -0,0 +1,163 @@
+import type { SupabaseClient } from './supabase/server';
+
+/**
+ * Profili di stack delle app generate: versioni di Next, React, Tailwind e dei tool di build
+ * usate da getBaseFiles() per package.json.
+ * Il profilo si imposta sul workspace e può essere sovrascritto dal singolo modulo; ogni versione
+ * registra il profilo con cui è stata generata (module_versions.stack_profile, migration 010),
+ * così promozioni e rebuild di una versione vecchia usano gli stessi file base.
+ * Un profilo pubblicato non si modifica: per aggiornare lo stack se ne aggiunge uno nuovo.
+ */
+
+export const STACK_PROFILE_IDS = ['next15-tailwind4', 'next16-tailwind4'] as const;
+
+export type StackProfileId = typeof STACK_PROFILE_IDS[number];
+
+export const DEFAULT_STACK_PROFILE: StackProfileId = 'next15-tailwind4';
+
+export interface PackageJson {
+  name?: string;
+  version?: string;
+  private?: boolean;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+export interface StackProfile {
+  id: StackProfileId;
+  label: string;
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+}
+
+// Usiamo ^ (caret) per permettere auto-update a patch di sicurezza e minor version senza breaking changes
+const STACK_PROFILES: Record<StackProfileId, StackProfile> = {
+  // Next.js 15.1.9 include il fix per la vulnerabilità CVE-2025-66478 ed è compatibile con React 19
+  'next15-tailwind4': {
+    id: 'next15-tailwind4',
+    label: 'Next.js 15 + Tailwind CSS 4',
+    dependencies: {
+      next: '^15.1.9',
+      react: '^19.0.0',
+      'react-dom': '^19.0.0',
+      '@supabase/supabase-js': '^2.89.0',
+      'framer-motion': '^12.23.26',
+    },
+    devDependencies: {
+      '@tailwindcss/postcss': '^4',
+      '@types/node': '^20',
+      '@types/react': '^19',
+      '@types/react-dom': '^19',
+      'tailwindcss': '^4',
+      'eslint': '^9',
+      'eslint-config-next': '^15.1.9',
+      'typescript': '^5',
+    },
+  },
+  'next16-tailwind4': {
+    id: 'next16-tailwind4',
+    label: 'Next.js 16 + Tailwind CSS 4',
+    dependencies: {
+      next: '^16.1.1',
+      react: '^19.2.3',
+      'react-dom': '^19.2.3',
+      '@supabase/supabase-js': '^2.89.0',
+      'framer-motion': '^12.23.26',
+    },
+    devDependencies: {
+      '@tailwindcss/postcss': '^4',
+      '@types/node': '^20',
+      '@types/react': '^19',
+      '@types/react-dom': '^19',
+      'tailwindcss': '^4',
+      'eslint': '^9',
+      'eslint-config-next': '^16.1.1',
+      'typescript': '^5',
+    },
+  },
+};
+
+export function isStackProfileId(value: unknown): value is StackProfileId {
+  return typeof value === 'string' && (STACK_PROFILE_IDS as readonly string[]).includes(value);
+}
+
+// Primo profilo valido tra i candidati (es: modulo, poi workspace), altrimenti DEFAULT_STACK_PROFILE
+export function resolveStackProfile(...candidates: unknown[]): StackProfileId {
+  return candidates.find(isStackProfileId) || DEFAULT_STACK_PROFILE;
+}
+
+export function getStackProfile(id: StackProfileId = DEFAULT_STACK_PROFILE): StackProfile {
+  return STACK_PROFILES[id];
+}
+
+// package.json di partenza delle app generate (getBaseFiles() e merge delle dipendenze in lib/dependency-policy.ts)
+export function getBasePackageJson(id: StackProfileId = DEFAULT_STACK_PROFILE): PackageJson {
+  const profile = getStackProfile(id);
+  return {
+    name: 'erp-generated-app',
+    version: '0.1.0',
+    private: true,
+    scripts: {
+      dev: 'next dev',
+      build: 'next build',
+      start: 'next start',
+      lint: 'eslint',
+    },
+    dependencies: { ...profile.dependencies },
+    devDependencies: { ...profile.devDependencies },
+  };
+}
+
+export function listStackProfiles(): StackProfile[] {
+  return STACK_PROFILE_IDS.map(id => STACK_PROFILES[id]);
+}
+
+// Profilo con cui è stata generata una versione (quelle precedenti alla migration 010 usano il default)
+export function getVersionStackProfile(version: { stack_profile?: string | null } | null | undefined): StackProfileId {
+  return resolveStackProfile(version?.stack_profile);
+}
+
+// Profilo per le nuove versioni di un modulo: quello del modulo, altrimenti quello del workspace
+export async function loadModuleStackProfile(
+  supabase: SupabaseClient,
+  module: { workspace_id: string; stack_profile?: string | null }
+): Promise<StackProfileId> {
+  if (isStackProfileId(module.stack_profile)) {
+    return module.stack_profile;
+  }
+  const { data: workspace } = await supabase
+    .from('workspaces')
+    .select('stack_profile')
+    .eq('id', module.workspace_id)
+    .single();
+  return resolveStackProfile(workspace?.stack_profile);
+}
+
+/**
+ * Allinea package.json dei file al profilo: le dipendenze gestite dal profilo prendono la sua
+ * versione, le altre (aggiunte dal codice generato) restano invariate. Senza package.json
+ * i file non cambiano (il package.json del profilo viene da getBaseFiles() al deploy).
+ */
+export function applyStackProfile(files: Record<string, string>, stackProfile: StackProfileId): Record<string, string> {
+  const current = files['package.json'];
+  if (!current) {
+    return files;
+  }
+  let packageJson: PackageJson;
+  try {
+    packageJson = JSON.parse(current);
+  } catch {
+    return files;
+  }
+  const profile = getStackProfile(stackProfile);
+  return {
+    ...files,
+    'package.json': JSON.stringify({
+      ...packageJson,
+      dependencies: { ...packageJson.dependencies, ...profile.dependencies },
+      devDependencies: { ...packageJson.devDependencies, ...profile.devDependencies },
+    }, null, 2),
+  };
+}
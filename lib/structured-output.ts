@@ -0,0 +1,559 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { parseClaudeResponse } from './code-generation';
+import { parseSearchReplaceBlocks, type FilePatch } from './file-patch';
+
+/**
+ * Contratto strutturato (tool use) per l'output dei modelli.
+ * Generazione, modifica e auto-fix chiedono al modello di chiamare questi strumenti
+ * invece di produrre testo separato da === FILENAME ===; ogni chiamata viene validata
+ * alla ricezione. Il parser testuale resta solo come fallback per risposte vecchie.
+ */
+
+export interface DependencyUpdate {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+export interface StructuredOutput {
+  files: Record<string, string>;
+  deletedFiles: string[];
+  // Modifiche parziali a file esistenti (edit_file), da applicare con applyFilePatches
+  patches: FilePatch[];
+  migration?: string;
+  explanation?: string;
+  dependencyUpdate?: DependencyUpdate;
+  // Elenco completo delle regole di business proposto (set_business_rules), da validare con normalizeBusinessRules
+  businessRules?: unknown[];
+  // 'tools' se la risposta usa il contratto strutturato, 'text' se è stato usato il parser legacy
+  source: 'tools' | 'text';
+  // Chiamate scartate dalla validazione (path non validi, contenuto mancante, ecc.)
+  issues: string[];
+  truncated: boolean;
+}
+
+export const WRITE_FILE_TOOL: Anthropic.Tool = {
+  name: 'write_file',
+  description: 'Scrive un file del progetto Next.js generato. Il contenuto deve essere il file COMPLETO e compilabile, senza markdown né placeholder. Chiama lo strumento una volta per ogni file.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Path relativo alla root del progetto, es: app/page.tsx o components/OrderForm.tsx',
+      },
+      content: {
+        type: 'string',
+        description: 'Contenuto completo del file',
+      },
+    },
+    required: ['path', 'content'],
+  },
+};
+
+export const EDIT_FILE_TOOL: Anthropic.Tool = {
+  name: 'edit_file',
+  description: 'Modifica un file esistente senza riscriverlo. Usa "edits" (blocchi search/replace: search copiato ESATTAMENTE dal file attuale, con abbastanza contesto da comparire una sola volta) oppure "diff" (diff unificato del file). Per file nuovi o riscritture complete usa write_file.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Path relativo del file da modificare',
+      },
+      edits: {
+        type: 'array',
+        description: 'Sostituzioni da applicare in ordine',
+        items: {
+          type: 'object',
+          properties: {
+            search: { type: 'string', description: 'Testo attuale da sostituire (righe complete)' },
+            replace: { type: 'string', description: 'Nuovo testo' },
+          },
+          required: ['search', 'replace'],
+        },
+      },
+      diff: {
+        type: 'string',
+        description: 'Diff unificato (hunk @@ -a,b +c,d @@ con righe di contesto), alternativo a edits',
+      },
+    },
+    required: ['path'],
+  },
+};
+
+export const DELETE_FILE_TOOL: Anthropic.Tool = {
+  name: 'delete_file',
+  description: 'Rimuove un file esistente dal progetto.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Path relativo del file da rimuovere',
+      },
+    },
+    required: ['path'],
+  },
+};
+
+export const MIGRATION_TOOL: Anthropic.Tool = {
+  name: 'migration',
+  description: 'Migration SQL Postgres da applicare se la modifica cambia lo schema database. Ometti se lo schema non cambia.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      sql: {
+        type: 'string',
+        description: 'Statement SQL (CREATE/ALTER TABLE, indici, vincoli)',
+      },
+    },
+    required: ['sql'],
+  },
+};
+
+export const EXPLANATION_TOOL: Anthropic.Tool = {
+  name: 'explanation',
+  description: 'Breve spiegazione in italiano delle modifiche applicate.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      text: {
+        type: 'string',
+        description: 'Spiegazione sintetica',
+      },
+    },
+    required: ['text'],
+  },
+};
+
+export const UPDATE_DEPENDENCIES_TOOL: Anthropic.Tool = {
+  name: 'update_dependencies',
+  description: 'Dipendenze npm da aggiungere o aggiornare in package.json. Usa solo i pacchetti ammessi elencati nel prompt e solo se necessari: gli altri vengono rifiutati.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      dependencies: {
+        type: 'object',
+        additionalProperties: { type: 'string' },
+        description: 'Mappa nome pacchetto -> range di versione',
+      },
+      devDependencies: {
+        type: 'object',
+        additionalProperties: { type: 'string' },
+        description: 'Mappa nome pacchetto -> range di versione',
+      },
+    },
+  },
+};
+
+export const PROPOSE_SPEC_TOOL: Anthropic.Tool = {
+  name: 'propose_module_spec',
+  description: 'Propone la spec strutturata del modulo (entità, campi, validazioni, schermate) da far confermare all\'utente prima della generazione del codice.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Nome del modulo, es: Gestione Ordini' },
+      description: { type: 'string', description: 'Descrizione breve del modulo' },
+      entities: {
+        type: 'array',
+        description: 'Entità gestite dal modulo',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: 'Nome singolare, es: Ordine' },
+            pluralName: { type: 'string', description: 'Nome plurale, es: Ordini' },
+            displayField: { type: 'string', description: 'Campo che identifica il record nelle liste' },
+            fields: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string', description: 'Nome del campo in camelCase, es: dataConsegna' },
+                  label: { type: 'string', description: 'Etichetta in italiano' },
+                  type: {
+                    type: 'string',
+                    enum: ['string', 'text', 'number', 'integer', 'boolean', 'date', 'datetime', 'email', 'enum', 'relation'],
+                  },
+                  required: { type: 'boolean' },
+                  values: { type: 'array', items: { type: 'string' }, description: 'Valori ammessi (solo type enum)' },
+                  target: { type: 'string', description: 'Entità collegata (solo type relation)' },
+                  min: { type: 'number', description: 'Valore minimo (numeri) o lunghezza minima (testi)' },
+                  max: { type: 'number', description: 'Valore massimo (numeri) o lunghezza massima (testi)' },
+                },
+                required: ['name', 'type'],
+              },
+            },
+          },
+          required: ['name', 'fields'],
+        },
+      },
+      screens: {
+        type: 'array',
+        description: 'Schermate previste (liste, dettagli, dashboard)',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            description: { type: 'string' },
+            entity: { type: 'string', description: 'Entità principale della schermata' },
+          },
+          required: ['name'],
+        },
+      },
+    },
+    required: ['name', 'entities'],
+  },
+};
+
+export const BUSINESS_RULES_TOOL: Anthropic.Tool = {
+  name: 'set_business_rules',
+  description: "Imposta le regole di business del modulo (validazioni su tabelle e colonne del database). Invia l'elenco COMPLETO: le regole non elencate vengono rimosse. Ometti se le regole non cambiano.",
+  input_schema: {
+    type: 'object',
+    properties: {
+      rules: {
+        type: 'array',
+        description: 'Regole del modulo',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Identificatore snake_case univoco (es: sconto_max)' },
+            table: { type: 'string', description: 'Tabella del database' },
+            type: { type: 'string', enum: ['range', 'required-if', 'compare', 'unique'] },
+            message: { type: 'string', description: 'Messaggio mostrato se la regola non è rispettata, nella lingua del modulo' },
+            column: { type: 'string', description: 'Colonna controllata (range, required-if, compare)' },
+            min: { type: 'number', description: 'range: valore minimo' },
+            max: { type: 'number', description: 'range: valore massimo' },
+            when: {
+              type: 'object',
+              description: 'required-if: column obbligatoria quando when.column vale when.equals (senza equals: quando è valorizzata)',
+              properties: {
+                column: { type: 'string' },
+                equals: { type: ['string', 'number', 'boolean'] },
+              },
+              required: ['column'],
+            },
+            operator: { type: 'string', enum: ['<', '<=', '>', '>=', '=', '<>'], description: 'compare: column operator otherColumn' },
+            otherColumn: { type: 'string', description: 'compare: colonna di confronto' },
+            columns: { type: 'array', items: { type: 'string' }, description: 'unique: colonne la cui combinazione è univoca' },
+          },
+          required: ['table', 'type', 'message'],
+        },
+      },
+    },
+    required: ['rules'],
+  },
+};
+
+// Strumenti per la generazione di un nuovo modulo
+export const GENERATION_TOOLS: Anthropic.Tool[] = [WRITE_FILE_TOOL, UPDATE_DEPENDENCIES_TOOL, EXPLANATION_TOOL];
+
+// Strumenti per la modifica iterativa di un modulo esistente
+export const MODIFY_TOOLS: Anthropic.Tool[] = [
+  WRITE_FILE_TOOL,
+  EDIT_FILE_TOOL,
+  DELETE_FILE_TOOL,
+  MIGRATION_TOOL,
+  BUSINESS_RULES_TOOL,
+  UPDATE_DEPENDENCIES_TOOL,
+  EXPLANATION_TOOL,
+];
+
+// Strumenti per l'auto-fix degli errori di build
+export const AUTO_FIX_TOOLS: Anthropic.Tool[] = [WRITE_FILE_TOOL, DELETE_FILE_TOOL, UPDATE_DEPENDENCIES_TOOL, EXPLANATION_TOOL];
+
+// Forza il modello a rispondere solo tramite strumenti
+export const FORCE_TOOL_USE: Anthropic.ToolChoiceAny = { type: 'any' };
+
+const ALLOWED_EXTENSIONS = /\.(tsx?|jsx?|mjs|cjs|json|css|md|sql|svg|txt)$|^\.gitignore$|\/\.gitignore$/;
+
+// Valida un path relativo proposto dal modello
+export function validateFilePath(path: unknown): string | null {
+  if (typeof path !== 'string') {
+    return 'path mancante o non stringa';
+  }
+  const trimmed = path.trim();
+  if (trimmed.length === 0) {
+    return 'path vuoto';
+  }
+  if (trimmed.startsWith('/') || /^[a-zA-Z]:/.test(trimmed)) {
+    return `path assoluto non ammesso: ${trimmed}`;
+  }
+  if (trimmed.split('/').some(segment => segment === '..' || segment === '')) {
+    return `path non valido: ${trimmed}`;
+  }
+  if (trimmed.startsWith('node_modules/') || trimmed.startsWith('.next/') || trimmed.startsWith('.git/')) {
+    return `path riservato: ${trimmed}`;
+  }
+  if (!ALLOWED_EXTENSIONS.test(trimmed)) {
+    return `estensione non supportata: ${trimmed}`;
+  }
+  return null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateVersionMap(value: unknown, field: string, issues: string[]): Record<string, string> | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    issues.push(`update_dependencies: ${field} deve essere un oggetto`);
+    return undefined;
+  }
+  const result: Record<string, string> = {};
+  for (const [name, version] of Object.entries(value)) {
+    if (typeof version !== 'string' || version.trim().length === 0) {
+      issues.push(`update_dependencies: versione non valida per ${name}`);
+      continue;
+    }
+    result[name] = version.trim();
+  }
+  return result;
+}
+
+// Valida l'input di edit_file: blocchi search/replace oppure diff unificato
+function validateFilePatch(path: string, input: Record<string, unknown>, issues: string[]): FilePatch | null {
+  if (typeof input.diff === 'string' && input.diff.trim().length > 0) {
+    return { path, diff: stripCodeFences(input.diff) };
+  }
+  if (!Array.isArray(input.edits) || input.edits.length === 0) {
+    issues.push(`edit_file: edits o diff mancanti per ${path}`);
+    return null;
+  }
+  const edits = input.edits.filter((edit): edit is { search: string; replace: string } =>
+    isRecord(edit) && typeof edit.search === 'string' && edit.search.length > 0 && typeof edit.replace === 'string'
+  );
+  if (edits.length !== input.edits.length) {
+    issues.push(`edit_file: blocchi search/replace non validi per ${path}`);
+    return null;
+  }
+  return { path, edits: edits.map(({ search, replace }) => ({ search, replace })) };
+}
+
+// Rimuove eventuali code fence markdown che il modello a volte inserisce anche dentro gli strumenti
+function stripCodeFences(content: string): string {
+  const fenced = content.match(/^\s*```[\w-]*\n([\s\S]*?)\n?```\s*$/);
+  return fenced ? fenced[1] : content;
+}
+
+// Estrae e valida le chiamate agli strumenti da una risposta del modello
+export function parseToolUseBlocks(content: Anthropic.ContentBlock[]): Omit<StructuredOutput, 'source' | 'truncated'> {
+  const result: Omit<StructuredOutput, 'source' | 'truncated'> = {
+    files: {},
+    deletedFiles: [],
+    patches: [],
+    issues: [],
+  };
+
+  for (const block of content) {
+    if (block.type !== 'tool_use') {
+      continue;
+    }
+
+    const input = block.input;
+    if (!isRecord(input)) {
+      result.issues.push(`${block.name}: input non valido`);
+      continue;
+    }
+
+    switch (block.name) {
+      case 'write_file': {
+        const pathError = validateFilePath(input.path);
+        if (pathError) {
+          result.issues.push(`write_file: ${pathError}`);
+          break;
+        }
+        if (typeof input.content !== 'string' || input.content.trim().length === 0) {
+          result.issues.push(`write_file: contenuto mancante per ${input.path}`);
+          break;
+        }
+        const path = (input.path as string).trim();
+        result.files[path] = stripCodeFences(input.content);
+        result.deletedFiles = result.deletedFiles.filter(p => p !== path);
+        // La riscrittura completa sostituisce le modifiche parziali precedenti allo stesso file
+        result.patches = result.patches.filter(patch => patch.path !== path);
+        break;
+      }
+      case 'edit_file': {
+        const pathError = validateFilePath(input.path);
+        if (pathError) {
+          result.issues.push(`edit_file: ${pathError}`);
+          break;
+        }
+        const path = (input.path as string).trim();
+        const patch = validateFilePatch(path, input, result.issues);
+        if (patch) {
+          result.patches.push(patch);
+        }
+        break;
+      }
+      case 'delete_file': {
+        const pathError = validateFilePath(input.path);
+        if (pathError) {
+          result.issues.push(`delete_file: ${pathError}`);
+          break;
+        }
+        const path = (input.path as string).trim();
+        delete result.files[path];
+        result.patches = result.patches.filter(patch => patch.path !== path);
+        if (!result.deletedFiles.includes(path)) {
+          result.deletedFiles.push(path);
+        }
+        break;
+      }
+      case 'migration': {
+        if (typeof input.sql !== 'string' || input.sql.trim().length === 0) {
+          result.issues.push('migration: sql mancante');
+          break;
+        }
+        const sql = stripCodeFences(input.sql).trim();
+        result.migration = result.migration ? `${result.migration}\n\n${sql}` : sql;
+        break;
+      }
+      case 'explanation': {
+        if (typeof input.text !== 'string') {
+          result.issues.push('explanation: text mancante');
+          break;
+        }
+        result.explanation = input.text.trim();
+        break;
+      }
+      case 'update_dependencies': {
+        const dependencies = validateVersionMap(input.dependencies, 'dependencies', result.issues);
+        const devDependencies = validateVersionMap(input.devDependencies, 'devDependencies', result.issues);
+        if (dependencies || devDependencies) {
+          result.dependencyUpdate = {
+            dependencies: { ...result.dependencyUpdate?.dependencies, ...dependencies },
+            devDependencies: { ...result.dependencyUpdate?.devDependencies, ...devDependencies },
+          };
+        }
+        break;
+      }
+      case 'set_business_rules': {
+        if (!Array.isArray(input.rules)) {
+          result.issues.push('set_business_rules: rules deve essere un array');
+          break;
+        }
+        result.businessRules = input.rules;
+        break;
+      }
+      default:
+        result.issues.push(`strumento sconosciuto: ${block.name}`);
+    }
+  }
+
+  return result;
+}
+
+// Parser legacy per le sezioni === MODIFIED === / === PATCH === / === MIGRATION === / === PACKAGE_JSON_UPDATE === / === EXPLANATION ===
+export function parseLegacySectionResponse(response: string): Omit<StructuredOutput, 'source' | 'truncated'> {
+  const result: Omit<StructuredOutput, 'source' | 'truncated'> = {
+    files: {},
+    deletedFiles: [],
+    patches: [],
+    issues: [],
+  };
+  const sectionEnd = '(?=\\n=== (?:MODIFIED|PATCH|MIGRATION|PACKAGE_JSON_UPDATE|EXPLANATION)[: ]|$)';
+  const cleanContent = (content: string) => content.trim().replace(/^```[\w]*\n?/gm, '').replace(/\n?```$/gm, '').trim();
+
+  const modifiedPattern = new RegExp(`=== MODIFIED: (.+?) ===\\n([\\s\\S]*?)${sectionEnd}`, 'g');
+  let match;
+  while ((match = modifiedPattern.exec(response)) !== null) {
+    const filename = match[1].trim();
+    const content = cleanContent(match[2]);
+    if (filename && content) {
+      result.files[filename] = content;
+    }
+  }
+
+  // === PATCH: path === con blocchi SEARCH/REPLACE o diff unificato
+  const patchPattern = new RegExp(`=== PATCH: (.+?) ===\\n([\\s\\S]*?)${sectionEnd}`, 'g');
+  while ((match = patchPattern.exec(response)) !== null) {
+    const filename = match[1].trim();
+    const body = match[2].trim().replace(/^```[\w-]*\n?/, '').replace(/\n?```$/, '');
+    const edits = parseSearchReplaceBlocks(body);
+    if (edits.length > 0) {
+      result.patches.push({ path: filename, edits });
+    } else if (/^@@ /m.test(body)) {
+      result.patches.push({ path: filename, diff: body });
+    } else {
+      result.issues.push(`PATCH: nessun blocco SEARCH/REPLACE o hunk per ${filename}`);
+    }
+  }
+
+  const migrationMatch = new RegExp(`=== MIGRATION: (.+?) ===\\n([\\s\\S]*?)${sectionEnd}`).exec(response);
+  if (migrationMatch) {
+    const migration = cleanContent(migrationMatch[2]);
+    if (migration) {
+      result.migration = migration;
+    }
+  }
+
+  const packageMatch = new RegExp(`=== PACKAGE_JSON_UPDATE ===\\n([\\s\\S]*?)${sectionEnd}`).exec(response);
+  if (packageMatch) {
+    try {
+      const packageUpdates = JSON.parse(cleanContent(packageMatch[1]));
+      result.dependencyUpdate = {
+        dependencies: validateVersionMap(packageUpdates.dependencies, 'dependencies', result.issues),
+        devDependencies: validateVersionMap(packageUpdates.devDependencies, 'devDependencies', result.issues),
+      };
+    } catch {
+      result.issues.push('PACKAGE_JSON_UPDATE: JSON non valido');
+    }
+  }
+
+  const explanationMatch = new RegExp(`=== EXPLANATION ===\\n([\\s\\S]*?)${sectionEnd}`).exec(response);
+  if (explanationMatch) {
+    result.explanation = explanationMatch[1].trim();
+  }
+
+  // Formato ancora più vecchio: === FILENAME: path ===
+  if (Object.keys(result.files).length === 0 && result.patches.length === 0) {
+    result.files = parseClaudeResponse(response);
+  }
+
+  return result;
+}
+
+// Converte una risposta del modello nel contratto strutturato, con fallback al parser testuale
+export function parseStructuredResponse(message: Pick<Anthropic.Message, 'content' | 'stop_reason'>): StructuredOutput {
+  const truncated = message.stop_reason === 'max_tokens';
+  const hasToolUse = message.content.some(block => block.type === 'tool_use');
+
+  if (hasToolUse) {
+    const parsed = parseToolUseBlocks(message.content);
+    if (truncated) {
+      parsed.issues.push('Risposta troncata (max_tokens): l\'ultimo file potrebbe mancare');
+    }
+    if (parsed.issues.length > 0) {
+      console.warn('[STRUCTURED] Chiamate scartate:', parsed.issues.join('; '));
+    }
+    return { ...parsed, source: 'tools', truncated };
+  }
+
+  const responseText = message.content
+    .map((block) => (block.type === 'text' ? block.text : ''))
+    .join('\n');
+
+  console.warn('[STRUCTURED] Nessuna chiamata a strumenti, uso il parser testuale legacy');
+  const parsed = parseLegacySectionResponse(responseText);
+  return { ...parsed, source: 'text', truncated };
+}
+
+// Applica file scritti e rimossi a un insieme di file esistente
+export function applyStructuredOutput(
+  currentFiles: Record<string, string>,
+  output: Pick<StructuredOutput, 'files' | 'deletedFiles'>
+): Record<string, string> {
+  const files: Record<string, string> = { ...currentFiles };
+  for (const path of output.deletedFiles) {
+    delete files[path];
+  }
+  for (const [path, content] of Object.entries(output.files)) {
+    files[path] = content;
+  }
+  return files;
+}
@@ -1,3 +1,13 @@
+import type { BusinessRule } from '../business-rules';
+import type { ProgressEvent } from '../generation-progress';
+import type { ModuleSpec } from '../entity-spec';
+import type { Locale } from '../locale';
+import type { LlmCallType } from '../llm-provider';
+import type { MigrationRiskReport } from '../migration-risk';
+import type { SecurityFinding } from '../security-scan';
+import type { StackProfileId } from '../stack-profiles';
+import type { WorkspaceTheme } from '../theme';
+
 /**
  * TypeScript types per le tabelle del sistema modulare
  * Generati per corrispondere allo schema Supabase
@@ -8,6 +18,12 @@ export interface Workspace {
   user_id: string;
   name: string;
   description?: string;
+  // Lingua di default dei moduli (migration 007)
+  locale: Locale;
+  // Profilo di stack di default dei moduli (migration 010)
+  stack_profile: StackProfileId;
+  // Tema delle app generate (migration 011, NULL = DEFAULT_THEME di lib/theme.ts)
+  theme?: WorkspaceTheme | null;
   created_at: string;
   updated_at: string;
 }
@@ -20,6 +36,10 @@ export interface Module {
   type?: string;
   description?: string;
   icon?: string;
+  // Lingua del modulo, se diversa da quella del workspace (migration 007)
+  locale?: Locale;
+  // Profilo di stack del modulo, se diverso da quello del workspace (migration 010)
+  stack_profile?: StackProfileId;
   dev_version_id?: string;
   staging_version_id?: string;
   prod_version_id?: string;
@@ -35,13 +55,29 @@ export interface ModuleVersion {
   prompt: string;
   files: Record<string, string>;
   database_schema?: any;
+  // Spec confermata dall'utente (migration 006)
+  spec?: ModuleSpec;
+  // Regole di business (migration 012): validazioni dell'app generata e vincoli SQL
+  business_rules?: BusinessRule[];
+  // Migration della versione rispetto alla versione padre (null = versione precedente al migration runner)
+  migration_sql?: string | null;
+  migration_down_sql?: string | null;
+  // Rischio degli statement della migration (migration 014) e conferma data alla promozione
+  migration_risk?: MigrationRiskReport | null;
+  migration_risk_confirmed?: boolean;
   github_repo_url?: string;
   github_branch?: string;
   dev_deploy_url?: string;
   staging_deploy_url?: string;
   prod_deploy_url?: string;
-  status: 'draft' | 'deploying' | 'deployed_dev' | 'deployed_staging' | 'deployed_prod' | 'failed';
+  status: 'draft' | 'deploying' | 'deployed_dev' | 'deployed_staging' | 'deployed_prod' | 'failed' | 'blocked';
   build_log?: string;
+  // Risultati dell'analisi di sicurezza (migration 009); 'blocked' se ce ne sono di gravi
+  security_findings?: SecurityFinding[] | null;
+  // Deploy forzato nonostante risultati gravi
+  security_override?: boolean;
+  // Profilo di stack con cui è stata generata (migration 010; assente = DEFAULT_STACK_PROFILE)
+  stack_profile?: StackProfileId | null;
   parent_version_id?: string;
   created_at: string;
   created_by?: string;
@@ -59,3 +95,107 @@ export interface ModuleConnection {
   created_at: string;
 }
 
+export type JobType = 'module.create' | 'module.modify' | 'module.deploy' | 'module.translate' | 'module.theme' | 'module.rules';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface Job {
+  id: string;
+  type: JobType;
+  module_id?: string;
+  payload: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  result_status?: number;
+  error?: string;
+  progress: ProgressEvent[];
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by?: string;
+  locked_at?: string;
+  created_at: string;
+  updated_at: string;
+  started_at?: string;
+  finished_at?: string;
+}
+
+// Una chiamata LLM registrata per la contabilità dei costi (migration 008)
+export interface LlmUsageRecord {
+  id: string;
+  workspace_id: string;
+  module_id?: string | null;
+  module_version_id?: string | null;
+  call_type: LlmCallType;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+  // Stima al momento della chiamata (NUMERIC: può arrivare come stringa)
+  cost_usd: number | string;
+  created_at: string;
+}
+
+// Formato di module_versions.database_schema (usato da generateMigrationSQL)
+export interface DatabaseColumn {
+  name: string;
+  type: string;
+  primaryKey?: boolean;
+  notNull?: boolean;
+  default?: string;
+  // Valori ammessi (vincolo CHECK ... IN (...))
+  enumValues?: string[];
+  // Foreign key verso un'altra tabella del modulo (azioni ON DELETE/ON UPDATE solo se diverse da NO ACTION)
+  references?: DatabaseReference;
+}
+
+export type ReferentialAction = 'cascade' | 'restrict' | 'set null' | 'set default';
+
+export interface DatabaseReference {
+  table: string;
+  column: string;
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+}
+
+// Vincolo di tabella non rappresentato sulle colonne (migration applicate con lib/ddl-parser.ts)
+export interface DatabaseConstraint {
+  name: string;
+  type: 'unique' | 'check';
+  columns: string[];
+  // Solo check: espressione SQL
+  expression?: string;
+}
+
+export interface DatabaseIndex {
+  name: string;
+  // Colonne o espressioni indicizzate
+  columns: string[];
+  unique?: boolean;
+}
+
+export interface DatabaseTable {
+  name: string;
+  columns: DatabaseColumn[];
+  constraints?: DatabaseConstraint[];
+  indexes?: DatabaseIndex[];
+}
+
+export interface DatabaseSchema {
+  tables: DatabaseTable[];
+}
+
+export interface ModuleTemplateRow {
+  id: string;
+  workspace_id: string;
+  slug: string;
+  name: string;
+  description?: string;
+  module_type?: string;
+  icon?: string;
+  keywords: string[];
+  default_schema?: DatabaseSchema;
+  files: Record<string, string>;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,13 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Client Supabase con service role per il codice lato server fuori dalle route (es: worker dei job)
+export function getSupabaseClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase credentials not configured');
+  }
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+export type SupabaseClient = ReturnType<typeof getSupabaseClient>;
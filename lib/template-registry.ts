@@ -0,0 +1,235 @@
+import * as fs from 'fs';
+import * as nodePath from 'path';
+import { withDataLayer } from './data-layer';
+import type { DatabaseSchema, ModuleTemplateRow } from './supabase/schema';
+import type { SupabaseClient } from './supabase/server';
+
+/**
+ * Registry dei template di modulo (fallback della generazione e punto di partenza dei nuovi moduli).
+ * - Built-in: una cartella per template in templates/<id>/ con template.json (metadata) e files/ (sorgenti);
+ *   lib/db.ts e lib/tables.ts sono generati dal defaultSchema (lib/data-layer.ts)
+ * - Workspace: righe della tabella module_templates (migration 005), contribuite via POST /api/templates
+ * La scelta del template per un prompt avviene per punteggio sulle parole chiave di ciascun template.
+ */
+
+export const TEMPLATES_DIR = nodePath.join(process.cwd(), 'templates');
+
+// Template usato quando nessuna parola chiave corrisponde al prompt
+export const DEFAULT_TEMPLATE_ID = 'orders';
+
+export interface TemplateMetadata {
+  id: string;
+  name: string;
+  description: string;
+  moduleType: string | null;
+  icon: string | null;
+  keywords: string[];
+  defaultSchema: DatabaseSchema | null;
+  source: 'builtin' | 'workspace';
+  workspaceId?: string;
+}
+
+export interface ModuleTemplate extends TemplateMetadata {
+  files: Record<string, string>;
+}
+
+export interface TemplateMatch {
+  template: ModuleTemplate;
+  score: number;
+  matchedKeywords: string[];
+}
+
+// Contenuto di templates/<id>/template.json
+interface TemplateManifest {
+  id: string;
+  name: string;
+  description?: string;
+  moduleType?: string;
+  icon?: string;
+  keywords: string[];
+  defaultSchema?: DatabaseSchema;
+}
+
+let builtinTemplatesCache: ModuleTemplate[] | null = null;
+
+// Legge ricorsivamente i sorgenti di un template (percorsi relativi con separatore '/')
+function readTemplateFiles(directory: string, prefix: string = ''): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    const fullPath = nodePath.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      Object.assign(files, readTemplateFiles(fullPath, relativePath));
+    } else {
+      files[relativePath] = fs.readFileSync(fullPath, 'utf8');
+    }
+  }
+  return files;
+}
+
+function loadBuiltinTemplate(directory: string): ModuleTemplate {
+  const manifest: TemplateManifest = JSON.parse(fs.readFileSync(nodePath.join(directory, 'template.json'), 'utf8'));
+  if (!manifest.id || !manifest.name || !Array.isArray(manifest.keywords)) {
+    throw new Error(`Template non valido in ${directory}: id, name e keywords sono obbligatori`);
+  }
+
+  const filesDirectory = nodePath.join(directory, 'files');
+  const files = fs.existsSync(filesDirectory) ? readTemplateFiles(filesDirectory) : {};
+  if (Object.keys(files).length === 0) {
+    throw new Error(`Template ${manifest.id} senza file in ${filesDirectory}`);
+  }
+
+  return {
+    id: manifest.id,
+    name: manifest.name,
+    description: manifest.description || '',
+    moduleType: manifest.moduleType || null,
+    icon: manifest.icon || null,
+    keywords: manifest.keywords,
+    defaultSchema: manifest.defaultSchema || null,
+    source: 'builtin',
+    files: withDataLayer(files, manifest.defaultSchema),
+  };
+}
+
+// Template built-in (letti da disco una sola volta per processo)
+export function getBuiltinTemplates(): ModuleTemplate[] {
+  if (builtinTemplatesCache) {
+    return builtinTemplatesCache;
+  }
+
+  const templates: ModuleTemplate[] = [];
+  if (fs.existsSync(TEMPLATES_DIR)) {
+    const entries = fs.readdirSync(TEMPLATES_DIR, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      if (!entry.isDirectory()) {
+        continue;
+      }
+      try {
+        templates.push(loadBuiltinTemplate(nodePath.join(TEMPLATES_DIR, entry.name)));
+      } catch (error) {
+        console.warn(`[TEMPLATES] Template ${entry.name} ignorato:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  if (templates.length === 0) {
+    console.warn(`[TEMPLATES] Nessun template built-in trovato in ${TEMPLATES_DIR}`);
+  }
+  builtinTemplatesCache = templates;
+  return templates;
+}
+
+function fromTemplateRow(row: ModuleTemplateRow): ModuleTemplate {
+  return {
+    id: row.slug,
+    name: row.name,
+    description: row.description || '',
+    moduleType: row.module_type || null,
+    icon: row.icon || null,
+    keywords: row.keywords || [],
+    defaultSchema: row.default_schema || null,
+    source: 'workspace',
+    workspaceId: row.workspace_id,
+    files: row.files || {},
+  };
+}
+
+export async function getWorkspaceTemplates(supabase: SupabaseClient, workspaceId: string): Promise<ModuleTemplate[]> {
+  const { data, error } = await supabase
+    .from('module_templates')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    // Es: migration 005 non ancora applicata, si usano solo i built-in
+    console.warn('[TEMPLATES] Template del workspace non disponibili:', error.message);
+    return [];
+  }
+  return ((data || []) as ModuleTemplateRow[]).map(fromTemplateRow);
+}
+
+// Built-in + template del workspace (un template del workspace con lo stesso id sostituisce il built-in)
+export async function listTemplates(supabase?: SupabaseClient, workspaceId?: string): Promise<ModuleTemplate[]> {
+  const workspaceTemplates = supabase && workspaceId ? await getWorkspaceTemplates(supabase, workspaceId) : [];
+  const overridden = new Set(workspaceTemplates.map(template => template.id));
+  return [
+    ...getBuiltinTemplates().filter(template => !overridden.has(template.id)),
+    ...workspaceTemplates,
+  ];
+}
+
+export function toTemplateMetadata(template: ModuleTemplate): TemplateMetadata {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    moduleType: template.moduleType,
+    icon: template.icon,
+    keywords: template.keywords,
+    defaultSchema: template.defaultSchema,
+    source: template.source,
+    ...(template.workspaceId && { workspaceId: template.workspaceId }),
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Occorrenze della parola chiave come parola intera (niente match di "ordine" dentro "coordinates")
+function countKeywordOccurrences(text: string, keyword: string): number {
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(keyword)}(?![\\p{L}\\p{N}])`, 'gu');
+  return (text.match(pattern) || []).length;
+}
+
+/**
+ * Punteggio di un template per un prompt: per ogni parola chiave, occorrenze × numero di parole
+ * della parola chiave (le frasi come "ordini clienti" sono più specifiche delle parole singole).
+ */
+export function scoreTemplate(template: ModuleTemplate, prompt: string): TemplateMatch {
+  const text = prompt.toLowerCase();
+  let score = 0;
+  const matchedKeywords: string[] = [];
+
+  for (const keyword of template.keywords) {
+    const normalized = keyword.trim().toLowerCase();
+    if (!normalized) {
+      continue;
+    }
+    const occurrences = countKeywordOccurrences(text, normalized);
+    if (occurrences > 0) {
+      score += occurrences * normalized.split(/\s+/).length;
+      matchedKeywords.push(keyword);
+    }
+  }
+
+  return { template, score, matchedKeywords };
+}
+
+// Template ordinati per punteggio; a parità vince il template del workspace, poi l'ordine del registry
+export function matchTemplates(prompt: string, templates: ModuleTemplate[]): TemplateMatch[] {
+  return templates
+    .map(template => scoreTemplate(template, prompt))
+    .sort((a, b) => {
+      if (b.score !== a.score) {
+        return b.score - a.score;
+      }
+      return (a.template.source === 'workspace' ? 0 : 1) - (b.template.source === 'workspace' ? 0 : 1);
+    });
+}
+
+// Template più adatto al prompt (DEFAULT_TEMPLATE_ID se nessuna parola chiave corrisponde)
+export function selectTemplate(prompt: string, templates: ModuleTemplate[] = getBuiltinTemplates()): ModuleTemplate {
+  if (templates.length === 0) {
+    throw new Error(`Nessun template disponibile: verifica la cartella ${TEMPLATES_DIR}`);
+  }
+
+  const [best] = matchTemplates(prompt, templates);
+  if (best.score > 0) {
+    return best.template;
+  }
+  return templates.find(template => template.id === DEFAULT_TEMPLATE_ID) || templates[0];
+}
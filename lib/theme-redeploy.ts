@@ -0,0 +1,155 @@
+import { getBaseFiles } from './code-generation';
+import { createAndPushGitHubRepo, createVercelDeployment } from './github-deploy';
+import { DEFAULT_LOCALE, getI18nDefaultLocale } from './locale';
+import { getVersionStackProfile } from './stack-profiles';
+import { loadWorkspaceTheme, withTheme } from './theme';
+import { getVersionBusinessRules } from './business-rules';
+import type { ProgressReporter } from './generation-progress';
+import type { JobOutcome } from './jobs';
+import type { SupabaseClient } from './supabase/server';
+
+/**
+ * Applicazione del tema del workspace a un modulo (job 'module.theme', accodato da
+ * PUT /api/workspaces/[workspaceId]/theme per ogni modulo del workspace).
+ * Riscrive solo app/theme.css e lib/brand.ts (withTheme) sulla versione DEV, salva una nuova versione
+ * e la ridistribuisce: nessuna chiamata LLM. Staging e produzione ricevono il tema con la normale promozione.
+ */
+
+export interface ApplyThemePayload {
+  moduleId: string;
+}
+
+export async function runApplyTheme(
+  supabase: SupabaseClient,
+  payload: ApplyThemePayload,
+  onProgress: ProgressReporter
+): Promise<JobOutcome> {
+  const { moduleId } = payload;
+
+  const { data: module, error: moduleError } = await supabase
+    .from('modules')
+    .select('*')
+    .eq('id', moduleId)
+    .single();
+
+  if (moduleError || !module) {
+    return { status: 404, body: { success: false, error: 'Modulo non trovato' } };
+  }
+
+  if (!module.dev_version_id) {
+    return { status: 404, body: { success: false, error: 'Nessuna versione DEV a cui applicare il tema' } };
+  }
+
+  const { data: version } = await supabase
+    .from('module_versions')
+    .select('*')
+    .eq('id', module.dev_version_id)
+    .single();
+
+  if (!version) {
+    return { status: 404, body: { success: false, error: 'Versione DEV non trovata' } };
+  }
+
+  // Il tema è letto all'esecuzione: con più cambi ravvicinati vince l'ultimo salvato
+  const theme = await loadWorkspaceTheme(supabase, module.workspace_id);
+  const files: Record<string, string> = version.files || {};
+  const newFiles = withTheme(files, theme);
+  const changed = Object.keys(newFiles).some(path => newFiles[path] !== files[path]);
+  if (!changed) {
+    return {
+      status: 200,
+      body: { success: true, versionId: version.id, message: 'Il modulo usa già il tema del workspace' },
+    };
+  }
+
+  // Il cambio di tema non cambia stack: la nuova versione mantiene il profilo della sorgente
+  const stackProfile = getVersionStackProfile(version);
+  // Una versione bloccata dall'analisi di sicurezza riceve il tema ma resta senza deploy
+  const deployBlocked = version.status === 'blocked';
+
+  const { data: existingVersions } = await supabase
+    .from('module_versions')
+    .select('version_number')
+    .eq('module_id', moduleId)
+    .order('version_number', { ascending: false })
+    .limit(1);
+
+  const nextVersionNumber = existingVersions && existingVersions.length > 0
+    ? existingVersions[0].version_number + 1
+    : 1;
+
+  onProgress({ phase: 'saving', message: `Salvataggio versione v${nextVersionNumber} con il nuovo tema...` });
+  const { data: newVersion, error: versionError } = await supabase
+    .from('module_versions')
+    .insert({
+      module_id: moduleId,
+      version_number: nextVersionNumber,
+      prompt: version.prompt,
+      files: newFiles,
+      database_schema: version.database_schema || null,
+      spec: version.spec || null,
+      business_rules: getVersionBusinessRules(version),
+      status: deployBlocked ? 'blocked' : 'draft',
+      security_findings: version.security_findings || [],
+      security_override: version.security_override || false,
+      stack_profile: stackProfile,
+      parent_version_id: version.id,
+      created_by: 'Aggiornamento tema del workspace',
+    })
+    .select()
+    .single();
+
+  if (versionError || !newVersion) {
+    console.error('[THEME] Errore creazione versione:', versionError);
+    return {
+      status: 500,
+      body: { success: false, error: versionError?.message || 'Errore creazione versione' },
+    };
+  }
+
+  await supabase
+    .from('modules')
+    .update({
+      dev_version_id: newVersion.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', moduleId);
+
+  // Deploy su DEV
+  let devUrl: string | undefined;
+  if (deployBlocked) {
+    console.warn(`[THEME] Deploy di ${module.name} saltato: versione bloccata dall'analisi di sicurezza`);
+  } else {
+    try {
+      console.log(`[THEME] Deploy su DEV di ${module.name}...`);
+      onProgress({ phase: 'github', message: 'Push del tema su GitHub...' });
+      const allFiles = { ...getBaseFiles(getI18nDefaultLocale(newFiles) || DEFAULT_LOCALE, stackProfile, theme), ...newFiles };
+      const repoName = `erp-module-${moduleId.substring(0, 8)}`;
+      const { repoUrl } = await createAndPushGitHubRepo(moduleId, allFiles, module.name, stackProfile);
+      devUrl = await createVercelDeployment(repoName, repoUrl, moduleId, { onProgress });
+
+      await supabase
+        .from('module_versions')
+        .update({
+          dev_deploy_url: devUrl,
+          github_repo_url: repoUrl,
+        })
+        .eq('id', newVersion.id);
+    } catch (error) {
+      console.warn('[THEME] Errore deploy:', error);
+      // Continua comunque: la versione con il nuovo tema è salvata
+    }
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      version: newVersion,
+      versionId: newVersion.id,
+      devUrl,
+      ...(deployBlocked && { deployBlocked }),
+      message: `Tema del workspace applicato a ${module.name}`,
+    },
+  };
+}
@@ -0,0 +1,271 @@
+import type { SupabaseClient } from './supabase/server';
+
+/**
+ * Tema del workspace (palette, font, raggio, densità e logo) condiviso da tutte le app generate.
+ * È salvato su workspaces.theme (migration 011, NULL = DEFAULT_THEME) ed emesso come file dell'app:
+ * - app/theme.css: variabili CSS e token Tailwind (@theme), importato da app/globals.css
+ * - lib/brand.ts: URL del logo
+ * I prompt di generazione usano solo le classi dei token (bg-primary, text-foreground, ...), quindi
+ * cambiare tema riscrive solo questi due file e le app si ridistribuiscono senza chiamate LLM
+ * (job 'module.theme', lib/theme-redeploy.ts).
+ */
+
+export const THEME_CSS_PATH = 'app/theme.css';
+export const BRAND_MODULE_PATH = 'lib/brand.ts';
+const GLOBALS_CSS_PATH = 'app/globals.css';
+
+export const THEME_COLORS = [
+  'primary',
+  'primaryForeground',
+  'secondary',
+  'accent',
+  'background',
+  'foreground',
+  'muted',
+  'border',
+  'danger',
+  'success',
+] as const;
+
+export type ThemeColor = typeof THEME_COLORS[number];
+
+export const SANS_FONTS = ['geist', 'system', 'humanist', 'serif'] as const;
+export const MONO_FONTS = ['geist-mono', 'system-mono'] as const;
+export const THEME_RADII = ['none', 'sm', 'md', 'lg', 'full'] as const;
+export const THEME_DENSITIES = ['compact', 'comfortable', 'spacious'] as const;
+
+export type SansFont = typeof SANS_FONTS[number];
+export type MonoFont = typeof MONO_FONTS[number];
+export type ThemeRadius = typeof THEME_RADII[number];
+export type ThemeDensity = typeof THEME_DENSITIES[number];
+
+export interface WorkspaceTheme {
+  // Colori esadecimali (#rrggbb)
+  palette: Record<ThemeColor, string>;
+  fontSans: SansFont;
+  fontMono: MonoFont;
+  radius: ThemeRadius;
+  density: ThemeDensity;
+  // Logo mostrato nell'intestazione delle app (solo https)
+  logoUrl: string | null;
+}
+
+export const DEFAULT_THEME: WorkspaceTheme = {
+  palette: {
+    primary: '#2563eb',
+    primaryForeground: '#ffffff',
+    secondary: '#475569',
+    accent: '#0ea5e9',
+    background: '#ffffff',
+    foreground: '#171717',
+    muted: '#f3f4f6',
+    border: '#d1d5db',
+    danger: '#dc2626',
+    success: '#16a34a',
+  },
+  fontSans: 'geist',
+  fontMono: 'geist-mono',
+  radius: 'md',
+  density: 'comfortable',
+  logoUrl: null,
+};
+
+// Le variabili --font-geist-* sono definite da next/font in app/layout.tsx (file base)
+const FONT_FAMILIES: Record<SansFont | MonoFont, string> = {
+  geist: 'var(--font-geist-sans), Arial, Helvetica, sans-serif',
+  system: 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif',
+  humanist: 'Seravek, "Gill Sans Nova", Ubuntu, Calibri, "DejaVu Sans", source-sans-pro, sans-serif',
+  serif: 'ui-serif, Georgia, Cambria, "Times New Roman", serif',
+  'geist-mono': 'var(--font-geist-mono), ui-monospace, monospace',
+  'system-mono': 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace',
+};
+
+// Raggio base (rounded-md); gli altri raggi sono proporzionali
+const RADIUS_VALUES: Record<ThemeRadius, string> = {
+  none: '0rem',
+  sm: '0.25rem',
+  md: '0.5rem',
+  lg: '0.75rem',
+  full: '9999px',
+};
+
+// Unità di spaziatura di Tailwind (p-1, gap-1, ...): la densità scala tutte le spaziature
+const DENSITY_SPACING: Record<ThemeDensity, string> = {
+  compact: '0.2rem',
+  comfortable: '0.25rem',
+  spacious: '0.3rem',
+};
+
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === 'string' && (values as readonly string[]).includes(value);
+}
+
+const toKebabCase = (value: string) => value.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+/**
+ * Valida un tema (tipicamente JSON dal client) e lo completa con i valori di DEFAULT_THEME:
+ * si possono inviare anche solo i campi da cambiare. theme è null se ci sono errori.
+ */
+export function normalizeTheme(input: unknown): { theme: WorkspaceTheme | null; errors: string[] } {
+  const errors: string[] = [];
+  if (!isRecord(input)) {
+    return { theme: null, errors: ['Il tema deve essere un oggetto JSON'] };
+  }
+
+  const palette = { ...DEFAULT_THEME.palette };
+  if (input.palette !== undefined) {
+    if (!isRecord(input.palette)) {
+      errors.push('palette deve essere un oggetto { colore: "#rrggbb" }');
+    } else {
+      for (const [key, value] of Object.entries(input.palette)) {
+        if (!isOneOf(THEME_COLORS, key)) {
+          errors.push(`palette.${key}: colore non previsto (ammessi: ${THEME_COLORS.join(', ')})`);
+        } else if (typeof value !== 'string' || !HEX_COLOR_PATTERN.test(value)) {
+          errors.push(`palette.${key}: usa un colore esadecimale #rrggbb`);
+        } else {
+          palette[key] = value.toLowerCase();
+        }
+      }
+    }
+  }
+
+  const pick = <T extends string>(field: keyof WorkspaceTheme, values: readonly T[], fallback: T): T => {
+    const value = input[field];
+    if (value === undefined) {
+      return fallback;
+    }
+    if (!isOneOf(values, value)) {
+      errors.push(`${field} non valido (ammessi: ${values.join(', ')})`);
+      return fallback;
+    }
+    return value;
+  };
+
+  const fontSans = pick('fontSans', SANS_FONTS, DEFAULT_THEME.fontSans);
+  const fontMono = pick('fontMono', MONO_FONTS, DEFAULT_THEME.fontMono);
+  const radius = pick('radius', THEME_RADII, DEFAULT_THEME.radius);
+  const density = pick('density', THEME_DENSITIES, DEFAULT_THEME.density);
+
+  let logoUrl: string | null = DEFAULT_THEME.logoUrl;
+  if (typeof input.logoUrl === 'string' && input.logoUrl.trim()) {
+    try {
+      const url = new URL(input.logoUrl.trim());
+      if (url.protocol !== 'https:') {
+        errors.push('logoUrl deve essere un indirizzo https');
+      } else {
+        logoUrl = url.toString();
+      }
+    } catch {
+      errors.push('logoUrl non è un URL valido');
+    }
+  } else if (input.logoUrl !== undefined && input.logoUrl !== null && input.logoUrl !== '') {
+    errors.push('logoUrl deve essere una stringa');
+  }
+
+  if (errors.length > 0) {
+    return { theme: null, errors };
+  }
+  return { theme: { palette, fontSans, fontMono, radius, density, logoUrl }, errors };
+}
+
+// Tema salvato su un workspace (NULL o non valido = DEFAULT_THEME)
+export function resolveTheme(value: unknown): WorkspaceTheme {
+  return (value !== null && value !== undefined && normalizeTheme(value).theme) || DEFAULT_THEME;
+}
+
+export async function loadWorkspaceTheme(supabase: SupabaseClient, workspaceId: string): Promise<WorkspaceTheme> {
+  const { data: workspace } = await supabase
+    .from('workspaces')
+    .select('theme')
+    .eq('id', workspaceId)
+    .single();
+  return resolveTheme(workspace?.theme);
+}
+
+// Sorgente di app/theme.css: variabili del tema e token Tailwind
+export function renderThemeCss(theme: WorkspaceTheme): string {
+  const colors = THEME_COLORS.map(color => toKebabCase(color));
+  return `/* Tema del workspace: generato automaticamente, viene riscritto a ogni cambio di tema */
+:root {
+${THEME_COLORS.map((color, index) => `  --${colors[index]}: ${theme.palette[color]};`).join('\n')}
+  --radius: ${RADIUS_VALUES[theme.radius]};
+}
+
+@theme inline {
+${colors.map(color => `  --color-${color}: var(--${color});`).join('\n')}
+  --font-sans: ${FONT_FAMILIES[theme.fontSans]};
+  --font-mono: ${FONT_FAMILIES[theme.fontMono]};
+  --radius-sm: calc(var(--radius) * 0.5);
+  --radius-md: var(--radius);
+  --radius-lg: calc(var(--radius) * 1.5);
+  --radius-xl: calc(var(--radius) * 2);
+}
+
+@theme {
+  --spacing: ${DENSITY_SPACING[theme.density]};
+}
+`;
+}
+
+// Sorgente di lib/brand.ts per l'app generata
+export function renderBrandModule(theme: WorkspaceTheme): string {
+  return `// Marchio del workspace: generato automaticamente dal tema, non modificare
+export const LOGO_URL: string | null = ${JSON.stringify(theme.logoUrl)};
+`;
+}
+
+// app/globals.css dei file base: Tailwind, tema e stile del body
+export function renderGlobalsCss(): string {
+  return `@import "tailwindcss";
+@import "./theme.css";
+
+body {
+  background: var(--background);
+  color: var(--foreground);
+  font-family: var(--font-sans);
+}
+`;
+}
+
+export function getThemeFiles(theme: WorkspaceTheme): Record<string, string> {
+  return { [THEME_CSS_PATH]: renderThemeCss(theme), [BRAND_MODULE_PATH]: renderBrandModule(theme) };
+}
+
+/**
+ * Applica il tema ai file di un modulo: riscrive app/theme.css e lib/brand.ts e, se
+ * app/globals.css non importa ancora il tema (moduli precedenti al tema), aggiunge l'import
+ * dopo quello di Tailwind. Il resto di app/globals.css (stili del modulo) resta invariato.
+ */
+export function withTheme(files: Record<string, string>, theme: WorkspaceTheme): Record<string, string> {
+  const result = { ...files, ...getThemeFiles(theme) };
+  const globals = files[GLOBALS_CSS_PATH];
+  if (globals === undefined) {
+    result[GLOBALS_CSS_PATH] = renderGlobalsCss();
+  } else if (!/@import\s+["']\.\/theme\.css["']/.test(globals)) {
+    const tailwindImport = /@import\s+["']tailwindcss["'];?\n?/.exec(globals);
+    result[GLOBALS_CSS_PATH] = tailwindImport
+      ? globals.replace(tailwindImport[0], match => `${match.endsWith('\n') ? match : `${match}\n`}@import "./theme.css";\n`)
+      : `@import "./theme.css";\n${globals}`;
+  }
+  return result;
+}
+
+// Istruzioni per i prompt di generazione e modifica (vuote se il modulo non ha il tema)
+export function getThemePromptInstructions(files: Record<string, string>): string {
+  if (!(THEME_CSS_PATH in files)) {
+    return '';
+  }
+  return `TEMA DEL WORKSPACE:
+- Colori, font, raggi e densità vengono dal tema del workspace (${THEME_CSS_PATH} e ${BRAND_MODULE_PATH} sono generati automaticamente: non scriverli)
+- Usa SOLO i colori del tema: bg-primary text-primary-foreground (azioni principali), bg-secondary, bg-accent, bg-background text-foreground, bg-muted, border-border, text-danger/bg-danger, text-success/bg-success (anche con opacità, es: bg-primary/10)
+- NON usare colori fissi di Tailwind (blue-600, gray-100, ...) né colori esadecimali o stili inline per i colori
+- Raggi con rounded-sm, rounded-md, rounded-lg; spaziature con le normali classi (p-4, gap-2): la densità è già nel tema
+- Font con font-sans e font-mono, senza importare altri font
+- Logo: LOGO_URL da '@/lib/brand' (string | null); se presente mostralo nell'intestazione con <img src={LOGO_URL} alt="" className="h-8" />`;
+}
@@ -0,0 +1,187 @@
+import type * as TypeScript from 'typescript';
+import * as fs from 'fs';
+import * as nodePath from 'path';
+import type { ValidationError } from './code-generation';
+import { TYPE_STUBS } from './type-stubs';
+
+/**
+ * Type-checking TypeScript in memoria dei file generati.
+ * Costruisce un Program con un file system virtuale che contiene i file generati
+ * e gli stub di tipo di React/Next (lib/type-stubs.ts); le lib standard (lib.dom, lib.esnext)
+ * vengono lette dal pacchetto typescript installato.
+ */
+
+const PROJECT_ROOT = '/project';
+
+// Codici diagnostici ignorati perché già coperti da lib/import-graph.ts (import non risolti,
+// export mancanti, pacchetti non dichiarati) o dipendenti dalla completezza degli stub
+const IMPORT_GRAPH_CODES = new Set([
+  1192, // Module has no default export
+  2305, // Module has no exported member
+  2307, // Cannot find module
+  2613, // Module has no default export. Did you mean to use 'import { x } from'?
+  2614, // Module has no exported member. Did you mean to use 'import x from'?
+  2724, // Module has no exported member named. Did you mean...?
+  2792, // Cannot find module. Did you mean to set the 'moduleResolution' option?
+]);
+
+// Cache delle lib standard: vengono parsate una sola volta per processo
+const libSourceFileCache = new Map<string, TypeScript.SourceFile>();
+
+let typeScriptModule: typeof TypeScript | null = null;
+
+async function loadTypeScript(): Promise<typeof TypeScript> {
+  if (!typeScriptModule) {
+    // Usa dynamic import per evitare problemi di bundling (come per esbuild)
+    const imported = await import('typescript');
+    typeScriptModule = (imported as { default?: typeof TypeScript }).default ?? imported;
+  }
+  return typeScriptModule;
+}
+
+function toVirtualPath(relativePath: string): string {
+  return nodePath.posix.join(PROJECT_ROOT, relativePath);
+}
+
+function toRelativePath(virtualPath: string): string {
+  return nodePath.posix.relative(PROJECT_ROOT, virtualPath);
+}
+
+function isTypeScriptFile(path: string): boolean {
+  return /\.(tsx?|jsx?)$/.test(path) && !path.endsWith('.d.ts');
+}
+
+function getCompilerOptions(ts: typeof TypeScript): TypeScript.CompilerOptions {
+  // Stesse opzioni del tsconfig.json in getBaseFiles()
+  return {
+    target: ts.ScriptTarget.ES2017,
+    lib: ['lib.dom.d.ts', 'lib.dom.iterable.d.ts', 'lib.esnext.d.ts'],
+    allowJs: true,
+    skipLibCheck: true,
+    strict: true,
+    noEmit: true,
+    esModuleInterop: true,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    resolveJsonModule: true,
+    isolatedModules: true,
+    jsx: ts.JsxEmit.ReactJSX,
+    baseUrl: PROJECT_ROOT,
+    paths: {
+      '@/*': ['./*'],
+    },
+    types: [],
+  };
+}
+
+function shouldIgnoreDiagnostic(diagnostic: TypeScript.Diagnostic): boolean {
+  return IMPORT_GRAPH_CODES.has(diagnostic.code);
+}
+
+/**
+ * Esegue il type-check dei file generati.
+ * `contextFiles` vengono inclusi nel programma per risolvere gli import
+ * ma i loro errori non vengono riportati (es: file non modificati in /modify).
+ */
+export async function typeCheckFiles(
+  files: Record<string, string>,
+  contextFiles: Record<string, string> = {}
+): Promise<ValidationError[]> {
+  const ts = await loadTypeScript();
+  const options = getCompilerOptions(ts);
+  const libDirectory = nodePath.dirname(ts.getDefaultLibFilePath(options));
+
+  const virtualFiles = new Map<string, string>();
+  for (const [path, content] of Object.entries(TYPE_STUBS)) {
+    virtualFiles.set(toVirtualPath(path), content);
+  }
+  for (const [path, content] of Object.entries({ ...contextFiles, ...files })) {
+    virtualFiles.set(toVirtualPath(path), content);
+  }
+
+  const checkedFiles = new Set(
+    Object.keys(files).filter(isTypeScriptFile).map(toVirtualPath)
+  );
+  const rootNames = [
+    ...Array.from(virtualFiles.keys()).filter(path => isTypeScriptFile(path) && !path.includes('/node_modules/')),
+    toVirtualPath('generated-env.d.ts'),
+    // Sempre incluso (come @types/react in Next.js) per avere JSX e il namespace React globali
+    toVirtualPath('node_modules/react/index.d.ts'),
+  ];
+
+  const isLibFile = (fileName: string) => fileName.startsWith(libDirectory);
+
+  const host: TypeScript.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      if (virtualFiles.has(fileName)) {
+        return ts.createSourceFile(fileName, virtualFiles.get(fileName)!, languageVersion, true);
+      }
+      if (isLibFile(fileName)) {
+        const cached = libSourceFileCache.get(fileName);
+        if (cached) {
+          return cached;
+        }
+        if (!fs.existsSync(fileName)) {
+          return undefined;
+        }
+        const sourceFile = ts.createSourceFile(fileName, fs.readFileSync(fileName, 'utf8'), languageVersion);
+        libSourceFileCache.set(fileName, sourceFile);
+        return sourceFile;
+      }
+      return undefined;
+    },
+    getDefaultLibFileName: (compilerOptions) => ts.getDefaultLibFilePath(compilerOptions),
+    writeFile: () => {},
+    getCurrentDirectory: () => PROJECT_ROOT,
+    getDirectories: () => [],
+    fileExists: (fileName) => virtualFiles.has(fileName) || (isLibFile(fileName) && fs.existsSync(fileName)),
+    readFile: (fileName) => virtualFiles.get(fileName) ?? (isLibFile(fileName) ? fs.readFileSync(fileName, 'utf8') : undefined),
+    directoryExists: (directoryName) => {
+      if (isLibFile(directoryName)) {
+        return true;
+      }
+      const prefix = directoryName.endsWith('/') ? directoryName : `${directoryName}/`;
+      return Array.from(virtualFiles.keys()).some(path => path.startsWith(prefix));
+    },
+    realpath: (path) => path,
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+  };
+
+  const program = ts.createProgram({ rootNames, options, host });
+  const errors: ValidationError[] = [];
+
+  for (const sourceFile of program.getSourceFiles()) {
+    if (!checkedFiles.has(sourceFile.fileName)) {
+      continue;
+    }
+
+    for (const diagnostic of program.getSemanticDiagnostics(sourceFile)) {
+      if (shouldIgnoreDiagnostic(diagnostic)) {
+        continue;
+      }
+
+      const message = `TS${diagnostic.code}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`;
+      const relativePath = toRelativePath(sourceFile.fileName);
+      let location: ValidationError['location'] = null;
+
+      if (diagnostic.start !== undefined) {
+        const { line, character } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start);
+        const lineText = sourceFile.text.split('\n')[line] || '';
+        // Stessa forma delle location di esbuild: line 1-based, column 0-based
+        location = {
+          file: relativePath,
+          line: line + 1,
+          column: character,
+          length: diagnostic.length ?? 0,
+          lineText,
+        };
+      }
+
+      errors.push({ file: relativePath, message, location });
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,335 @@
+/**
+ * Dichiarazioni di tipo minimali per i pacchetti usati dalle app generate.
+ * Vengono caricate nel file system virtuale del type-checker (lib/type-check.ts)
+ * al posto dei veri @types, che non sono disponibili a runtime.
+ * Coprono le API che i prompt chiedono di usare; i membri non dichiarati
+ * non vengono segnalati come errori (vedi filtro in type-check.ts).
+ */
+
+const REACT_STUB = `
+export = React;
+export as namespace React;
+
+declare namespace React {
+  type Key = string | number | bigint;
+  type ReactNode = ReactElement | string | number | bigint | boolean | null | undefined | Iterable<ReactNode> | Promise<ReactNode>;
+  interface ReactElement<P = any> {
+    type: any;
+    props: P;
+    key: string | null;
+  }
+  type JSXElementConstructor<P> = (props: P) => ReactNode | Promise<ReactNode>;
+  type PropsWithChildren<P = unknown> = P & { children?: ReactNode };
+  type FC<P = {}> = (props: P) => ReactNode | Promise<ReactNode>;
+  type FunctionComponent<P = {}> = FC<P>;
+  type Dispatch<A> = (value: A) => void;
+  type SetStateAction<S> = S | ((prevState: S) => S);
+  type DependencyList = readonly unknown[];
+  type EffectCallback = () => void | (() => void);
+  interface MutableRefObject<T> { current: T }
+  interface RefObject<T> { current: T }
+  type Ref<T> = RefObject<T | null> | ((instance: T | null) => void) | null;
+  type CSSProperties = { [property: string]: string | number | undefined };
+
+  interface SyntheticEvent<T = Element, E = Event> {
+    currentTarget: T;
+    target: EventTarget & T;
+    nativeEvent: E;
+    preventDefault(): void;
+    stopPropagation(): void;
+    defaultPrevented: boolean;
+    type: string;
+  }
+  interface FormEvent<T = Element> extends SyntheticEvent<T> {}
+  interface ChangeEvent<T = Element> extends SyntheticEvent<T> { target: EventTarget & T }
+  interface MouseEvent<T = Element> extends SyntheticEvent<T, globalThis.MouseEvent> { clientX: number; clientY: number; button: number }
+  interface KeyboardEvent<T = Element> extends SyntheticEvent<T, globalThis.KeyboardEvent> { key: string; code: string; shiftKey: boolean; ctrlKey: boolean; metaKey: boolean; altKey: boolean }
+  interface FocusEvent<T = Element> extends SyntheticEvent<T, globalThis.FocusEvent> {}
+  type EventHandler<E> = (event: E) => void;
+  type FormEventHandler<T = Element> = EventHandler<FormEvent<T>>;
+  type ChangeEventHandler<T = Element> = EventHandler<ChangeEvent<T>>;
+  type MouseEventHandler<T = Element> = EventHandler<MouseEvent<T>>;
+  type KeyboardEventHandler<T = Element> = EventHandler<KeyboardEvent<T>>;
+
+  interface DOMAttributes<T> {
+    children?: ReactNode;
+    dangerouslySetInnerHTML?: { __html: string };
+    onClick?: MouseEventHandler<T>;
+    onDoubleClick?: MouseEventHandler<T>;
+    onMouseEnter?: MouseEventHandler<T>;
+    onMouseLeave?: MouseEventHandler<T>;
+    onChange?: ChangeEventHandler<T>;
+    onInput?: FormEventHandler<T>;
+    onSubmit?: FormEventHandler<T>;
+    onKeyDown?: KeyboardEventHandler<T>;
+    onKeyUp?: KeyboardEventHandler<T>;
+    onFocus?: EventHandler<FocusEvent<T>>;
+    onBlur?: EventHandler<FocusEvent<T>>;
+  }
+  interface HTMLAttributes<T> extends DOMAttributes<T> {
+    key?: Key | null;
+    ref?: Ref<T>;
+    className?: string;
+    id?: string;
+    style?: CSSProperties;
+    title?: string;
+    role?: string;
+    tabIndex?: number;
+    hidden?: boolean;
+    [attribute: string]: unknown;
+  }
+  interface InputHTMLAttributes<T> extends HTMLAttributes<T> {
+    type?: string;
+    value?: string | readonly string[] | number;
+    defaultValue?: string | readonly string[] | number;
+    checked?: boolean;
+    placeholder?: string;
+    required?: boolean;
+    disabled?: boolean;
+    name?: string;
+    min?: number | string;
+    max?: number | string;
+    step?: number | string;
+  }
+  interface ButtonHTMLAttributes<T> extends HTMLAttributes<T> {
+    type?: 'submit' | 'reset' | 'button';
+    disabled?: boolean;
+  }
+
+  function useState<S>(initialState: S | (() => S)): [S, Dispatch<SetStateAction<S>>];
+  function useState<S = undefined>(): [S | undefined, Dispatch<SetStateAction<S | undefined>>];
+  function useEffect(effect: EffectCallback, deps?: DependencyList): void;
+  function useLayoutEffect(effect: EffectCallback, deps?: DependencyList): void;
+  function useMemo<T>(factory: () => T, deps: DependencyList): T;
+  function useCallback<T extends Function>(callback: T, deps: DependencyList): T;
+  function useRef<T>(initialValue: T): MutableRefObject<T>;
+  function useRef<T>(initialValue: T | null): RefObject<T | null>;
+  function useRef<T = undefined>(): MutableRefObject<T | undefined>;
+  function useReducer<S, A>(reducer: (state: S, action: A) => S, initialState: S): [S, Dispatch<A>];
+  function useContext<T>(context: Context<T>): T;
+  function useId(): string;
+  function useTransition(): [boolean, (callback: () => void) => void];
+  function createContext<T>(defaultValue: T): Context<T>;
+  function use<T>(value: Promise<T> | Context<T>): T;
+  interface Context<T> {
+    Provider: FC<{ value: T; children?: ReactNode }>;
+    Consumer: FC<{ children: (value: T) => ReactNode }>;
+  }
+  const Fragment: FC<{ children?: ReactNode }>;
+  const Suspense: FC<{ children?: ReactNode; fallback?: ReactNode }>;
+  const StrictMode: FC<{ children?: ReactNode }>;
+}
+
+declare global {
+  namespace JSX {
+    type Element = React.ReactElement;
+    interface ElementChildrenAttribute { children: {} }
+    interface IntrinsicAttributes { key?: React.Key | null }
+    interface IntrinsicElements {
+      input: React.InputHTMLAttributes<HTMLInputElement>;
+      textarea: React.InputHTMLAttributes<HTMLTextAreaElement> & { rows?: number; cols?: number };
+      select: React.InputHTMLAttributes<HTMLSelectElement> & { multiple?: boolean };
+      option: React.HTMLAttributes<HTMLOptionElement> & { value?: string | number; selected?: boolean; disabled?: boolean };
+      button: React.ButtonHTMLAttributes<HTMLButtonElement>;
+      form: React.HTMLAttributes<HTMLFormElement> & { action?: string | ((formData: FormData) => void | Promise<void>) };
+      label: React.HTMLAttributes<HTMLLabelElement> & { htmlFor?: string };
+      a: React.HTMLAttributes<HTMLAnchorElement> & { href?: string; target?: string; rel?: string };
+      img: React.HTMLAttributes<HTMLImageElement> & { src?: string; alt?: string; width?: number | string; height?: number | string };
+      [elemName: string]: React.HTMLAttributes<any>;
+    }
+  }
+}
+`;
+
+const REACT_JSX_RUNTIME_STUB = `
+export namespace JSX {
+  type Element = globalThis.JSX.Element;
+  type ElementChildrenAttribute = globalThis.JSX.ElementChildrenAttribute;
+  type IntrinsicAttributes = globalThis.JSX.IntrinsicAttributes;
+  type IntrinsicElements = globalThis.JSX.IntrinsicElements;
+}
+export function jsx(type: any, props: any, key?: any): JSX.Element;
+export function jsxs(type: any, props: any, key?: any): JSX.Element;
+export const Fragment: any;
+`;
+
+const NEXT_STUB = `
+export interface Metadata {
+  title?: string | { default: string; template?: string };
+  description?: string;
+  [key: string]: unknown;
+}
+export interface Viewport { [key: string]: unknown }
+export type NextConfig = Record<string, unknown>;
+`;
+
+const NEXT_LINK_STUB = `
+import type { ReactNode, HTMLAttributes } from 'react';
+export interface LinkProps extends HTMLAttributes<HTMLAnchorElement> {
+  href: string | { pathname?: string; query?: Record<string, string | number | undefined> };
+  replace?: boolean;
+  scroll?: boolean;
+  prefetch?: boolean | null;
+  children?: ReactNode;
+}
+export default function Link(props: LinkProps): JSX.Element;
+`;
+
+const NEXT_NAVIGATION_STUB = `
+export interface AppRouter {
+  push(href: string, options?: { scroll?: boolean }): void;
+  replace(href: string, options?: { scroll?: boolean }): void;
+  back(): void;
+  forward(): void;
+  refresh(): void;
+  prefetch(href: string): void;
+}
+export function useRouter(): AppRouter;
+export function usePathname(): string;
+export function useSearchParams(): URLSearchParams;
+export function useParams<T extends Record<string, string | string[]> = Record<string, string | string[]>>(): T;
+export function redirect(url: string): never;
+export function notFound(): never;
+`;
+
+const NEXT_FONT_GOOGLE_STUB = `
+interface FontOptions {
+  variable?: string;
+  subsets?: string[];
+  weight?: string | string[];
+  display?: string;
+}
+interface FontResult {
+  className: string;
+  variable: string;
+  style: { fontFamily: string };
+}
+type FontLoader = (options?: FontOptions) => FontResult;
+export const Geist: FontLoader;
+export const Geist_Mono: FontLoader;
+export const Inter: FontLoader;
+export const Roboto: FontLoader;
+export const Roboto_Mono: FontLoader;
+export const Open_Sans: FontLoader;
+export const Lato: FontLoader;
+export const Montserrat: FontLoader;
+export const Poppins: FontLoader;
+`;
+
+const NEXT_IMAGE_STUB = `
+import type { HTMLAttributes } from 'react';
+export interface ImageProps extends HTMLAttributes<HTMLImageElement> {
+  src: string;
+  alt: string;
+  width?: number;
+  height?: number;
+  fill?: boolean;
+  priority?: boolean;
+}
+export default function Image(props: ImageProps): JSX.Element;
+`;
+
+const NEXT_SERVER_STUB = `
+export declare class NextRequest extends Request {
+  nextUrl: URL;
+}
+export declare class NextResponse<T = unknown> extends Response {
+  static json<T>(body: T, init?: ResponseInit): NextResponse<T>;
+  static redirect(url: string | URL, status?: number): NextResponse;
+  static next(init?: ResponseInit): NextResponse;
+}
+`;
+
+const SUPABASE_STUB = `
+export interface PostgrestError {
+  message: string;
+  details: string;
+  hint: string;
+  code: string;
+}
+export interface PostgrestResponse<T> {
+  data: T | null;
+  error: PostgrestError | null;
+  count?: number | null;
+}
+export interface PostgrestFilterBuilder<T> extends PromiseLike<PostgrestResponse<T[]>> {
+  select(columns?: string): PostgrestFilterBuilder<T>;
+  eq(column: string, value: unknown): PostgrestFilterBuilder<T>;
+  neq(column: string, value: unknown): PostgrestFilterBuilder<T>;
+  gt(column: string, value: unknown): PostgrestFilterBuilder<T>;
+  gte(column: string, value: unknown): PostgrestFilterBuilder<T>;
+  lt(column: string, value: unknown): PostgrestFilterBuilder<T>;
+  lte(column: string, value: unknown): PostgrestFilterBuilder<T>;
+  like(column: string, pattern: string): PostgrestFilterBuilder<T>;
+  ilike(column: string, pattern: string): PostgrestFilterBuilder<T>;
+  in(column: string, values: unknown[]): PostgrestFilterBuilder<T>;
+  is(column: string, value: unknown): PostgrestFilterBuilder<T>;
+  or(filters: string): PostgrestFilterBuilder<T>;
+  order(column: string, options?: { ascending?: boolean }): PostgrestFilterBuilder<T>;
+  limit(count: number): PostgrestFilterBuilder<T>;
+  range(from: number, to: number): PostgrestFilterBuilder<T>;
+  single(): PromiseLike<PostgrestResponse<T>>;
+  maybeSingle(): PromiseLike<PostgrestResponse<T>>;
+}
+export interface PostgrestQueryBuilder<T> {
+  select(columns?: string, options?: { count?: 'exact' | 'planned' | 'estimated' }): PostgrestFilterBuilder<T>;
+  insert(values: Partial<T> | Partial<T>[]): PostgrestFilterBuilder<T>;
+  update(values: Partial<T>): PostgrestFilterBuilder<T>;
+  upsert(values: Partial<T> | Partial<T>[]): PostgrestFilterBuilder<T>;
+  delete(): PostgrestFilterBuilder<T>;
+}
+export interface SupabaseClient {
+  from<T = any>(table: string): PostgrestQueryBuilder<T>;
+  rpc<T = any>(fn: string, params?: Record<string, unknown>): PromiseLike<PostgrestResponse<T>>;
+}
+export function createClient(url: string, key: string, options?: Record<string, unknown>): SupabaseClient;
+`;
+
+const FRAMER_MOTION_STUB = `
+import type { FC, HTMLAttributes, ReactNode } from 'react';
+type MotionProps = HTMLAttributes<HTMLElement> & {
+  initial?: unknown;
+  animate?: unknown;
+  exit?: unknown;
+  transition?: unknown;
+  variants?: unknown;
+  whileHover?: unknown;
+  whileTap?: unknown;
+  layout?: boolean;
+};
+export const motion: { [tag: string]: FC<MotionProps> };
+export const AnimatePresence: FC<{ children?: ReactNode; mode?: 'sync' | 'wait' | 'popLayout'; initial?: boolean }>;
+`;
+
+const ASSETS_STUB = `
+declare module '*.css';
+declare module '*.svg' {
+  const content: string;
+  export default content;
+}
+declare module '*.png' {
+  const content: string;
+  export default content;
+}
+declare namespace NodeJS {
+  interface ProcessEnv { [key: string]: string | undefined }
+}
+declare var process: { env: NodeJS.ProcessEnv };
+`;
+
+// Path virtuali (relativi alla root del progetto) -> contenuto della dichiarazione
+export const TYPE_STUBS: Record<string, string> = {
+  'node_modules/react/index.d.ts': REACT_STUB,
+  'node_modules/react/jsx-runtime.d.ts': REACT_JSX_RUNTIME_STUB,
+  'node_modules/react-dom/index.d.ts': 'export {};',
+  'node_modules/next/index.d.ts': NEXT_STUB,
+  'node_modules/next/link.d.ts': NEXT_LINK_STUB,
+  'node_modules/next/navigation.d.ts': NEXT_NAVIGATION_STUB,
+  'node_modules/next/image.d.ts': NEXT_IMAGE_STUB,
+  'node_modules/next/server.d.ts': NEXT_SERVER_STUB,
+  'node_modules/next/font/google.d.ts': NEXT_FONT_GOOGLE_STUB,
+  'node_modules/@supabase/supabase-js/index.d.ts': SUPABASE_STUB,
+  'node_modules/framer-motion/index.d.ts': FRAMER_MOTION_STUB,
+  'generated-env.d.ts': ASSETS_STUB,
+};
+
@@ -1,6 +1,6 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { parseClaudeResponse } from './code-generation';
-import { getBaseFiles } from './code-generation';
+import { applyDependencyUpdate, getDependencyPromptInstructions } from './dependency-policy';
+import { AUTO_FIX_TOOLS, FORCE_TOOL_USE, applyStructuredOutput, parseStructuredResponse } from './structured-output';
+import type { LlmProvider } from './llm-provider';
 
 /**
  * Recupera i log di build da Vercel per un deployment specifico
@@ -249,7 +249,7 @@ export async function autoFixBuildErrors(
   errorSummary: string,
   currentFiles: Record<string, string>,
   originalPrompt: string,
-  anthropic: Anthropic,
+  llm: LlmProvider,
   attempt: number = 1
 ): Promise<{ success: boolean; fixedFiles: Record<string, string>; explanation: string }> {
   console.log(`[AUTO-FIX] Tentativo ${attempt}: generazione fix automatico...`);
@@ -290,26 +290,26 @@ ISTRUZIONI CRITICHE:
 1. Analizza i log di build per identificare l'errore specifico
 2. Modifica SOLO i file necessari per fixare l'errore
 3. Assicurati che il codice sia COMPLETO e COMPILABILE
-4. Se manca un modulo, aggiungilo a package.json
+4. Se manca un modulo, aggiungilo con update_dependencies
 5. Se c'è un errore di sintassi, correggilo
 6. Se c'è un errore di tipo TypeScript, correggilo
 7. Mantieni la compatibilità con il resto del codice
 8. NON modificare file che non sono correlati all'errore
 
-OUTPUT FORMAT:
-=== MODIFIED: path/to/file.tsx ===
-[codice completo del file modificato]
+${getDependencyPromptInstructions()}
 
-=== PACKAGE_JSON_UPDATE ===
-[se necessario, solo le dipendenze da aggiungere/modificare in formato JSON]
-
-=== EXPLANATION ===
-[breve spiegazione del fix applicato in italiano]`;
+OUTPUT FORMAT (solo tramite strumenti):
+- write_file: codice completo di ogni file modificato
+- delete_file: solo se un file va rimosso
+- update_dependencies: se necessario, solo le dipendenze da aggiungere/modificare
+- explanation: breve spiegazione del fix applicato in italiano`;
 
   try {
-    const message = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 4000,
+    const message = await llm.createMessage({
+      callType: 'auto-fix',
+      maxTokens: 4000,
+      tools: AUTO_FIX_TOOLS,
+      toolChoice: FORCE_TOOL_USE,
       messages: [
         {
           role: 'user',
@@ -318,69 +318,30 @@ OUTPUT FORMAT:
       ],
     });
 
-    const responseText = message.content
-      .map((block) => (block.type === 'text' ? block.text : ''))
-      .join('\n');
-
-    // Parsea la risposta
-    const fixedFiles: Record<string, string> = { ...currentFiles };
-    let explanation = '';
-
-    // Estrai file modificati
-    const modifiedPattern = /=== MODIFIED: (.+?) ===\n([\s\S]*?)(?=\n=== (?:MODIFIED|PACKAGE_JSON_UPDATE|EXPLANATION):|$)/g;
-    let match;
-    while ((match = modifiedPattern.exec(responseText)) !== null) {
-      const filename = match[1].trim();
-      let content = match[2].trim();
-      content = content.replace(/^```[\w]*\n?/gm, '').replace(/\n?```$/gm, '').trim();
-      if (filename && content) {
-        fixedFiles[filename] = content;
-        console.log(`[AUTO-FIX] File modificato: ${filename}`);
-      }
-    }
+    // Parsea la risposta strutturata (fallback al formato testuale legacy)
+    const parsed = parseStructuredResponse(message);
+    const structuredFiles = applyStructuredOutput(currentFiles, parsed);
+    const explanation = parsed.explanation || '';
 
-    // Estrai aggiornamenti package.json
-    const packageJsonPattern = /=== PACKAGE_JSON_UPDATE ===\n([\s\S]*?)(?=\n=== (?:MODIFIED|EXPLANATION):|$)/g;
-    const packageMatch = packageJsonPattern.exec(responseText);
-    if (packageMatch) {
-      try {
-        const packageUpdates = JSON.parse(packageMatch[1].trim());
-        const baseFiles = getBaseFiles();
-        const currentPackageJson = JSON.parse(baseFiles['package.json'] || '{}');
-        
-        // Merge delle dipendenze
-        if (packageUpdates.dependencies) {
-          currentPackageJson.dependencies = {
-            ...currentPackageJson.dependencies,
-            ...packageUpdates.dependencies,
-          };
-        }
-        if (packageUpdates.devDependencies) {
-          currentPackageJson.devDependencies = {
-            ...currentPackageJson.devDependencies,
-            ...packageUpdates.devDependencies,
-          };
-        }
-        
-        fixedFiles['package.json'] = JSON.stringify(currentPackageJson, null, 2);
-        console.log('[AUTO-FIX] package.json aggiornato');
-      } catch (e) {
-        console.warn('[AUTO-FIX] Impossibile parsare aggiornamenti package.json');
-      }
+    for (const filename of Object.keys(parsed.files)) {
+      console.log(`[AUTO-FIX] File modificato: ${filename}`);
+    }
+    for (const filename of parsed.deletedFiles) {
+      console.log(`[AUTO-FIX] File rimosso: ${filename}`);
     }
 
-    // Estrai explanation
-    const explanationPattern = /=== EXPLANATION ===\n([\s\S]*?)(?=\n=== |$)/g;
-    const explanationMatch = explanationPattern.exec(responseText);
-    if (explanationMatch) {
-      explanation = explanationMatch[1].trim();
+    // Aggiornamenti package.json: validati dalla politica delle dipendenze e uniti al package.json attuale
+    const dependencies = applyDependencyUpdate(structuredFiles, parsed.dependencyUpdate);
+    const fixedFiles = dependencies.files;
+    if (dependencies.accepted.length > 0) {
+      console.log('[AUTO-FIX] package.json aggiornato');
     }
 
     if (Object.keys(fixedFiles).length === Object.keys(currentFiles).length && 
         JSON.stringify(fixedFiles) === JSON.stringify(currentFiles)) {
       console.warn('[AUTO-FIX] Nessuna modifica generata, riprovo...');
       // Se non ci sono modifiche, riprova con più contesto
-      return autoFixBuildErrors(logs, errorSummary, currentFiles, originalPrompt, anthropic, attempt + 1);
+      return autoFixBuildErrors(logs, errorSummary, currentFiles, originalPrompt, llm, attempt + 1);
     }
 
     console.log(`[AUTO-FIX] ✅ Fix generato: ${Object.keys(fixedFiles).length} file, explanation: ${explanation.substring(0, 100)}`);
@@ -3,7 +3,9 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   // Escludi esbuild e i suoi pacchetti nativi dal bundling (Next.js 16)
+  // typescript viene usato a runtime per il type-check dei file generati (legge le lib .d.ts dal disco)
   serverExternalPackages: [
+    'typescript',
     'esbuild',
     '@esbuild/darwin-arm64',
     '@esbuild/darwin-x64',
@@ -12,6 +14,10 @@ const nextConfig: NextConfig = {
     '@esbuild/win32-arm64',
     '@esbuild/win32-x64',
   ],
+  // I template di modulo (templates/<id>/) vengono letti da disco a runtime dalle API
+  outputFileTracingIncludes: {
+    '/api/**/*': ['./templates/**/*'],
+  },
   // Configurazione Turbopack (vuota per ora, ma necessaria per evitare errori)
   turbopack: {},
 };
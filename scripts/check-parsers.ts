@@ -0,0 +1,56 @@
+/**
+ * Verifica dei parser senza database né chiamate esterne: `npm run parsers:check`.
+ * Parser del DDL delle migration (lib/ddl-parser.ts) e diff unificati di edit_file (lib/file-patch.ts).
+ */
+import { applyMigrationToSchema, renderSchemaSql } from '../lib/ddl-parser';
+import { applyFilePatch } from '../lib/file-patch';
+
+function check(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Verifica fallita: ${message}`);
+  }
+  console.log(`[PARSERS-CHECK] ✓ ${message}`);
+}
+
+function checkDdlParser(): void {
+  const created = applyMigrationToSchema(null, `CREATE TABLE customers (id UUID PRIMARY KEY, email TEXT UNIQUE);
+CREATE TABLE orders (
+  id UUID PRIMARY KEY,
+  customer_id UUID REFERENCES customers(id) ON DELETE CASCADE,
+  status TEXT CHECK (status IN ('draft', 'confirmed'))
+);
+CREATE INDEX orders_status_idx ON orders (status);`);
+  check(!!created.schema && created.errors.length === 0, 'schema di partenza dalle CREATE TABLE');
+
+  // renderSchemaSql scrive CREATE TABLE IF NOT EXISTS: rieseguito su tabelle esistenti non cambia nulla
+  const reapplied = applyMigrationToSchema(created.schema, renderSchemaSql(created.schema));
+  check(reapplied.errors.length === 0, `SQL dello schema riapplicato senza errori${reapplied.errors.length > 0 ? `: ${reapplied.errors.join('; ')}` : ''}`);
+  check(JSON.stringify(reapplied.schema) === JSON.stringify(created.schema), 'schema invariato dopo la riapplicazione');
+
+  const rejected = applyMigrationToSchema(created.schema, 'UPDATE orders SET foo = 1 WHERE bar = 2');
+  check(rejected.schema === null && rejected.errors.length === 1, 'UPDATE su colonne inesistenti rifiutato');
+}
+
+function checkFilePatch(): void {
+  const content = ['uno', 'due', 'tre', 'quattro'].join('\n');
+
+  // Hunk senza contesto: @@ -2,0 +3,1 @@ inserisce dopo la riga 2
+  const inserted = applyFilePatch(content, { path: 'a.ts', diff: '@@ -2,0 +3,1 @@\n+due e mezzo' });
+  check(inserted === ['uno', 'due', 'due e mezzo', 'tre', 'quattro'].join('\n'), 'hunk di sola inserzione dopo la riga indicata');
+
+  const atStart = applyFilePatch(content, { path: 'a.ts', diff: '@@ -0,0 +1,1 @@\n+zero' });
+  check(atStart.split('\n')[0] === 'zero', 'hunk di sola inserzione all\'inizio del file');
+
+  // Lo spostamento di un'inserzione vale anche per gli hunk successivi
+  const twoHunks = applyFilePatch(content, { path: 'a.ts', diff: '@@ -1,0 +2,1 @@\n+uno e mezzo\n@@ -3,1 +4,1 @@\n-tre\n+TRE' });
+  check(twoHunks === ['uno', 'uno e mezzo', 'due', 'TRE', 'quattro'].join('\n'), 'hunk successivo a un\'inserzione');
+}
+
+try {
+  checkDdlParser();
+  checkFilePatch();
+  console.log('[PARSERS-CHECK] Tutte le verifiche superate');
+} catch (error) {
+  console.error('[PARSERS-CHECK]', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
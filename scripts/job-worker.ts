@@ -0,0 +1,32 @@
+/**
+ * Entry point del worker dei job: `npm run worker` (continua) o `npm run worker -- --once`
+ * (esegue i job in coda e termina). Legge le credenziali da .env.local/.env come Next.js.
+ */
+import * as fs from 'fs';
+import { getSupabaseClient } from '../lib/supabase/server';
+import { runJobWorker } from '../lib/job-worker';
+
+for (const envFile of ['.env.local', '.env']) {
+  if (fs.existsSync(envFile)) {
+    process.loadEnvFile(envFile);
+  }
+}
+
+const controller = new AbortController();
+const stop = () => {
+  console.log('[WORKER] Arresto richiesto, termino dopo il job corrente...');
+  controller.abort();
+};
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
+
+runJobWorker(getSupabaseClient(), {
+  workerId: process.env.JOB_WORKER_ID,
+  once: process.argv.includes('--once'),
+  signal: controller.signal,
+})
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('[WORKER] Errore fatale:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,55 @@
+/**
+ * Aggiorna la cache dei metadati npm usata da lib/dependency-policy.ts: `npm run deps:metadata`.
+ * Per ogni pacchetto ammesso legge dal registry l'ultima versione stabile (non deprecata) di ogni
+ * major ammessa e riscrive lib/npm-metadata.json. Senza rete la politica continua a usare la cache esistente.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { ALLOWED_PACKAGES, compareVersions } from '../lib/dependency-policy';
+
+const REGISTRY_URL = process.env.NPM_REGISTRY_URL || 'https://registry.npmjs.org';
+const CACHE_PATH = path.join(process.cwd(), 'lib', 'npm-metadata.json');
+
+interface RegistryDocument {
+  'dist-tags'?: { latest?: string };
+  versions?: Record<string, { deprecated?: string }>;
+}
+
+async function fetchPackageMetadata(name: string, majors: number[]) {
+  const response = await fetch(`${REGISTRY_URL}/${name.replace('/', '%2f')}`, {
+    headers: { Accept: 'application/vnd.npm.install-v1+json' },
+  });
+  if (!response.ok) {
+    throw new Error(`Registry ${response.status} per ${name}`);
+  }
+  const document = await response.json() as RegistryDocument;
+  const stableVersions = Object.entries(document.versions || {})
+    .filter(([version, info]) => /^\d+\.\d+\.\d+$/.test(version) && !info.deprecated)
+    .map(([version]) => version)
+    .sort(compareVersions);
+
+  const latestByMajor: Record<string, string> = {};
+  for (const major of majors) {
+    const latest = stableVersions.filter(version => parseInt(version, 10) === major).pop();
+    if (latest) {
+      latestByMajor[major] = latest;
+    }
+  }
+  return { latest: document['dist-tags']?.latest || stableVersions[stableVersions.length - 1], majors: latestByMajor };
+}
+
+async function main() {
+  const packages: Record<string, { latest: string; majors: Record<string, string> }> = {};
+  for (const [name, policy] of Object.entries(ALLOWED_PACKAGES).sort(([a], [b]) => a.localeCompare(b))) {
+    packages[name] = await fetchPackageMetadata(name, policy.majors);
+    console.log(`[DEPS] ${name}: ${Object.values(packages[name].majors).join(', ') || 'nessuna major ammessa pubblicata'}`);
+  }
+  const cache = { updatedAt: new Date().toISOString().substring(0, 10), packages };
+  fs.writeFileSync(CACHE_PATH, `${JSON.stringify(cache, null, 2)}\n`);
+  console.log(`[DEPS] Cache aggiornata: ${CACHE_PATH}`);
+}
+
+main().catch(error => {
+  console.error('[DEPS] Aggiornamento cache fallito:', error);
+  process.exit(1);
+});
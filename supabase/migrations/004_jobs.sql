@@ -0,0 +1,97 @@
+-- ========================================
+-- Migration: Job Queue
+-- Description: Coda persistente per generazione, modifica e deploy dei moduli.
+--              Le route accodano un job e rispondono subito; un worker (npm run worker)
+--              esegue i job fuori dalla richiesta HTTP, con retry e lock.
+-- Date: 2026-10-19
+-- Prerequisites: 002_modular_system.sql (tabella modules e funzione update_updated_at_column)
+-- ========================================
+
+-- ========================================
+-- JOBS: Lavori in background
+-- ========================================
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL, -- 'module.create', 'module.modify', 'module.deploy'
+  module_id UUID REFERENCES modules(id) ON DELETE CASCADE,
+
+  -- Input e output
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  result JSONB, -- Body JSON della risposta (come la vecchia risposta sincrona della route)
+  result_status INTEGER, -- Status HTTP equivalente del risultato
+  error TEXT,
+
+  -- Avanzamento (stessi eventi dello streaming SSE)
+  progress JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- Stato e retry
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- Prima esecuzione possibile (backoff dei retry)
+
+  -- Lock del worker
+  locked_by TEXT,
+  locked_at TIMESTAMP WITH TIME ZONE, -- Aggiornato anche durante l'esecuzione (heartbeat)
+
+  -- Metadata
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_claim ON jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_module ON jobs(module_id);
+
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable all for jobs" ON jobs FOR ALL USING (true);
+
+CREATE TRIGGER update_jobs_updated_at BEFORE UPDATE ON jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- FUNZIONI: claim atomico di un job
+-- ========================================
+
+-- Prende in carico il prossimo job eseguibile (FOR UPDATE SKIP LOCKED: più worker in parallelo
+-- non prendono mai lo stesso job). I job 'running' con lock scaduto (worker crashato o interrotto)
+-- vengono ripresi se hanno ancora tentativi, altrimenti segnati come falliti.
+CREATE OR REPLACE FUNCTION claim_next_job(p_worker_id TEXT, p_lock_timeout_seconds INTEGER DEFAULT 900)
+RETURNS SETOF jobs AS $$
+BEGIN
+  UPDATE jobs
+  SET status = 'failed',
+      error = 'Worker interrotto durante l''esecuzione e tentativi esauriti',
+      finished_at = NOW(),
+      locked_by = NULL,
+      locked_at = NULL
+  WHERE status = 'running'
+    AND locked_at < NOW() - make_interval(secs => p_lock_timeout_seconds)
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE jobs
+  SET status = 'running',
+      attempts = jobs.attempts + 1,
+      locked_by = p_worker_id,
+      locked_at = NOW(),
+      started_at = COALESCE(jobs.started_at, NOW())
+  WHERE jobs.id = (
+    SELECT candidate.id
+    FROM jobs candidate
+    WHERE (candidate.status = 'queued' AND candidate.run_at <= NOW())
+       OR (candidate.status = 'running' AND candidate.locked_at < NOW() - make_interval(secs => p_lock_timeout_seconds))
+    ORDER BY candidate.run_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING jobs.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Comments per documentazione
+COMMENT ON TABLE jobs IS 'Jobs: coda persistente dei lavori lunghi (generazione, modifica, deploy) eseguiti dal worker';
+COMMENT ON COLUMN jobs.progress IS 'Array JSON di eventi di avanzamento (fase, messaggio, timestamp), letto da GET /api/jobs/[id]';
+COMMENT ON COLUMN jobs.run_at IS 'Il job non viene preso in carico prima di questo istante (usato per il backoff dei retry)';
+COMMENT ON COLUMN jobs.locked_at IS 'Ultimo heartbeat del worker: un lock più vecchio del timeout viene considerato abbandonato';
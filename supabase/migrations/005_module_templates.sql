@@ -0,0 +1,46 @@
+-- ========================================
+-- Migration: Module Templates
+-- Description: Template di modulo contribuiti dai workspace (fornitori, fatture, dipendenti, cespiti...).
+--              Si aggiungono ai template built-in in templates/ e partecipano allo stesso matching
+--              per punteggio sul prompt (lib/template-registry.ts).
+-- Date: 2026-10-19
+-- Prerequisites: 002_modular_system.sql (tabella workspaces e funzione update_updated_at_column)
+-- ========================================
+
+-- ========================================
+-- MODULE TEMPLATES: Template per workspace
+-- ========================================
+CREATE TABLE IF NOT EXISTS module_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+
+  -- Identificazione (slug = id del template nel registry; uno slug uguale a un built-in lo sostituisce nel workspace)
+  slug TEXT NOT NULL, -- "suppliers"
+  name TEXT NOT NULL, -- "Anagrafica Fornitori"
+  description TEXT,
+  module_type TEXT, -- stesso valore di modules.type
+  icon TEXT, -- emoji o nome icona
+
+  -- Matching e contenuto
+  keywords JSONB NOT NULL DEFAULT '[]'::jsonb, -- ["fornitore", "fornitori", "acquisti"]
+  default_schema JSONB, -- Stesso formato di module_versions.database_schema
+  files JSONB NOT NULL, -- { "app/page.tsx": "...", "components/SupplierForm.tsx": "..." }
+
+  -- Metadata
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(workspace_id, slug)
+);
+
+CREATE INDEX IF NOT EXISTS idx_module_templates_workspace ON module_templates(workspace_id);
+
+ALTER TABLE module_templates ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable all for module_templates" ON module_templates FOR ALL USING (true);
+
+CREATE TRIGGER update_module_templates_updated_at BEFORE UPDATE ON module_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Comments per documentazione
+COMMENT ON TABLE module_templates IS 'Module templates: template di fallback/partenza contribuiti da un workspace, in aggiunta a quelli built-in';
+COMMENT ON COLUMN module_templates.keywords IS 'Parole chiave per il matching sul prompt (le frasi di più parole pesano di più)';
@@ -0,0 +1,13 @@
+-- ========================================
+-- Migration: Module Version Spec
+-- Description: Spec strutturata del modulo (entità, campi, validazioni, schermate) confermata dall'utente
+--              prima della generazione. Salvata sulla versione e riportata nelle versioni successive,
+--              così le modifiche iterative partono dalla stessa spec.
+-- Date: 2026-10-19
+-- Prerequisites: 002_modular_system.sql (tabella module_versions)
+-- ========================================
+
+ALTER TABLE module_versions
+  ADD COLUMN IF NOT EXISTS spec JSONB; -- ModuleSpec (lib/entity-spec.ts), NULL per i moduli generati solo da prompt
+
+COMMENT ON COLUMN module_versions.spec IS 'Spec del modulo confermata dall''utente (entità, campi, validazioni, schermate)';
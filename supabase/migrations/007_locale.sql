@@ -0,0 +1,17 @@
+-- ========================================
+-- Migration: Locale
+-- Description: Lingua delle app generate. Il workspace ha una lingua di default, il modulo può
+--              sovrascriverla (NULL = eredita dal workspace). I testi delle app stanno nei cataloghi
+--              messages/<locale>.json dei file della versione (lib/locale.ts).
+-- Date: 2026-10-19
+-- Prerequisites: 002_modular_system.sql (tabelle workspaces e modules)
+-- ========================================
+
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'it' CHECK (locale IN ('it', 'en', 'de'));
+
+ALTER TABLE modules
+  ADD COLUMN IF NOT EXISTS locale TEXT CHECK (locale IN ('it', 'en', 'de'));
+
+COMMENT ON COLUMN workspaces.locale IS 'Lingua di default dei moduli generati nel workspace';
+COMMENT ON COLUMN modules.locale IS 'Lingua di default del modulo (NULL = lingua del workspace)';
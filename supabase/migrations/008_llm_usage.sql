@@ -0,0 +1,35 @@
+-- ========================================
+-- Migration: LLM Usage
+-- Description: Contabilità delle chiamate LLM (creazione, modifica, fix, auto-fix, traduzione):
+--              token di input/output, modello, latenza e costo stimato, legati a workspace,
+--              modulo e versione del modulo (lib/llm-usage.ts). Letta da GET /api/workspaces/[id]/usage.
+-- Date: 2026-10-19
+-- Prerequisites: 002_modular_system.sql (tabelle workspaces, modules e module_versions)
+-- ========================================
+
+-- ========================================
+-- LLM USAGE: Una riga per chiamata al modello
+-- ========================================
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  module_id UUID REFERENCES modules(id) ON DELETE SET NULL,
+  module_version_id UUID REFERENCES module_versions(id) ON DELETE SET NULL, -- NULL finché la versione non è salvata
+
+  -- Chiamata
+  call_type TEXT NOT NULL CHECK (call_type IN ('create', 'modify', 'fix', 'auto-fix', 'spec', 'translate', 'generate')),
+  model TEXT NOT NULL, -- "claude-sonnet-4-20250514"
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12,6) NOT NULL DEFAULT 0, -- Stima con i prezzi al momento della chiamata
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_workspace_created ON llm_usage(workspace_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_module ON llm_usage(module_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_version ON llm_usage(module_version_id);
+
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable all for llm_usage" ON llm_usage FOR ALL USING (true);
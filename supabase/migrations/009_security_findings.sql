@@ -0,0 +1,15 @@
+-- ========================================
+-- Migration: Security Findings
+-- Description: Risultati dell'analisi statica di sicurezza del codice generato (lib/security-scan.ts)
+--              salvati sulla versione. Con risultati di gravità 'high' il deploy è bloccato
+--              (status 'blocked') salvo override esplicito, registrato in security_override.
+-- Date: 2026-10-19
+-- Prerequisites: 002_modular_system.sql (tabella module_versions)
+-- ========================================
+
+ALTER TABLE module_versions
+  ADD COLUMN IF NOT EXISTS security_findings JSONB, -- SecurityFinding[] (lib/security-scan.ts), NULL per le versioni non analizzate
+  ADD COLUMN IF NOT EXISTS security_override BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN module_versions.security_findings IS 'Risultati dell''analisi di sicurezza (regola, gravità, file, riga)';
+COMMENT ON COLUMN module_versions.security_override IS 'Deploy forzato nonostante risultati di gravità high';
@@ -0,0 +1,23 @@
+-- ========================================
+-- Migration: Stack Profiles
+-- Description: Profilo di stack delle app generate (versioni di Next, React e Tailwind, lib/stack-profiles.ts).
+--              Il workspace ha un profilo di default, il modulo può sovrascriverlo (NULL = eredita dal
+--              workspace). Ogni versione registra il profilo con cui è stata generata: promozioni e rebuild
+--              usano gli stessi file base. NULL sulle versioni esistenti = next15-tailwind4.
+-- Date: 2026-10-19
+-- Prerequisites: 002_modular_system.sql (tabelle workspaces, modules e module_versions)
+-- ========================================
+
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS stack_profile TEXT NOT NULL DEFAULT 'next15-tailwind4'
+    CHECK (stack_profile IN ('next15-tailwind4', 'next16-tailwind4'));
+
+ALTER TABLE modules
+  ADD COLUMN IF NOT EXISTS stack_profile TEXT CHECK (stack_profile IN ('next15-tailwind4', 'next16-tailwind4'));
+
+ALTER TABLE module_versions
+  ADD COLUMN IF NOT EXISTS stack_profile TEXT CHECK (stack_profile IN ('next15-tailwind4', 'next16-tailwind4'));
+
+COMMENT ON COLUMN workspaces.stack_profile IS 'Profilo di stack di default dei moduli generati nel workspace';
+COMMENT ON COLUMN modules.stack_profile IS 'Profilo di stack del modulo (NULL = profilo del workspace)';
+COMMENT ON COLUMN module_versions.stack_profile IS 'Profilo di stack con cui è stata generata la versione (NULL = next15-tailwind4)';
@@ -0,0 +1,14 @@
+-- ========================================
+-- Migration: Workspace Theme
+-- Description: Tema delle app generate (palette, font, raggio, densità e logo, lib/theme.ts).
+--              Emesso nei file app/theme.css e lib/brand.ts dei moduli; cambiando tema i moduli
+--              vengono ridistribuiti dal job 'module.theme' senza chiamate LLM.
+--              NULL = tema di default.
+-- Date: 2026-10-19
+-- Prerequisites: 002_modular_system.sql (tabella workspaces)
+-- ========================================
+
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS theme JSONB CHECK (theme IS NULL OR jsonb_typeof(theme) = 'object');
+
+COMMENT ON COLUMN workspaces.theme IS 'Tema delle app generate: { palette, fontSans, fontMono, radius, density, logoUrl } (NULL = tema di default)';
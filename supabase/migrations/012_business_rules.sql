@@ -0,0 +1,15 @@
+-- ========================================
+-- Migration: Business Rules
+-- Description: Regole di business dichiarative delle versioni (intervalli, obbligatorietà condizionate,
+--              confronti tra campi, unicità; lib/business-rules.ts). Generano lib/rules.ts nelle app
+--              e i vincoli CHECK/UNIQUE nella migration del modulo; si modificano senza nuovo prompt
+--              con il job 'module.rules'.
+-- Date: 2026-10-19
+-- Prerequisites: 002_modular_system.sql (tabella module_versions)
+-- ========================================
+
+ALTER TABLE module_versions
+  ADD COLUMN IF NOT EXISTS business_rules JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(business_rules) = 'array');
+
+COMMENT ON COLUMN module_versions.business_rules IS 'Regole di business: [{ id, table, type: range | required-if | compare | unique, message, ... }]';
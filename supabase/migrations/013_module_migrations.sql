@@ -0,0 +1,41 @@
+-- ========================================
+-- Migration: Module Migrations
+-- Description: Migration SQL salvate sulle versioni (migration_sql e down migration per il rollback)
+--              e storico delle migration applicate ai database dei moduli (lib/migration-runner.ts).
+--              Il runner crea module_migrations anche da sé nel database di ogni ambiente
+--              (MODULE_DATABASE_URL): qui serve quando i moduli usano il database della piattaforma.
+-- Date: 2026-10-19
+-- Prerequisites: 002_modular_system.sql (tabella module_versions)
+-- ========================================
+
+-- NULL = versione creata prima del migration runner (coperta dalla migration di base con lo schema completo)
+ALTER TABLE module_versions
+  ADD COLUMN IF NOT EXISTS migration_sql TEXT,
+  ADD COLUMN IF NOT EXISTS migration_down_sql TEXT;
+
+COMMENT ON COLUMN module_versions.migration_sql IS 'Migration della versione rispetto alla versione padre (DDL e vincoli delle regole di business)';
+COMMENT ON COLUMN module_versions.migration_down_sql IS 'Migration inversa generata da lib/ddl-parser.ts, eseguita dal rollback';
+
+-- ========================================
+-- MODULE_MIGRATIONS: Storico per modulo e ambiente
+-- ========================================
+CREATE TABLE IF NOT EXISTS module_migrations (
+  id BIGSERIAL PRIMARY KEY,
+  module_id UUID NOT NULL,
+  version_id UUID NOT NULL, -- Versione che ha introdotto la migration
+  version_number INTEGER NOT NULL,
+  environment TEXT NOT NULL CHECK (environment IN ('dev', 'staging', 'production')),
+  name TEXT NOT NULL, -- 'v3', o 'v2-base' per lo schema delle versioni precedenti al runner
+  checksum TEXT NOT NULL, -- sha256 di up_sql
+  up_sql TEXT NOT NULL,
+  down_sql TEXT NOT NULL DEFAULT '',
+  status TEXT NOT NULL CHECK (status IN ('applied', 'rolled_back', 'failed')),
+  error TEXT,
+  applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  rolled_back_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_module_migrations_module ON module_migrations(module_id, environment, version_id);
+
+ALTER TABLE module_migrations ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable all for module_migrations" ON module_migrations FOR ALL USING (true);
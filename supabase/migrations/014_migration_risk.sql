@@ -0,0 +1,15 @@
+-- ========================================
+-- Migration: Migration Risk
+-- Description: Classificazione di rischio della migration di ogni versione (lib/migration-risk.ts:
+--              statement sicuri, da preparare con un backfill o distruttivi). Con statement a rischio
+--              la promozione in STAGING/PROD richiede conferma esplicita, registrata in migration_risk_confirmed.
+-- Date: 2026-10-19
+-- Prerequisites: 013_module_migrations.sql (migration_sql sulle versioni)
+-- ========================================
+
+ALTER TABLE module_versions
+  ADD COLUMN IF NOT EXISTS migration_risk JSONB, -- MigrationRiskReport (lib/migration-risk.ts), NULL per le versioni non analizzate
+  ADD COLUMN IF NOT EXISTS migration_risk_confirmed BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN module_versions.migration_risk IS 'Classificazione degli statement della migration (safe, backfill, destructive) e tabelle coinvolte';
+COMMENT ON COLUMN module_versions.migration_risk_confirmed IS 'Promozione confermata nonostante migration distruttive o da preparare con un backfill';
@@ -0,0 +1,52 @@
+-- ========================================
+-- Migration: Job Reclaim
+-- Description: claim_next_job non riprende più i job 'running' con lock scaduto che hanno già
+--              riportato avanzamento: il worker riporta la prima fase prima di qualsiasi effetto
+--              (chiamate LLM, versioni salvate, puntatori, push), quindi ripeterli li duplicherebbe.
+--              Come per gli errori dopo l'avvio (lib/job-worker.ts) vengono segnati come falliti.
+-- Date: 2026-10-19
+-- Prerequisites: 004_jobs.sql (tabella jobs e claim_next_job)
+-- ========================================
+
+CREATE OR REPLACE FUNCTION claim_next_job(p_worker_id TEXT, p_lock_timeout_seconds INTEGER DEFAULT 900)
+RETURNS SETOF jobs AS $$
+BEGIN
+  -- Lock scaduto dopo l'avvio del lavoro (avanzamento registrato) o a tentativi esauriti: job fallito
+  UPDATE jobs
+  SET status = 'failed',
+      error = CASE
+        WHEN jsonb_array_length(progress) > 0
+          THEN 'Worker interrotto durante l''esecuzione dopo l''avvio del lavoro: il job non viene ripetuto'
+        ELSE 'Worker interrotto durante l''esecuzione e tentativi esauriti'
+      END,
+      result = jsonb_build_object('success', FALSE, 'error', 'Worker interrotto durante l''esecuzione'),
+      result_status = 500,
+      finished_at = NOW(),
+      locked_by = NULL,
+      locked_at = NULL
+  WHERE status = 'running'
+    AND locked_at < NOW() - make_interval(secs => p_lock_timeout_seconds)
+    AND (attempts >= max_attempts OR jsonb_array_length(progress) > 0);
+
+  -- Restano da riprendere solo i job interrotti prima del primo evento di avanzamento
+  RETURN QUERY
+  UPDATE jobs
+  SET status = 'running',
+      attempts = jobs.attempts + 1,
+      locked_by = p_worker_id,
+      locked_at = NOW(),
+      started_at = COALESCE(jobs.started_at, NOW())
+  WHERE jobs.id = (
+    SELECT candidate.id
+    FROM jobs candidate
+    WHERE (candidate.status = 'queued' AND candidate.run_at <= NOW())
+       OR (candidate.status = 'running' AND candidate.locked_at < NOW() - make_interval(secs => p_lock_timeout_seconds))
+    ORDER BY candidate.run_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING jobs.*;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION claim_next_job(TEXT, INTEGER) IS 'Prende in carico il prossimo job; i job interrotti dopo il primo evento di avanzamento sono segnati come falliti, non ripresi';
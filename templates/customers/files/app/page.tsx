@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import CustomerForm from '@/components/CustomerForm';
+import { t } from '@/lib/i18n';
+import { useCustomers, type CustomersInput } from '@/lib/tables';
+
+export default function Home() {
+  const { items: customers, loaded, error, configured, create } = useCustomers();
+  const [showForm, setShowForm] = useState(false);
+  const [filterType, setFilterType] = useState<'tutti' | 'cliente' | 'fornitore'>('tutti');
+
+  const handleAddCustomer = async (customerData: CustomersInput) => {
+    if (await create(customerData)) {
+      setShowForm(false);
+    }
+  };
+
+  const filteredCustomers = filterType === 'tutti' 
+    ? customers 
+    : customers.filter(c => c.tipo === filterType);
+
+  const clientiCount = customers.filter(c => c.tipo === 'cliente').length;
+  const fornitoriCount = customers.filter(c => c.tipo === 'fornitore').length;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl font-bold">{t('customers.title')}</h1>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+          >
+            {showForm ? t('common.cancel') : `+ ${t('customers.new')}`}
+          </button>
+        </div>
+
+        {!configured && (
+          <div className="mb-6 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            {t('db.notConfigured')}
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {t('db.error', { message: error })}
+          </div>
+        )}
+
+        {showForm && (
+          <div className="mb-6">
+            <CustomerForm onSubmit={handleAddCustomer} />
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-sm text-gray-600 mb-1">{t('customers.stats.total')}</div>
+            <div className="text-2xl font-bold">{customers.length}</div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-sm text-gray-600 mb-1">{t('customers.stats.customers')}</div>
+            <div className="text-2xl font-bold text-blue-600">{clientiCount}</div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-sm text-gray-600 mb-1">{t('customers.stats.suppliers')}</div>
+            <div className="text-2xl font-bold text-green-600">{fornitoriCount}</div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6 mb-4">
+          <div className="flex gap-2">
+            <button
+              onClick={() => setFilterType('tutti')}
+              className={`px-4 py-2 rounded-lg font-medium ${filterType === 'tutti' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+            >
+              {t('customers.filters.all')}
+            </button>
+            <button
+              onClick={() => setFilterType('cliente')}
+              className={`px-4 py-2 rounded-lg font-medium ${filterType === 'cliente' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+            >
+              {t('customers.filters.customers')}
+            </button>
+            <button
+              onClick={() => setFilterType('fornitore')}
+              className={`px-4 py-2 rounded-lg font-medium ${filterType === 'fornitore' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+            >
+              {t('customers.filters.suppliers')}
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold mb-4">{t('customers.count', { count: filteredCustomers.length })}</h2>
+
+          {!loaded ? (
+            <p className="text-gray-500 text-center py-8">{t('common.loading')}</p>
+          ) : filteredCustomers.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">{t('customers.empty')}</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {filteredCustomers.map((customer) => (
+                <div key={customer.id} className="border rounded-lg p-4 hover:shadow-md transition-shadow">
+                  <div className="flex justify-between items-start mb-2">
+                    <h3 className="font-semibold text-lg">{customer.nome}</h3>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${customer.tipo === 'cliente' ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'}`}>
+                      {t(`customers.types.${customer.tipo}`)}
+                    </span>
+                  </div>
+                  <div className="space-y-1 text-sm text-gray-600">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{t('customers.fields.email')}:</span>
+                      <span>{customer.email}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{t('customers.fields.telefono')}:</span>
+                      <span>{customer.telefono}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{t('customers.fields.indirizzo')}:</span>
+                      <span className="text-xs">{customer.indirizzo}</span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { t } from '@/lib/i18n';
+import type { CustomersInput, CustomersRow } from '@/lib/tables';
+
+interface CustomerFormProps {
+  onSubmit: (customer: CustomersInput) => void;
+  initialData?: CustomersRow;
+}
+
+export default function CustomerForm({ onSubmit, initialData }: CustomerFormProps) {
+  const [nome, setNome] = useState(initialData?.nome || '');
+  const [email, setEmail] = useState(initialData?.email || '');
+  const [telefono, setTelefono] = useState(initialData?.telefono || '');
+  const [indirizzo, setIndirizzo] = useState(initialData?.indirizzo || '');
+  const [tipo, setTipo] = useState<CustomersRow['tipo']>(initialData?.tipo || 'cliente');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!nome.trim() || !email.trim() || !telefono.trim() || !indirizzo.trim()) {
+      alert(t('common.requiredFields'));
+      return;
+    }
+
+    onSubmit({
+      nome: nome.trim(),
+      email: email.trim(),
+      telefono: telefono.trim(),
+      indirizzo: indirizzo.trim(),
+      tipo,
+    });
+
+    // Reset form
+    setNome('');
+    setEmail('');
+    setTelefono('');
+    setIndirizzo('');
+    setTipo('cliente');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold mb-4">{t('customers.new')}</h2>
+      
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium mb-1">{t('customers.fields.nome')} *</label>
+          <input
+            type="text"
+            value={nome}
+            onChange={(e) => setNome(e.target.value)}
+            required
+            className="w-full px-4 py-2 border rounded-lg"
+            placeholder={t('customers.placeholders.nome')}
+          />
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium mb-1">{t('customers.fields.tipo')} *</label>
+          <select
+            value={tipo}
+            onChange={(e) => setTipo(e.target.value as CustomersRow['tipo'])}
+            required
+            className="w-full px-4 py-2 border rounded-lg"
+          >
+            <option value="cliente">{t('customers.types.cliente')}</option>
+            <option value="fornitore">{t('customers.types.fornitore')}</option>
+          </select>
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium mb-1">{t('customers.fields.email')} *</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            className="w-full px-4 py-2 border rounded-lg"
+            placeholder={t('customers.placeholders.email')}
+          />
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium mb-1">{t('customers.fields.telefono')} *</label>
+          <input
+            type="tel"
+            value={telefono}
+            onChange={(e) => setTelefono(e.target.value)}
+            required
+            className="w-full px-4 py-2 border rounded-lg"
+            placeholder="+39 123 456 7890"
+          />
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium mb-1">{t('customers.fields.indirizzo')} *</label>
+          <textarea
+            value={indirizzo}
+            onChange={(e) => setIndirizzo(e.target.value)}
+            required
+            className="w-full px-4 py-2 border rounded-lg"
+            rows={3}
+            placeholder={t('customers.placeholders.indirizzo')}
+          />
+        </div>
+        
+        <button
+          type="submit"
+          className="w-full px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+        >
+          {t('customers.save')}
+        </button>
+      </div>
+    </form>
+  );
+}
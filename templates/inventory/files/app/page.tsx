@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import ProductForm from '@/components/ProductForm';
+import { localeTag, t } from '@/lib/i18n';
+import { useProducts, type ProductsInput } from '@/lib/tables';
+
+const formatCurrency = (value: number) => value.toLocaleString(localeTag, { style: 'currency', currency: 'EUR' });
+
+export default function Home() {
+  const { items: products, loaded, error, configured, create } = useProducts();
+  const [showForm, setShowForm] = useState(false);
+
+  const handleAddProduct = async (productData: ProductsInput) => {
+    if (await create(productData)) {
+      setShowForm(false);
+    }
+  };
+
+  const totalValue = products.reduce((sum, p) => sum + (p.quantita * p.prezzo), 0);
+  const totalItems = products.reduce((sum, p) => sum + p.quantita, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl font-bold">{t('products.title')}</h1>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+          >
+            {showForm ? t('common.cancel') : `+ ${t('products.new')}`}
+          </button>
+        </div>
+
+        {!configured && (
+          <div className="mb-6 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            {t('db.notConfigured')}
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {t('db.error', { message: error })}
+          </div>
+        )}
+
+        {showForm && (
+          <div className="mb-6">
+            <ProductForm onSubmit={handleAddProduct} />
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-sm text-gray-600 mb-1">{t('products.stats.total')}</div>
+            <div className="text-2xl font-bold">{products.length}</div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-sm text-gray-600 mb-1">{t('products.stats.items')}</div>
+            <div className="text-2xl font-bold text-blue-600">{totalItems}</div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-sm text-gray-600 mb-1">{t('products.stats.value')}</div>
+            <div className="text-2xl font-bold text-green-600">{formatCurrency(totalValue)}</div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold mb-4">{t('products.count', { count: products.length })}</h2>
+
+          {!loaded ? (
+            <p className="text-gray-500 text-center py-8">{t('common.loading')}</p>
+          ) : products.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">{t('products.empty')}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">{t('products.fields.nome')}</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">{t('products.fields.categoria')}</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">{t('products.fields.quantita')}</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">{t('products.fields.prezzo')}</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">{t('products.fields.valore')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {products.map((product) => (
+                    <tr key={product.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-medium">{product.nome}</td>
+                      <td className="px-4 py-3 text-sm">{product.categoria}</td>
+                      <td className="px-4 py-3 text-sm">{product.quantita.toLocaleString(localeTag)}</td>
+                      <td className="px-4 py-3 text-sm">{formatCurrency(product.prezzo)}</td>
+                      <td className="px-4 py-3 text-sm font-medium">{formatCurrency(product.quantita * product.prezzo)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
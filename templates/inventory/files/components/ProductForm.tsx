@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { t } from '@/lib/i18n';
+import type { ProductsInput, ProductsRow } from '@/lib/tables';
+
+interface ProductFormProps {
+  onSubmit: (product: ProductsInput) => void;
+  initialData?: ProductsRow;
+}
+
+export default function ProductForm({ onSubmit, initialData }: ProductFormProps) {
+  const [nome, setNome] = useState(initialData?.nome || '');
+  const [categoria, setCategoria] = useState(initialData?.categoria || '');
+  const [quantita, setQuantita] = useState(initialData?.quantita?.toString() || '');
+  const [prezzo, setPrezzo] = useState(initialData?.prezzo?.toString() || '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!nome.trim() || !categoria.trim() || !quantita || !prezzo) {
+      alert(t('common.requiredFields'));
+      return;
+    }
+
+    onSubmit({
+      nome: nome.trim(),
+      categoria: categoria.trim(),
+      quantita: parseInt(quantita),
+      prezzo: parseFloat(prezzo),
+    });
+
+    // Reset form
+    setNome('');
+    setCategoria('');
+    setQuantita('');
+    setPrezzo('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold mb-4">{t('products.new')}</h2>
+      
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium mb-1">{t('products.fields.nome')} *</label>
+          <input
+            type="text"
+            value={nome}
+            onChange={(e) => setNome(e.target.value)}
+            required
+            className="w-full px-4 py-2 border rounded-lg"
+            placeholder={t('products.fields.nome')}
+          />
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium mb-1">{t('products.fields.categoria')} *</label>
+          <input
+            type="text"
+            value={categoria}
+            onChange={(e) => setCategoria(e.target.value)}
+            required
+            className="w-full px-4 py-2 border rounded-lg"
+            placeholder={t('products.fields.categoria')}
+          />
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium mb-1">{t('products.fields.quantita')} *</label>
+          <input
+            type="number"
+            min="0"
+            value={quantita}
+            onChange={(e) => setQuantita(e.target.value)}
+            required
+            className="w-full px-4 py-2 border rounded-lg"
+            placeholder="0"
+          />
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium mb-1">{t('products.fields.prezzo')} (€) *</label>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={prezzo}
+            onChange={(e) => setPrezzo(e.target.value)}
+            required
+            className="w-full px-4 py-2 border rounded-lg"
+            placeholder="0.00"
+          />
+        </div>
+        
+        <button
+          type="submit"
+          className="w-full px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+        >
+          {t('products.save')}
+        </button>
+      </div>
+    </form>
+  );
+}
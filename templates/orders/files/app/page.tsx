@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import OrderForm from '@/components/OrderForm';
+import { localeTag, t } from '@/lib/i18n';
+import { useOrders, type OrdersInput } from '@/lib/tables';
+
+const formatCurrency = (value: number) => value.toLocaleString(localeTag, { style: 'currency', currency: 'EUR' });
+
+export default function Home() {
+  const { items: orders, loaded, error, configured, create } = useOrders();
+  const [showForm, setShowForm] = useState(false);
+
+  const handleAddOrder = async (orderData: OrdersInput) => {
+    if (await create(orderData)) {
+      setShowForm(false);
+    }
+  };
+
+  const getStatusColor = (stato: OrdersInput['stato']) => {
+    switch (stato) {
+      case 'bozza':
+        return 'bg-gray-100 text-gray-800';
+      case 'confermato':
+        return 'bg-blue-100 text-blue-800';
+      case 'spedito':
+        return 'bg-green-100 text-green-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const totalImporto = orders.reduce((sum, order) => sum + order.importo, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl font-bold">{t('orders.title')}</h1>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+          >
+            {showForm ? t('common.cancel') : `+ ${t('orders.new')}`}
+          </button>
+        </div>
+
+        {!configured && (
+          <div className="mb-6 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            {t('db.notConfigured')}
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {t('db.error', { message: error })}
+          </div>
+        )}
+
+        {showForm && (
+          <div className="mb-6">
+            <OrderForm onSubmit={handleAddOrder} />
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold">{t('orders.count', { count: orders.length })}</h2>
+            <div className="text-lg font-bold text-blue-600">
+              {t('orders.total', { amount: formatCurrency(totalImporto) })}
+            </div>
+          </div>
+
+          {!loaded ? (
+            <p className="text-gray-500 text-center py-8">{t('common.loading')}</p>
+          ) : orders.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">{t('orders.empty')}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">{t('orders.fields.cliente')}</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">{t('orders.fields.data')}</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">{t('orders.fields.importo')}</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">{t('orders.fields.stato')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {orders.map((order) => (
+                    <tr key={order.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm">{order.cliente}</td>
+                      <td className="px-4 py-3 text-sm">{new Date(order.data).toLocaleDateString(localeTag)}</td>
+                      <td className="px-4 py-3 text-sm font-medium">{formatCurrency(order.importo)}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(order.stato)}`}>
+                          {t(`orders.status.${order.stato}`)}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
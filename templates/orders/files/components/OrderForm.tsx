@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { t } from '@/lib/i18n';
+import type { OrdersInput, OrdersRow } from '@/lib/tables';
+
+interface OrderFormProps {
+  onSubmit: (order: OrdersInput) => void;
+  initialData?: OrdersRow;
+}
+
+export default function OrderForm({ onSubmit, initialData }: OrderFormProps) {
+  const [cliente, setCliente] = useState(initialData?.cliente || '');
+  const [data, setData] = useState(initialData?.data || new Date().toISOString().split('T')[0]);
+  const [importo, setImporto] = useState(initialData?.importo?.toString() || '');
+  const [stato, setStato] = useState<OrdersRow['stato']>(initialData?.stato || 'bozza');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!cliente.trim() || !importo) {
+      alert(t('common.requiredFields'));
+      return;
+    }
+
+    onSubmit({
+      cliente: cliente.trim(),
+      data,
+      importo: parseFloat(importo),
+      stato,
+    });
+
+    // Reset form
+    setCliente('');
+    setData(new Date().toISOString().split('T')[0]);
+    setImporto('');
+    setStato('bozza');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold mb-4">{t('orders.new')}</h2>
+      
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium mb-1">{t('orders.fields.cliente')} *</label>
+          <input
+            type="text"
+            value={cliente}
+            onChange={(e) => setCliente(e.target.value)}
+            required
+            className="w-full px-4 py-2 border rounded-lg"
+            placeholder={t('orders.placeholders.cliente')}
+          />
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium mb-1">{t('orders.fields.data')} *</label>
+          <input
+            type="date"
+            value={data}
+            onChange={(e) => setData(e.target.value)}
+            required
+            className="w-full px-4 py-2 border rounded-lg"
+          />
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium mb-1">{t('orders.fields.importo')} (€) *</label>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={importo}
+            onChange={(e) => setImporto(e.target.value)}
+            required
+            className="w-full px-4 py-2 border rounded-lg"
+            placeholder="0.00"
+          />
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium mb-1">{t('orders.fields.stato')} *</label>
+          <select
+            value={stato}
+            onChange={(e) => setStato(e.target.value as OrdersRow['stato'])}
+            required
+            className="w-full px-4 py-2 border rounded-lg"
+          >
+            <option value="bozza">{t('orders.status.bozza')}</option>
+            <option value="confermato">{t('orders.status.confermato')}</option>
+            <option value="spedito">{t('orders.status.spedito')}</option>
+          </select>
+        </div>
+        
+        <button
+          type="submit"
+          className="w-full px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+        >
+          {t('orders.save')}
+        </button>
+      </div>
+    </form>
+  );
+}